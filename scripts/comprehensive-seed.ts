@@ -2,7 +2,7 @@ import { config } from 'dotenv';
 import { resolve } from 'path';
 import { drizzle } from 'drizzle-orm/postgres-js';
 import postgres from 'postgres';
-import { products, reviews } from '../src/lib/db/schema';
+import { products, productVariants, reviews } from '../src/lib/db/schema';
 
 // Load environment variables from .env.local
 config({ path: resolve(process.cwd(), '.env.local') });
@@ -25,24 +25,15 @@ const comprehensiveProducts = [
     details: 'EggyPro Original is made from 100% pure egg whites, carefully processed to retain maximum nutritional value. Each serving provides 25g of high-quality protein, essential amino acids, and is virtually fat-free and carb-free. Our eggs are sourced from cage-free farms committed to animal welfare. The powder is instantized for easy mixing, ensuring a smooth, clump-free shake every time. Ideal for post-workout recovery, meal replacement, or boosting your daily protein intake.'
   },
   {
-    name: 'EggyPro Vanilla Dream',
-    slug: 'eggypro-vanilla-dream',
-    description: 'Deliciously smooth vanilla flavored egg white protein. Naturally sweetened for a guilt-free treat.',
+    name: 'EggyPro Classic Flavors',
+    slug: 'eggypro-classic-flavors',
+    description: 'Our two favorite flavors, smooth vanilla and rich chocolate, naturally sweetened and in two tub sizes.',
+    // The cheapest variant and the stock of all of them, as the variants API keeps them
     price: '32.99',
-    stock_quantity: 120,
+    stock_quantity: 215,
     images: ['https://images.unsplash.com/photo-1571019613454-1cb2f99b2d8b?w=600&h=600&fit=crop'],
-    ingredients: ['Egg White Powder', 'Natural Vanilla Flavor', 'Stevia Leaf Extract', 'Sunflower Lecithin'],
-    details: 'Experience the creamy delight of EggyPro Vanilla Dream. This isn\'t just protein; it\'s a treat. We use natural vanilla flavors and sweeten it with stevia, so you can enjoy a delicious shake without any added sugars. With 24g of protein per serving, it helps you build and maintain lean muscle while satisfying your sweet cravings. Sourced from ethical, cage-free farms, because quality and care go hand-in-hand.'
-  },
-  {
-    name: 'EggyPro Chocolate Bliss',
-    slug: 'eggypro-chocolate-bliss',
-    description: 'Rich chocolate flavored egg protein that tastes like dessert but fuels like a champion.',
-    price: '34.99',
-    stock_quantity: 95,
-    images: ['https://images.unsplash.com/photo-1578985545062-69928b1d9587?w=600&h=600&fit=crop'],
-    ingredients: ['Egg White Powder', 'Natural Cocoa Powder', 'Natural Chocolate Flavor', 'Stevia Leaf Extract', 'Sunflower Lecithin'],
-    details: 'Indulge in the rich, decadent taste of EggyPro Chocolate Bliss. Made with premium cocoa powder and natural chocolate flavoring, this protein powder delivers 25g of complete protein per serving while satisfying your chocolate cravings. Perfect for post-workout shakes, smoothie bowls, or even baking healthy treats. No artificial sweeteners, just pure chocolate goodness powered by cage-free egg whites.'
+    ingredients: ['Egg White Powder', 'Natural Vanilla Flavor or Natural Cocoa Powder', 'Stevia Leaf Extract', 'Sunflower Lecithin'],
+    details: 'Experience the creamy delight of Vanilla Dream or the rich, decadent taste of Chocolate Bliss. We use natural vanilla flavors and premium cocoa powder and sweeten both with stevia, so you can enjoy a delicious shake without any added sugars. Each serving delivers 24-25g of complete protein from ethical, cage-free farms. Perfect for post-workout shakes, smoothie bowls, or even baking healthy treats.'
   },
   {
     name: 'EggyPro Strawberry Cream',
@@ -136,6 +127,23 @@ const comprehensiveProducts = [
   }
 ];
 
+// Products sold in several flavors or sizes; every other product is sold as a
+// single variant with its own price and stock
+const comprehensiveVariants: Record<string, Array<{
+  sku: string;
+  options: { flavor?: string; size?: string };
+  price: string;
+  stock_quantity: number;
+  image_url?: string;
+}>> = {
+  'eggypro-classic-flavors': [
+    { sku: 'EGGYPRO-VANILLA-1LB', options: { flavor: 'Vanilla Dream', size: '1 lb' }, price: '32.99', stock_quantity: 80, image_url: 'https://images.unsplash.com/photo-1571019613454-1cb2f99b2d8b?w=600&h=600&fit=crop' },
+    { sku: 'EGGYPRO-VANILLA-2LB', options: { flavor: 'Vanilla Dream', size: '2 lb' }, price: '57.99', stock_quantity: 40, image_url: 'https://images.unsplash.com/photo-1571019613454-1cb2f99b2d8b?w=600&h=600&fit=crop' },
+    { sku: 'EGGYPRO-CHOCOLATE-1LB', options: { flavor: 'Chocolate Bliss', size: '1 lb' }, price: '34.99', stock_quantity: 65, image_url: 'https://images.unsplash.com/photo-1578985545062-69928b1d9587?w=600&h=600&fit=crop' },
+    { sku: 'EGGYPRO-CHOCOLATE-2LB', options: { flavor: 'Chocolate Bliss', size: '2 lb' }, price: '59.99', stock_quantity: 30, image_url: 'https://images.unsplash.com/photo-1578985545062-69928b1d9587?w=600&h=600&fit=crop' },
+  ],
+};
+
 // Comprehensive reviews for each product
 const comprehensiveReviews = [
   // EggyPro Original reviews
@@ -166,46 +174,46 @@ const comprehensiveReviews = [
     productSlug: 'eggypro-original'
   },
 
-  // EggyPro Vanilla Dream reviews
+  // EggyPro Classic Flavors reviews, Vanilla Dream
   {
     reviewer_name: 'David Wilson',
     rating: 5,
     comment: 'The Vanilla Dream is amazing! Tastes like a milkshake but without the guilt. No eggy aftertaste at all, just smooth vanilla goodness. My kids even ask for it!',
     image_url: 'https://i.pravatar.cc/150?img=2',
-    productSlug: 'eggypro-vanilla-dream'
+    productSlug: 'eggypro-classic-flavors'
   },
   {
     reviewer_name: 'Lisa Johnson',
     rating: 4,
     comment: 'Really enjoying this flavor. Not too sweet, which I appreciate. Mixes well with almond milk and makes my morning routine so much better.',
-    productSlug: 'eggypro-vanilla-dream'
+    productSlug: 'eggypro-classic-flavors'
   },
   {
     reviewer_name: 'Carlos Martinez',
     rating: 5,
     comment: 'Perfect for my post-workout shakes. The vanilla flavor is natural and not artificial tasting. Great protein content and I love that it\'s naturally sweetened.',
-    productSlug: 'eggypro-vanilla-dream'
+    productSlug: 'eggypro-classic-flavors'
   },
 
-  // EggyPro Chocolate Bliss reviews
+  // EggyPro Classic Flavors reviews, Chocolate Bliss
   {
     reviewer_name: 'Amanda Foster',
     rating: 5,
     comment: 'This chocolate flavor is incredible! It actually tastes like dessert. I use it in my morning smoothies and sometimes just mix it with water when I\'m craving chocolate.',
     image_url: 'https://i.pravatar.cc/150?img=3',
-    productSlug: 'eggypro-chocolate-bliss'
+    productSlug: 'eggypro-classic-flavors'
   },
   {
     reviewer_name: 'Ryan O\'Connor',
     rating: 4,
     comment: 'Rich chocolate taste without being overpowering. Great for baking protein muffins too. The texture is smooth and it doesn\'t leave any chalky residue.',
-    productSlug: 'eggypro-chocolate-bliss'
+    productSlug: 'eggypro-classic-flavors'
   },
   {
     reviewer_name: 'Jessica Park',
     rating: 5,
     comment: 'Finally found a chocolate protein that doesn\'t taste artificial! The cocoa flavor is rich and satisfying. Perfect for my afternoon protein fix.',
-    productSlug: 'eggypro-chocolate-bliss'
+    productSlug: 'eggypro-classic-flavors'
   },
 
   // EggyPro Strawberry Cream reviews
@@ -361,6 +369,19 @@ async function comprehensiveSeed() {
     console.log('Inserting comprehensive product catalog...');
     const insertedProducts = await db.insert(products).values(comprehensiveProducts).returning();
     console.log(`Inserted ${insertedProducts.length} products`);
+
+    // Insert the variants each product is sold as
+    console.log('Inserting product variants...');
+    const seededVariants = insertedProducts.flatMap(product =>
+      (comprehensiveVariants[product.slug] ?? [{
+        sku: product.slug.toUpperCase(),
+        options: {},
+        price: product.price,
+        stock_quantity: product.stock_quantity,
+      }]).map((variant, index) => ({ ...variant, product_id: product.id, sort_order: index }))
+    );
+    const insertedVariants = await db.insert(productVariants).values(seededVariants).returning();
+    console.log(`Inserted ${insertedVariants.length} variants`);
     
     // Insert comprehensive reviews with proper product IDs
     console.log('Inserting comprehensive reviews...');
@@ -385,7 +406,8 @@ async function comprehensiveSeed() {
     insertedProducts.forEach(product => {
       const productReviews = insertedReviews.filter(r => r.product_id === product.id);
       console.log(`📦 ${product.name}`);
-      console.log(`   💰 $${product.price} | 📦 Stock: ${product.stock_quantity} | ⭐ Reviews: ${productReviews.length}`);
+      const variantCount = insertedVariants.filter(v => v.product_id === product.id).length;
+      console.log(`   💰 from $${product.price} | 📦 Stock: ${product.stock_quantity} | 🏷️ Variants: ${variantCount} | ⭐ Reviews: ${productReviews.length}`);
       console.log(`   🔗 /product/${product.slug}`);
       console.log('');
     });
@@ -403,7 +425,7 @@ async function comprehensiveSeed() {
 comprehensiveSeed()
   .then(() => {
     console.log('🎉 Comprehensive seeding finished successfully!');
-    console.log('🚀 Your ecommerce store now has 12 products with 30+ reviews!');
+    console.log('🚀 Your ecommerce store now has 11 products in 14 variants with 30+ reviews!');
     process.exit(0);
   })
   .catch((error) => {
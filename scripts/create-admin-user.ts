@@ -0,0 +1,66 @@
+#!/usr/bin/env tsx
+
+import { config } from 'dotenv';
+import { resolve } from 'path';
+import { drizzle } from 'drizzle-orm/postgres-js';
+import postgres from 'postgres';
+import { adminUsers } from '../src/lib/db/schema';
+import { ADMIN_ROLES, isAdminRole } from '../src/lib/admin-permissions';
+import { hashPassword } from '../src/lib/passwords';
+
+// Load environment variables from .env.local
+config({ path: resolve(process.cwd(), '.env.local') });
+
+const MIN_PASSWORD_LENGTH = 12;
+
+function usage(): never {
+  console.log('Usage: ADMIN_PASSWORD=<password> npm run admin:create -- <email> "<name>" [role]');
+  console.log('\nCreates the admin, or resets the password and reactivates an existing one.');
+  console.log(`Roles: ${ADMIN_ROLES.join(', ')} (default owner).`);
+  console.log(`Passwords must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+  process.exit(1);
+}
+
+async function createAdminUser(): Promise<void> {
+  const [emailArg, name, role = 'owner'] = process.argv.slice(2);
+  const password = process.env.ADMIN_PASSWORD;
+
+  if (!emailArg || !name || !password || !isAdminRole(role)) {
+    usage();
+  }
+
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    console.error(`❌ Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+    process.exit(1);
+  }
+
+  if (!process.env.DATABASE_URL) {
+    console.error('❌ DATABASE_URL is not set. Add it to .env.local.');
+    process.exit(1);
+  }
+
+  const client = postgres(process.env.DATABASE_URL);
+  const db = drizzle(client);
+  const email = emailArg.trim().toLowerCase();
+  const passwordHash = await hashPassword(password);
+
+  try {
+    const [user] = await db
+      .insert(adminUsers)
+      .values({ email, name, role, password_hash: passwordHash })
+      .onConflictDoUpdate({
+        target: adminUsers.email,
+        set: { name, role, password_hash: passwordHash, is_active: true, updated_at: new Date() },
+      })
+      .returning({ id: adminUsers.id, email: adminUsers.email, role: adminUsers.role });
+
+    console.log(`✅ Admin user ready: ${user.email} (id ${user.id}, ${user.role})`);
+  } finally {
+    await client.end();
+  }
+}
+
+createAdminUser().catch(error => {
+  console.error('❌ Failed to create admin user:', error);
+  process.exit(1);
+});
@@ -0,0 +1,110 @@
+#!/usr/bin/env tsx
+
+import { config } from 'dotenv';
+import { resolve } from 'path';
+import { signWebhookPayload } from '../src/lib/payments/webhooks';
+
+// Load environment variables from .env.local
+config({ path: resolve(process.cwd(), '.env.local') });
+
+const BASE_URL = process.env.WEBHOOK_BASE_URL || 'http://localhost:9004';
+const ENDPOINT = '/api/webhooks/payments';
+
+const EVENT_TYPES = [
+  'payment_intent.succeeded',
+  'payment_intent.payment_failed',
+  'payment_intent.canceled',
+  'charge.refunded',
+];
+
+function usage(): never {
+  console.log('Usage: npm run webhook:replay -- <event-type> <payment-intent-id> [amount-in-cents] [--event-id=<id>]');
+  console.log('\nEvent types:');
+  EVENT_TYPES.forEach(type => console.log(`  • ${type}`));
+  console.log('\nPass the same --event-id twice to check duplicate delivery handling.');
+  process.exit(1);
+}
+
+function buildEvent(type: string, paymentIntentId: string, amount: number, eventId: string) {
+  const created = Math.floor(Date.now() / 1000);
+
+  if (type === 'charge.refunded') {
+    return {
+      id: eventId,
+      type,
+      created,
+      data: {
+        object: {
+          id: `ch_mock_${Date.now()}`,
+          object: 'charge',
+          amount,
+          amount_refunded: amount,
+          refunded: true,
+          refunds: { data: [{ id: `re_mock_${Date.now()}`, amount }] },
+          payment_intent: paymentIntentId,
+        },
+      },
+    };
+  }
+
+  return {
+    id: eventId,
+    type,
+    created,
+    data: {
+      object: {
+        id: paymentIntentId,
+        object: 'payment_intent',
+        amount,
+        status: type === 'payment_intent.succeeded' ? 'succeeded'
+          : type === 'payment_intent.canceled' ? 'canceled'
+          : 'requires_payment_method',
+      },
+    },
+  };
+}
+
+async function replay(): Promise<void> {
+  const args = process.argv.slice(2);
+  const flags = Object.fromEntries(
+    args.filter(arg => arg.startsWith('--')).map(arg => arg.slice(2).split('=', 2))
+  );
+  const [type, paymentIntentId, amountArg] = args.filter(arg => !arg.startsWith('--'));
+
+  if (!type || !paymentIntentId || !EVENT_TYPES.includes(type)) {
+    usage();
+  }
+
+  const secret = process.env.PAYMENT_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error('❌ PAYMENT_WEBHOOK_SECRET is not set. Add it to .env.local (the app must use the same value).');
+    process.exit(1);
+  }
+
+  const eventId = flags['event-id'] || `evt_mock_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  const event = buildEvent(type, paymentIntentId, parseInt(amountArg || '0') || 0, eventId);
+  const payload = JSON.stringify(event);
+
+  console.log(`🔔 Sending ${type} for ${paymentIntentId} (${eventId}) to ${BASE_URL}${ENDPOINT}`);
+
+  const response = await fetch(`${BASE_URL}${ENDPOINT}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Stripe-Signature': signWebhookPayload(payload, secret),
+    },
+    body: payload,
+  });
+
+  const body = await response.json().catch(() => ({}));
+  console.log(`${response.ok ? '✅' : '❌'} ${response.status}`, body);
+
+  if (!response.ok) {
+    process.exit(1);
+  }
+}
+
+replay().catch(error => {
+  console.error('❌ Webhook replay failed:', error);
+  process.exit(1);
+});
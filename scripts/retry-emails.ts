@@ -0,0 +1,40 @@
+#!/usr/bin/env tsx
+
+import { config } from 'dotenv';
+import { resolve } from 'path';
+
+// Load environment variables from .env.local
+config({ path: resolve(process.cwd(), '.env.local') });
+
+function usage(): never {
+  console.log('Usage: npm run mail:retry -- [--limit=<emails>]');
+  console.log('\nSends outbox emails whose retry is due. Run it from cron every few minutes.');
+  process.exit(1);
+}
+
+async function run(): Promise<void> {
+  const flags = Object.fromEntries(
+    process.argv.slice(2).map(arg => {
+      if (!arg.startsWith('--')) usage();
+      const [key, value = ''] = arg.slice(2).split('=', 2);
+      return [key, value];
+    })
+  );
+  const limit = flags.limit === undefined ? undefined : parseInt(flags.limit, 10);
+  if (limit !== undefined && !(limit > 0)) {
+    usage();
+  }
+
+  // Imported after the environment is loaded, since the database module reads it
+  const { getMailProvider, retryDueEmails } = await import('../src/lib/mail');
+
+  const result = await retryDueEmails(limit, getMailProvider());
+  console.log(`📬 ${result.attempted} email(s) attempted via ${getMailProvider().name}: ${result.sent} sent, ${result.failed} failed`);
+}
+
+run()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('❌ Email retry run failed:', error);
+    process.exit(1);
+  });
@@ -2,7 +2,7 @@ import { config } from 'dotenv';
 import { resolve } from 'path';
 import { drizzle } from 'drizzle-orm/postgres-js';
 import postgres from 'postgres';
-import { products, reviews } from '../src/lib/db/schema';
+import { products, productVariants, reviews } from '../src/lib/db/schema';
 
 // Load environment variables from .env.local
 config({ path: resolve(process.cwd(), '.env.local') });
@@ -77,6 +77,15 @@ async function seed() {
     console.log('Inserting products...');
     const insertedProducts = await db.insert(products).values(mockProducts).returning();
     console.log(`Inserted ${insertedProducts.length} products`);
+
+    // Each product is sold as a single variant; add flavors and sizes through the variants API
+    const insertedVariants = await db.insert(productVariants).values(insertedProducts.map(product => ({
+      product_id: product.id,
+      sku: product.slug.toUpperCase(),
+      price: product.price,
+      stock_quantity: product.stock_quantity,
+    }))).returning();
+    console.log(`Inserted ${insertedVariants.length} variants`);
     
     // Insert reviews with proper product IDs
     console.log('Inserting reviews...');
@@ -0,0 +1,49 @@
+#!/usr/bin/env tsx
+
+import { config } from 'dotenv';
+import { resolve } from 'path';
+
+// Load environment variables from .env.local
+config({ path: resolve(process.cwd(), '.env.local') });
+
+function usage(): never {
+  console.log('Usage: npm run carts:recover -- [--hours=<idle hours>] [--limit=<carts>] [--stats]');
+  console.log('\nEmails carts that reached checkout with an email and were left for --hours (default 24).');
+  console.log('Emails go through the outbox; see docs/email.md for where they end up.');
+  console.log('--stats only prints how many recovery emails led back to the cart and to an order.');
+  process.exit(1);
+}
+
+async function run(): Promise<void> {
+  const flags = Object.fromEntries(
+    process.argv.slice(2).map(arg => {
+      if (!arg.startsWith('--')) usage();
+      const [key, value = ''] = arg.slice(2).split('=', 2);
+      return [key, value];
+    })
+  );
+  const hours = flags.hours === undefined ? undefined : Number(flags.hours);
+  const limit = flags.limit === undefined ? undefined : parseInt(flags.limit, 10);
+  if ((hours !== undefined && !(hours > 0)) || (limit !== undefined && !(limit > 0))) {
+    usage();
+  }
+
+  // Imported after the environment is loaded, since the database module reads it
+  const { getCartRecoveryStats, sendAbandonedCartEmails } = await import('../src/lib/cart-recovery');
+
+  if (flags.stats === undefined) {
+    const result = await sendAbandonedCartEmails({ olderThanHours: hours, limit });
+    console.log(`🛒 ${result.found} abandoned cart(s), ${result.queued} email(s) queued`);
+    result.failed.forEach(failure => console.error(`❌ Cart ${failure.cartId}: ${failure.error}`));
+  }
+
+  const stats = await getCartRecoveryStats();
+  console.log('📈 Recovery so far:', stats);
+}
+
+run()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('❌ Abandoned cart run failed:', error);
+    process.exit(1);
+  });
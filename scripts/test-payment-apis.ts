@@ -106,11 +106,15 @@ async function runTests(): Promise<void> {
       paymentIntentId: 'pi_mock_test_123',
       paymentMethodType: 'card' as const,
       customerInfo: {
-        name: 'Test Customer',
         email: 'test@example.com',
-        address: '123 Test St',
-        city: 'Test City',
-        zip: '12345',
+        shipping: {
+          fullName: 'Test Customer',
+          line1: '123 Test St',
+          city: 'Test City',
+          region: 'CA',
+          postalCode: '12345',
+          country: 'US',
+        },
       },
     };
     
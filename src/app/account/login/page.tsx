@@ -0,0 +1,26 @@
+import { redirect } from 'next/navigation';
+import { AccountAuthForm } from '@/components/account/AccountAuthForm';
+import { getCustomerSessionFromCookies } from '@/lib/customer-auth';
+
+export const metadata = {
+  title: 'Sign In | EggyPro',
+  robots: { index: false },
+};
+
+export default async function AccountLoginPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ next?: string }>;
+}) {
+  if (await getCustomerSessionFromCookies()) {
+    redirect('/account');
+  }
+
+  const { next } = await searchParams;
+
+  return (
+    <div className="py-12 px-4">
+      <AccountAuthForm next={next} />
+    </div>
+  );
+}
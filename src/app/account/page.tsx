@@ -0,0 +1,28 @@
+import { redirect } from 'next/navigation';
+import { AccountOverview } from '@/components/account/AccountOverview';
+import { listCustomerAddresses } from '@/lib/address-book';
+import { CUSTOMER_LOGIN_PATH, getCustomerSessionFromCookies } from '@/lib/customer-auth';
+import { listCustomerAccountOrders } from '@/lib/order-lookup';
+
+export const metadata = {
+  title: 'Your Account | EggyPro',
+  robots: { index: false },
+};
+
+export default async function AccountPage() {
+  const session = await getCustomerSessionFromCookies();
+  if (!session) {
+    redirect(`${CUSTOMER_LOGIN_PATH}?next=/account`);
+  }
+
+  const [orders, addresses] = await Promise.all([
+    listCustomerAccountOrders(session.customer.id),
+    listCustomerAddresses(session.customer.id),
+  ]);
+
+  return (
+    <div className="max-w-3xl mx-auto px-4">
+      <AccountOverview customer={session.customer} orders={orders} addresses={addresses} />
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+import { redirect } from 'next/navigation';
+import { AuditLogBrowser } from '@/components/admin/AuditLogBrowser';
+import { getAdminSessionFromCookies } from '@/lib/admin-auth';
+import { hasPermission } from '@/lib/admin-permissions';
+import { ADMIN_LOGIN_PATH } from '@/lib/admin-session';
+
+export const metadata = {
+  title: 'Audit Log | EggyPro Admin',
+  robots: { index: false },
+};
+
+export default async function AuditLogPage() {
+  const session = await getAdminSessionFromCookies();
+  if (!session) {
+    redirect(`${ADMIN_LOGIN_PATH}?next=/admin/audit-log`);
+  }
+
+  if (!hasPermission(session.user.role, 'audit_log:read')) {
+    redirect('/admin');
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AuditLogBrowser />
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { redirect } from 'next/navigation';
+import { AdminLoginForm } from '@/components/admin/AdminLoginForm';
+import { getAdminSessionFromCookies } from '@/lib/admin-auth';
+
+export const metadata = {
+  title: 'Admin Sign In | EggyPro',
+  robots: { index: false },
+};
+
+export default async function AdminLoginPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ next?: string }>;
+}) {
+  if (await getAdminSessionFromCookies()) {
+    redirect('/admin');
+  }
+
+  const { next } = await searchParams;
+
+  return (
+    <div className="py-12 px-4">
+      <AdminLoginForm next={next} />
+    </div>
+  );
+}
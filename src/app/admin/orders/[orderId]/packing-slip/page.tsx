@@ -0,0 +1,101 @@
+import { notFound, redirect } from 'next/navigation';
+import { PrintButton } from '@/components/admin/PrintButton';
+import { formatAddressLines } from '@/lib/addresses';
+import { getAdminSessionFromCookies } from '@/lib/admin-auth';
+import { hasPermission } from '@/lib/admin-permissions';
+import { ADMIN_LOGIN_PATH } from '@/lib/admin-session';
+import { getPackingSlip } from '@/lib/shipments';
+import { SHIPMENT_CARRIER_NAMES } from '@/lib/shipment-rules';
+import { SHIPPING_METHOD_NAMES } from '@/lib/shipping-rates';
+
+export const metadata = {
+  title: 'Packing Slip | EggyPro Admin',
+  robots: { index: false },
+};
+
+export default async function PackingSlipPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ orderId: string }>;
+  searchParams: Promise<{ shipment?: string }>;
+}) {
+  const { orderId } = await params;
+  const { shipment: shipmentParam } = await searchParams;
+
+  const session = await getAdminSessionFromCookies();
+  if (!session) {
+    redirect(`${ADMIN_LOGIN_PATH}?next=${encodeURIComponent(`/admin/orders/${orderId}/packing-slip`)}`);
+  }
+
+  if (!hasPermission(session.user.role, 'orders:read')) {
+    redirect('/admin');
+  }
+
+  const shipmentId = shipmentParam === undefined ? undefined : Number(shipmentParam);
+  const slip = shipmentId === undefined || Number.isInteger(shipmentId)
+    ? await getPackingSlip(decodeURIComponent(orderId), shipmentId)
+    : null;
+
+  if (!slip) {
+    notFound();
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto p-8 space-y-6 bg-white text-black">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">EggyPro</h1>
+          <p className="text-sm">Packing slip</p>
+        </div>
+        <PrintButton />
+      </div>
+
+      <div className="grid grid-cols-2 gap-6 text-sm">
+        <div>
+          <p className="font-semibold">Ship to</p>
+          {formatAddressLines(slip.shipTo).map(line => (
+            <p key={line}>{line}</p>
+          ))}
+        </div>
+        <div className="space-y-1">
+          <p><span className="font-semibold">Order:</span> {slip.orderId}</p>
+          <p><span className="font-semibold">Placed:</span> {new Date(slip.placedAt).toLocaleDateString('en-US')}</p>
+          <p><span className="font-semibold">Method:</span> {SHIPPING_METHOD_NAMES[slip.shippingMethod]}</p>
+          {slip.shipment && (
+            <>
+              <p><span className="font-semibold">Shipment:</span> #{slip.shipment.id}</p>
+              <p>
+                <span className="font-semibold">Carrier:</span> {SHIPMENT_CARRIER_NAMES[slip.shipment.carrier]}
+                {slip.shipment.trackingNumber && ` ${slip.shipment.trackingNumber}`}
+              </p>
+            </>
+          )}
+        </div>
+      </div>
+
+      <table className="w-full text-sm border-collapse">
+        <thead>
+          <tr className="border-b-2 border-black">
+            <th className="text-left py-2">Item</th>
+            <th className="text-left py-2 w-40">SKU</th>
+            <th className="text-right py-2 w-24">Quantity</th>
+            <th className="text-right py-2 w-24">Packed</th>
+          </tr>
+        </thead>
+        <tbody>
+          {slip.items.map((item, index) => (
+            <tr key={index} className="border-b">
+              <td className="py-2">{item.name}</td>
+              <td className="py-2 font-mono text-xs">{item.sku}</td>
+              <td className="text-right py-2">{item.quantity}</td>
+              <td className="text-right py-2">☐</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <p className="text-sm">Thank you for your order! Questions? Reply to your order confirmation email.</p>
+    </div>
+  );
+}
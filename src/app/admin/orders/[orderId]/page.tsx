@@ -0,0 +1,36 @@
+import { redirect } from 'next/navigation';
+import { OrderFulfillment } from '@/components/admin/OrderFulfillment';
+import { getAdminSessionFromCookies } from '@/lib/admin-auth';
+import { hasPermission } from '@/lib/admin-permissions';
+import { ADMIN_LOGIN_PATH } from '@/lib/admin-session';
+
+export const metadata = {
+  title: 'Fulfil Order | EggyPro Admin',
+  robots: { index: false },
+};
+
+export default async function OrderFulfillmentPage({
+  params,
+}: {
+  params: Promise<{ orderId: string }>;
+}) {
+  const { orderId } = await params;
+
+  const session = await getAdminSessionFromCookies();
+  if (!session) {
+    redirect(`${ADMIN_LOGIN_PATH}?next=${encodeURIComponent(`/admin/orders/${orderId}`)}`);
+  }
+
+  if (!hasPermission(session.user.role, 'orders:read')) {
+    redirect('/admin');
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <OrderFulfillment
+        orderId={decodeURIComponent(orderId)}
+        canUpdate={hasPermission(session.user.role, 'orders:update_status')}
+      />
+    </div>
+  );
+}
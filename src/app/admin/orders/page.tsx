@@ -0,0 +1,27 @@
+import { redirect } from 'next/navigation';
+import { FulfillmentQueue } from '@/components/admin/FulfillmentQueue';
+import { getAdminSessionFromCookies } from '@/lib/admin-auth';
+import { hasPermission } from '@/lib/admin-permissions';
+import { ADMIN_LOGIN_PATH } from '@/lib/admin-session';
+
+export const metadata = {
+  title: 'Orders to Fulfil | EggyPro Admin',
+  robots: { index: false },
+};
+
+export default async function FulfillmentQueuePage() {
+  const session = await getAdminSessionFromCookies();
+  if (!session) {
+    redirect(`${ADMIN_LOGIN_PATH}?next=/admin/orders`);
+  }
+
+  if (!hasPermission(session.user.role, 'orders:read')) {
+    redirect('/admin');
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <FulfillmentQueue />
+    </div>
+  );
+}
@@ -1,9 +1,18 @@
+import { redirect } from 'next/navigation';
 import { AdminDashboard } from '@/components/admin/AdminDashboard';
+import { getAdminSessionFromCookies } from '@/lib/admin-auth';
+import { ADMIN_LOGIN_PATH } from '@/lib/admin-session';
+
+export default async function AdminPage() {
+  // The middleware checked the cookie signature; this catches revoked or expired sessions
+  const session = await getAdminSessionFromCookies();
+  if (!session) {
+    redirect(`${ADMIN_LOGIN_PATH}?next=/admin`);
+  }
 
-export default function AdminPage() {
   return (
     <div className="min-h-screen bg-background">
-      <AdminDashboard />
+      <AdminDashboard adminName={session.user.name} role={session.user.role} />
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateShippingAddress } from '@/lib/addresses';
+import { deleteCustomerAddress, setDefaultCustomerAddress, updateCustomerAddress } from '@/lib/address-book';
+import { customerUnauthorizedResponse, getCustomerSession } from '@/lib/customer-auth';
+
+function parseAddressId(value: string): number | null {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+const notFound = () => NextResponse.json({ error: 'Address not found' }, { status: 404 });
+
+// PUT /api/account/addresses/[addressId] - Edit an address and/or make it the default
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { addressId: string } }
+) {
+  const session = await getCustomerSession(request);
+  if (!session) {
+    return customerUnauthorizedResponse();
+  }
+
+  const addressId = parseAddressId(params.addressId);
+  if (!addressId) {
+    return notFound();
+  }
+
+  try {
+    const body: { address?: unknown; makeDefault?: unknown } = await request.json().catch(() => ({}));
+    const makeDefault = body.makeDefault === true;
+
+    // Only switching the default
+    if (body.address === undefined) {
+      if (!makeDefault) {
+        return NextResponse.json({ error: 'Nothing to update.' }, { status: 400 });
+      }
+      return (await setDefaultCustomerAddress(session.customer.id, addressId))
+        ? NextResponse.json({ message: 'Default address updated' })
+        : notFound();
+    }
+
+    const validated = validateShippingAddress(body.address);
+    if (!validated.ok) {
+      return NextResponse.json(
+        { error: 'Please check the address.', errors: validated.errors },
+        { status: 400 }
+      );
+    }
+
+    const result = await updateCustomerAddress(session.customer.id, addressId, validated.address, { makeDefault });
+    return result.ok ? NextResponse.json({ address: result.address }) : notFound();
+
+  } catch (error) {
+    console.error('❌ Address Book API Error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to update the address',
+        details: process.env.NODE_ENV === 'development' ? String(error) : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/account/addresses/[addressId] - Remove an address
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { addressId: string } }
+) {
+  const session = await getCustomerSession(request);
+  if (!session) {
+    return customerUnauthorizedResponse();
+  }
+
+  const addressId = parseAddressId(params.addressId);
+  if (!addressId) {
+    return notFound();
+  }
+
+  try {
+    return (await deleteCustomerAddress(session.customer.id, addressId))
+      ? NextResponse.json({ message: 'Address removed' })
+      : notFound();
+
+  } catch (error) {
+    console.error('❌ Address Book API Error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to remove the address',
+        details: process.env.NODE_ENV === 'development' ? String(error) : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateShippingAddress } from '@/lib/addresses';
+import { createCustomerAddress, listCustomerAddresses, MAX_SAVED_ADDRESSES } from '@/lib/address-book';
+import { customerUnauthorizedResponse, getCustomerSession } from '@/lib/customer-auth';
+
+// GET /api/account/addresses - The signed-in customer's address book
+export async function GET(request: NextRequest) {
+  const session = await getCustomerSession(request);
+  if (!session) {
+    return customerUnauthorizedResponse();
+  }
+
+  try {
+    const addresses = await listCustomerAddresses(session.customer.id);
+    return NextResponse.json({ addresses });
+
+  } catch (error) {
+    console.error('❌ Address Book API Error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to load saved addresses',
+        details: process.env.NODE_ENV === 'development' ? String(error) : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/account/addresses - Save a new address
+export async function POST(request: NextRequest) {
+  const session = await getCustomerSession(request);
+  if (!session) {
+    return customerUnauthorizedResponse();
+  }
+
+  try {
+    const body: { address?: unknown; makeDefault?: unknown } = await request.json().catch(() => ({}));
+
+    const validated = validateShippingAddress(body.address);
+    if (!validated.ok) {
+      return NextResponse.json(
+        { error: 'Please check the address.', errors: validated.errors },
+        { status: 400 }
+      );
+    }
+
+    const result = await createCustomerAddress(session.customer.id, validated.address, {
+      makeDefault: body.makeDefault === true,
+    });
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: `You can save up to ${MAX_SAVED_ADDRESSES} addresses. Remove one to add another.` },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ address: result.address }, { status: 201 });
+
+  } catch (error) {
+    console.error('❌ Address Book API Error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to save the address',
+        details: process.env.NODE_ENV === 'development' ? String(error) : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticateCustomer,
+  createCustomerSession,
+  getCustomerSessionSecret,
+  normalizeCustomerEmail,
+  setCustomerSessionCookie,
+} from '@/lib/customer-auth';
+import { getCartToken, mergeGuestCart } from '@/lib/carts';
+import { consumeRateLimit, getClientIp, type RateLimitRule } from '@/lib/rate-limit';
+
+export interface CustomerLoginRequest {
+  email: string;
+  password: string;
+}
+
+const ATTEMPTS_PER_CLIENT: RateLimitRule = { limit: 10, windowSeconds: 15 * 60 };
+const ATTEMPTS_PER_ACCOUNT: RateLimitRule = { limit: 5, windowSeconds: 15 * 60 };
+
+function tooManyAttempts(retryAfterSeconds: number) {
+  return NextResponse.json(
+    { error: 'Too many sign-in attempts. Please try again later.', retryAfter: retryAfterSeconds },
+    { status: 429, headers: { 'Retry-After': String(retryAfterSeconds) } }
+  );
+}
+
+// POST /api/account/login - Exchange customer credentials for a session cookie
+export async function POST(request: NextRequest) {
+  try {
+    if (!getCustomerSessionSecret()) {
+      console.error('❌ Customer login attempted but CUSTOMER_SESSION_SECRET is not configured');
+      return NextResponse.json({ error: 'Accounts are not available right now.' }, { status: 500 });
+    }
+
+    const body: Partial<CustomerLoginRequest> = await request.json().catch(() => ({}));
+    const email = typeof body.email === 'string' ? normalizeCustomerEmail(body.email) : '';
+    const password = typeof body.password === 'string' ? body.password : '';
+
+    if (!email || !password) {
+      return NextResponse.json({ error: 'Email and password are required.' }, { status: 400 });
+    }
+
+    const clientLimit = await consumeRateLimit(`account-login:ip:${getClientIp(request)}`, ATTEMPTS_PER_CLIENT);
+    if (!clientLimit.allowed) {
+      return tooManyAttempts(clientLimit.retryAfterSeconds);
+    }
+
+    const accountLimit = await consumeRateLimit(`account-login:email:${email}`, ATTEMPTS_PER_ACCOUNT);
+    if (!accountLimit.allowed) {
+      return tooManyAttempts(accountLimit.retryAfterSeconds);
+    }
+
+    const customer = await authenticateCustomer(email, password);
+    if (!customer) {
+      return NextResponse.json({ error: 'Invalid email or password.' }, { status: 401 });
+    }
+
+    const session = await createCustomerSession(customer.id);
+    await mergeGuestCart(getCartToken(request), customer.id);
+
+    const response = NextResponse.json({ customer, expiresAt: session.expiresAt.toISOString() });
+    setCustomerSessionCookie(response, session.cookie, session.expiresAt);
+    return response;
+
+  } catch (error) {
+    console.error('❌ Customer Login API Error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to sign in. Please try again.',
+        details: process.env.NODE_ENV === 'development' ? String(error) : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { clearCustomerSessionCookie, getCustomerSession, revokeCustomerSession } from '@/lib/customer-auth';
+
+// POST /api/account/logout - End the customer session and clear its cookie
+export async function POST(request: NextRequest) {
+  const response = NextResponse.json({ message: 'Signed out' });
+  // Cleared even if the session could not be found or revoked
+  clearCustomerSessionCookie(response);
+
+  try {
+    const session = await getCustomerSession(request);
+    if (session) {
+      await revokeCustomerSession(session.sessionId);
+    }
+  } catch (error) {
+    console.error('❌ Customer Logout API Error:', error);
+  }
+
+  return response;
+}
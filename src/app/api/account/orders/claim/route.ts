@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { customerUnauthorizedResponse, getCustomerSession } from '@/lib/customer-auth';
+import { claimGuestOrder } from '@/lib/orders';
+import { consumeRateLimit, type RateLimitRule } from '@/lib/rate-limit';
+
+const CLAIMS_PER_CUSTOMER: RateLimitRule = { limit: 10, windowSeconds: 60 * 60 };
+
+// POST /api/account/orders/claim - Add a guest order placed with the account's email
+export async function POST(request: NextRequest) {
+  const session = await getCustomerSession(request);
+  if (!session) {
+    return customerUnauthorizedResponse();
+  }
+
+  try {
+    const body: { orderId?: unknown } = await request.json().catch(() => ({}));
+    const orderId = typeof body.orderId === 'string' ? body.orderId.trim() : '';
+
+    if (!orderId || orderId.length > 100) {
+      return NextResponse.json({ error: 'An order number is required.' }, { status: 400 });
+    }
+
+    const limit = await consumeRateLimit(`order-claim:customer:${session.customer.id}`, CLAIMS_PER_CUSTOMER);
+    if (!limit.allowed) {
+      return NextResponse.json(
+        { error: 'Too many attempts. Please try again later.', retryAfter: limit.retryAfterSeconds },
+        { status: 429, headers: { 'Retry-After': String(limit.retryAfterSeconds) } }
+      );
+    }
+
+    const result = await claimGuestOrder(session.customer.id, session.customer.email, orderId);
+
+    if (!result.ok) {
+      // Someone else's order and an unknown one look the same
+      return NextResponse.json(
+        { error: `We couldn't find an order with that number placed with ${session.customer.email}.` },
+        { status: 404 }
+      );
+    }
+
+    console.log('👤 Guest order claimed:', { customerId: session.customer.id, orderId: result.order.order_id });
+
+    return NextResponse.json({ message: 'Order added to your account', orderId: result.order.order_id });
+
+  } catch (error) {
+    console.error('❌ Order Claim API Error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to add the order to your account',
+        details: process.env.NODE_ENV === 'development' ? String(error) : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
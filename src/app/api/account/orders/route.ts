@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { customerUnauthorizedResponse, getCustomerSession } from '@/lib/customer-auth';
+import { listCustomerAccountOrders } from '@/lib/order-lookup';
+
+// GET /api/account/orders - The signed-in customer's orders, newest first
+export async function GET(request: NextRequest) {
+  const session = await getCustomerSession(request);
+  if (!session) {
+    return customerUnauthorizedResponse();
+  }
+
+  try {
+    const orders = await listCustomerAccountOrders(session.customer.id);
+
+    return NextResponse.json(
+      { orders, count: orders.length },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+
+  } catch (error) {
+    console.error('❌ Account Orders API Error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to load your orders',
+        details: process.env.NODE_ENV === 'development' ? String(error) : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { customerUnauthorizedResponse, getCustomerSession } from '@/lib/customer-auth';
+
+// GET /api/account - The signed-in customer
+export async function GET(request: NextRequest) {
+  const session = await getCustomerSession(request);
+  if (!session) {
+    return customerUnauthorizedResponse();
+  }
+
+  return NextResponse.json({
+    customer: session.customer,
+    expiresAt: session.expiresAt.toISOString(),
+  });
+}
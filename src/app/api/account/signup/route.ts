@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  createCustomerSession,
+  getCustomerSessionSecret,
+  MIN_CUSTOMER_PASSWORD_LENGTH,
+  normalizeCustomerEmail,
+  registerCustomer,
+  setCustomerSessionCookie,
+} from '@/lib/customer-auth';
+import { getCartToken, mergeGuestCart } from '@/lib/carts';
+import { consumeRateLimit, getClientIp, type RateLimitRule } from '@/lib/rate-limit';
+
+export interface CustomerSignupRequest {
+  email: string;
+  name: string;
+  password: string;
+}
+
+const SIGNUPS_PER_CLIENT: RateLimitRule = { limit: 5, windowSeconds: 60 * 60 };
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// POST /api/account/signup - Create a customer account and sign it in
+export async function POST(request: NextRequest) {
+  try {
+    if (!getCustomerSessionSecret()) {
+      console.error('❌ Customer signup attempted but CUSTOMER_SESSION_SECRET is not configured');
+      return NextResponse.json({ error: 'Accounts are not available right now.' }, { status: 500 });
+    }
+
+    const body: Partial<CustomerSignupRequest> = await request.json().catch(() => ({}));
+    const email = typeof body.email === 'string' ? normalizeCustomerEmail(body.email) : '';
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    const password = typeof body.password === 'string' ? body.password : '';
+
+    if (!EMAIL_PATTERN.test(email) || !name) {
+      return NextResponse.json({ error: 'A valid email and your name are required.' }, { status: 400 });
+    }
+
+    if (password.length < MIN_CUSTOMER_PASSWORD_LENGTH) {
+      return NextResponse.json(
+        { error: `Password must be at least ${MIN_CUSTOMER_PASSWORD_LENGTH} characters.` },
+        { status: 400 }
+      );
+    }
+
+    const limit = await consumeRateLimit(`account-signup:ip:${getClientIp(request)}`, SIGNUPS_PER_CLIENT);
+    if (!limit.allowed) {
+      return NextResponse.json(
+        { error: 'Too many sign-up attempts. Please try again later.', retryAfter: limit.retryAfterSeconds },
+        { status: 429, headers: { 'Retry-After': String(limit.retryAfterSeconds) } }
+      );
+    }
+
+    const result = await registerCustomer({ email, name, password });
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: 'An account with this email already exists. Please sign in instead.', code: result.reason },
+        { status: 409 }
+      );
+    }
+
+    const session = await createCustomerSession(result.customer.id);
+    await mergeGuestCart(getCartToken(request), result.customer.id);
+
+    console.log('👤 Customer signed up:', { customerId: result.customer.id });
+
+    const response = NextResponse.json(
+      { customer: result.customer, expiresAt: session.expiresAt.toISOString() },
+      { status: 201 }
+    );
+    setCustomerSessionCookie(response, session.cookie, session.expiresAt);
+    return response;
+
+  } catch (error) {
+    console.error('❌ Customer Signup API Error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to create your account. Please try again.',
+        details: process.env.NODE_ENV === 'development' ? String(error) : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
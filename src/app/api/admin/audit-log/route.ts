@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { and, desc, lt } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { auditLog } from '@/lib/db/schema';
+import { authorizeAdmin } from '@/lib/admin-auth';
+import { auditLogFilterCondition, parseAuditLogFilters } from '@/lib/audit-log';
+import { parseOrderCursor, parseOrderPageSize } from '@/lib/order-queries';
+
+// GET /api/admin/audit-log - Admin writes, newest first, with filters and cursor pagination
+export async function GET(request: NextRequest) {
+  const auth = await authorizeAdmin(request, 'audit_log:read');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const parsed = parseAuditLogFilters(searchParams);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    // Same id cursor and page sizes as the orders list
+    const cursor = parseOrderCursor(searchParams.get('cursor'));
+    if (cursor === null) {
+      return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 });
+    }
+
+    const pageSize = parseOrderPageSize(searchParams.get('limit'));
+
+    const rows = await db
+      .select()
+      .from(auditLog)
+      .where(and(
+        auditLogFilterCondition(parsed.filters),
+        cursor === undefined ? undefined : lt(auditLog.id, cursor)
+      ))
+      .orderBy(desc(auditLog.id))
+      .limit(pageSize + 1);
+
+    const page = rows.slice(0, pageSize);
+    const nextCursor = rows.length > pageSize ? String(page[page.length - 1].id) : null;
+
+    return NextResponse.json({
+      entries: page,
+      count: page.length,
+      nextCursor,
+    });
+
+  } catch (error) {
+    console.error('❌ Audit Log API Error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch audit log',
+        details: process.env.NODE_ENV === 'development' ? String(error) : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticateAdmin,
+  createAdminSession,
+  normalizeAdminEmail,
+  setAdminSessionCookie,
+} from '@/lib/admin-auth';
+import { getAdminSessionSecret } from '@/lib/admin-session';
+import { consumeRateLimit, getClientIp, type RateLimitRule } from '@/lib/rate-limit';
+
+export interface AdminLoginRequest {
+  email: string;
+  password: string;
+}
+
+const ATTEMPTS_PER_CLIENT: RateLimitRule = { limit: 10, windowSeconds: 15 * 60 };
+const ATTEMPTS_PER_ACCOUNT: RateLimitRule = { limit: 5, windowSeconds: 15 * 60 };
+
+function tooManyAttempts(retryAfterSeconds: number) {
+  return NextResponse.json(
+    { error: 'Too many sign-in attempts. Please try again later.', retryAfter: retryAfterSeconds },
+    { status: 429, headers: { 'Retry-After': String(retryAfterSeconds) } }
+  );
+}
+
+// POST /api/admin/login - Exchange admin credentials for a session cookie
+export async function POST(request: NextRequest) {
+  try {
+    if (!getAdminSessionSecret()) {
+      console.error('❌ Admin login attempted but ADMIN_SESSION_SECRET is not configured');
+      return NextResponse.json({ error: 'Admin sign-in is not configured.' }, { status: 500 });
+    }
+
+    const body: Partial<AdminLoginRequest> = await request.json().catch(() => ({}));
+    const email = typeof body.email === 'string' ? normalizeAdminEmail(body.email) : '';
+    const password = typeof body.password === 'string' ? body.password : '';
+
+    if (!email || !password) {
+      return NextResponse.json({ error: 'Email and password are required.' }, { status: 400 });
+    }
+
+    const ipAddress = getClientIp(request);
+
+    const clientLimit = await consumeRateLimit(`admin-login:ip:${ipAddress}`, ATTEMPTS_PER_CLIENT);
+    if (!clientLimit.allowed) {
+      return tooManyAttempts(clientLimit.retryAfterSeconds);
+    }
+
+    const accountLimit = await consumeRateLimit(`admin-login:email:${email}`, ATTEMPTS_PER_ACCOUNT);
+    if (!accountLimit.allowed) {
+      return tooManyAttempts(accountLimit.retryAfterSeconds);
+    }
+
+    const user = await authenticateAdmin(email, password);
+    if (!user) {
+      console.warn('⚠️ Failed admin sign-in:', { email, ipAddress });
+      return NextResponse.json({ error: 'Invalid email or password.' }, { status: 401 });
+    }
+
+    const session = await createAdminSession(user.id, {
+      ipAddress,
+      userAgent: request.headers.get('user-agent'),
+    });
+
+    console.log('🔐 Admin signed in:', { adminUserId: user.id, email: user.email });
+
+    const response = NextResponse.json({ user, expiresAt: session.expiresAt.toISOString() });
+    setAdminSessionCookie(response, session.cookie, session.expiresAt);
+    return response;
+
+  } catch (error) {
+    console.error('❌ Admin Login API Error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to sign in. Please try again.',
+        details: process.env.NODE_ENV === 'development' ? String(error) : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { clearAdminSessionCookie, getAdminSession, revokeAdminSession } from '@/lib/admin-auth';
+
+// POST /api/admin/logout - End the admin session and clear its cookie
+export async function POST(request: NextRequest) {
+  const response = NextResponse.json({ message: 'Signed out' });
+  // Cleared even if the session could not be found or revoked
+  clearAdminSessionCookie(response);
+
+  try {
+    const session = await getAdminSession(request);
+    if (session) {
+      await revokeAdminSession(session.sessionId);
+      console.log('🔐 Admin signed out:', { adminUserId: session.user.id });
+    }
+  } catch (error) {
+    console.error('❌ Admin Logout API Error:', error);
+  }
+
+  return response;
+}
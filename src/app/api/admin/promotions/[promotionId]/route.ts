@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeAdmin } from '@/lib/admin-auth';
+import { auditRequestMetadata } from '@/lib/audit-log';
+import { getPromotion, promotionInput, updatePromotion } from '@/lib/promotions';
+import { parsePromotionInput } from '@/lib/promotion-rules';
+
+// PATCH /api/admin/promotions/[promotionId] - Change a promotion; omitted fields keep their values.
+// Send `{ "isActive": false }` to end a promotion early.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { promotionId: string } }
+) {
+  const auth = await authorizeAdmin(request, 'promotions:write');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const promotionId = Number(params.promotionId);
+    const current = Number.isInteger(promotionId) && promotionId > 0 ? await getPromotion(promotionId) : null;
+    if (!current) {
+      return NextResponse.json({ error: 'Promotion not found' }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ error: 'Request body must be a JSON object' }, { status: 400 });
+    }
+
+    const parsed = parsePromotionInput(body, promotionInput(current));
+    if (!parsed.ok) {
+      return NextResponse.json({ error: 'Please check the promotion.', errors: parsed.errors }, { status: 400 });
+    }
+
+    const result = await updatePromotion(promotionId, parsed.promotion, {
+      actor: `admin:${auth.admin.user.email}`,
+      request: auditRequestMetadata(request),
+    });
+
+    if (!result.ok) {
+      return result.reason === 'not_found'
+        ? NextResponse.json({ error: 'Promotion not found' }, { status: 404 })
+        : NextResponse.json(
+            { error: `The code ${parsed.promotion.code} already exists`, code: 'duplicate_code' },
+            { status: 409 }
+          );
+    }
+
+    return NextResponse.json({ promotion: result.promotion });
+
+  } catch (error) {
+    console.error('❌ Promotion Update API Error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to update promotion',
+        details: process.env.NODE_ENV === 'development' ? String(error) : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeAdmin } from '@/lib/admin-auth';
+import { auditRequestMetadata } from '@/lib/audit-log';
+import { createPromotion, listPromotions } from '@/lib/promotions';
+import { parsePromotionInput } from '@/lib/promotion-rules';
+
+// GET /api/admin/promotions - Every promotion, newest first, with how often each was used
+export async function GET(request: NextRequest) {
+  const auth = await authorizeAdmin(request, 'promotions:write');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const promotions = await listPromotions();
+    return NextResponse.json({ promotions, count: promotions.length });
+
+  } catch (error) {
+    console.error('❌ Promotions API Error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch promotions',
+        details: process.env.NODE_ENV === 'development' ? String(error) : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/promotions - Create a discount code
+export async function POST(request: NextRequest) {
+  const auth = await authorizeAdmin(request, 'promotions:write');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ error: 'Request body must be a JSON object' }, { status: 400 });
+    }
+
+    const parsed = parsePromotionInput(body);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: 'Please check the promotion.', errors: parsed.errors }, { status: 400 });
+    }
+
+    const result = await createPromotion(parsed.promotion, {
+      actor: `admin:${auth.admin.user.email}`,
+      request: auditRequestMetadata(request),
+    });
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: `The code ${parsed.promotion.code} already exists`, code: 'duplicate_code' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ promotion: result.promotion }, { status: 201 });
+
+  } catch (error) {
+    console.error('❌ Promotions API Error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to create promotion',
+        details: process.env.NODE_ENV === 'development' ? String(error) : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adminUnauthorizedResponse, getAdminSession } from '@/lib/admin-auth';
+import { permissionsForRole } from '@/lib/admin-permissions';
+
+// GET /api/admin/session - The signed-in admin, what their role allows and when the session expires
+export async function GET(request: NextRequest) {
+  const session = await getAdminSession(request);
+  if (!session) {
+    return adminUnauthorizedResponse();
+  }
+
+  return NextResponse.json({
+    user: session.user,
+    permissions: permissionsForRole(session.user.role),
+    expiresAt: session.expiresAt.toISOString(),
+  });
+}
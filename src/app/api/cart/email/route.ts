@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCustomerSession } from '@/lib/customer-auth';
+import {
+  getCartToken,
+  parseCartLines,
+  recordCheckoutEmail,
+  replaceCart,
+  setCartTokenCookie,
+  type CartIdentity,
+} from '@/lib/carts';
+import { consumeRateLimit, getClientIp, type RateLimitRule } from '@/lib/rate-limit';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const CAPTURES_PER_CLIENT: RateLimitRule = { limit: 20, windowSeconds: 60 };
+
+// PUT /api/cart/email - Save the cart with the email entered at checkout, so
+// an abandoned checkout can be followed up
+export async function PUT(request: NextRequest) {
+  try {
+    const limit = await consumeRateLimit(`cart-email:ip:${getClientIp(request)}`, CAPTURES_PER_CLIENT);
+    if (!limit.allowed) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again shortly.', retryAfter: limit.retryAfterSeconds },
+        { status: 429, headers: { 'Retry-After': String(limit.retryAfterSeconds) } }
+      );
+    }
+
+    const body: { email?: unknown; items?: unknown } = await request.json().catch(() => ({}));
+    const email = typeof body.email === 'string' ? body.email.trim() : '';
+    if (email.length > 255 || !EMAIL_PATTERN.test(email)) {
+      return NextResponse.json({ error: 'A valid email is required.' }, { status: 400 });
+    }
+
+    const parsed = parseCartLines(body.items);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const session = await getCustomerSession(request);
+    const identity: CartIdentity = { customerId: session?.customer.id ?? null, token: getCartToken(request) };
+
+    // Written first so the cart exists even if sync hasn't created it yet
+    const result = await replaceCart(identity, parsed.lines);
+    const recorded = await recordCheckoutEmail({ ...identity, token: result.token ?? identity.token }, email);
+
+    const response = NextResponse.json({ ...result.cart, recorded });
+    if (result.token) {
+      setCartTokenCookie(response, result.token);
+    }
+    return response;
+
+  } catch (error) {
+    console.error('❌ Cart Email API Error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to save cart',
+        details: process.env.NODE_ENV === 'development' ? String(error) : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
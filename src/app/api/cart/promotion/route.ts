@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseCartLines, revalidateCartItems } from '@/lib/carts';
+import { getCustomerSession } from '@/lib/customer-auth';
+import { fromCents, toCents } from '@/lib/inventory';
+import { quotePromotion, summarizePromotionQuote } from '@/lib/promotions';
+import { PROMOTION_REJECTION_MESSAGES } from '@/lib/promotion-rules';
+import { consumeRateLimit, getClientIp, type RateLimitRule } from '@/lib/rate-limit';
+
+// Enough to retype a code a few times, too few to guess one
+const ATTEMPTS_PER_CLIENT: RateLimitRule = { limit: 20, windowSeconds: 60 };
+
+// POST /api/cart/promotion - Check a discount code against the cart at current prices
+export async function POST(request: NextRequest) {
+  try {
+    const limit = await consumeRateLimit(`cart-promotion:ip:${getClientIp(request)}`, ATTEMPTS_PER_CLIENT);
+    if (!limit.allowed) {
+      return NextResponse.json(
+        { error: 'Too many attempts. Please try again shortly.', retryAfter: limit.retryAfterSeconds },
+        { status: 429, headers: { 'Retry-After': String(limit.retryAfterSeconds) } }
+      );
+    }
+
+    const body: { code?: unknown; items?: unknown; email?: unknown } = await request.json().catch(() => ({}));
+    const code = typeof body.code === 'string' ? body.code.trim() : '';
+    if (!code) {
+      return NextResponse.json({ error: 'Enter a code.' }, { status: 400 });
+    }
+
+    const parsed = parseCartLines(body.items);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    // Priced the way checkout will price them
+    const checks = await revalidateCartItems(parsed.lines);
+    const lines = checks
+      .filter(check => check.available && check.price !== null && check.quantity > 0)
+      .map(check => ({
+        productId: check.productId!,
+        variantId: check.variantId,
+        lineTotalCents: toCents(check.price!) * check.quantity,
+      }));
+    const subtotalCents = lines.reduce((sum, line) => sum + line.lineTotalCents, 0);
+
+    const session = await getCustomerSession(request);
+    const quote = await quotePromotion(code, lines, {
+      customerId: session?.customer.id ?? null,
+      email: typeof body.email === 'string' ? body.email : null,
+    });
+
+    if (!quote.ok) {
+      return NextResponse.json(
+        { error: PROMOTION_REJECTION_MESSAGES[quote.reason], code: 'promotion_rejected', reason: quote.reason },
+        { status: quote.reason === 'not_found' ? 404 : 409 }
+      );
+    }
+
+    return NextResponse.json({
+      promotion: summarizePromotionQuote(quote),
+      subtotal: fromCents(subtotalCents),
+      total: fromCents(subtotalCents - quote.discountCents),
+    });
+
+  } catch (error) {
+    console.error('❌ Cart Promotion API Error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to check code',
+        details: process.env.NODE_ENV === 'development' ? String(error) : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
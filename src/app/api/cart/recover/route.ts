@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCartRecoverySecret, restoreRecoveredCart, verifyCartRecoveryToken } from '@/lib/cart-recovery';
+import { consumeRateLimit, getClientIp, type RateLimitRule } from '@/lib/rate-limit';
+
+const ATTEMPTS_PER_CLIENT: RateLimitRule = { limit: 30, windowSeconds: 60 };
+
+// POST /api/cart/recover - The contents of the cart named by a recovery email link
+export async function POST(request: NextRequest) {
+  try {
+    const limit = await consumeRateLimit(`cart-recover:ip:${getClientIp(request)}`, ATTEMPTS_PER_CLIENT);
+    if (!limit.allowed) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again shortly.', retryAfter: limit.retryAfterSeconds },
+        { status: 429, headers: { 'Retry-After': String(limit.retryAfterSeconds) } }
+      );
+    }
+
+    const body: { token?: unknown } = await request.json().catch(() => ({}));
+    const cartId = await verifyCartRecoveryToken(
+      typeof body.token === 'string' ? body.token : undefined,
+      getCartRecoverySecret()
+    );
+    if (cartId === null) {
+      return NextResponse.json({ error: 'This link is invalid or has expired.' }, { status: 404 });
+    }
+
+    const result = await restoreRecoveredCart(cartId);
+    if (!result.ok) {
+      return result.reason === 'converted'
+        ? NextResponse.json({ error: 'This cart has already been checked out.', code: 'converted' }, { status: 409 })
+        : NextResponse.json({ error: 'This link is invalid or has expired.' }, { status: 404 });
+    }
+
+    return NextResponse.json({ items: result.items });
+
+  } catch (error) {
+    console.error('❌ Cart Recovery API Error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to restore cart',
+        details: process.env.NODE_ENV === 'development' ? String(error) : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCustomerSession } from '@/lib/customer-auth';
+import { getCart, getCartToken, parseCartLines, replaceCart, setCartTokenCookie, type CartIdentity } from '@/lib/carts';
+import { consumeRateLimit, getClientIp, type RateLimitRule } from '@/lib/rate-limit';
+
+// The cart syncs on every change, debounced on the client
+const WRITES_PER_CLIENT: RateLimitRule = { limit: 120, windowSeconds: 60 };
+
+async function cartIdentity(request: NextRequest): Promise<CartIdentity> {
+  const session = await getCustomerSession(request);
+  return { customerId: session?.customer.id ?? null, token: getCartToken(request) };
+}
+
+// GET /api/cart - The shopper's cart: the account's when signed in, else the guest cart
+export async function GET(request: NextRequest) {
+  try {
+    const cart = await getCart(await cartIdentity(request));
+    return NextResponse.json(cart);
+
+  } catch (error) {
+    console.error('❌ Cart API Error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to load cart',
+        details: process.env.NODE_ENV === 'development' ? String(error) : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/cart - Replace the cart's contents with `items`
+export async function PUT(request: NextRequest) {
+  try {
+    const limit = await consumeRateLimit(`cart:ip:${getClientIp(request)}`, WRITES_PER_CLIENT);
+    if (!limit.allowed) {
+      return NextResponse.json(
+        { error: 'Too many cart updates. Please try again shortly.', retryAfter: limit.retryAfterSeconds },
+        { status: 429, headers: { 'Retry-After': String(limit.retryAfterSeconds) } }
+      );
+    }
+
+    const body: { items?: unknown } = await request.json().catch(() => ({}));
+    const parsed = parseCartLines(body.items);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const result = await replaceCart(await cartIdentity(request), parsed.lines);
+
+    const response = NextResponse.json(result.cart);
+    if (result.token) {
+      setCartTokenCookie(response, result.token);
+    }
+    return response;
+
+  } catch (error) {
+    console.error('❌ Cart API Error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to save cart',
+        details: process.env.NODE_ENV === 'development' ? String(error) : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/cart - Empty the cart
+export async function DELETE(request: NextRequest) {
+  try {
+    const result = await replaceCart(await cartIdentity(request), []);
+    return NextResponse.json(result.cart);
+
+  } catch (error) {
+    console.error('❌ Cart API Error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to clear cart',
+        details: process.env.NODE_ENV === 'development' ? String(error) : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCountryAddressFormat } from '@/lib/address-formats';
+import { parseCartLines, revalidateCartItems } from '@/lib/carts';
+import { getCustomerSession } from '@/lib/customer-auth';
+import { toCents } from '@/lib/inventory';
+import { quotePromotion } from '@/lib/promotions';
+import { quoteShipping, summarizeShippingOption } from '@/lib/shipping';
+
+// POST /api/cart/shipping - The shipping methods offered for the cart and what each costs
+export async function POST(request: NextRequest) {
+  try {
+    const body: { items?: unknown; address?: unknown; promotionCode?: unknown; email?: unknown } =
+      await request.json().catch(() => ({}));
+
+    const address = (body.address && typeof body.address === 'object' ? body.address : {}) as Record<string, unknown>;
+    const country = typeof address.country === 'string' ? address.country.trim().toUpperCase() : '';
+    if (!getCountryAddressFormat(country)) {
+      return NextResponse.json({ error: 'Choose a country we ship to.' }, { status: 400 });
+    }
+
+    const parsed = parseCartLines(body.items);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    // Priced the way checkout will price them
+    const checks = await revalidateCartItems(parsed.lines);
+    const lines = checks
+      .filter(check => check.available && check.price !== null && check.quantity > 0)
+      .map(check => ({
+        productId: check.productId!,
+        variantId: check.variantId,
+        quantity: check.quantity,
+        lineTotalCents: toCents(check.price!) * check.quantity,
+      }));
+    const subtotalCents = lines.reduce((sum, line) => sum + line.lineTotalCents, 0);
+
+    // Thresholds go by the discounted subtotal, and free-shipping codes waive standard shipping
+    const promotionCode = typeof body.promotionCode === 'string' ? body.promotionCode.trim() : '';
+    const session = promotionCode ? await getCustomerSession(request) : null;
+    const promotion = promotionCode
+      ? await quotePromotion(promotionCode, lines, {
+          customerId: session?.customer.id ?? null,
+          email: typeof body.email === 'string' ? body.email : null,
+        })
+      : null;
+    const discount = promotion?.ok ? promotion : null;
+
+    const options = await quoteShipping(
+      country,
+      lines,
+      subtotalCents - (discount?.discountCents ?? 0),
+      discount?.freeShipping ?? false
+    );
+
+    return NextResponse.json({ methods: options.map(summarizeShippingOption) });
+
+  } catch (error) {
+    console.error('❌ Cart Shipping API Error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to calculate shipping',
+        details: process.env.NODE_ENV === 'development' ? String(error) : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
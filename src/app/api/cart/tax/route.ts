@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCountryAddressFormat } from '@/lib/address-formats';
+import { parseCartLines, revalidateCartItems } from '@/lib/carts';
+import { getCustomerSession } from '@/lib/customer-auth';
+import { fromCents, toCents } from '@/lib/inventory';
+import { quotePromotion } from '@/lib/promotions';
+import { quoteTax, summarizeTax } from '@/lib/tax';
+
+// POST /api/cart/tax - Estimate the tax on the cart for a shipping address
+export async function POST(request: NextRequest) {
+  try {
+    const body: { items?: unknown; address?: unknown; promotionCode?: unknown; email?: unknown } =
+      await request.json().catch(() => ({}));
+
+    const address = (body.address && typeof body.address === 'object' ? body.address : {}) as Record<string, unknown>;
+    const country = typeof address.country === 'string' ? address.country.trim().toUpperCase() : '';
+    if (!getCountryAddressFormat(country)) {
+      return NextResponse.json({ error: 'Choose a country we ship to.' }, { status: 400 });
+    }
+
+    const parsed = parseCartLines(body.items);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    // Priced the way checkout will price them
+    const checks = await revalidateCartItems(parsed.lines);
+    const lines = checks
+      .filter(check => check.available && check.price !== null && check.quantity > 0)
+      .map(check => ({
+        productId: check.productId!,
+        variantId: check.variantId,
+        lineTotalCents: toCents(check.price!) * check.quantity,
+      }));
+    const subtotalCents = lines.reduce((sum, line) => sum + line.lineTotalCents, 0);
+
+    // Tax is on the discounted lines; a code that no longer applies is left
+    // for the promotion check to report
+    const promotionCode = typeof body.promotionCode === 'string' ? body.promotionCode.trim() : '';
+    const session = promotionCode ? await getCustomerSession(request) : null;
+    const promotion = promotionCode
+      ? await quotePromotion(promotionCode, lines, {
+          customerId: session?.customer.id ?? null,
+          email: typeof body.email === 'string' ? body.email : null,
+        })
+      : null;
+    const discount = promotion?.ok ? promotion : null;
+
+    const tax = await quoteTax(
+      {
+        country,
+        region: typeof address.region === 'string' ? address.region : undefined,
+        postalCode: typeof address.postalCode === 'string' ? address.postalCode : undefined,
+      },
+      lines,
+      discount?.lines
+    );
+    const discountCents = discount?.discountCents ?? 0;
+
+    return NextResponse.json({
+      tax: summarizeTax(tax),
+      subtotal: fromCents(subtotalCents),
+      discount: fromCents(discountCents),
+      total: fromCents(subtotalCents - discountCents + tax.taxCents),
+    });
+
+  } catch (error) {
+    console.error('❌ Cart Tax API Error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to calculate tax',
+        details: process.env.NODE_ENV === 'development' ? String(error) : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
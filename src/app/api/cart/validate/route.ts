@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseCartLines, revalidateCartItems } from '@/lib/carts';
+
+// POST /api/cart/validate - Check cart lines against current prices, stock and availability
+export async function POST(request: NextRequest) {
+  try {
+    const body: { items?: unknown } = await request.json().catch(() => ({}));
+    const parsed = parseCartLines(body.items);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    // The price each line was shown at, to report changes against
+    const seenPrices = new Map<number, unknown>();
+    for (const item of body.items as Array<{ variantId?: unknown; price?: unknown }>) {
+      const variantId = Number(item?.variantId);
+      if (!seenPrices.has(variantId)) {
+        seenPrices.set(variantId, item?.price);
+      }
+    }
+
+    const items = await revalidateCartItems(parsed.lines.map(line => {
+      const price = seenPrices.get(line.variantId);
+      return { ...line, price: typeof price === 'string' || typeof price === 'number' ? price : null };
+    }));
+
+    return NextResponse.json({
+      items,
+      changed: items.some(item => item.previousPrice !== null || item.quantity !== item.requestedQuantity),
+    });
+
+  } catch (error) {
+    console.error('❌ Cart Validation API Error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to check cart',
+        details: process.env.NODE_ENV === 'development' ? String(error) : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,23 +1,39 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { db } from '@/lib/db';
-import { orders, orderItems } from '@/lib/db/schema';
+import { validateShippingAddress, type ShippingAddress } from '@/lib/addresses';
+import { saveAddressFromCheckout } from '@/lib/address-book';
+import { getCartToken, markCartsConverted } from '@/lib/carts';
+import { getCustomerSession } from '@/lib/customer-auth';
+import { withIdempotency } from '@/lib/idempotency';
+import { formatAmountForStripe } from '@/lib/stripe';
+import { fromCents, normalizeLineItems, releaseReservation, toCents, type LineItemIssue } from '@/lib/inventory';
+import { sendOrderConfirmationEmail } from '@/lib/mail';
+import { createOrderWithStock } from '@/lib/orders';
+import { getPaymentProvider, PaymentProviderError, type PaymentError, type PaymentIntentStatus } from '@/lib/payments';
+import { PROMOTION_REJECTION_MESSAGES, type PromotionRejection } from '@/lib/promotion-rules';
+import { isShippingMethod, SHIPPING_METHOD_NAMES, type ShippingMethod } from '@/lib/shipping-rates';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
 export interface PaymentConfirmationRequest {
   paymentIntentId: string;
   paymentMethodType?: 'card' | 'bypass';
+  paymentMethodId?: string; // Provider payment method, e.g. `pm_card_visa`
   customerInfo: {
-    name: string;
     email?: string;
-    address: string;
-    city: string;
-    zip: string;
+    shipping: ShippingAddress;
+    // Signed-in customers can add the shipping address to their address book
+    saveAddress?: boolean;
   };
   items: Array<{
-    id: string;
+    id: string; // The variant's
     name: string;
     price: number;
     quantity: number;
   }>;
+  // The same code the payment intent was priced with
+  promotionCode?: string;
+  // The same method the payment intent was priced with; standard if left out
+  shippingMethod?: ShippingMethod;
   amount: number;
 }
 
@@ -31,145 +47,350 @@ export interface PaymentConfirmationResponse {
   timestamp: string;
 }
 
-// Mock payment confirmation and database storage
-async function processMockPaymentAndSaveOrder(data: PaymentConfirmationRequest): Promise<PaymentConfirmationResponse> {
-  // Generate mock order ID
-  const orderId = `order_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
-  
-  // Simulate different payment outcomes based on payment intent ID
-  const shouldFail = data.paymentIntentId.includes('fail');
-  const shouldProcess = data.paymentIntentId.includes('process');
-  
-  let status: 'succeeded' | 'failed' | 'processing' = 'succeeded';
+type PaymentProcessingResult =
+  | { ok: true; response: PaymentConfirmationResponse }
+  | { ok: false; reason: 'not_found' }
+  | { ok: false; reason: 'payment_failed'; error: PaymentError }
+  | { ok: false; reason: 'requires_action'; status: PaymentIntentStatus; clientSecret: string }
+  | { ok: false; reason: 'insufficient_stock'; shortfalls: LineItemIssue[] }
+  | { ok: false; reason: 'amount_mismatch'; amount: number }
+  | { ok: false; reason: 'promotion_rejected'; rejection: PromotionRejection }
+  | { ok: false; reason: 'shipping_unavailable'; method: ShippingMethod }
+  | { ok: false; reason: 'invalid_items'; shortfalls: LineItemIssue[] };
+
+// Payment confirmation through the active provider and database storage
+async function processPaymentAndSaveOrder(
+  data: PaymentConfirmationRequest,
+  customerId: number | null,
+  cartToken: string | null
+): Promise<PaymentProcessingResult> {
+  const provider = getPaymentProvider();
   
-  if (shouldFail) {
-    status = 'failed';
-  } else if (shouldProcess) {
-    status = 'processing';
+  // Generate order ID
+  const orderId = `order_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`;
+
+  const { items, issues } = normalizeLineItems(data.items);
+  if (issues.length > 0) {
+    return { ok: false, reason: 'invalid_items', shortfalls: issues };
+  }
+
+  const intent = await provider.retrieve(data.paymentIntentId);
+  if (!intent) {
+    return { ok: false, reason: 'not_found' };
+  }
+
+  // The intent amount was priced server-side; the client must be paying that amount
+  if (formatAmountForStripe(data.amount) !== intent.amount) {
+    return { ok: false, reason: 'amount_mismatch', amount: Number(fromCents(intent.amount)) };
+  }
+
+  // A retry after the intent settled goes straight to the order it produced;
+  // Stripe rejects confirming a succeeded or processing intent a second time
+  const alreadyConfirmed = intent.status === 'succeeded' || intent.status === 'processing';
+  const confirmed = alreadyConfirmed
+    ? intent
+    : await provider.confirm(data.paymentIntentId, {
+      paymentMethod: data.paymentMethodId || (data.paymentMethodType === 'bypass' ? 'pm_bypass' : undefined),
+    });
+
+  if (confirmed.status === 'failed' || confirmed.status === 'canceled') {
+    // Return held stock to the pool straight away instead of waiting for expiry
+    await releaseReservation(data.paymentIntentId);
+    return {
+      ok: false,
+      reason: 'payment_failed',
+      error: confirmed.lastError || {
+        code: 'payment_failed',
+        message: 'Payment failed. Please check your payment information and try again.',
+      },
+    };
   }
 
-  // If payment succeeded, save order to database
-  if (status === 'succeeded') {
+  // 3D Secure and the like: the shopper has to finish the payment before there is an order
+  if (confirmed.status !== 'succeeded' && confirmed.status !== 'processing') {
+    return { ok: false, reason: 'requires_action', status: confirmed.status, clientSecret: confirmed.clientSecret };
+  }
+
+  // Save order, items and stock decrement together; processing payments get
+  // an order too, which the payment webhook settles once the outcome is known
+  const result = await createOrderWithStock({
+    orderId,
+    paymentIntentId: data.paymentIntentId,
+    status: confirmed.status === 'succeeded' ? 'paid' : 'pending',
+    actor: 'checkout',
+    customerId,
+    currency: confirmed.currency,
+    email: data.customerInfo.email,
+    shipping: data.customerInfo.shipping,
+    paymentMethod: data.paymentMethodType || 'card',
+    isDevelopmentOrder: provider.isTestMode, // Test payments are development orders
+    items,
+    promotionCode: data.promotionCode?.trim() || null,
+    shippingMethod: data.shippingMethod ?? 'standard',
+    expectedTotalCents: confirmed.amount,
+  });
+
+  if (!result.ok && result.reason === 'duplicate') {
+    // The intent was already confirmed: answer with the order it produced
+    return {
+      ok: true,
+      response: {
+        paymentIntentId: data.paymentIntentId,
+        status: result.order.status === 'pending' ? 'processing' : 'succeeded',
+        amount: toCents(result.order.total_amount),
+        currency: result.order.currency,
+        receiptUrl: provider.receiptUrl(confirmed, result.order.order_id),
+        orderId: result.order.order_id,
+        timestamp: result.order.created_at.toISOString(),
+      },
+    };
+  }
+
+  if (!result.ok) {
+    // The charge went through but the order cannot be fulfilled, so give the money back
+    if (confirmed.status === 'succeeded') {
+      await provider.refund(data.paymentIntentId, { reason: result.reason });
+    }
+    await releaseReservation(data.paymentIntentId);
+
+    if (result.reason === 'amount_mismatch') {
+      return { ok: false, reason: 'amount_mismatch', amount: Number(fromCents(result.totalCents)) };
+    }
+    if (result.reason === 'promotion_rejected' || result.reason === 'shipping_unavailable') {
+      return result;
+    }
+    return { ok: false, reason: 'insufficient_stock', shortfalls: result.issues };
+  }
+
+  console.log('✅ Order saved to database:', {
+    orderId: result.order.order_id,
+    dbId: result.order.id,
+    itemCount: result.lines.length,
+  });
+
+  if (customerId !== null && data.customerInfo.saveAddress) {
+    // The order stands even if the address book write fails
     try {
-      // Insert order into database
-      const [savedOrder] = await db.insert(orders).values({
-        order_id: orderId,
-        payment_intent_id: data.paymentIntentId,
-        status: 'completed',
-        total_amount: data.amount.toString(),
-        currency: 'usd',
-        customer_name: data.customerInfo.name,
-        customer_email: data.customerInfo.email || null,
-        shipping_address: data.customerInfo.address,
-        shipping_city: data.customerInfo.city,
-        shipping_zip: data.customerInfo.zip,
-        payment_method: data.paymentMethodType || 'card',
-        is_development_order: true, // Mark as development order
-      }).returning();
-
-      // Insert order items
-      if (data.items && data.items.length > 0) {
-        const orderItemsData = data.items.map(item => ({
-          order_id: savedOrder.id,
-          product_id: parseInt(item.id),
-          product_name: item.name,
-          product_price: item.price.toString(),
-          quantity: item.quantity,
-          line_total: (item.price * item.quantity).toString(),
-        }));
-
-        await db.insert(orderItems).values(orderItemsData);
-      }
-
-      console.log('✅ Order saved to database:', {
-        orderId: savedOrder.order_id,
-        dbId: savedOrder.id,
-        itemCount: data.items?.length || 0,
-      });
-
-    } catch (dbError) {
-      console.error('❌ Database error while saving order:', dbError);
-      // Don't fail the payment, but log the error
-      // In production, you might want to handle this differently
+      await saveAddressFromCheckout(customerId, data.customerInfo.shipping);
+    } catch (error) {
+      console.error('❌ Failed to save checkout address:', error);
     }
   }
+
+  // Closes the cart so it isn't followed up as abandoned, and credits a recovery email
+  try {
+    await markCartsConverted(
+      { customerId, token: cartToken },
+      { id: result.order.id, email: result.order.customer_email }
+    );
+  } catch (error) {
+    console.error('❌ Failed to mark cart converted:', error);
+  }
+
+  // Processing payments are confirmed by email once the webhook marks them paid
+  await sendOrderConfirmationEmail(result.order.id);
   
   return {
-    paymentIntentId: data.paymentIntentId,
-    status,
-    amount: data.amount * 100, // Convert to cents for consistency
-    currency: 'usd',
-    receiptUrl: status === 'succeeded' ? `https://mock-receipts.com/${orderId}` : undefined,
-    orderId,
-    timestamp: new Date().toISOString(),
+    ok: true,
+    response: {
+      paymentIntentId: data.paymentIntentId,
+      status: confirmed.status === 'succeeded' ? 'succeeded' : 'processing',
+      amount: confirmed.amount,
+      currency: confirmed.currency,
+      receiptUrl: confirmed.status === 'succeeded' ? provider.receiptUrl(confirmed, result.order.order_id) : undefined,
+      orderId: result.order.order_id,
+      timestamp: new Date().toISOString(),
+    },
   };
 }
 
-export async function POST(request: NextRequest) {
-  try {
-    const body: PaymentConfirmationRequest = await request.json();
-    
-    // Validate request data
-    if (!body.paymentIntentId) {
+async function handleConfirmPayment(
+  body: PaymentConfirmationRequest,
+  customerId: number | null,
+  cartToken: string | null
+): Promise<NextResponse> {
+  // Validate request data
+  if (!body.paymentIntentId) {
+    return NextResponse.json(
+      { error: 'Payment intent ID is required.' },
+      { status: 400 }
+    );
+  }
+  
+  if (!body.customerInfo || !body.customerInfo.shipping) {
+    return NextResponse.json(
+      { error: 'Customer information is required.' },
+      { status: 400 }
+    );
+  }
+
+  // Checked before the charge: the order insert would only reject it after the payment went through
+  const email: unknown = body.customerInfo.email;
+  if (email !== undefined && email !== null && email !== '') {
+    if (typeof email !== 'string' || email.trim().length > 255 || !EMAIL_PATTERN.test(email.trim())) {
       return NextResponse.json(
-        { error: 'Payment intent ID is required.' },
+        { error: 'Please enter a valid email address.' },
         { status: 400 }
       );
     }
-    
-    if (!body.customerInfo || !body.customerInfo.name) {
+    body = { ...body, customerInfo: { ...body.customerInfo, email: email.trim() } };
+  }
+
+  const shipping = validateShippingAddress(body.customerInfo.shipping);
+  if (!shipping.ok) {
+    return NextResponse.json(
+      { error: 'Please check your shipping address.', errors: shipping.errors },
+      { status: 400 }
+    );
+  }
+  body = { ...body, customerInfo: { ...body.customerInfo, shipping: shipping.address } };
+  
+  // Validate additional required fields
+  if (!body.items || body.items.length === 0) {
+    return NextResponse.json(
+      { error: 'Order items are required.' },
+      { status: 400 }
+    );
+  }
+
+  if (!body.amount || body.amount <= 0) {
+    return NextResponse.json(
+      { error: 'Order amount is required.' },
+      { status: 400 }
+    );
+  }
+
+  if (body.shippingMethod !== undefined && !isShippingMethod(body.shippingMethod)) {
+    return NextResponse.json(
+      { error: 'Unknown shipping method.' },
+      { status: 400 }
+    );
+  }
+  
+  // Process payment and save to database
+  const outcome = await processPaymentAndSaveOrder(body, customerId, cartToken);
+
+  if (!outcome.ok) {
+    if (outcome.reason === 'not_found') {
       return NextResponse.json(
-        { error: 'Customer information is required.' },
-        { status: 400 }
+        { error: 'Payment intent not found.', paymentIntentId: body.paymentIntentId },
+        { status: 404 }
       );
     }
-    
-    // Simulate processing delay
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    // Validate additional required fields
-    if (!body.items || body.items.length === 0) {
+
+    if (outcome.reason === 'payment_failed') {
       return NextResponse.json(
-        { error: 'Order items are required.' },
-        { status: 400 }
+        { 
+          error: outcome.error.message,
+          paymentIntentId: body.paymentIntentId,
+          code: outcome.error.code
+        },
+        { status: 402 }
+      );
+    }
+
+    if (outcome.reason === 'requires_action') {
+      // No order yet; the client finishes the payment with the secret and confirms again
+      return NextResponse.json(
+        {
+          error: 'This payment needs another step before it can complete.',
+          code: 'requires_action',
+          status: outcome.status,
+          paymentIntentId: body.paymentIntentId,
+          clientSecret: outcome.clientSecret,
+        },
+        { status: 402 }
       );
     }
 
-    if (!body.amount || body.amount <= 0) {
+    if (outcome.reason === 'invalid_items') {
       return NextResponse.json(
-        { error: 'Order amount is required.' },
+        { error: 'Invalid items. Each item needs a variant id and a positive quantity.', issues: outcome.shortfalls },
         { status: 400 }
       );
     }
-    
-    // Process mock payment and save to database
-    const result = await processMockPaymentAndSaveOrder(body);
-    
-    // Log the payment confirmation (for development)
-    console.log('💳 Mock Payment Processed:', {
-      orderId: result.orderId,
-      status: result.status,
-      amount: `$${(result.amount / 100).toFixed(2)}`,
-      customer: body.customerInfo.name,
-      paymentMethod: body.paymentMethodType || 'card',
-    });
-    
-    // Simulate payment failure
-    if (result.status === 'failed') {
+
+    if (outcome.reason === 'amount_mismatch') {
       return NextResponse.json(
-        { 
-          error: 'Payment failed. Please check your payment information and try again.',
+        {
+          error: 'Amount mismatch. Prices have changed, please review your cart.',
+          code: 'amount_mismatch',
+          amount: outcome.amount,
+        },
+        { status: 409 }
+      );
+    }
+
+    if (outcome.reason === 'promotion_rejected') {
+      // Usually the code's last use went to another order in the meantime
+      return NextResponse.json(
+        {
+          error: `${PROMOTION_REJECTION_MESSAGES[outcome.rejection]} Any payment taken has been refunded; please remove the code and try again.`,
+          code: 'promotion_rejected',
+          reason: outcome.rejection,
           paymentIntentId: body.paymentIntentId,
-          code: 'card_declined'
         },
-        { status: 402 }
+        { status: 409 }
       );
     }
-    
-    return NextResponse.json(result);
+
+    if (outcome.reason === 'shipping_unavailable') {
+      return NextResponse.json(
+        {
+          error: `${SHIPPING_METHOD_NAMES[outcome.method]} shipping isn't available to this address. Any payment taken has been refunded; please choose another method.`,
+          code: 'shipping_unavailable',
+          paymentIntentId: body.paymentIntentId,
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Some items no longer have enough stock. Please review your cart and try again.',
+        code: 'insufficient_stock',
+        paymentIntentId: body.paymentIntentId,
+        shortfalls: outcome.shortfalls,
+      },
+      { status: 409 }
+    );
+  }
+
+  const result = outcome.response;
+  
+  // Log the payment confirmation (for development)
+  console.log('💳 Payment Processed:', {
+    orderId: result.orderId,
+    status: result.status,
+    amount: `$${fromCents(result.amount)}`,
+    customer: body.customerInfo.shipping.fullName,
+    paymentMethod: body.paymentMethodType || 'card',
+  });
+  
+  return NextResponse.json(result);
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: PaymentConfirmationRequest = await request.json();
+
+    // Orders placed while signed in go straight into the customer's account
+    const customer = await getCustomerSession(request);
+
+    // Repeats with the same Idempotency-Key replay the first response
+    return await withIdempotency(
+      request,
+      'confirm-payment',
+      body,
+      () => handleConfirmPayment(body, customer?.customer.id ?? null, getCartToken(request))
+    );
     
   } catch (error) {
     console.error('❌ Payment Confirmation API Error:', error);
+
+    if (error instanceof PaymentProviderError && error.status < 500) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
     
     return NextResponse.json(
       { 
@@ -1,19 +1,45 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { validateShippingAddress, type ShippingAddress } from '@/lib/addresses';
+import { getCustomerSession } from '@/lib/customer-auth';
+import { withIdempotency } from '@/lib/idempotency';
 import { formatAmountForStripe } from '@/lib/stripe';
+import {
+  fromCents,
+  MAX_RESERVED_QUANTITY,
+  normalizeLineItems,
+  reassignReservation,
+  releaseReservation,
+  reserveStock,
+} from '@/lib/inventory';
+import { getPaymentProvider, PaymentProviderError, type ProviderPaymentIntent } from '@/lib/payments';
+import { quotePromotion } from '@/lib/promotions';
+import { PROMOTION_REJECTION_MESSAGES, type LineDiscount } from '@/lib/promotion-rules';
+import { quoteTax } from '@/lib/tax';
+import { quoteShipping } from '@/lib/shipping';
+import { isShippingMethod, SHIPPING_METHOD_NAMES, type ShippingMethod } from '@/lib/shipping-rates';
+import { consumeRateLimit, getClientIp, type RateLimitRule } from '@/lib/rate-limit';
+
+// Every intent holds stock for a while, so anonymous clients only get a few
+const INTENTS_PER_CLIENT: RateLimitRule = { limit: 10, windowSeconds: 10 * 60 };
 
 export interface PaymentIntentRequest {
   amount: number;
   currency: string;
   items: Array<{
-    id: string;
+    id: string; // The variant's
     name: string;
-    price: number;
+    price: number; // Informational only, the server prices items from the catalog
     quantity: number;
   }>;
   customerInfo?: {
     name: string;
     email?: string;
+    // Tax and shipping are charged at the rates for this address
+    shipping?: ShippingAddress;
   };
+  promotionCode?: string;
+  // Standard if left out
+  shippingMethod?: ShippingMethod;
 }
 
 export interface PaymentIntentResponse {
@@ -22,76 +48,216 @@ export interface PaymentIntentResponse {
   amount: number;
   currency: string;
   status: 'requires_payment_method' | 'succeeded' | 'processing';
+  reservationExpiresAt: string;
+}
+
+// Stock is reserved before the provider hands out an intent id, under a temporary key
+function generateReservationKey(): string {
+  return `res_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
-// Mock payment intent creation (simulates Stripe behavior)
-function createMockPaymentIntent(data: PaymentIntentRequest): PaymentIntentResponse {
-  // Generate mock IDs that look like Stripe IDs
-  const paymentIntentId = `pi_mock_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-  const clientSecret = `${paymentIntentId}_secret_${Math.random().toString(36).substr(2, 16)}`;
-  
-  return {
-    clientSecret,
-    paymentIntentId,
-    amount: formatAmountForStripe(data.amount),
-    currency: data.currency.toLowerCase(),
+async function handleCreatePaymentIntent(body: PaymentIntentRequest, customerId: number | null): Promise<NextResponse> {
+  // Validate request data
+  if (!body.amount || body.amount <= 0) {
+    return NextResponse.json(
+      { error: 'Invalid amount. Amount must be greater than 0.' },
+      { status: 400 }
+    );
+  }
+  
+  if (!body.currency) {
+    return NextResponse.json(
+      { error: 'Currency is required.' },
+      { status: 400 }
+    );
+  }
+  
+  if (!body.items || body.items.length === 0) {
+    return NextResponse.json(
+      { error: 'Items are required.' },
+      { status: 400 }
+    );
+  }
+  
+  const { items: requestedItems, issues: invalidItems } = normalizeLineItems(body.items);
+  if (invalidItems.length > 0) {
+    return NextResponse.json(
+      { error: 'Invalid items. Each item needs a variant id and a positive quantity.', issues: invalidItems },
+      { status: 400 }
+    );
+  }
+  
+  const reservedQuantity = requestedItems.reduce((sum, item) => sum + item.quantity, 0);
+  if (reservedQuantity > MAX_RESERVED_QUANTITY) {
+    return NextResponse.json(
+      { error: `A checkout can hold at most ${MAX_RESERVED_QUANTITY} items.`, code: 'too_many_items' },
+      { status: 400 }
+    );
+  }
+  
+  // Validated the same way confirm-payment does, so both work out the same tax
+  const shipping = validateShippingAddress(body.customerInfo?.shipping);
+  if (!shipping.ok) {
+    return NextResponse.json(
+      { error: 'A valid shipping address is required to calculate tax.', errors: shipping.errors },
+      { status: 400 }
+    );
+  }
+
+  const shippingMethod = body.shippingMethod ?? 'standard';
+  if (!isShippingMethod(shippingMethod)) {
+    return NextResponse.json(
+      { error: 'Unknown shipping method.' },
+      { status: 400 }
+    );
+  }
+  
+  // Price the items from the catalog and hold the stock for this intent
+  const reservationKey = generateReservationKey();
+  const reservation = await reserveStock(reservationKey, requestedItems);
+  
+  if (!reservation.ok) {
+    return NextResponse.json(
+      {
+        error: 'Some items are unavailable. Please review your cart and try again.',
+        code: 'items_unavailable',
+        issues: reservation.issues,
+      },
+      { status: 409 }
+    );
+  }
+  
+  // The code's limits are checked again when the order is created
+  let totalCents = reservation.totalCents;
+  let discounts: LineDiscount[] = [];
+  let freeShippingCode = false;
+  const promotionCode = body.promotionCode?.trim();
+  if (promotionCode) {
+    const quote = await quotePromotion(
+      promotionCode,
+      reservation.lines,
+      { customerId, email: body.customerInfo?.email }
+    );
+
+    if (!quote.ok) {
+      await releaseReservation(reservationKey);
+      return NextResponse.json(
+        {
+          error: PROMOTION_REJECTION_MESSAGES[quote.reason],
+          code: 'promotion_rejected',
+          reason: quote.reason,
+        },
+        { status: 409 }
+      );
+    }
+    totalCents -= quote.discountCents;
+    discounts = quote.lines;
+    freeShippingCode = quote.freeShipping;
+  }
+  
+  // Free-shipping thresholds go by the subtotal after discounts
+  const shippingOptions = await quoteShipping(
+    shipping.address.country,
+    reservation.lines,
+    totalCents,
+    freeShippingCode
+  );
+  const shippingOption = shippingOptions.find(option => option.method === shippingMethod);
+  if (!shippingOption) {
+    await releaseReservation(reservationKey);
+    return NextResponse.json(
+      {
+        error: `${SHIPPING_METHOD_NAMES[shippingMethod]} shipping isn't available to this address.`,
+        code: 'shipping_unavailable',
+      },
+      { status: 409 }
+    );
+  }
+  
+  const tax = await quoteTax(shipping.address, reservation.lines, discounts);
+  totalCents += tax.taxCents + shippingOption.costCents;
+  
+  // The client amount must match the server total, otherwise prices changed under the cart
+  if (formatAmountForStripe(body.amount) !== totalCents) {
+    await releaseReservation(reservationKey);
+    return NextResponse.json(
+      {
+        error: 'Amount mismatch. Prices have changed, please review your cart.',
+        code: 'amount_mismatch',
+        amount: Number(fromCents(totalCents)),
+      },
+      { status: 409 }
+    );
+  }
+  
+  let intent: ProviderPaymentIntent;
+  try {
+    intent = await getPaymentProvider().createIntent({
+      amount: totalCents,
+      currency: body.currency,
+      metadata: {
+        reservation_key: reservationKey,
+        shipping_method: shippingMethod,
+        ...(promotionCode && { promotion_code: promotionCode.toUpperCase() }),
+      },
+    });
+  } catch (error) {
+    await releaseReservation(reservationKey);
+    throw error;
+  }
+  
+  await reassignReservation(reservationKey, intent.id);
+  
+  const paymentIntent: PaymentIntentResponse = {
+    clientSecret: intent.clientSecret,
+    paymentIntentId: intent.id,
+    amount: intent.amount,
+    currency: intent.currency,
     status: 'requires_payment_method',
+    reservationExpiresAt: reservation.expiresAt.toISOString(),
   };
+  
+  // Log the payment intent creation (for development)
+  console.log('🔄 Payment Intent Created:', {
+    id: paymentIntent.paymentIntentId,
+    amount: `$${fromCents(totalCents)}`,
+    items: reservation.lines.map(line => `${line.quantity}x ${line.name}`).join(', '),
+    customer: body.customerInfo?.name || 'Anonymous',
+    reservedUntil: paymentIntent.reservationExpiresAt,
+  });
+  
+  return NextResponse.json(paymentIntent);
 }
 
 export async function POST(request: NextRequest) {
   try {
-    const body: PaymentIntentRequest = await request.json();
-    
-    // Validate request data
-    if (!body.amount || body.amount <= 0) {
+    const limit = await consumeRateLimit(`payment-intent:ip:${getClientIp(request)}`, INTENTS_PER_CLIENT);
+    if (!limit.allowed) {
       return NextResponse.json(
-        { error: 'Invalid amount. Amount must be greater than 0.' },
-        { status: 400 }
+        { error: 'Too many checkout attempts. Please try again shortly.', retryAfter: limit.retryAfterSeconds },
+        { status: 429, headers: { 'Retry-After': String(limit.retryAfterSeconds) } }
       );
     }
+
+    const body: PaymentIntentRequest = await request.json();
+
+    // Per-customer code limits count the signed-in account's orders
+    const customer = await getCustomerSession(request);
     
-    if (!body.currency) {
-      return NextResponse.json(
-        { error: 'Currency is required.' },
-        { status: 400 }
-      );
-    }
-    
-    if (!body.items || body.items.length === 0) {
-      return NextResponse.json(
-        { error: 'Items are required.' },
-        { status: 400 }
-      );
-    }
-    
-    // Validate that the amount matches the items total
-    const calculatedTotal = body.items.reduce((total, item) => {
-      return total + (item.price * item.quantity);
-    }, 0);
-    
-    if (Math.abs(calculatedTotal - body.amount) > 0.01) {
-      return NextResponse.json(
-        { error: 'Amount mismatch. Calculated total does not match provided amount.' },
-        { status: 400 }
-      );
-    }
-    
-    // Create mock payment intent
-    const paymentIntent = createMockPaymentIntent(body);
-    
-    // Log the payment intent creation (for development)
-    console.log('🔄 Mock Payment Intent Created:', {
-      id: paymentIntent.paymentIntentId,
-      amount: `$${body.amount.toFixed(2)}`,
-      items: body.items.map(item => `${item.quantity}x ${item.name}`).join(', '),
-      customer: body.customerInfo?.name || 'Anonymous',
-    });
-    
-    return NextResponse.json(paymentIntent);
+    // Repeats with the same Idempotency-Key replay the first response
+    return await withIdempotency(
+      request,
+      'create-payment-intent',
+      body,
+      () => handleCreatePaymentIntent(body, customer?.customer.id ?? null)
+    );
     
   } catch (error) {
     console.error('❌ Payment Intent API Error:', error);
+
+    if (error instanceof PaymentProviderError && error.status < 500) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
     
     return NextResponse.json(
       { 
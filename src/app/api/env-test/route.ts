@@ -6,6 +6,7 @@ export async function GET() {
     NEXT_PUBLIC_SUPABASE_URL: process.env.NEXT_PUBLIC_SUPABASE_URL ? 'Set' : 'Not set',
     NEXT_PUBLIC_SUPABASE_ANON_KEY: process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ? 'Set' : 'Not set',
     SUPABASE_SERVICE_ROLE_KEY: process.env.SUPABASE_SERVICE_ROLE_KEY ? 'Set' : 'Not set',
-    ADMIN_SECRET_KEY: process.env.ADMIN_SECRET_KEY ? 'Set' : 'Not set',
+    ADMIN_SESSION_SECRET: process.env.ADMIN_SESSION_SECRET ? 'Set' : 'Not set',
+    CUSTOMER_SESSION_SECRET: process.env.CUSTOMER_SESSION_SECRET ? 'Set' : 'Not set',
   })
 } 
\ No newline at end of file
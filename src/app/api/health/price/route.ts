@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { authorizeAdmin } from '@/lib/admin-auth';
 import { getPriceHealthStatus, priceMonitor } from '@/lib/price-monitoring';
 
 export async function GET(request: NextRequest) {
@@ -9,6 +10,12 @@ export async function GET(request: NextRequest) {
     const healthStatus = getPriceHealthStatus();
     
     if (detailed) {
+      // Recent errors include product context, so the detailed report is for admins only
+      const auth = await authorizeAdmin(request, 'price_monitoring:read');
+      if (!auth.ok) {
+        return auth.response;
+      }
+
       // Return detailed monitoring information
       const report = priceMonitor.generateReport();
       const recentErrors = priceMonitor.getRecentErrors(10);
@@ -69,6 +76,11 @@ export async function POST(request: NextRequest) {
           error: 'Reset only allowed in development'
         }, { status: 403 });
       }
+
+      const auth = await authorizeAdmin(request, 'price_monitoring:write');
+      if (!auth.ok) {
+        return auth.response;
+      }
       
       priceMonitor.resetMetrics();
       
@@ -0,0 +1,198 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { asc, eq, inArray } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { authorizeAdmin } from '@/lib/admin-auth';
+import { auditRequestMetadata, type AuditRequestMetadata } from '@/lib/audit-log';
+import { orders, refundItems, refunds } from '@/lib/db/schema';
+import { withIdempotency } from '@/lib/idempotency';
+import { fromCents } from '@/lib/inventory';
+import { sendOrderRefundedEmail } from '@/lib/mail';
+import { PaymentProviderError } from '@/lib/payments';
+import { refundOrder, type RefundLineRequest } from '@/lib/refunds';
+
+export interface RefundRequest {
+  // Omit for a full refund of whatever has not been refunded yet
+  items?: RefundLineRequest[];
+  restock?: boolean;
+  reason?: string;
+}
+
+async function findOrderDbId(orderId: string): Promise<number | null> {
+  const [order] = await db
+    .select({ id: orders.id })
+    .from(orders)
+    .where(eq(orders.order_id, orderId));
+
+  return order?.id ?? null;
+}
+
+async function handleRefund(
+  orderId: string,
+  body: RefundRequest,
+  actor: string,
+  auditRequest: AuditRequestMetadata
+): Promise<NextResponse> {
+  if (body.items !== undefined && (!Array.isArray(body.items) || body.items.length === 0)) {
+    return NextResponse.json(
+      { error: 'items must be a non-empty list of { orderItemId, quantity }, or omitted for a full refund' },
+      { status: 400 }
+    );
+  }
+
+  const orderDbId = await findOrderDbId(orderId);
+  if (orderDbId === null) {
+    return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+  }
+
+  const result = await refundOrder(orderDbId, {
+    items: body.items?.map(item => ({
+      orderItemId: Number(item.orderItemId),
+      quantity: Number(item.quantity),
+    })),
+    restock: body.restock === true,
+    reason: typeof body.reason === 'string' ? body.reason : undefined,
+    actor,
+    request: auditRequest,
+  });
+
+  if (!result.ok) {
+    switch (result.reason) {
+      case 'not_found':
+        return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+      case 'not_refundable':
+        return NextResponse.json(
+          { error: `Orders that are ${result.status} cannot be refunded`, code: result.reason },
+          { status: 409 }
+        );
+      case 'nothing_to_refund':
+        return NextResponse.json(
+          { error: 'This order has already been refunded in full', code: result.reason },
+          { status: 409 }
+        );
+      case 'invalid_items':
+        return NextResponse.json(
+          { error: 'Some line items cannot be refunded in the requested quantity', code: result.reason, issues: result.issues },
+          { status: 400 }
+        );
+      case 'amount_exceeded':
+        return NextResponse.json(
+          {
+            error: 'Refund exceeds the amount left on the order',
+            code: result.reason,
+            amount: Number(fromCents(result.amountCents)),
+            refundable: Number(fromCents(result.refundableCents)),
+          },
+          { status: 409 }
+        );
+    }
+  }
+
+  console.log('💸 Order refunded:', {
+    orderId,
+    refundId: result.refund.id,
+    amount: result.refund.amount,
+    restocked: result.refund.restocked,
+    status: result.order.status,
+  });
+
+  await sendOrderRefundedEmail(result.order.id, {
+    key: `refund:${result.refund.id}`,
+    amount: result.refund.amount,
+    reason: result.refund.reason,
+  });
+
+  return NextResponse.json({
+    message: 'Refund issued',
+    refund: { ...result.refund, items: result.items },
+    order: result.order,
+  });
+}
+
+// GET /api/orders/[orderId]/refunds - List refunds issued for an order
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { orderId: string } }
+) {
+  const auth = await authorizeAdmin(request, 'orders:read');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const orderDbId = await findOrderDbId(params.orderId);
+    if (orderDbId === null) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+    }
+
+    const orderRefunds = await db
+      .select()
+      .from(refunds)
+      .where(eq(refunds.order_id, orderDbId))
+      .orderBy(asc(refunds.created_at), asc(refunds.id));
+
+    const items = orderRefunds.length > 0
+      ? await db
+          .select()
+          .from(refundItems)
+          .where(inArray(refundItems.refund_id, orderRefunds.map(refund => refund.id)))
+      : [];
+
+    return NextResponse.json({
+      refunds: orderRefunds.map(refund => ({
+        ...refund,
+        items: items.filter(item => item.refund_id === refund.id),
+      })),
+      count: orderRefunds.length,
+    });
+
+  } catch (error) {
+    console.error('❌ Order Refunds API Error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch refunds',
+        details: process.env.NODE_ENV === 'development' ? String(error) : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/orders/[orderId]/refunds - Refund an order in full or by line item
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { orderId: string } }
+) {
+  const auth = await authorizeAdmin(request, 'orders:refund');
+  if (!auth.ok) {
+    return auth.response;
+  }
+  const { admin } = auth;
+
+  try {
+    const body: RefundRequest = await request.json().catch(() => ({}));
+
+    // Retrying with the same Idempotency-Key returns the first refund instead of issuing another
+    return await withIdempotency(
+      request,
+      `order-refunds:${params.orderId}`,
+      body,
+      () => handleRefund(params.orderId, body, `admin:${admin.user.email}`, auditRequestMetadata(request))
+    );
+
+  } catch (error) {
+    console.error('❌ Order Refunds API Error:', error);
+
+    if (error instanceof PaymentProviderError && error.status < 500) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+
+    return NextResponse.json(
+      {
+        error: 'Failed to issue refund',
+        details: process.env.NODE_ENV === 'development' ? String(error) : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
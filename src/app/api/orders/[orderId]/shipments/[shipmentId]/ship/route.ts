@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { eq } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { authorizeAdmin } from '@/lib/admin-auth';
+import { auditRequestMetadata } from '@/lib/audit-log';
+import { orders } from '@/lib/db/schema';
+import { sendOrderShippedEmail } from '@/lib/mail';
+import { markShipmentShipped } from '@/lib/shipments';
+import { SHIPMENT_CARRIER_NAMES } from '@/lib/shipment-rules';
+
+// POST /api/orders/[orderId]/shipments/[shipmentId]/ship - Mark a shipment as handed to the carrier
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { orderId: string; shipmentId: string } }
+) {
+  const auth = await authorizeAdmin(request, 'orders:update_status');
+  if (!auth.ok) {
+    return auth.response;
+  }
+  const { admin } = auth;
+
+  try {
+    const body: { trackingNumber?: unknown } = await request.json().catch(() => ({}));
+
+    const shipmentId = Number(params.shipmentId);
+    if (!Number.isInteger(shipmentId) || shipmentId <= 0) {
+      return NextResponse.json({ error: 'Shipment not found' }, { status: 404 });
+    }
+
+    const [order] = await db
+      .select({ id: orders.id })
+      .from(orders)
+      .where(eq(orders.order_id, params.orderId));
+
+    if (!order) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+    }
+
+    const result = await markShipmentShipped(order.id, shipmentId, {
+      trackingNumber: typeof body.trackingNumber === 'string' ? body.trackingNumber : undefined,
+      actor: `admin:${admin.user.email}`,
+      request: auditRequestMetadata(request),
+    });
+
+    if (!result.ok) {
+      switch (result.reason) {
+        case 'not_found':
+          return NextResponse.json({ error: 'Shipment not found' }, { status: 404 });
+        case 'already_shipped':
+          return NextResponse.json(
+            { error: 'This shipment has already been marked shipped', code: result.reason },
+            { status: 409 }
+          );
+        case 'not_shippable':
+          return NextResponse.json(
+            { error: `Orders that are ${result.status} cannot be shipped`, code: result.reason },
+            { status: 409 }
+          );
+      }
+    }
+
+    console.log('🚚 Shipment shipped:', {
+      orderId: params.orderId,
+      shipmentId: result.shipment.id,
+      orderStatus: result.order.status,
+    });
+
+    // One email per package, each with its own tracking
+    const { shipment } = result;
+    await sendOrderShippedEmail(
+      result.order.id,
+      {
+        carrier: shipment.carrier === 'other' ? null : SHIPMENT_CARRIER_NAMES[shipment.carrier],
+        trackingNumber: shipment.trackingNumber,
+        trackingUrl: shipment.trackingUrl,
+        packageItems: shipment.items.map(item => ({ name: item.name, quantity: item.quantity })),
+      },
+      `shipment:${shipment.id}`
+    );
+
+    return NextResponse.json({
+      message: result.orderShipped ? 'Shipment sent; the order has shipped in full' : 'Shipment sent',
+      shipment,
+      order: result.order,
+    });
+
+  } catch (error) {
+    console.error('❌ Order Shipments API Error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to mark shipment shipped',
+        details: process.env.NODE_ENV === 'development' ? String(error) : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
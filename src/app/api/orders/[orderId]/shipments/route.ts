@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { eq } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { authorizeAdmin } from '@/lib/admin-auth';
+import { auditRequestMetadata } from '@/lib/audit-log';
+import { orders } from '@/lib/db/schema';
+import { createShipment, getOrderFulfillment } from '@/lib/shipments';
+import { isShipmentCarrier, SHIPMENT_CARRIERS, type ShipmentLineRequest } from '@/lib/shipment-rules';
+
+export interface CreateShipmentRequest {
+  // Omit to ship everything not yet in a shipment
+  items?: ShipmentLineRequest[];
+  carrier: string;
+  trackingNumber?: string;
+}
+
+// GET /api/orders/[orderId]/shipments - Line quantities still to ship and the order's shipments
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { orderId: string } }
+) {
+  const auth = await authorizeAdmin(request, 'orders:read');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const [order] = await db
+      .select({ id: orders.id, order_id: orders.order_id, status: orders.status })
+      .from(orders)
+      .where(eq(orders.order_id, params.orderId));
+
+    if (!order) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+    }
+
+    const fulfillment = await getOrderFulfillment(order.id);
+
+    return NextResponse.json({
+      orderId: order.order_id,
+      status: order.status,
+      ...fulfillment,
+    });
+
+  } catch (error) {
+    console.error('❌ Order Shipments API Error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch shipments',
+        details: process.env.NODE_ENV === 'development' ? String(error) : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/orders/[orderId]/shipments - Pack some or all of the remaining items into a shipment
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { orderId: string } }
+) {
+  const auth = await authorizeAdmin(request, 'orders:update_status');
+  if (!auth.ok) {
+    return auth.response;
+  }
+  const { admin } = auth;
+
+  try {
+    const body: Partial<CreateShipmentRequest> = await request.json().catch(() => ({}));
+
+    if (!isShipmentCarrier(body.carrier)) {
+      return NextResponse.json(
+        { error: 'A valid carrier is required', carriers: SHIPMENT_CARRIERS },
+        { status: 400 }
+      );
+    }
+
+    if (body.items !== undefined && (!Array.isArray(body.items) || body.items.length === 0)) {
+      return NextResponse.json(
+        { error: 'items must be a non-empty list of { orderItemId, quantity }, or omitted to ship everything left' },
+        { status: 400 }
+      );
+    }
+
+    const [order] = await db
+      .select({ id: orders.id })
+      .from(orders)
+      .where(eq(orders.order_id, params.orderId));
+
+    if (!order) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+    }
+
+    const result = await createShipment(order.id, {
+      items: body.items?.map(item => ({
+        orderItemId: Number(item.orderItemId),
+        quantity: Number(item.quantity),
+      })),
+      carrier: body.carrier,
+      trackingNumber: typeof body.trackingNumber === 'string' ? body.trackingNumber : null,
+      actor: `admin:${admin.user.email}`,
+      request: auditRequestMetadata(request),
+    });
+
+    if (!result.ok) {
+      switch (result.reason) {
+        case 'not_found':
+          return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+        case 'not_shippable':
+          return NextResponse.json(
+            { error: `Orders that are ${result.status} cannot be shipped`, code: result.reason },
+            { status: 409 }
+          );
+        case 'nothing_to_ship':
+          return NextResponse.json(
+            { error: 'Every item on this order is already in a shipment', code: result.reason },
+            { status: 409 }
+          );
+        case 'invalid_items':
+          return NextResponse.json(
+            { error: 'Some line items cannot be shipped in the requested quantity', code: result.reason, issues: result.issues },
+            { status: 400 }
+          );
+      }
+    }
+
+    console.log('📦 Shipment created:', {
+      orderId: params.orderId,
+      shipmentId: result.shipment.id,
+      carrier: result.shipment.carrier,
+      items: result.shipment.items.length,
+    });
+
+    return NextResponse.json({
+      message: 'Shipment created',
+      shipment: result.shipment,
+      order: result.order,
+    });
+
+  } catch (error) {
+    console.error('❌ Order Shipments API Error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to create shipment',
+        details: process.env.NODE_ENV === 'development' ? String(error) : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
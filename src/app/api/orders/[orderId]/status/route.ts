@@ -0,0 +1,193 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { asc, eq } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { authorizeAdmin } from '@/lib/admin-auth';
+import { auditRequestMetadata, recordAuditEvent } from '@/lib/audit-log';
+import { orders, orderStatusHistory } from '@/lib/db/schema';
+import { sendOrderConfirmationEmail } from '@/lib/mail';
+import { restockOrderItems, transitionOrderStatus } from '@/lib/orders';
+import {
+  canSetOrderStatusManually,
+  isOrderStatus,
+  manualOrderStatusTransitions,
+  ORDER_STATUSES,
+  type OrderStatus,
+} from '@/lib/order-status';
+
+// Why a status can't be set here, for the ones that have their own flow
+function manualTransitionError(from: OrderStatus, to: OrderStatus): string {
+  if (to === 'refunded') {
+    return 'Refund the order through /api/orders/:orderId/refunds instead';
+  }
+  if (to === 'shipped') {
+    return 'Mark the order\'s shipments shipped through /api/orders/:orderId/shipments instead';
+  }
+  if (to === 'cancelled' && from !== 'pending') {
+    return `A ${from} order can't be cancelled; refund it in full with restock instead`;
+  }
+  return `Cannot move order from ${from} to ${to}`;
+}
+
+// GET /api/orders/[orderId]/status - Current status, allowed next statuses and history
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { orderId: string } }
+) {
+  const auth = await authorizeAdmin(request, 'orders:read');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const [order] = await db
+      .select({ id: orders.id, order_id: orders.order_id, status: orders.status })
+      .from(orders)
+      .where(eq(orders.order_id, params.orderId));
+
+    if (!order) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+    }
+
+    const history = await db
+      .select()
+      .from(orderStatusHistory)
+      .where(eq(orderStatusHistory.order_id, order.id))
+      .orderBy(asc(orderStatusHistory.created_at), asc(orderStatusHistory.id));
+
+    return NextResponse.json({
+      orderId: order.order_id,
+      status: order.status,
+      allowed: manualOrderStatusTransitions(order.status),
+      history,
+    });
+
+  } catch (error) {
+    console.error('❌ Order Status API Error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch order status',
+        details: process.env.NODE_ENV === 'development' ? String(error) : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/orders/[orderId]/status - Move an order to its next status
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { orderId: string } }
+) {
+  const auth = await authorizeAdmin(request, 'orders:update_status');
+  if (!auth.ok) {
+    return auth.response;
+  }
+  const { admin } = auth;
+
+  try {
+    const body = await request.json().catch(() => null);
+
+    if (!body || !isOrderStatus(body.status)) {
+      return NextResponse.json(
+        { error: 'A valid status is required', statuses: ORDER_STATUSES },
+        { status: 400 }
+      );
+    }
+
+    const [order] = await db
+      .select({ id: orders.id })
+      .from(orders)
+      .where(eq(orders.order_id, params.orderId));
+
+    if (!order) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+    }
+
+    const actor = `admin:${admin.user.email}`;
+    const reason = typeof body.reason === 'string' ? body.reason : undefined;
+
+    const result = await db.transaction(async (tx) => {
+      // Locked before the check so the status can't change in between
+      const [current] = await tx
+        .select({ status: orders.status })
+        .from(orders)
+        .where(eq(orders.id, order.id))
+        .for('update');
+
+      if (current && !canSetOrderStatusManually(current.status, body.status)) {
+        return {
+          ok: false as const,
+          reason: 'illegal_transition' as const,
+          from: current.status,
+          to: body.status as OrderStatus,
+          allowed: manualOrderStatusTransitions(current.status),
+        };
+      }
+
+      const transition = await transitionOrderStatus(order.id, body.status, { actor, reason }, tx);
+
+      if (transition.ok) {
+        // Only unpaid orders get here; their stock was taken when they were placed
+        if (transition.order.status === 'cancelled') {
+          await restockOrderItems(tx, order.id);
+        }
+
+        await recordAuditEvent({
+          actor,
+          action: 'order.status_changed',
+          entityType: 'order',
+          entityId: transition.order.order_id,
+          before: { status: transition.from },
+          after: { status: transition.order.status, reason: reason ?? null },
+          request: auditRequestMetadata(request),
+        }, tx);
+      }
+
+      return transition;
+    });
+
+    if (!result.ok) {
+      if (result.reason === 'not_found') {
+        return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+      }
+
+      return NextResponse.json(
+        {
+          error: manualTransitionError(result.from, result.to),
+          code: 'illegal_transition',
+          from: result.from,
+          allowed: manualOrderStatusTransitions(result.from),
+        },
+        { status: 409 }
+      );
+    }
+
+    console.log('📦 Order status changed:', {
+      orderId: result.order.order_id,
+      from: result.from,
+      to: result.order.status,
+    });
+
+    if (result.order.status === 'paid') {
+      await sendOrderConfirmationEmail(result.order.id);
+    }
+
+    return NextResponse.json({
+      message: 'Order status updated',
+      order: result.order,
+      from: result.from,
+    });
+
+  } catch (error) {
+    console.error('❌ Order Status API Error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to update order status',
+        details: process.env.NODE_ENV === 'development' ? String(error) : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
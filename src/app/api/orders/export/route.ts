@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeAdmin } from '@/lib/admin-auth';
+import {
+  ORDER_EXPORT_FORMATS,
+  ORDER_EXPORT_GRANULARITIES,
+  streamOrderExport,
+  type OrderExportFormat,
+  type OrderExportGranularity,
+} from '@/lib/order-export';
+import { parseOrderFilters } from '@/lib/order-queries';
+
+const CONTENT_TYPES: Record<OrderExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+};
+
+// GET /api/orders/export - Stream orders as CSV or NDJSON for accounting
+export async function GET(request: NextRequest) {
+  const auth = await authorizeAdmin(request, 'orders:export');
+  if (!auth.ok) {
+    return auth.response;
+  }
+  const { admin } = auth;
+
+  const { searchParams } = new URL(request.url);
+
+  const format = (searchParams.get('format') || 'csv') as OrderExportFormat;
+  if (!ORDER_EXPORT_FORMATS.includes(format)) {
+    return NextResponse.json(
+      { error: `format must be one of ${ORDER_EXPORT_FORMATS.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  const granularity = (searchParams.get('granularity') || 'line_item') as OrderExportGranularity;
+  if (!ORDER_EXPORT_GRANULARITIES.includes(granularity)) {
+    return NextResponse.json(
+      { error: `granularity must be one of ${ORDER_EXPORT_GRANULARITIES.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  const parsed = parseOrderFilters(searchParams);
+  if (!parsed.ok) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  // Demo checkouts would skew the books, so they are left out unless asked for with dev=true
+  const filters = { isDevelopmentOrder: false, ...parsed.filters };
+
+  const range = [searchParams.get('from'), searchParams.get('to')]
+    .map(value => value?.slice(0, 10) || 'all')
+    .join('_to_');
+  const filename = `orders_${range}_${granularity}.${format}`;
+
+  console.log('📤 Order export started:', { format, granularity, filters, admin: admin.user.email });
+
+  return new Response(streamOrderExport(filters, format, granularity), {
+    headers: {
+      'Content-Type': CONTENT_TYPES[format],
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findCustomerOrder, normalizeEmail } from '@/lib/order-lookup';
+import { consumeRateLimit, getClientIp, type RateLimitRule } from '@/lib/rate-limit';
+
+export interface OrderLookupRequest {
+  orderId: string;
+  email: string;
+}
+
+// Per client, and per order so one order cannot be probed from many addresses
+const LOOKUPS_PER_CLIENT: RateLimitRule = { limit: 10, windowSeconds: 10 * 60 };
+const LOOKUPS_PER_ORDER: RateLimitRule = { limit: 10, windowSeconds: 60 * 60 };
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function tooManyRequests(retryAfterSeconds: number) {
+  return NextResponse.json(
+    { error: 'Too many lookup attempts. Please try again later.', retryAfter: retryAfterSeconds },
+    { status: 429, headers: { 'Retry-After': String(retryAfterSeconds) } }
+  );
+}
+
+// POST /api/orders/lookup - Let a customer view their order with its id and email
+export async function POST(request: NextRequest) {
+  try {
+    const body: Partial<OrderLookupRequest> = await request.json().catch(() => ({}));
+    const orderId = typeof body.orderId === 'string' ? body.orderId.trim() : '';
+    const email = typeof body.email === 'string' ? normalizeEmail(body.email) : '';
+
+    if (!orderId || orderId.length > 100 || !EMAIL_PATTERN.test(email)) {
+      return NextResponse.json(
+        { error: 'Please enter your order number and the email used at checkout.' },
+        { status: 400 }
+      );
+    }
+
+    const clientLimit = await consumeRateLimit(`order-lookup:ip:${getClientIp(request)}`, LOOKUPS_PER_CLIENT);
+    if (!clientLimit.allowed) {
+      return tooManyRequests(clientLimit.retryAfterSeconds);
+    }
+
+    const orderLimit = await consumeRateLimit(`order-lookup:order:${orderId}`, LOOKUPS_PER_ORDER);
+    if (!orderLimit.allowed) {
+      return tooManyRequests(orderLimit.retryAfterSeconds);
+    }
+
+    const order = await findCustomerOrder(orderId, email);
+
+    if (!order) {
+      // Deliberately vague: never reveal whether the order id exists
+      return NextResponse.json(
+        { error: 'We could not find an order with that order number and email.' },
+        { status: 404, headers: { 'Cache-Control': 'no-store' } }
+      );
+    }
+
+    return NextResponse.json({ order }, { headers: { 'Cache-Control': 'no-store' } });
+
+  } catch (error) {
+    console.error('❌ Order Lookup API Error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to look up order. Please try again.',
+        details: process.env.NODE_ENV === 'development' ? String(error) : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { orders, orderItems } from '@/lib/db/schema';
-import { desc, eq } from 'drizzle-orm';
+import { orders, orderItems, orderStatusHistory } from '@/lib/db/schema';
+import { and, desc } from 'drizzle-orm';
+import { DEFAULT_SHIPPING_COUNTRY } from '@/lib/addresses';
+import { authorizeAdmin } from '@/lib/admin-auth';
+import { auditRequestMetadata, recordAuditEvent } from '@/lib/audit-log';
+import { INITIAL_ORDER_STATUSES, isOrderStatus } from '@/lib/order-status';
+import {
+  orderCursorCondition,
+  orderFilterCondition,
+  parseOrderCursor,
+  parseOrderFilters,
+  parseOrderPageSize,
+} from '@/lib/order-queries';
 
 interface OrderItem {
   product_id?: string | number;
   id?: string | number;
+  // Optional on manual orders; without it the line isn't tied to a variant
+  variant_id?: string | number;
+  sku?: string;
   name?: string;
   product_name?: string;
   price?: number;
@@ -13,42 +27,43 @@ interface OrderItem {
   quantity: number;
 }
 
-// GET /api/orders - Fetch recent orders (for testing/admin purposes)
+// GET /api/orders - List orders for admins, newest first, with filters and cursor pagination
 export async function GET(request: NextRequest) {
+  const auth = await authorizeAdmin(request, 'orders:read');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
   try {
     const { searchParams } = new URL(request.url);
-    const limit = parseInt(searchParams.get('limit') || '10');
-    const developmentOnly = searchParams.get('dev') === 'true';
 
-    // Build query
-    let query = db.select().from(orders);
-    
-    if (developmentOnly) {
-      query = query.where(eq(orders.is_development_order, true));
+    const parsed = parseOrderFilters(searchParams);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
     }
-    
-    const recentOrders = await query
-      .orderBy(desc(orders.created_at))
-      .limit(Math.min(limit, 50)); // Cap at 50 orders
-
-    // Get order items for each order
-    const ordersWithItems = await Promise.all(
-      recentOrders.map(async (order) => {
-        const items = await db.select()
-          .from(orderItems)
-          .where(eq(orderItems.order_id, order.id));
-        
-        return {
-          ...order,
-          items,
-        };
-      })
-    );
+
+    const cursor = parseOrderCursor(searchParams.get('cursor'));
+    if (cursor === null) {
+      return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 });
+    }
+
+    const pageSize = parseOrderPageSize(searchParams.get('limit'));
+
+    // One query: orders with their items aggregated alongside. An extra row tells us whether another page exists.
+    const rows = await db.query.orders.findMany({
+      where: and(orderFilterCondition(parsed.filters), orderCursorCondition(cursor)),
+      orderBy: [desc(orders.id)],
+      limit: pageSize + 1,
+      with: { items: true },
+    });
+
+    const page = rows.slice(0, pageSize);
+    const nextCursor = rows.length > pageSize ? String(page[page.length - 1].id) : null;
 
     return NextResponse.json({
-      orders: ordersWithItems,
-      count: ordersWithItems.length,
-      message: developmentOnly ? 'Development orders only' : 'All orders',
+      orders: page,
+      count: page.length,
+      nextCursor,
     });
 
   } catch (error) {
@@ -64,8 +79,14 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// POST /api/orders - Create a new order (alternative to payment confirmation)
+// POST /api/orders - Create a manual order (admin alternative to payment confirmation)
 export async function POST(request: NextRequest) {
+  const auth = await authorizeAdmin(request, 'orders:create');
+  if (!auth.ok) {
+    return auth.response;
+  }
+  const { admin } = auth;
+
   try {
     const body = await request.json();
     
@@ -77,36 +98,77 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Insert order
-    const [newOrder] = await db.insert(orders).values({
-      order_id: body.order_id,
-      payment_intent_id: body.payment_intent_id || `pi_manual_${Date.now()}`,
-      status: body.status || 'completed',
-      total_amount: body.total_amount.toString(),
-      currency: body.currency || 'usd',
-      customer_name: body.customer_name,
-      customer_email: body.customer_email || null,
-      shipping_address: body.shipping_address || 'N/A',
-      shipping_city: body.shipping_city || 'N/A',
-      shipping_zip: body.shipping_zip || 'N/A',
-      payment_method: body.payment_method || 'manual',
-      is_development_order: body.is_development_order || false,
-    }).returning();
-
-    // Insert order items if provided
-    if (body.items && Array.isArray(body.items)) {
-      const orderItemsData = body.items.map((item: OrderItem) => ({
-        order_id: newOrder.id,
-        product_id: parseInt(item.product_id || item.id),
-        product_name: item.name || item.product_name,
-        product_price: (item.price || item.product_price).toString(),
-        quantity: item.quantity,
-        line_total: ((item.price || item.product_price) * item.quantity).toString(),
-      }));
-
-      await db.insert(orderItems).values(orderItemsData);
+    // Later statuses are only reachable through /api/orders/[orderId]/status
+    const status = body.status ?? 'paid';
+    if (!isOrderStatus(status) || !INITIAL_ORDER_STATUSES.includes(status)) {
+      return NextResponse.json(
+        {
+          error: `Orders can only be created as ${INITIAL_ORDER_STATUSES.join(' or ')}`,
+          allowed: INITIAL_ORDER_STATUSES,
+        },
+        { status: 400 }
+      );
     }
 
+    const newOrder = await db.transaction(async (tx) => {
+      const [order] = await tx.insert(orders).values({
+        order_id: body.order_id,
+        payment_intent_id: body.payment_intent_id || `pi_manual_${Date.now()}`,
+        status,
+        total_amount: body.total_amount.toString(),
+        currency: body.currency || 'usd',
+        customer_name: body.customer_name,
+        customer_email: body.customer_email || null,
+        shipping_line1: body.shipping_line1 || 'N/A',
+        shipping_line2: body.shipping_line2 || null,
+        shipping_city: body.shipping_city || 'N/A',
+        shipping_region: body.shipping_region || null,
+        shipping_postal_code: body.shipping_postal_code || 'N/A',
+        shipping_country: body.shipping_country || DEFAULT_SHIPPING_COUNTRY,
+        shipping_phone: body.shipping_phone || null,
+        payment_method: body.payment_method || 'manual',
+        is_development_order: body.is_development_order || false,
+      }).returning();
+
+      await tx.insert(orderStatusHistory).values({
+        order_id: order.id,
+        from_status: null,
+        to_status: status,
+        actor: `admin:${admin.user.email}`,
+        reason: 'Order created',
+      });
+
+      // Insert order items if provided
+      if (body.items && Array.isArray(body.items)) {
+        const orderItemsData = body.items.map((item: OrderItem) => {
+          const price = Number(item.price ?? item.product_price ?? 0);
+          return {
+            order_id: order.id,
+            product_id: parseInt(String(item.product_id ?? item.id)),
+            variant_id: item.variant_id != null ? parseInt(String(item.variant_id)) : null,
+            sku: item.sku || null,
+            product_name: item.name || item.product_name || 'Unknown product',
+            product_price: price.toString(),
+            quantity: item.quantity,
+            line_total: (price * item.quantity).toString(),
+          };
+        });
+
+        await tx.insert(orderItems).values(orderItemsData);
+      }
+
+      await recordAuditEvent({
+        actor: `admin:${admin.user.email}`,
+        action: 'order.created',
+        entityType: 'order',
+        entityId: order.order_id,
+        after: order,
+        request: auditRequestMetadata(request),
+      }, tx);
+
+      return order;
+    });
+
     console.log('✅ Manual order created:', {
       orderId: newOrder.order_id,
       dbId: newOrder.id,
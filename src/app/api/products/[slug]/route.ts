@@ -5,6 +5,11 @@ import { eq } from 'drizzle-orm';
 import { ApiErrorHandler } from '@/lib/error-handler';
 import { logger } from '@/lib/logging';
 import { findProductBySlug, getProductReviews } from '@/lib/fallback-data';
+import { authorizeAdmin } from '@/lib/admin-auth';
+import { auditRequestMetadata, recordAuditEvent } from '@/lib/audit-log';
+import { isTaxCategory, TAX_CATEGORIES, type TaxCategory } from '@/lib/tax-rates';
+import { updateOnlyVariant } from '@/lib/product-variants';
+import type { ProductVariant } from '@/lib/types';
 
 export async function GET(
   request: NextRequest,
@@ -27,10 +32,10 @@ export async function GET(
       async () => {
         const { supabase } = await import('@/lib/db');
         
-        // Get product by slug
+        // Get product by slug, with the variants it is sold in
         const { data: product, error: productError } = await supabase
           .from('products')
-          .select('*')
+          .select('*, variants:product_variants(*)')
           .eq('slug', params.slug)
           .eq('is_active', true)
           .single();
@@ -53,8 +58,13 @@ export async function GET(
           logger.warn('PRODUCT_API', 'Failed to fetch reviews, continuing without them', reviewsError);
         }
 
+        const variants = ((product.variants || []) as ProductVariant[])
+          .filter(variant => variant.is_active !== false)
+          .sort((a, b) => (a.sort_order ?? 0) - (b.sort_order ?? 0) || a.id - b.id);
+
         return {
           ...product,
+          variants,
           reviews: productReviews || [],
         };
       },
@@ -127,11 +137,11 @@ export async function PUT(
       return ApiErrorHandler.createErrorResponse('Invalid product slug', 400);
     }
 
-    // Verify admin authentication
-    const authHeader = request.headers.get('authorization');
-    if (authHeader !== `Bearer ${process.env.ADMIN_SECRET_KEY}`) {
+    // Verify the admin may edit the catalog
+    const auth = await authorizeAdmin(request, 'products:write');
+    if (!auth.ok) {
       logger.apiError(endpoint, new Error('Unauthorized access attempt'), { slug: params.slug });
-      return ApiErrorHandler.createErrorResponse('Authentication required', 401);
+      return auth.response;
     }
 
     const formData = await request.formData();
@@ -141,6 +151,8 @@ export async function PUT(
       details?: string;
       price?: string;
       stock_quantity?: number;
+      tax_category?: TaxCategory;
+      weight_grams?: number;
       ingredients?: string[];
       updated_at?: Date;
     } = {};
@@ -159,6 +171,23 @@ export async function PUT(
       }
     });
 
+    const taxCategory = formData.get('tax_category');
+    if (taxCategory !== null) {
+      if (!isTaxCategory(taxCategory)) {
+        return ApiErrorHandler.createErrorResponse(`Tax category must be one of ${TAX_CATEGORIES.join(', ')}`, 400);
+      }
+      updates.tax_category = taxCategory;
+    }
+
+    const weightValue = formData.get('weight_grams');
+    if (weightValue !== null) {
+      const weightGrams = Number(weightValue);
+      if (!Number.isInteger(weightGrams) || weightGrams < 0) {
+        return ApiErrorHandler.createErrorResponse('Weight must be a whole number of grams', 400);
+      }
+      updates.weight_grams = weightGrams;
+    }
+
     // Handle ingredients if provided
     const ingredientsValue = formData.get('ingredients');
     if (ingredientsValue) {
@@ -168,19 +197,62 @@ export async function PUT(
     // Add updated timestamp
     updates.updated_at = new Date();
 
-    const updatedProduct = await db
-      .update(products)
-      .set(updates)
-      .where(eq(products.slug, params.slug))
-      .returning();
+    // Lock the row so the audit entry diffs against exactly what was overwritten
+    const updatedProduct = await db.transaction(async (tx) => {
+      const [before] = await tx
+        .select()
+        .from(products)
+        .where(eq(products.slug, params.slug))
+        .for('update');
+
+      if (!before) {
+        return null;
+      }
 
-    if (!updatedProduct.length) {
+      // Price and stock belong to variants; set here they only make sense for a single one
+      if (updates.price !== undefined || updates.stock_quantity !== undefined) {
+        const applied = await updateOnlyVariant(tx, before.id, {
+          price: updates.price,
+          stock_quantity: updates.stock_quantity,
+        });
+        if (!applied) {
+          return 'has_variants' as const;
+        }
+      }
+
+      const [after] = await tx
+        .update(products)
+        .set(updates)
+        .where(eq(products.id, before.id))
+        .returning();
+
+      await recordAuditEvent({
+        actor: `admin:${auth.admin.user.email}`,
+        action: 'product.updated',
+        entityType: 'product',
+        entityId: after.id,
+        before,
+        after,
+        request: auditRequestMetadata(request),
+      }, tx);
+
+      return after;
+    });
+
+    if (!updatedProduct) {
       logger.apiError(endpoint, new Error('Product not found for update'), { slug: params.slug });
       return ApiErrorHandler.createErrorResponse('Product not found', 404);
     }
 
+    if (updatedProduct === 'has_variants') {
+      return ApiErrorHandler.createErrorResponse(
+        'This product has several variants; set price and stock on each through /variants',
+        400
+      );
+    }
+
     logger.apiResponse(endpoint, 200);
-    return ApiErrorHandler.createSuccessResponse(updatedProduct[0]);
+    return ApiErrorHandler.createSuccessResponse(updatedProduct);
   } catch (error) {
     logger.apiError(endpoint, error, { slug: params.slug });
     return ApiErrorHandler.createErrorResponse(
@@ -191,6 +263,12 @@ export async function PUT(
   }
 }
 
+// Postgres foreign_key_violation; Drizzle wraps driver errors, so check the cause too
+function isForeignKeyViolation(error: unknown): boolean {
+  const cause = error instanceof Error && error.cause ? error.cause : error;
+  return typeof cause === 'object' && cause !== null && (cause as { code?: string }).code === '23503';
+}
+
 export async function DELETE(
   request: NextRequest,
   { params }: { params: { slug: string } }
@@ -205,11 +283,11 @@ export async function DELETE(
       return ApiErrorHandler.createErrorResponse('Invalid product slug', 400);
     }
 
-    // Verify admin authentication
-    const authHeader = request.headers.get('authorization');
-    if (authHeader !== `Bearer ${process.env.ADMIN_SECRET_KEY}`) {
+    // Verify the admin may edit the catalog
+    const auth = await authorizeAdmin(request, 'products:write');
+    if (!auth.ok) {
       logger.apiError(endpoint, new Error('Unauthorized delete attempt'), { slug: params.slug });
-      return ApiErrorHandler.createErrorResponse('Authentication required', 401);
+      return auth.response;
     }
 
     // Delete reviews first (due to foreign key constraint)
@@ -224,13 +302,30 @@ export async function DELETE(
       return ApiErrorHandler.createErrorResponse('Product not found', 404);
     }
 
-    await db.delete(reviews).where(eq(reviews.product_id, product[0].id));
-    await db.delete(products).where(eq(products.slug, params.slug));
+    await db.transaction(async (tx) => {
+      await tx.delete(reviews).where(eq(reviews.product_id, product[0].id));
+      await tx.delete(products).where(eq(products.id, product[0].id));
+
+      await recordAuditEvent({
+        actor: `admin:${auth.admin.user.email}`,
+        action: 'product.deleted',
+        entityType: 'product',
+        entityId: product[0].id,
+        before: product[0],
+        request: auditRequestMetadata(request),
+      }, tx);
+    });
 
     logger.apiResponse(endpoint, 204);
     return new NextResponse(null, { status: 204 });
   } catch (error) {
     logger.apiError(endpoint, error, { slug: params.slug });
+    if (isForeignKeyViolation(error)) {
+      return ApiErrorHandler.createErrorResponse(
+        'This product has been ordered, so it can\'t be deleted. Set its variants inactive to stop selling it.',
+        409
+      );
+    }
     return ApiErrorHandler.createErrorResponse(
       'Failed to delete product',
       500,
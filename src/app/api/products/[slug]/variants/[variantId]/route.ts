@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeAdmin } from '@/lib/admin-auth';
+import { auditRequestMetadata } from '@/lib/audit-log';
+import { findProductId, getVariant, updateVariant, variantInput } from '@/lib/product-variants';
+import { parseVariantInput } from '@/lib/variant-options';
+
+// PATCH /api/products/[slug]/variants/[variantId] - Change a variant; omitted fields keep their values.
+// Send `{ "isActive": false }` to stop selling it without touching past orders.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { slug: string; variantId: string } }
+) {
+  const auth = await authorizeAdmin(request, 'products:write');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const productId = await findProductId(params.slug);
+    const variantId = Number(params.variantId);
+    const current = productId !== null && Number.isInteger(variantId) && variantId > 0
+      ? await getVariant(productId, variantId)
+      : null;
+    if (productId === null || !current) {
+      return NextResponse.json({ error: 'Variant not found' }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ error: 'Request body must be a JSON object' }, { status: 400 });
+    }
+
+    const parsed = parseVariantInput(body, variantInput(current));
+    if (!parsed.ok) {
+      return NextResponse.json({ error: 'Please check the variant.', errors: parsed.errors }, { status: 400 });
+    }
+
+    const result = await updateVariant(productId, variantId, parsed.variant, {
+      actor: `admin:${auth.admin.user.email}`,
+      request: auditRequestMetadata(request),
+    });
+
+    if (!result.ok) {
+      return result.reason === 'not_found'
+        ? NextResponse.json({ error: 'Variant not found' }, { status: 404 })
+        : NextResponse.json(
+            { error: `The SKU ${parsed.variant.sku} already exists`, code: 'duplicate_sku' },
+            { status: 409 }
+          );
+    }
+
+    return NextResponse.json({ variant: result.variant });
+
+  } catch (error) {
+    console.error('❌ Product Variant Update API Error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to update variant',
+        details: process.env.NODE_ENV === 'development' ? String(error) : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeAdmin } from '@/lib/admin-auth';
+import { auditRequestMetadata } from '@/lib/audit-log';
+import { createVariant, findProductId, listVariants } from '@/lib/product-variants';
+import { parseVariantInput } from '@/lib/variant-options';
+
+// GET /api/products/[slug]/variants - Every variant of a product, inactive ones included
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { slug: string } }
+) {
+  const auth = await authorizeAdmin(request, 'products:write');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const productId = await findProductId(params.slug);
+    if (productId === null) {
+      return NextResponse.json({ error: 'Product not found' }, { status: 404 });
+    }
+
+    const variants = await listVariants(productId);
+    return NextResponse.json({ productId, variants, count: variants.length });
+
+  } catch (error) {
+    console.error('❌ Product Variants API Error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch variants',
+        details: process.env.NODE_ENV === 'development' ? String(error) : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/products/[slug]/variants - Add a flavor, size or other combination to a product
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { slug: string } }
+) {
+  const auth = await authorizeAdmin(request, 'products:write');
+  if (!auth.ok) {
+    return auth.response;
+  }
+
+  try {
+    const productId = await findProductId(params.slug);
+    if (productId === null) {
+      return NextResponse.json({ error: 'Product not found' }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ error: 'Request body must be a JSON object' }, { status: 400 });
+    }
+
+    const parsed = parseVariantInput(body);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: 'Please check the variant.', errors: parsed.errors }, { status: 400 });
+    }
+
+    const result = await createVariant(productId, parsed.variant, {
+      actor: `admin:${auth.admin.user.email}`,
+      request: auditRequestMetadata(request),
+    });
+
+    if (!result.ok) {
+      return result.reason === 'not_found'
+        ? NextResponse.json({ error: 'Product not found' }, { status: 404 })
+        : NextResponse.json(
+            { error: `The SKU ${parsed.variant.sku} already exists`, code: 'duplicate_sku' },
+            { status: 409 }
+          );
+    }
+
+    return NextResponse.json({ variant: result.variant }, { status: 201 });
+
+  } catch (error) {
+    console.error('❌ Product Variants API Error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to create variant',
+        details: process.env.NODE_ENV === 'development' ? String(error) : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,10 @@ import { mockProducts } from '@/lib/fallback-data';
 import { db } from '@/lib/db';
 import { products } from '@/lib/db/schema';
 import { PriceUtils } from '@/lib/price-utils';
+import { authorizeAdmin } from '@/lib/admin-auth';
+import { auditRequestMetadata, recordAuditEvent } from '@/lib/audit-log';
+import { createDefaultVariant } from '@/lib/product-variants';
+import { DEFAULT_TAX_CATEGORY, isTaxCategory, TAX_CATEGORIES } from '@/lib/tax-rates';
 
 export async function GET(request: NextRequest) {
   console.log('API: Products endpoint called');
@@ -89,13 +93,10 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    // Verify admin authentication
-    const authHeader = request.headers.get('authorization');
-    if (authHeader !== `Bearer ${process.env.ADMIN_SECRET_KEY}`) {
-      return NextResponse.json(
-        { error: 'Authentication required' },
-        { status: 401 }
-      );
+    // Verify the admin may edit the catalog
+    const auth = await authorizeAdmin(request, 'products:write');
+    if (!auth.ok) {
+      return auth.response;
     }
 
     const formData = await request.formData();
@@ -107,6 +108,9 @@ export async function POST(request: NextRequest) {
     const price = PriceUtils.getNumericPrice(priceInput);
     const stockQuantity = parseInt(formData.get('stock_quantity') as string) || 0;
     const ingredients = JSON.parse(formData.get('ingredients') as string || '[]');
+    const taxCategory = formData.get('tax_category') ?? DEFAULT_TAX_CATEGORY;
+    // Shipping weight; express and international rates are priced by it
+    const weightGrams = Number(formData.get('weight_grams') ?? 0);
 
     // Validate required fields
     if (!name || !slug || !description || !details || !PriceUtils.isValidPrice(priceInput)) {
@@ -116,21 +120,52 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (!isTaxCategory(taxCategory)) {
+      return NextResponse.json(
+        { error: `Tax category must be one of ${TAX_CATEGORIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(weightGrams) || weightGrams < 0) {
+      return NextResponse.json(
+        { error: 'Weight must be a whole number of grams' },
+        { status: 400 }
+      );
+    }
+
     // Handle image uploads (will be implemented with Cloudinary integration)
     const images: string[] = [];
 
-    const newProduct = await db.insert(products).values({
-      name,
-      slug,
-      description,
-      details,
-      price: price.toString(),
-      stock_quantity: stockQuantity,
-      ingredients,
-      images,
-    }).returning();
+    const newProduct = await db.transaction(async (tx) => {
+      const [product] = await tx.insert(products).values({
+        name,
+        slug,
+        description,
+        details,
+        price: price.toString(),
+        stock_quantity: stockQuantity,
+        tax_category: taxCategory,
+        weight_grams: weightGrams,
+        ingredients,
+        images,
+      }).returning();
+      // Sold as a single variant until options are added through the variants API
+      await createDefaultVariant(tx, product);
+
+      await recordAuditEvent({
+        actor: `admin:${auth.admin.user.email}`,
+        action: 'product.created',
+        entityType: 'product',
+        entityId: product.id,
+        after: product,
+        request: auditRequestMetadata(request),
+      }, tx);
+
+      return product;
+    });
 
-    return NextResponse.json(newProduct[0], { status: 201 });
+    return NextResponse.json(newProduct, { status: 201 });
   } catch (error) {
     console.error('Failed to create product:', error);
     return NextResponse.json(
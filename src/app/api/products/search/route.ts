@@ -2,6 +2,7 @@ import { NextRequest } from 'next/server';
 import { ApiErrorHandler } from '@/lib/error-handler';
 import { logger } from '@/lib/logging';
 import { searchMockProducts } from '@/lib/fallback-data';
+import type { ProductVariant } from '@/lib/types';
 
 export async function GET(request: NextRequest) {
   const startTime = Date.now();
@@ -22,28 +23,47 @@ export async function GET(request: NextRequest) {
       async () => {
         const { supabase } = await import('@/lib/db');
 
+        // Variants are matched on their own so that a SKU or flavor finds its
+        // product, and a price or stock filter holds for one variant that is sold
+        const activeVariants = () => supabase.from('product_variants').select('product_id').eq('is_active', true);
+        const variantProductIds = async (variantQuery: ReturnType<typeof activeVariants>): Promise<number[]> => {
+          const { data, error } = await variantQuery;
+          if (error) {
+            throw new Error(`Supabase variant query failed: ${error.message}`);
+          }
+          return Array.from(new Set(((data || []) as Array<{ product_id: number }>).map(row => row.product_id)));
+        };
+
         // Build Supabase query
         let dbQuery = supabase
           .from('products')
-          .select('*')
+          .select('*, variants:product_variants(*)')
           .eq('is_active', true);
 
-        // Text search - use ilike for case-insensitive search
+        // Text search - use ilike for case-insensitive search, on variant SKUs and options too
         if (validatedParams.query) {
-          dbQuery = dbQuery.or(`name.ilike.%${validatedParams.query}%,description.ilike.%${validatedParams.query}%`);
-        }
-
-        // Price filtering
-        if (validatedParams.minPrice !== undefined) {
-          dbQuery = dbQuery.gte('price', validatedParams.minPrice.toString());
-        }
-        if (validatedParams.maxPrice !== undefined) {
-          dbQuery = dbQuery.lte('price', validatedParams.maxPrice.toString());
+          const pattern = `%${validatedParams.query}%`;
+          const matchedIds = await variantProductIds(
+            activeVariants().or(`sku.ilike.${pattern},options->>flavor.ilike.${pattern},options->>size.ilike.${pattern}`)
+          );
+          const variantMatch = matchedIds.length > 0 ? `,id.in.(${matchedIds.join(',')})` : '';
+          dbQuery = dbQuery.or(`name.ilike.${pattern},description.ilike.${pattern}${variantMatch}`);
         }
 
-        // Stock filtering
-        if (validatedParams.inStock === true) {
-          dbQuery = dbQuery.gte('stock_quantity', 1);
+        // Price and stock filtering, against the variants
+        const { minPrice, maxPrice, inStock } = validatedParams;
+        if (minPrice !== undefined || maxPrice !== undefined || inStock === true) {
+          let variantQuery = activeVariants();
+          if (minPrice !== undefined) {
+            variantQuery = variantQuery.gte('price', minPrice.toString());
+          }
+          if (maxPrice !== undefined) {
+            variantQuery = variantQuery.lte('price', maxPrice.toString());
+          }
+          if (inStock === true) {
+            variantQuery = variantQuery.gte('stock_quantity', 1);
+          }
+          dbQuery = dbQuery.in('id', await variantProductIds(variantQuery));
         }
 
         // Apply pagination
@@ -80,7 +100,12 @@ export async function GET(request: NextRequest) {
           throw new Error(`Supabase search query failed: ${error.message}`);
         }
 
-        return results || [];
+        return (results || []).map(product => ({
+          ...product,
+          variants: ((product.variants || []) as ProductVariant[])
+            .filter(variant => variant.is_active !== false)
+            .sort((a, b) => (a.sort_order ?? 0) - (b.sort_order ?? 0) || a.id - b.id),
+        }));
       },
       'SEARCH_API_DB'
     );
@@ -2,6 +2,18 @@ import { NextRequest } from 'next/server';
 import { ApiErrorHandler } from '@/lib/error-handler';
 import { logger } from '@/lib/logging';
 import { mockStats } from '@/lib/fallback-data';
+import type { LowStockVariant } from '@/lib/types';
+import { variantDisplayName, type VariantOptions } from '@/lib/variant-options';
+
+interface VariantStockRow {
+  id: number;
+  product_id: number;
+  sku: string;
+  options: VariantOptions;
+  price: string;
+  stock_quantity: number;
+  products: { name: string; slug: string };
+}
 
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 export async function GET(_request: NextRequest) {
@@ -22,7 +34,7 @@ export async function GET(_request: NextRequest) {
           totalStock: 0,
           totalReviews: 0,
           averageRating: '0.0',
-          lowStockProducts: [] as any[],
+          lowStockVariants: [] as LowStockVariant[],
           summary: {
             inStock: 0,
             outOfStock: 0,
@@ -44,15 +56,16 @@ export async function GET(_request: NextRequest) {
           logger.warn('STATS_API', 'Failed to get total products, using fallback', error as Record<string, unknown>);
         }
 
-        // Get total stock with individual error handling
+        // Get total stock across the variants of active products, with individual error handling
         try {
-          const { data: products, error: stockError } = await supabase
-            .from('products')
-            .select('stock_quantity')
-            .eq('is_active', true);
+          const { data: variants, error: stockError } = await supabase
+            .from('product_variants')
+            .select('stock_quantity, products!inner(is_active)')
+            .eq('is_active', true)
+            .eq('products.is_active', true);
 
-          if (!stockError && products) {
-            stats.totalStock = products.reduce((sum, p) => sum + (p.stock_quantity || 0), 0);
+          if (!stockError && variants) {
+            stats.totalStock = variants.reduce((sum, v) => sum + (v.stock_quantity || 0), 0);
           }
         } catch (error) {
           logger.warn('STATS_API', 'Failed to get total stock, using fallback', error as Record<string, unknown>);
@@ -75,28 +88,39 @@ export async function GET(_request: NextRequest) {
           logger.warn('STATS_API', 'Failed to get review stats, using fallback', error as Record<string, unknown>);
         }
 
-        // Get low stock products with individual error handling
+        // Get low stock variants with individual error handling; stock is kept per variant,
+        // so one flavor can run out while the product as a whole still has plenty
         try {
-          const { data: lowStockProducts, error: lowStockError } = await supabase
-            .from('products')
-            .select('*')
+          const { data: lowStockRows, error: lowStockError } = await supabase
+            .from('product_variants')
+            .select('id, product_id, sku, options, price, stock_quantity, products!inner(name, slug, is_active)')
             .eq('is_active', true)
+            .eq('products.is_active', true)
             .lt('stock_quantity', 70)
             .order('stock_quantity', { ascending: true })
             .limit(10);
 
-          if (!lowStockError && lowStockProducts) {
-            stats.lowStockProducts = lowStockProducts;
+          if (!lowStockError && lowStockRows) {
+            const lowStockVariants = (lowStockRows as unknown as VariantStockRow[]).map(row => ({
+              id: row.id,
+              product_id: row.product_id,
+              sku: row.sku,
+              name: variantDisplayName(row.products.name, row.options),
+              slug: row.products.slug,
+              price: row.price,
+              stock_quantity: row.stock_quantity,
+            }));
+            stats.lowStockVariants = lowStockVariants;
 
             // Calculate summary
             stats.summary = {
-              inStock: lowStockProducts.filter(p => p.stock_quantity > 0).length,
-              outOfStock: lowStockProducts.filter(p => p.stock_quantity === 0).length,
-              lowStock: lowStockProducts.filter(p => p.stock_quantity > 0 && p.stock_quantity < 50).length
+              inStock: lowStockVariants.filter(v => v.stock_quantity > 0).length,
+              outOfStock: lowStockVariants.filter(v => v.stock_quantity === 0).length,
+              lowStock: lowStockVariants.filter(v => v.stock_quantity > 0 && v.stock_quantity < 50).length
             };
           }
         } catch (error) {
-          logger.warn('STATS_API', 'Failed to get low stock products, using fallback', error as Record<string, unknown>);
+          logger.warn('STATS_API', 'Failed to get low stock variants, using fallback', error as Record<string, unknown>);
         }
 
         return stats;
@@ -0,0 +1,213 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { and, eq } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { orders, webhookEvents } from '@/lib/db/schema';
+import { releaseReservation, type DbExecutor } from '@/lib/inventory';
+import { sendOrderConfirmationEmail, sendOrderRefundedEmail } from '@/lib/mail';
+import { restockOrderItems, transitionOrderStatus } from '@/lib/orders';
+import { canTransitionOrderStatus, type OrderStatus } from '@/lib/order-status';
+import { recordProviderRefund, type RefundRow } from '@/lib/refunds';
+import {
+  verifyWebhookSignature,
+  WEBHOOK_SIGNATURE_HEADER,
+  type PaymentWebhookEvent,
+} from '@/lib/payments/webhooks';
+
+function getPaymentIntentId(event: PaymentWebhookEvent): string | null {
+  const object = event.data.object;
+  if (event.type.startsWith('payment_intent.')) {
+    return object.id;
+  }
+  return typeof object.payment_intent === 'string' ? object.payment_intent : null;
+}
+
+/**
+ * Moves every order of the payment intent that allows it to the given status.
+ * `onlyFrom` narrows the statuses an order may leave for this event.
+ * Orders already past that point are left alone, so redelivered or late events are harmless.
+ */
+async function transitionOrders(
+  tx: DbExecutor,
+  paymentIntentId: string,
+  to: OrderStatus,
+  event: PaymentWebhookEvent,
+  onlyFrom?: OrderStatus[]
+): Promise<number> {
+  const matching = await tx
+    .select({ id: orders.id, status: orders.status })
+    .from(orders)
+    .where(eq(orders.payment_intent_id, paymentIntentId));
+
+  let updated = 0;
+  for (const order of matching) {
+    if (!canTransitionOrderStatus(order.status, to) || (onlyFrom && !onlyFrom.includes(order.status))) {
+      continue;
+    }
+
+    const result = await transitionOrderStatus(
+      order.id,
+      to,
+      { actor: `webhook:${event.id}`, reason: event.type },
+      tx
+    );
+
+    if (result.ok) {
+      updated++;
+      // A payment that never completed gives its stock back
+      if (to === 'cancelled') {
+        await restockOrderItems(tx, order.id);
+      }
+    }
+  }
+
+  if (to === 'cancelled') {
+    await releaseReservation(paymentIntentId, tx);
+  }
+
+  return updated;
+}
+
+interface AppliedEvent {
+  ordersUpdated: number;
+  // Refunds booked from a charge.refunded event
+  refunds: RefundRow[];
+}
+
+async function applyEvent(tx: DbExecutor, event: PaymentWebhookEvent, paymentIntentId: string): Promise<AppliedEvent> {
+  switch (event.type) {
+    case 'payment_intent.succeeded':
+      return { ordersUpdated: await transitionOrders(tx, paymentIntentId, 'paid', event), refunds: [] };
+
+    // Stripe names the failure event `payment_intent.payment_failed`
+    case 'payment_intent.payment_failed':
+    case 'payment_intent.failed':
+    case 'payment_intent.canceled':
+      // Only orders still waiting on this payment; a paid order is not undone by a stale event
+      return {
+        ordersUpdated: await transitionOrders(tx, paymentIntentId, 'cancelled', event, ['pending']),
+        refunds: [],
+      };
+
+    case 'charge.refunded': {
+      const charge = event.data.object;
+
+      // Booked like a refund from the admin, so partial refunds count towards
+      // the order and a full one puts the stock back. Stripe lists the newest refund first.
+      const refunds = await recordProviderRefund(tx, paymentIntentId, {
+        providerRefundId: charge.refunds?.data?.[0]?.id ?? null,
+        chargeRefundedCents: charge.amount_refunded ?? (charge.refunded === true ? charge.amount : undefined) ?? 0,
+        reason: event.type,
+        actor: `webhook:${event.id}`,
+      });
+      return { ordersUpdated: refunds.length, refunds };
+    }
+
+    default:
+      return { ordersUpdated: 0, refunds: [] };
+  }
+}
+
+// Emails customers about what the event changed, once it is committed
+async function notifyCustomers(event: PaymentWebhookEvent, paymentIntentId: string, refunds: RefundRow[]): Promise<void> {
+  // Refunds issued from the admin are emailed there; these are ones made at the provider.
+  // Each reports its own amount, not the charge's running total
+  for (const refund of refunds) {
+    await sendOrderRefundedEmail(refund.order_id, { key: `refund:${refund.id}`, amount: refund.amount });
+  }
+
+  if (event.type !== 'payment_intent.succeeded') {
+    return;
+  }
+
+  const paid = await db
+    .select({ id: orders.id })
+    .from(orders)
+    .where(and(eq(orders.payment_intent_id, paymentIntentId), eq(orders.status, 'paid')));
+
+  for (const order of paid) {
+    await sendOrderConfirmationEmail(order.id);
+  }
+}
+
+// POST /api/webhooks/payments - Receive signed payment provider events
+export async function POST(request: NextRequest) {
+  const secret = process.env.PAYMENT_WEBHOOK_SECRET;
+
+  if (!secret) {
+    console.error('❌ Payment webhook received but PAYMENT_WEBHOOK_SECRET is not configured');
+    return NextResponse.json({ error: 'Webhook endpoint is not configured.' }, { status: 500 });
+  }
+
+  // The signature covers the exact bytes sent, so read the raw body before parsing
+  const payload = await request.text();
+  const verification = verifyWebhookSignature(payload, request.headers.get(WEBHOOK_SIGNATURE_HEADER), secret);
+
+  if (!verification.valid) {
+    console.warn('⚠️ Rejected payment webhook:', verification.reason);
+    return NextResponse.json(
+      { error: 'Invalid webhook signature.', code: verification.reason },
+      { status: 400 }
+    );
+  }
+
+  let event: PaymentWebhookEvent;
+  try {
+    event = JSON.parse(payload);
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON payload.' }, { status: 400 });
+  }
+
+  if (!event?.id || !event.type || !event.data?.object) {
+    return NextResponse.json({ error: 'Malformed event.' }, { status: 400 });
+  }
+
+  const paymentIntentId = getPaymentIntentId(event);
+
+  try {
+    // Recording the event and applying it share a transaction, so a failure
+    // leaves no trace and the provider's retry is processed from scratch
+    const { refunds, ...result } = await db.transaction(async (tx): Promise<AppliedEvent & { duplicate: boolean }> => {
+      const [recorded] = await tx
+        .insert(webhookEvents)
+        .values({
+          event_id: event.id,
+          type: event.type,
+          payment_intent_id: paymentIntentId,
+          payload: event,
+        })
+        .onConflictDoNothing()
+        .returning({ id: webhookEvents.id });
+
+      if (!recorded) {
+        return { duplicate: true, ordersUpdated: 0, refunds: [] };
+      }
+
+      const applied = paymentIntentId ? await applyEvent(tx, event, paymentIntentId) : { ordersUpdated: 0, refunds: [] };
+      return { duplicate: false, ...applied };
+    });
+
+    console.log('🔔 Payment webhook processed:', {
+      eventId: event.id,
+      type: event.type,
+      paymentIntentId,
+      ...result,
+    });
+
+    if (paymentIntentId && result.ordersUpdated > 0) {
+      await notifyCustomers(event, paymentIntentId, refunds);
+    }
+
+    return NextResponse.json({ received: true, ...result });
+
+  } catch (error) {
+    console.error('❌ Payment Webhook Error:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Failed to process webhook event.',
+        details: process.env.NODE_ENV === 'development' ? String(error) : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -10,9 +10,38 @@ import Link from 'next/link';
 import Image from 'next/image';
 import { PageWrapper } from '@/components/ui/page-wrapper';
 import { CartSkeleton } from '@/components/skeletons/cart-skeleton';
+import CartNotices from '@/components/cart/CartNotices';
+import PromoCodeField from '@/components/cart/PromoCodeField';
+import { calculateOrderTotal } from '@/lib/cart-utils';
 
 export default function CartPage() {
-  const { items, totalPrice, clearCart, updateQuantity, markItemDeleting, completeItemDeletion, canUndo, undoDelete, clearUndo } = useCart();
+  const {
+    items,
+    totalPrice,
+    clearCart,
+    updateQuantity,
+    markItemDeleting,
+    completeItemDeletion,
+    canUndo,
+    undoDelete,
+    clearUndo,
+    isLoaded,
+    revalidateCart,
+    promotion,
+    tax,
+    isTaxPending,
+  } = useCart();
+
+  const discount = promotion ? Number(promotion.discount) : 0;
+  // Estimated from the address used at the last checkout, if any
+  const taxAmount = tax ? Number(tax.amount) : 0;
+
+  // Check the saved cart against current prices and stock
+  useEffect(() => {
+    if (isLoaded) {
+      revalidateCart();
+    }
+  }, [isLoaded, revalidateCart]);
 
   // Auto-clear undo after 5 seconds
   useEffect(() => {
@@ -24,8 +53,12 @@ export default function CartPage() {
     }
   }, [canUndo, clearUndo]);
 
+  // Known stock caps the quantity below the usual 99
+  const maxQuantity = (item: { stockQuantity?: number }) => Math.min(99, item.stockQuantity ?? 99);
+
   const handleQuantityChange = (itemId: string, newQuantity: number) => {
-    if (newQuantity >= 1 && newQuantity <= 99) {
+    const item = items.find(cartItem => cartItem.id === itemId);
+    if (item && newQuantity >= 1 && newQuantity <= maxQuantity(item)) {
       updateQuantity(itemId, newQuantity);
     }
   };
@@ -55,6 +88,9 @@ export default function CartPage() {
             <span className="text-foreground">Cart</span>
           </nav>
 
+          {/* Revalidation may just have emptied the cart */}
+          <CartNotices />
+
           {/* Empty Cart State */}
           <div className="text-center py-12 md:py-16">
             <ShoppingBag className="h-16 w-16 md:h-20 md:w-20 mx-auto text-muted-foreground mb-4 md:mb-6" />
@@ -97,6 +133,8 @@ export default function CartPage() {
           </p>
         </div>
 
+        <CartNotices />
+
         {/* Undo notification */}
         {canUndo && (
           <div className="mb-4 p-4 bg-muted/50 border border-muted rounded-lg">
@@ -157,6 +195,11 @@ export default function CartPage() {
                             </Link>
                             <p className="text-sm md:text-base text-muted-foreground mb-3">
                               ${typeof item.price === 'number' ? item.price.toFixed(2) : parseFloat(item.price).toFixed(2)} each
+                              {item.previousPrice !== undefined && (
+                                <span className="ml-2 text-xs font-medium text-amber-700">
+                                  Price changed (was ${Number(item.previousPrice).toFixed(2)})
+                                </span>
+                              )}
                             </p>
                             
                             {/* Quantity Controls */}
@@ -180,13 +223,16 @@ export default function CartPage() {
                                   variant="outline"
                                   size="icon"
                                   onClick={() => handleQuantityChange(item.id, item.quantity + 1)}
-                                  disabled={item.quantity >= 99}
+                                  disabled={item.quantity >= maxQuantity(item)}
                                   className="h-8 w-8 transition-all duration-200 ease-out hover:scale-110 active:scale-95 hover:shadow-sm"
                                   aria-label="Increase quantity"
                                 >
                                   <Plus className="h-4 w-4 transition-transform duration-200 ease-out" />
                                 </Button>
                               </div>
+                              {item.stockQuantity !== undefined && item.quantity >= item.stockQuantity && (
+                                <span className="text-xs text-muted-foreground">Only {item.stockQuantity} available</span>
+                              )}
                               
                               {/* Remove Button */}
                               <Button
@@ -232,21 +278,31 @@ export default function CartPage() {
                       <span>Subtotal</span>
                       <span>${totalPrice.toFixed(2)}</span>
                     </div>
+                    {discount > 0 && (
+                      <div className="flex justify-between text-sm text-green-700">
+                        <span>Discount ({promotion?.code})</span>
+                        <span>-${discount.toFixed(2)}</span>
+                      </div>
+                    )}
                     <div className="flex justify-between text-sm">
                       <span>Shipping</span>
-                      <span className="text-green-600">Free</span>
+                      <span>Calculated at checkout</span>
                     </div>
                     <div className="flex justify-between text-sm">
-                      <span>Tax</span>
-                      <span>Calculated at checkout</span>
+                      <span>Tax{tax?.name && ` (${tax.name})`}</span>
+                      <span>
+                        {tax ? `$${taxAmount.toFixed(2)}` : isTaxPending ? 'Calculating…' : 'Calculated at checkout'}
+                      </span>
                     </div>
                   </div>
                   
+                  <PromoCodeField />
+
                   <Separator />
                   
                   <div className="flex justify-between font-semibold text-lg">
                     <span>Total</span>
-                    <span className="text-primary">${totalPrice.toFixed(2)}</span>
+                    <span className="text-primary">${calculateOrderTotal(totalPrice, discount, taxAmount).toFixed(2)}</span>
                   </div>
                   
                   <Button asChild className="w-full h-12 text-base font-semibold">
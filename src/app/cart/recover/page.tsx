@@ -0,0 +1,20 @@
+import CartRecovery from '@/components/cart/CartRecovery';
+
+export const metadata = {
+  title: 'Restore Your Cart | EggyPro',
+  robots: { index: false },
+};
+
+export default async function CartRecoverPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string }>;
+}) {
+  const { token } = await searchParams;
+
+  return (
+    <div className="max-w-md mx-auto px-4 py-12">
+      <CartRecovery token={token ?? ''} />
+    </div>
+  );
+}
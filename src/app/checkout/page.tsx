@@ -1,6 +1,6 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
@@ -14,131 +14,231 @@ import { CreditCard, ShoppingCart, Zap } from 'lucide-react';
 import { useCart } from '@/hooks/use-cart';
 import { toast } from '@/hooks/use-toast';
 import { FormValidation } from '@/components/ui/form-validation';
+import { Checkbox } from '@/components/ui/checkbox';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { ShippingAddressFields, useShippingAddressForm } from '@/components/addresses/ShippingAddressFields';
+import CartNotices from '@/components/cart/CartNotices';
+import PromoCodeField from '@/components/cart/PromoCodeField';
 import { PriceUtils } from '@/lib/price-utils';
+import { captureCheckoutEmail, fetchSavedAddresses, fetchShippingOptions } from '@/lib/api';
+import { emptyShippingAddress, formatAddressLines, validateShippingAddressField, type ShippingAddress } from '@/lib/addresses';
+import { calculateOrderTotal } from '@/lib/cart-utils';
+import type { TaxAddress } from '@/lib/tax-rates';
+import type { ShippingOptionSummary } from '@/lib/shipping';
+import type { ShippingMethod } from '@/lib/shipping-rates';
+import type { SavedAddress } from '@/lib/address-book';
 
 import MockStripePaymentForm from '@/components/payment/MockStripePaymentForm';
 import DevBypassButton from '@/components/payment/DevBypassButton';
 import OrderConfirmation from '@/components/payment/OrderConfirmation';
 
-interface ShippingFormData {
-  fullName: string;
-  address: string;
-  city: string;
-  zip: string;
-}
-
-interface ShippingErrors {
-  fullName?: string;
-  address?: string;
-  city?: string;
-  zip?: string;
-}
-
 interface OrderDetails {
   paymentIntentId: string;
   orderId: string;
   status: 'succeeded';
   amount: number;
+  discount: number;
+  promotionCode?: string;
+  tax: number;
+  shipping: number;
+  shippingMethod: string;
   timestamp: string;
 }
 
-type CheckoutStep = 'shipping' | 'payment' | 'confirmation';
+type CheckoutStep = 'shipping' | 'shipping-method' | 'payment' | 'confirmation';
+
+const STEP_TITLES: Record<CheckoutStep, string> = {
+  shipping: 'Shipping Information',
+  'shipping-method': 'Shipping Method',
+  payment: 'Payment',
+  confirmation: 'Order Confirmed',
+};
+
+const STEP_DESCRIPTIONS: Record<CheckoutStep, string> = {
+  shipping: 'Enter your shipping details to continue.',
+  'shipping-method': 'Choose how fast your order ships.',
+  payment: 'Choose your payment method to complete the order.',
+  confirmation: '',
+};
+
+// A saved address id, or 'new' for the form
+type AddressChoice = number | 'new';
+
+const validateEmail = (value: string): string | undefined => {
+  const trimmedValue = value.trim();
+  if (!trimmedValue) return 'Please enter your email';
+  if (trimmedValue.length > 255) return 'Email must be less than 255 characters';
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(trimmedValue)) return 'Please enter a valid email address';
+  return undefined;
+};
 
 export default function CheckoutPage() {
-  const { items, totalPrice, clearCart } = useCart();
+  const {
+    items,
+    totalPrice,
+    clearCart,
+    isLoaded,
+    revalidateCart,
+    promotion,
+    tax,
+    isTaxPending,
+    setTaxAddress,
+  } = useCart();
   const [mounted, setMounted] = useState(false);
   const [currentStep, setCurrentStep] = useState<CheckoutStep>('shipping');
-  const [shippingData, setShippingData] = useState<ShippingFormData>({
-    fullName: '',
-    address: '',
-    city: '',
-    zip: '',
-  });
-  const [shippingErrors, setShippingErrors] = useState<ShippingErrors>({});
-  const [touched, setTouched] = useState<Record<string, boolean>>({});
+  const [email, setEmail] = useState('');
+  const [emailError, setEmailError] = useState<string | undefined>();
+  const [emailTouched, setEmailTouched] = useState(false);
+  // The email last saved with the cart, for abandoned checkout follow-up
+  const capturedEmail = useRef('');
+  const addressForm = useShippingAddressForm(emptyShippingAddress());
+  // Null for guests; signed-in customers pick from their address book
+  const [savedAddresses, setSavedAddresses] = useState<SavedAddress[] | null>(null);
+  const [addressChoice, setAddressChoice] = useState<AddressChoice>('new');
+  const [saveAddress, setSaveAddress] = useState(true);
+  // Null until there is a country to quote shipping to
+  const [shippingOptions, setShippingOptions] = useState<ShippingOptionSummary[] | null>(null);
+  const [shippingMethod, setShippingMethod] = useState<ShippingMethod>('standard');
+  const [isShippingPending, setIsShippingPending] = useState(false);
   const [orderDetails, setOrderDetails] = useState<OrderDetails | null>(null);
   const [paymentError, setPaymentError] = useState<string>('');
 
   useEffect(() => {
     setMounted(true);
+
+    fetchSavedAddresses()
+      .then(addresses => {
+        setSavedAddresses(addresses);
+        const preferred = addresses?.find(address => address.isDefault) ?? addresses?.[0];
+        if (preferred) {
+          setAddressChoice(preferred.id);
+        }
+      })
+      .catch(() => setSavedAddresses(null));
   }, []);
 
-  const validateShippingField = (name: keyof ShippingFormData, value: string): string | undefined => {
-    const trimmedValue = value.trim();
-
-    switch (name) {
-      case 'fullName':
-        if (!trimmedValue) return 'Please enter your full name';
-        if (trimmedValue.length < 2) return 'Name must be at least 2 characters';
-        if (trimmedValue.length > 50) return 'Name must be less than 50 characters';
-        if (!/^[a-zA-Z\s'-]+$/.test(trimmedValue)) return 'Name can only contain letters, spaces, hyphens, and apostrophes';
-        return undefined;
-
-      case 'address':
-        if (!trimmedValue) return 'Please enter your address';
-        if (trimmedValue.length < 5) return 'Address must be at least 5 characters';
-        if (trimmedValue.length > 100) return 'Address must be less than 100 characters';
-        return undefined;
-
-      case 'city':
-        if (!trimmedValue) return 'Please enter your city';
-        if (trimmedValue.length < 2) return 'City must be at least 2 characters';
-        if (trimmedValue.length > 50) return 'City must be less than 50 characters';
-        if (!/^[a-zA-Z\s'.-]+$/.test(trimmedValue)) return 'City can only contain letters, spaces, hyphens, apostrophes, and periods';
-        return undefined;
-
-      case 'zip':
-        if (!trimmedValue) return 'Please enter your ZIP code';
-        // Support various ZIP code formats (US, Canada, UK, etc.)
-        if (!/^[A-Za-z0-9\s-]{3,10}$/.test(trimmedValue)) return 'Please enter a valid ZIP/postal code';
-        return undefined;
-
-      default:
-        return undefined;
+  // Totals shown here must use current prices and stock
+  useEffect(() => {
+    if (isLoaded) {
+      revalidateCart();
+    }
+  }, [isLoaded, revalidateCart]);
+
+  // The server prices the order the same way and rejects a different amount
+  const discount = promotion ? Number(promotion.discount) : 0;
+  const taxAmount = tax ? Number(tax.amount) : 0;
+  const selectedShipping = shippingOptions?.find(option => option.method === shippingMethod);
+  const shippingAmount = selectedShipping ? Number(selectedShipping.cost) : 0;
+  const orderTotal = calculateOrderTotal(totalPrice, discount, taxAmount, shippingAmount);
+  const lineDiscount = (variantId: number) =>
+    Number(promotion?.lines.find(line => line.variantId === variantId)?.discount ?? 0);
+
+  const selectedAddress = savedAddresses?.find(address => address.id === addressChoice);
+  const shippingAddress: ShippingAddress = selectedAddress
+    ? {
+        fullName: selectedAddress.fullName,
+        line1: selectedAddress.line1,
+        line2: selectedAddress.line2,
+        city: selectedAddress.city,
+        region: selectedAddress.region,
+        postalCode: selectedAddress.postalCode,
+        country: selectedAddress.country,
+        phone: selectedAddress.phone,
+      }
+    : addressForm.value;
+
+  // Tax needs only where the order goes, so it is worked out as soon as that is known
+  const taxAddressValid = (['country', 'region', 'postalCode'] as const)
+    .every(field => !validateShippingAddressField(field, shippingAddress));
+  const taxAddress: TaxAddress | null = taxAddressValid
+    ? { country: shippingAddress.country, region: shippingAddress.region, postalCode: shippingAddress.postalCode }
+    : null;
+  const taxAddressKey = taxAddress ? JSON.stringify(taxAddress) : '';
+  useEffect(() => {
+    if (taxAddressKey) {
+      setTaxAddress(JSON.parse(taxAddressKey) as TaxAddress);
+    }
+  }, [taxAddressKey, setTaxAddress]);
+
+  // Shipping methods depend on the country, the cart's weight and value, and free-shipping codes
+  const shippingCountry = validateShippingAddressField('country', shippingAddress) ? '' : shippingAddress.country;
+  const shippingItemsKey = items
+    .filter(item => !item.isDeleting)
+    .map(item => `${item.variantId}:${item.quantity}`)
+    .join(',');
+  const promotionCode = promotion?.code;
+  useEffect(() => {
+    if (!shippingCountry || !shippingItemsKey) {
+      setShippingOptions(null);
+      return;
     }
-  };
 
-  const handleShippingInputChange = (name: keyof ShippingFormData, value: string) => {
-    setShippingData(prev => ({ ...prev, [name]: value }));
+    let cancelled = false;
+    setIsShippingPending(true);
+    const lines = shippingItemsKey.split(',').map(entry => {
+      const [variantId, quantity] = entry.split(':').map(Number);
+      return { variantId, quantity };
+    });
+    fetchShippingOptions(lines, shippingCountry, promotionCode)
+      .then(options => {
+        if (cancelled) return;
+        setShippingOptions(options);
+        // Keep the shopper's choice while it is still offered, otherwise fall back to the cheapest
+        setShippingMethod(current =>
+          options.some(option => option.method === current) ? current : options[0]?.method ?? 'standard'
+        );
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error('Error loading shipping options:', error);
+        setShippingOptions([]);
+      })
+      .finally(() => {
+        if (!cancelled) setIsShippingPending(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [shippingCountry, shippingItemsKey, promotionCode]);
 
-    // Clear error when user starts typing
-    if (shippingErrors[name]) {
-      setShippingErrors(prev => ({ ...prev, [name]: undefined }));
-    }
+  const customerInfo = {
+    email: email.trim(),
+    shipping: shippingAddress,
+    saveAddress: savedAddresses !== null && !selectedAddress && saveAddress,
   };
 
-  const handleShippingInputBlur = (name: keyof ShippingFormData) => {
-    setTouched(prev => ({ ...prev, [name]: true }));
-    const error = validateShippingField(name, shippingData[name]);
-    setShippingErrors(prev => ({ ...prev, [name]: error }));
+  const handleEmailCaptured = () => {
+    const trimmed = email.trim();
+    if (trimmed === capturedEmail.current) return;
+    capturedEmail.current = trimmed;
+
+    // Best effort: checkout carries on whether or not this is saved
+    captureCheckoutEmail(
+      trimmed,
+      items.filter(item => !item.isDeleting).map(item => ({ variantId: item.variantId, quantity: item.quantity }))
+    ).catch(error => {
+      capturedEmail.current = '';
+      console.error('Error saving checkout email:', error);
+    });
   };
 
-  const validateShippingForm = (): boolean => {
-    const newErrors: ShippingErrors = {};
-    let isValid = true;
+  const handleContinueToShippingMethod = () => {
+    const error = validateEmail(email);
+    setEmailError(error);
+    setEmailTouched(true);
 
-    Object.keys(shippingData).forEach((key) => {
-      const fieldName = key as keyof ShippingFormData;
-      const error = validateShippingField(fieldName, shippingData[fieldName]);
-      if (error) {
-        newErrors[fieldName] = error;
-        isValid = false;
-      }
-    });
+    // Saved addresses were validated when they were saved
+    const addressValid = selectedAddress ? true : addressForm.validate();
 
-    setShippingErrors(newErrors);
-    setTouched({
-      fullName: true,
-      address: true,
-      city: true,
-      zip: true,
-    });
-
-    return isValid;
+    if (!error && addressValid) {
+      setCurrentStep('shipping-method');
+    }
   };
 
   const handleContinueToPayment = () => {
-    if (validateShippingForm()) {
+    // The amount charged includes tax and shipping for this address, so wait until they are in
+    if (!isTaxPending && !isShippingPending && selectedShipping) {
       setCurrentStep('payment');
       setPaymentError('');
     }
@@ -152,7 +252,12 @@ export default function CheckoutPage() {
     // Create order details for confirmation
     const orderData = {
       ...result,
-      amount: totalPrice,
+      amount: orderTotal,
+      discount,
+      promotionCode: promotion?.code,
+      tax: taxAmount,
+      shipping: shippingAmount,
+      shippingMethod: selectedShipping?.name ?? '',
       timestamp: new Date().toISOString(),
     };
 
@@ -186,6 +291,9 @@ export default function CheckoutPage() {
   if (items.length === 0) {
     return (
       <div className="max-w-md mx-auto text-center py-12">
+        <div className="text-left">
+          <CartNotices />
+        </div>
         <ShoppingCart className="h-16 w-16 mx-auto text-muted-foreground mb-4" />
         <h2 className="text-xl font-semibold mb-2">Your cart is empty</h2>
         <p className="text-muted-foreground mb-6">Add some products to continue with checkout</p>
@@ -208,12 +316,7 @@ export default function CheckoutPage() {
             price: PriceUtils.getNumericPrice(item.price),
             quantity: item.quantity,
           }))}
-          customerInfo={{
-            name: shippingData.fullName,
-            address: shippingData.address,
-            city: shippingData.city,
-            zip: shippingData.zip,
-          }}
+          shipping={shippingAddress}
           isDevelopmentOrder={true}
         />
       </div>
@@ -227,6 +330,8 @@ export default function CheckoutPage() {
         <p className="text-base md:text-lg text-muted-foreground leading-relaxed">You&apos;re just a few steps away from delicious, trustworthy protein!</p>
       </header>
 
+      <CartNotices />
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6 md:gap-8">
         {/* Order Summary */}
         <Card className="shadow-lg">
@@ -242,6 +347,12 @@ export default function CheckoutPage() {
                 <div>
                   <p className="font-medium text-sm md:text-base">{item.name}</p>
                   <p className="text-sm text-muted-foreground">Quantity: {item.quantity} × {PriceUtils.formatPrice(item.price)}</p>
+                  {item.previousPrice !== undefined && (
+                    <p className="text-xs font-medium text-amber-700">Price changed (was {PriceUtils.formatPrice(item.previousPrice)})</p>
+                  )}
+                  {lineDiscount(item.variantId) > 0 && (
+                    <p className="text-xs font-medium text-green-700">-{PriceUtils.formatPrice(lineDiscount(item.variantId))} with {promotion?.code}</p>
+                  )}
                 </div>
                 <p className="font-semibold text-sm md:text-base">{PriceUtils.multiplyPrice(item.price, item.quantity).formatted}</p>
               </div>
@@ -251,14 +362,29 @@ export default function CheckoutPage() {
               <p>Subtotal</p>
               <p>{PriceUtils.formatPrice(totalPrice)}</p>
             </div>
+            {discount > 0 && (
+              <div className="flex justify-between items-center text-sm text-green-700">
+                <p>Discount ({promotion?.code})</p>
+                <p>-{PriceUtils.formatPrice(discount)}</p>
+              </div>
+            )}
+            <div className="flex justify-between items-center text-sm">
+              <p>Shipping{selectedShipping && ` (${selectedShipping.name})`}</p>
+              <p>
+                {selectedShipping
+                  ? shippingAmount > 0 ? PriceUtils.formatPrice(shippingAmount) : 'Free'
+                  : isShippingPending ? 'Calculating…' : 'Added once we know your address'}
+              </p>
+            </div>
             <div className="flex justify-between items-center text-sm">
-              <p>Shipping</p>
-              <p>Free shipping on orders over $25</p>
+              <p>Tax{tax?.name && ` (${tax.name})`}</p>
+              <p>{tax ? PriceUtils.formatPrice(taxAmount) : isTaxPending ? 'Calculating…' : 'Added once we know your address'}</p>
             </div>
+            {currentStep === 'shipping' && <PromoCodeField email={validateEmail(email) ? undefined : email.trim()} />}
             <Separator />
             <div className="flex justify-between items-center font-bold text-base md:text-lg">
               <p>Total (USD)</p>
-              <p>{PriceUtils.formatPrice(totalPrice)}</p>
+              <p>{PriceUtils.formatPrice(orderTotal)}</p>
             </div>
           </CardContent>
         </Card>
@@ -268,90 +394,178 @@ export default function CheckoutPage() {
           <CardHeader>
             <CardTitle className="flex items-center gap-2 text-lg md:text-xl">
               <CreditCard className="h-6 w-6 text-primary" />
-              {currentStep === 'shipping' ? 'Shipping Information' : 'Payment'}
+              {STEP_TITLES[currentStep]}
             </CardTitle>
             <CardDescription className="text-sm md:text-base">
-              {currentStep === 'shipping'
-                ? 'Enter your shipping details to continue.'
-                : 'Choose your payment method to complete the order.'}
+              {STEP_DESCRIPTIONS[currentStep]}
             </CardDescription>
           </CardHeader>
           <CardContent>
             {currentStep === 'shipping' && (
               <div className="space-y-4">
                 <div>
-                  <Label htmlFor="fullName" className="text-sm md:text-base">Full Name</Label>
+                  <Label htmlFor="email" className="text-sm md:text-base">Email</Label>
                   <Input
-                    id="fullName"
-                    placeholder="John Doe"
-                    value={shippingData.fullName}
-                    onChange={(e) => handleShippingInputChange('fullName', e.target.value)}
-                    onBlur={() => handleShippingInputBlur('fullName')}
+                    id="email"
+                    type="email"
+                    placeholder="john@example.com"
+                    value={email}
+                    onChange={(e) => {
+                      setEmail(e.target.value);
+                      setEmailError(undefined);
+                    }}
+                    onBlur={() => {
+                      setEmailTouched(true);
+                      const error = validateEmail(email);
+                      setEmailError(error);
+                      if (!error) {
+                        handleEmailCaptured();
+                      }
+                    }}
                     className="mt-1 h-11 md:h-10"
                   />
                   <FormValidation
-                    isInvalid={!!shippingErrors.fullName}
-                    message={shippingErrors.fullName}
-                    show={touched.fullName && !!shippingErrors.fullName}
+                    isInvalid={!!emailError}
+                    message={emailError}
+                    show={emailTouched && !!emailError}
                   />
+                  <p className="mt-1 text-xs text-muted-foreground">
+                    For your receipt. If you don&apos;t finish checking out, we may send one reminder with a link back to your cart.
+                  </p>
                 </div>
-                <div>
-                  <Label htmlFor="address" className="text-sm md:text-base">Address</Label>
-                  <Input
-                    id="address"
-                    placeholder="123 Protein Lane"
-                    value={shippingData.address}
-                    onChange={(e) => handleShippingInputChange('address', e.target.value)}
-                    onBlur={() => handleShippingInputBlur('address')}
-                    className="mt-1 h-11 md:h-10"
-                  />
-                  <FormValidation
-                    isInvalid={!!shippingErrors.address}
-                    message={shippingErrors.address}
-                    show={touched.address && !!shippingErrors.address}
-                  />
-                </div>
-                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 md:gap-4">
-                  <div>
-                    <Label htmlFor="city" className="text-sm md:text-base">City</Label>
-                    <Input
-                      id="city"
-                      placeholder="Fitville"
-                      value={shippingData.city}
-                      onChange={(e) => handleShippingInputChange('city', e.target.value)}
-                      onBlur={() => handleShippingInputBlur('city')}
-                      className="mt-1 h-11 md:h-10"
-                    />
-                    <FormValidation
-                      isInvalid={!!shippingErrors.city}
-                      message={shippingErrors.city}
-                      show={touched.city && !!shippingErrors.city}
-                    />
-                  </div>
-                  <div>
-                    <Label htmlFor="zip" className="text-sm md:text-base">ZIP Code</Label>
-                    <Input
-                      id="zip"
-                      placeholder="90210"
-                      value={shippingData.zip}
-                      onChange={(e) => handleShippingInputChange('zip', e.target.value)}
-                      onBlur={() => handleShippingInputBlur('zip')}
-                      className="mt-1 h-11 md:h-10"
-                    />
-                    <FormValidation
-                      isInvalid={!!shippingErrors.zip}
-                      message={shippingErrors.zip}
-                      show={touched.zip && !!shippingErrors.zip}
+
+                {savedAddresses && savedAddresses.length > 0 && (
+                  <RadioGroup
+                    value={String(addressChoice)}
+                    onValueChange={(value) => setAddressChoice(value === 'new' ? 'new' : Number(value))}
+                    className="space-y-2"
+                  >
+                    <Label className="text-sm md:text-base">Ship to</Label>
+                    {savedAddresses.map(address => (
+                      <Label
+                        key={address.id}
+                        htmlFor={`saved-address-${address.id}`}
+                        className="flex items-start gap-3 rounded-lg border p-3 font-normal cursor-pointer"
+                      >
+                        <RadioGroupItem value={String(address.id)} id={`saved-address-${address.id}`} className="mt-1" />
+                        <span className="text-sm">
+                          {formatAddressLines(address).join(', ')}
+                          {address.isDefault && <span className="ml-2 text-muted-foreground">(Default)</span>}
+                        </span>
+                      </Label>
+                    ))}
+                    <Label
+                      htmlFor="saved-address-new"
+                      className="flex items-center gap-3 rounded-lg border p-3 font-normal cursor-pointer"
+                    >
+                      <RadioGroupItem value="new" id="saved-address-new" />
+                      <span className="text-sm">Use a new address</span>
+                    </Label>
+                  </RadioGroup>
+                )}
+
+                {!selectedAddress && (
+                  <>
+                    <ShippingAddressFields
+                      value={addressForm.value}
+                      errors={addressForm.errors}
+                      touched={addressForm.touched}
+                      onChange={addressForm.onChange}
+                      onBlur={addressForm.onBlur}
                     />
-                  </div>
+                    {savedAddresses !== null && (
+                      <div className="flex items-center gap-2">
+                        <Checkbox
+                          id="saveAddress"
+                          checked={saveAddress}
+                          onCheckedChange={(checked) => setSaveAddress(checked === true)}
+                        />
+                        <Label htmlFor="saveAddress" className="text-sm font-normal">
+                          Save this address to my account
+                        </Label>
+                      </div>
+                    )}
+                  </>
+                )}
+
+                <Button
+                  onClick={handleContinueToShippingMethod}
+                  size="lg"
+                  className="w-full bg-primary hover:bg-primary/90 min-h-[48px]"
+                >
+                  Continue to Shipping Method
+                </Button>
+              </div>
+            )}
+
+            {currentStep === 'shipping-method' && (
+              <div className="space-y-4">
+                <div className="rounded-lg bg-secondary/30 p-3 text-sm">
+                  <p className="font-medium">Ship to</p>
+                  <p className="text-muted-foreground">{formatAddressLines(shippingAddress).join(', ')}</p>
                 </div>
 
+                {isShippingPending && !shippingOptions && (
+                  <p className="text-sm text-muted-foreground">Finding shipping methods…</p>
+                )}
+
+                {shippingOptions && shippingOptions.length > 0 && (
+                  <RadioGroup
+                    value={shippingMethod}
+                    onValueChange={(value) => setShippingMethod(value as ShippingMethod)}
+                    className="space-y-2"
+                  >
+                    <Label className="text-sm md:text-base">Shipping method</Label>
+                    {shippingOptions.map(option => (
+                      <Label
+                        key={option.method}
+                        htmlFor={`shipping-method-${option.method}`}
+                        className="flex items-center gap-3 rounded-lg border p-3 font-normal cursor-pointer"
+                      >
+                        <RadioGroupItem value={option.method} id={`shipping-method-${option.method}`} />
+                        <span className="flex-1 text-sm">
+                          {option.name}
+                          <span className="block text-xs text-muted-foreground">{option.delivery}</span>
+                        </span>
+                        <span className="text-sm font-medium">
+                          {Number(option.cost) > 0 ? PriceUtils.formatPrice(option.cost) : (
+                            <>
+                              <span className="mr-1 text-muted-foreground line-through">{PriceUtils.formatPrice(option.regularCost)}</span>
+                              Free
+                            </>
+                          )}
+                        </span>
+                      </Label>
+                    ))}
+                  </RadioGroup>
+                )}
+
+                {shippingOptions && shippingOptions.length === 0 && !isShippingPending && (
+                  <p className="text-sm text-red-800">We can&apos;t ship this order to the selected country.</p>
+                )}
+
+                {selectedShipping && !isShippingPending && (
+                  <p className="text-sm text-muted-foreground">
+                    {selectedShipping.name}, {selectedShipping.delivery}: your total is{' '}
+                    {isTaxPending ? 'being calculated' : PriceUtils.formatPrice(orderTotal)} with shipping and tax.
+                  </p>
+                )}
+
                 <Button
                   onClick={handleContinueToPayment}
                   size="lg"
+                  disabled={isTaxPending || isShippingPending || !selectedShipping}
                   className="w-full bg-primary hover:bg-primary/90 min-h-[48px]"
                 >
-                  Continue to Payment
+                  {isTaxPending || isShippingPending ? 'Calculating totals…' : 'Continue to Payment'}
+                </Button>
+
+                <Button
+                  variant="outline"
+                  onClick={() => setCurrentStep('shipping')}
+                  className="w-full"
+                >
+                  Back to Address
                 </Button>
               </div>
             )}
@@ -380,15 +594,12 @@ export default function CheckoutPage() {
                     <DevBypassButton
                       onPaymentSuccess={handlePaymentSuccess}
                       onPaymentError={handlePaymentError}
-                      amount={totalPrice}
-                      customerInfo={{
-                        name: shippingData.fullName,
-                        address: shippingData.address,
-                        city: shippingData.city,
-                        zip: shippingData.zip,
-                      }}
+                      amount={orderTotal}
+                      promotionCode={promotion?.code}
+                      shippingMethod={shippingMethod}
+                      customerInfo={customerInfo}
                       items={items.map(item => ({
-                        id: item.productId.toString(),
+                        id: item.variantId.toString(),
                         name: item.name,
                         price: PriceUtils.getNumericPrice(item.price),
                         quantity: item.quantity,
@@ -400,15 +611,12 @@ export default function CheckoutPage() {
                     <MockStripePaymentForm
                       onPaymentSuccess={handlePaymentSuccess}
                       onPaymentError={handlePaymentError}
-                      amount={totalPrice}
-                      customerInfo={{
-                        name: shippingData.fullName,
-                        address: shippingData.address,
-                        city: shippingData.city,
-                        zip: shippingData.zip,
-                      }}
+                      amount={orderTotal}
+                      promotionCode={promotion?.code}
+                      shippingMethod={shippingMethod}
+                      customerInfo={customerInfo}
                       items={items.map(item => ({
-                        id: item.productId.toString(),
+                        id: item.variantId.toString(),
                         name: item.name,
                         price: PriceUtils.getNumericPrice(item.price),
                         quantity: item.quantity,
@@ -419,10 +627,10 @@ export default function CheckoutPage() {
 
                 <Button
                   variant="outline"
-                  onClick={() => setCurrentStep('shipping')}
+                  onClick={() => setCurrentStep('shipping-method')}
                   className="w-full"
                 >
-                  Back to Shipping
+                  Back to Shipping Method
                 </Button>
               </div>
             )}
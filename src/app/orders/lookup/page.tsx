@@ -0,0 +1,29 @@
+import OrderLookup from '@/components/orders/OrderLookup';
+
+export const metadata = {
+  title: 'Track Your Order | EggyPro',
+  description: 'Check the status of your EggyPro order with your order number and email.',
+};
+
+export default async function OrderLookupPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ order?: string }>;
+}) {
+  const { order } = await searchParams;
+
+  return (
+    <div className="max-w-3xl mx-auto px-4">
+      <div className="text-center mb-8 md:mb-12">
+        <h1 className="text-2xl md:text-3xl lg:text-4xl font-bold text-primary mb-3 md:mb-4">
+          Track Your Order
+        </h1>
+        <p className="text-base md:text-lg text-muted-foreground">
+          Enter your order number and the email you checked out with.
+        </p>
+      </div>
+
+      <OrderLookup initialOrderId={order} />
+    </div>
+  );
+}
@@ -1,4 +1,7 @@
-import { ShieldCheck, CreditCard, Lock } from 'lucide-react';
+import { ShieldCheck, CreditCard, Lock, Truck } from 'lucide-react';
+import { freeShippingThresholdCents } from '@/lib/shipping-rates';
+
+const freeShippingOver = freeShippingThresholdCents('US');
 
 const TrustBadges = () => {
   return (
@@ -15,6 +18,12 @@ const TrustBadges = () => {
         <CreditCard className="h-5 w-5 md:h-6 md:w-6 text-accent flex-shrink-0" />
         <span className="text-center sm:text-left">Multiple Payment Options</span>
       </div>
+      {freeShippingOver !== undefined && (
+        <div className="flex items-center gap-2 text-sm md:text-base text-muted-foreground min-h-[44px] sm:min-h-0">
+          <Truck className="h-5 w-5 md:h-6 md:w-6 text-accent flex-shrink-0" />
+          <span className="text-center sm:text-left">Free US Shipping over ${freeShippingOver / 100}</span>
+        </div>
+      )}
       {/* You can add logos of payment providers here if needed */}
       {/* Example: <img src="/path/to/visa-logo.svg" alt="Visa" className="h-6" /> */}
     </div>
@@ -0,0 +1,137 @@
+'use client';
+
+import { useState, type FormEvent } from 'react';
+import { useRouter } from 'next/navigation';
+import { Loader2, User } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useCart } from '@/hooks/use-cart';
+import { customerLogin, customerSignup } from '@/lib/api';
+
+interface AccountAuthFormProps {
+  // Where to go after signing in; only same-site paths are honoured
+  next?: string;
+}
+
+export function AccountAuthForm({ next }: AccountAuthFormProps) {
+  const router = useRouter();
+  const { syncCart } = useCart();
+  const [mode, setMode] = useState<'login' | 'signup'>('login');
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const isSignup = mode === 'signup';
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsLoading(true);
+    setError('');
+
+    try {
+      if (isSignup) {
+        await customerSignup(email, name, password);
+      } else {
+        await customerLogin(email, password);
+      }
+      // Signing in folded this browser's cart into the account's
+      syncCart();
+      const destination = next && next.startsWith('/') && !next.startsWith('//') ? next : '/account';
+      router.replace(destination);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+      setIsLoading(false);
+    }
+  };
+
+  const switchMode = () => {
+    setMode(isSignup ? 'login' : 'signup');
+    setError('');
+  };
+
+  return (
+    <Card className="w-full max-w-md mx-auto shadow-lg">
+      <CardHeader className="text-center">
+        <div className="flex justify-center mb-2">
+          <User className="h-8 w-8 text-primary" />
+        </div>
+        <CardTitle className="text-2xl">{isSignup ? 'Create Your Account' : 'Sign In'}</CardTitle>
+        <CardDescription>
+          {isSignup
+            ? 'Keep track of your orders in one place. Checking out as a guest still works.'
+            : 'Sign in to see your orders.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {isSignup && (
+            <div>
+              <Label htmlFor="name">Name</Label>
+              <Input
+                id="name"
+                autoComplete="name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                required
+                className="mt-1"
+              />
+            </div>
+          )}
+          <div>
+            <Label htmlFor="email">Email</Label>
+            <Input
+              id="email"
+              type="email"
+              autoComplete="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+              className="mt-1"
+            />
+          </div>
+          <div>
+            <Label htmlFor="password">Password</Label>
+            <Input
+              id="password"
+              type="password"
+              autoComplete={isSignup ? 'new-password' : 'current-password'}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+              className="mt-1"
+            />
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          )}
+
+          <Button type="submit" disabled={isLoading} className="w-full">
+            {isLoading ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                {isSignup ? 'Creating account...' : 'Signing in...'}
+              </>
+            ) : (
+              isSignup ? 'Create Account' : 'Sign In'
+            )}
+          </Button>
+
+          <p className="text-center text-sm text-muted-foreground">
+            {isSignup ? 'Already have an account?' : 'New to EggyPro?'}{' '}
+            <button type="button" onClick={switchMode} className="text-primary hover:underline">
+              {isSignup ? 'Sign in' : 'Create an account'}
+            </button>
+          </p>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
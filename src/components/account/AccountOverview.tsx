@@ -0,0 +1,164 @@
+'use client';
+
+import { useState, type FormEvent } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { ChevronDown, ChevronUp, Loader2, Package, Plus } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AddressBook } from '@/components/account/AddressBook';
+import { OrderDetails, STATUS_LABELS } from '@/components/orders/OrderLookup';
+import { claimOrder, customerLogout, type CustomerAccount } from '@/lib/api';
+import type { SavedAddress } from '@/lib/address-book';
+import type { CustomerOrderView } from '@/lib/order-lookup';
+import { PriceUtils } from '@/lib/price-utils';
+
+interface AccountOverviewProps {
+  customer: CustomerAccount;
+  orders: CustomerOrderView[];
+  addresses: SavedAddress[];
+}
+
+function ClaimOrderForm({ email }: { email: string }) {
+  const router = useRouter();
+  const [orderId, setOrderId] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!orderId.trim()) return;
+
+    setIsLoading(true);
+    setMessage(null);
+
+    try {
+      const result = await claimOrder(orderId.trim());
+      setMessage({ type: 'success', text: `Order ${result.orderId} was added to your account.` });
+      setOrderId('');
+      router.refresh();
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to add order' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Plus className="h-5 w-5" />
+          Add a Guest Order
+        </CardTitle>
+        <CardDescription>
+          Checked out before you had an account? Enter the order number to add any order placed with {email}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row gap-3 sm:items-end">
+          <div className="flex-1">
+            <Label htmlFor="claimOrderId">Order Number</Label>
+            <Input
+              id="claimOrderId"
+              placeholder="order_1700000000000_abc123"
+              value={orderId}
+              onChange={(e) => setOrderId(e.target.value)}
+              className="mt-1"
+            />
+          </div>
+          <Button type="submit" disabled={isLoading || !orderId.trim()}>
+            {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Add Order'}
+          </Button>
+        </form>
+        {message && (
+          <p className={`mt-3 text-sm ${message.type === 'success' ? 'text-green-700' : 'text-red-700'}`}>
+            {message.text}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function AccountOverview({ customer, orders, addresses }: AccountOverviewProps) {
+  const router = useRouter();
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const handleSignOut = async () => {
+    await customerLogout();
+    router.replace('/');
+    router.refresh();
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold text-primary">Hi, {customer.name}</h1>
+          <p className="text-sm text-muted-foreground">{customer.email}</p>
+        </div>
+        <Button variant="ghost" onClick={handleSignOut}>
+          Sign Out
+        </Button>
+      </div>
+
+      <section className="space-y-4">
+        <h2 className="text-xl font-semibold flex items-center gap-2">
+          <Package className="h-5 w-5" />
+          Your Orders
+        </h2>
+
+        {orders.length === 0 ? (
+          <Card>
+            <CardContent className="py-8 text-center space-y-3">
+              <p className="text-muted-foreground">You haven&apos;t placed any orders with this account yet.</p>
+              <Button asChild>
+                <Link href="/products">Shop Products</Link>
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          orders.map(order => (
+            <Card key={order.orderId}>
+              <CardContent className="py-4">
+                <button
+                  type="button"
+                  className="w-full flex items-center justify-between gap-4 text-left"
+                  onClick={() => setExpanded(expanded === order.orderId ? null : order.orderId)}
+                  aria-expanded={expanded === order.orderId}
+                >
+                  <div>
+                    <p className="font-medium">Order #{order.orderId}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {new Date(order.placedAt).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}
+                      {' · '}
+                      {order.items.reduce((sum, item) => sum + item.quantity, 0)} items
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <Badge variant="outline">{STATUS_LABELS[order.status]}</Badge>
+                    <span className="font-semibold">{PriceUtils.formatPrice(order.totalAmount)}</span>
+                    {expanded === order.orderId ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                  </div>
+                </button>
+                {expanded === order.orderId && (
+                  <div className="mt-4">
+                    <OrderDetails order={order} />
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </section>
+
+      <ClaimOrderForm email={customer.email} />
+
+      <AddressBook initialAddresses={addresses} />
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2, MapPin, Plus } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { ShippingAddressFields, useShippingAddressForm } from '@/components/addresses/ShippingAddressFields';
+import { createSavedAddress, deleteSavedAddress, fetchSavedAddresses, updateSavedAddress } from '@/lib/api';
+import { emptyShippingAddress, formatAddressLines, validateShippingAddress } from '@/lib/addresses';
+import type { SavedAddress } from '@/lib/address-book';
+
+interface AddressBookProps {
+  initialAddresses: SavedAddress[];
+}
+
+// The address being edited, or 'new' while adding one
+type Editing = number | 'new' | null;
+
+export function AddressBook({ initialAddresses }: AddressBookProps) {
+  const [addresses, setAddresses] = useState(initialAddresses);
+  const [editing, setEditing] = useState<Editing>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const form = useShippingAddressForm(emptyShippingAddress());
+
+  const reload = async () => {
+    setAddresses((await fetchSavedAddresses()) ?? []);
+  };
+
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    setError('');
+    try {
+      await action();
+      await reload();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const startEditing = (target: Editing) => {
+    const saved = addresses.find(address => address.id === target);
+    form.reset(saved ? { ...emptyShippingAddress(), ...saved } : emptyShippingAddress());
+    setEditing(target);
+    setError('');
+  };
+
+  const handleSave = async () => {
+    if (!form.validate()) return;
+    const validated = validateShippingAddress(form.value);
+    if (!validated.ok) return;
+
+    const saved = await run(() =>
+      editing === 'new'
+        ? createSavedAddress(validated.address)
+        : updateSavedAddress(editing as number, { address: validated.address })
+    );
+    if (saved) {
+      setEditing(null);
+    }
+  };
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <h2 className="text-xl font-semibold flex items-center gap-2">
+          <MapPin className="h-5 w-5" />
+          Saved Addresses
+        </h2>
+        {editing === null && (
+          <Button variant="outline" size="sm" onClick={() => startEditing('new')}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add Address
+          </Button>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-700">{error}</p>}
+
+      {editing !== null && (
+        <Card>
+          <CardContent className="pt-6 space-y-4">
+            <ShippingAddressFields
+              idPrefix="address-book-"
+              value={form.value}
+              errors={form.errors}
+              touched={form.touched}
+              onChange={form.onChange}
+              onBlur={form.onBlur}
+            />
+            <div className="flex gap-2">
+              <Button onClick={handleSave} disabled={busy}>
+                {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Save Address'}
+              </Button>
+              <Button variant="ghost" onClick={() => setEditing(null)} disabled={busy}>
+                Cancel
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {addresses.length === 0 && editing === null ? (
+        <Card>
+          <CardContent className="py-6 text-center text-muted-foreground">
+            No saved addresses yet. Addresses you save here show up at checkout.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {addresses.map(address => (
+            <Card key={address.id}>
+              <CardContent className="py-4 space-y-3">
+                <div className="text-sm space-y-0.5">
+                  {formatAddressLines(address).map((line, index) => (
+                    <p key={index} className={index === 0 ? 'font-medium' : undefined}>{line}</p>
+                  ))}
+                  {address.phone && <p className="text-muted-foreground">{address.phone}</p>}
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  {address.isDefault ? (
+                    <Badge variant="secondary">Default</Badge>
+                  ) : (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={busy}
+                      onClick={() => run(() => updateSavedAddress(address.id, { makeDefault: true }))}
+                    >
+                      Make Default
+                    </Button>
+                  )}
+                  <Button variant="ghost" size="sm" disabled={busy} onClick={() => startEditing(address.id)}>
+                    Edit
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={busy}
+                    className="text-red-700"
+                    onClick={() => run(() => deleteSavedAddress(address.id))}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
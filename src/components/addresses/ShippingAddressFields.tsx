@@ -0,0 +1,167 @@
+'use client';
+
+import { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FormValidation } from '@/components/ui/form-validation';
+import { getCountryAddressFormat } from '@/lib/address-formats';
+import {
+  SHIPPING_ADDRESS_FIELDS,
+  SHIPPING_COUNTRIES,
+  validateShippingAddressField,
+  type ShippingAddress,
+  type ShippingAddressErrors,
+} from '@/lib/addresses';
+
+type TouchedFields = Partial<Record<keyof ShippingAddress, boolean>>;
+
+/**
+ * Form state for ShippingAddressFields, validating a field when it loses focus
+ * and everything on validate()
+ */
+export function useShippingAddressForm(initial: ShippingAddress) {
+  const [value, setValue] = useState<ShippingAddress>(initial);
+  const [errors, setErrors] = useState<ShippingAddressErrors>({});
+  const [touched, setTouched] = useState<TouchedFields>({});
+
+  const onChange = (field: keyof ShippingAddress, fieldValue: string) => {
+    if (field === 'country') {
+      // States and postal codes mean something else in the new country
+      setValue(prev => ({ ...prev, country: fieldValue, region: '' }));
+      setErrors(prev => ({ ...prev, country: undefined, region: undefined, postalCode: undefined }));
+      return;
+    }
+
+    setValue(prev => ({ ...prev, [field]: fieldValue }));
+
+    // Clear error when user starts typing
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: undefined }));
+    }
+  };
+
+  const onBlur = (field: keyof ShippingAddress) => {
+    setTouched(prev => ({ ...prev, [field]: true }));
+    setErrors(prev => ({ ...prev, [field]: validateShippingAddressField(field, value) }));
+  };
+
+  const validate = (): boolean => {
+    const newErrors: ShippingAddressErrors = {};
+    SHIPPING_ADDRESS_FIELDS.forEach(field => {
+      const error = validateShippingAddressField(field, value);
+      if (error) {
+        newErrors[field] = error;
+      }
+    });
+
+    setErrors(newErrors);
+    setTouched(Object.fromEntries(SHIPPING_ADDRESS_FIELDS.map(field => [field, true])));
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const reset = (next: ShippingAddress) => {
+    setValue(next);
+    setErrors({});
+    setTouched({});
+  };
+
+  return { value, errors, touched, onChange, onBlur, validate, reset };
+}
+
+interface ShippingAddressFieldsProps {
+  // Prefixes the input ids so two forms can share a page
+  idPrefix?: string;
+  value: ShippingAddress;
+  errors: ShippingAddressErrors;
+  touched: TouchedFields;
+  onChange: (field: keyof ShippingAddress, value: string) => void;
+  onBlur: (field: keyof ShippingAddress) => void;
+}
+
+export function ShippingAddressFields({
+  idPrefix = '',
+  value,
+  errors,
+  touched,
+  onChange,
+  onBlur,
+}: ShippingAddressFieldsProps) {
+  const field = (
+    name: keyof ShippingAddress,
+    label: string,
+    props: { placeholder?: string; autoComplete?: string; type?: string } = {}
+  ) => (
+    <div>
+      <Label htmlFor={`${idPrefix}${name}`} className="text-sm md:text-base">{label}</Label>
+      <Input
+        id={`${idPrefix}${name}`}
+        value={value[name] ?? ''}
+        onChange={(e) => onChange(name, e.target.value)}
+        onBlur={() => onBlur(name)}
+        className="mt-1 h-11 md:h-10"
+        {...props}
+      />
+      <FormValidation
+        isInvalid={!!errors[name]}
+        message={errors[name]}
+        show={touched[name] && !!errors[name]}
+      />
+    </div>
+  );
+
+  const format = getCountryAddressFormat(value.country);
+  const regionLabel = `${format?.regionLabel ?? 'State/region'}${format?.regionRequired ? '' : ' (optional)'}`;
+  const postalCodeLabel = `${format?.postalCodeLabel ?? 'Postal code'}${format?.postalCodeRequired === false ? ' (optional)' : ''}`;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label className="text-sm md:text-base">Country</Label>
+        <Select value={value.country} onValueChange={(country) => onChange('country', country)}>
+          <SelectTrigger className="mt-1 h-11 md:h-10" aria-label="Country">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SHIPPING_COUNTRIES.map(country => (
+              <SelectItem key={country.code} value={country.code}>{country.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {field('fullName', 'Full Name', { placeholder: 'John Doe', autoComplete: 'name' })}
+      {field('line1', 'Address', { placeholder: '123 Protein Lane', autoComplete: 'address-line1' })}
+      {field('line2', 'Apartment, suite, etc. (optional)', { autoComplete: 'address-line2' })}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 md:gap-4">
+        {field('city', 'City', { autoComplete: 'address-level2' })}
+        {format?.regions ? (
+          <div>
+            <Label className="text-sm md:text-base">{regionLabel}</Label>
+            <Select
+              value={value.region || undefined}
+              onValueChange={(region) => onChange('region', region)}
+            >
+              <SelectTrigger className="mt-1 h-11 md:h-10" aria-label={regionLabel}>
+                <SelectValue placeholder={`Select ${format.regionLabel.toLowerCase()}`} />
+              </SelectTrigger>
+              <SelectContent>
+                {format.regions.map(region => (
+                  <SelectItem key={region.code} value={region.code}>{region.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FormValidation
+              isInvalid={!!errors.region}
+              message={errors.region}
+              show={touched.region && !!errors.region}
+            />
+          </div>
+        ) : (
+          field('region', regionLabel, { autoComplete: 'address-level1' })
+        )}
+      </div>
+      {field('postalCode', postalCodeLabel, { placeholder: format?.postalCodeExample, autoComplete: 'postal-code' })}
+      {field('phone', 'Phone (optional)', { type: 'tel', autoComplete: 'tel' })}
+    </div>
+  );
+}
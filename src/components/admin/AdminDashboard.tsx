@@ -1,18 +1,23 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Package, Star, ShoppingCart, AlertTriangle, TrendingUp, Users } from 'lucide-react';
-import type { Product } from '@/lib/types';
+import { Package, Star, ShoppingCart, AlertTriangle, TrendingUp, Users, Download, Trash2, History, Truck } from 'lucide-react';
+import type { LowStockVariant, Product } from '@/lib/types';
+import { adminLogout, deleteProduct } from '@/lib/api';
+import { ADMIN_ROLE_LABELS, hasPermission, type AdminPermission, type AdminRole } from '@/lib/admin-permissions';
+import PriceMonitoringDashboard from './PriceMonitoringDashboard';
 
 interface ProductStats {
   totalProducts: number;
   totalStock: number;
   totalReviews: number;
   averageRating: string;
-  lowStockProducts: Product[];
+  lowStockVariants: LowStockVariant[];
   summary: {
     inStock: number;
     outOfStock: number;
@@ -20,10 +25,19 @@ interface ProductStats {
   };
 }
 
-export function AdminDashboard() {
+interface AdminDashboardProps {
+  adminName?: string;
+  role: AdminRole;
+}
+
+export function AdminDashboard({ adminName, role }: AdminDashboardProps) {
+  const router = useRouter();
+  // Hides what the role can't do; the API routes enforce the same permissions
+  const can = (permission: AdminPermission) => hasPermission(role, permission);
   const [stats, setStats] = useState<ProductStats | null>(null);
   const [products, setProducts] = useState<Product[]>([]);
   const [loading, setLoading] = useState(true);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
 
   useEffect(() => {
     fetchData();
@@ -48,6 +62,26 @@ export function AdminDashboard() {
     }
   };
 
+  const handleSignOut = async () => {
+    await adminLogout();
+    router.replace('/admin/login');
+    router.refresh();
+  };
+
+  const handleDeleteProduct = async (product: Product) => {
+    if (!window.confirm(`Delete ${product.name}? This also removes its reviews.`)) {
+      return;
+    }
+
+    setDeleteError(null);
+    try {
+      await deleteProduct(product.slug);
+      await fetchData();
+    } catch (err) {
+      setDeleteError(err instanceof Error ? err.message : 'Failed to delete product');
+    }
+  };
+
   if (loading) {
     return (
       <div className="p-6">
@@ -76,10 +110,46 @@ export function AdminDashboard() {
   return (
     <div className="p-6 space-y-6">
       <div className="flex items-center justify-between">
-        <h1 className="text-3xl font-bold text-primary">Admin Dashboard</h1>
-        <Button onClick={fetchData} variant="outline">
-          Refresh Data
-        </Button>
+        <div>
+          <h1 className="text-3xl font-bold text-primary">Admin Dashboard</h1>
+          {adminName && (
+            <p className="text-sm text-muted-foreground">
+              Signed in as {adminName} <Badge variant="outline">{ADMIN_ROLE_LABELS[role]}</Badge>
+            </p>
+          )}
+        </div>
+        <div className="flex gap-2">
+          {can('orders:read') && (
+            <Button asChild variant="outline">
+              <Link href="/admin/orders">
+                <Truck className="h-4 w-4 mr-2" />
+                Fulfillment
+              </Link>
+            </Button>
+          )}
+          {can('audit_log:read') && (
+            <Button asChild variant="outline">
+              <Link href="/admin/audit-log">
+                <History className="h-4 w-4 mr-2" />
+                Audit Log
+              </Link>
+            </Button>
+          )}
+          {can('orders:export') && (
+            <Button asChild variant="outline">
+              <a href="/api/orders/export?format=csv&granularity=line_item">
+                <Download className="h-4 w-4 mr-2" />
+                Export Orders
+              </a>
+            </Button>
+          )}
+          <Button onClick={fetchData} variant="outline">
+            Refresh Data
+          </Button>
+          <Button onClick={handleSignOut} variant="ghost">
+            Sign Out
+          </Button>
+        </div>
       </div>
 
       {/* Stats Cards */}
@@ -173,17 +243,17 @@ export function AdminDashboard() {
           </CardHeader>
           <CardContent>
             <div className="space-y-3">
-              {stats.lowStockProducts.slice(0, 5).map((product) => (
-                <div key={product.id} className="flex justify-between items-center">
+              {stats.lowStockVariants.slice(0, 5).map((variant) => (
+                <div key={variant.id} className="flex justify-between items-center">
                   <div className="flex-1">
-                    <p className="font-medium text-sm">{product.name}</p>
-                    <p className="text-xs text-muted-foreground">${product.price}</p>
+                    <p className="font-medium text-sm">{variant.name}</p>
+                    <p className="text-xs text-muted-foreground">{variant.sku} · ${variant.price}</p>
                   </div>
                   <Badge 
-                    variant={product.stock_quantity === 0 ? "destructive" : 
-                            product.stock_quantity < 50 ? "secondary" : "default"}
+                    variant={variant.stock_quantity === 0 ? "destructive" : 
+                            variant.stock_quantity < 50 ? "secondary" : "default"}
                   >
-                    {product.stock_quantity} units
+                    {variant.stock_quantity} units
                   </Badge>
                 </div>
               ))}
@@ -198,6 +268,7 @@ export function AdminDashboard() {
           <CardTitle>Recent Products</CardTitle>
         </CardHeader>
         <CardContent>
+          {deleteError && <p className="mb-4 text-sm text-red-600">{deleteError}</p>}
           <div className="space-y-4">
             {products.slice(0, 5).map((product) => (
               <div key={product.id} className="flex items-center justify-between p-3 border rounded-lg">
@@ -212,11 +283,26 @@ export function AdminDashboard() {
                     {product.stock_quantity} in stock
                   </Badge>
                 </div>
+                {can('products:write') && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="ml-2"
+                    onClick={() => handleDeleteProduct(product)}
+                    aria-label={`Delete ${product.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
               </div>
             ))}
           </div>
         </CardContent>
       </Card>
+
+      {can('price_monitoring:read') && (
+        <PriceMonitoringDashboard canReset={can('price_monitoring:write')} />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,247 @@
+'use client';
+
+import { useEffect, useState, type FormEvent } from 'react';
+import { History, Loader2, Search } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { fetchAuditLog } from '@/lib/api';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@/lib/audit-actions';
+import type { AuditLogEntry } from '@/lib/audit-log';
+
+// Select items can't have an empty value
+const ANY = 'any';
+
+const EMPTY_FILTERS = {
+  actor: '',
+  action: ANY,
+  entity_type: ANY,
+  entity_id: '',
+  from: '',
+  to: '',
+};
+
+type Filters = typeof EMPTY_FILTERS;
+
+const formatDate = (timestamp: string) => {
+  return new Date(timestamp).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+function toQuery(filters: Filters): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(filters).filter(([, value]) => value !== '' && value !== ANY)
+  );
+}
+
+function Changes({ changes }: { changes: AuditLogEntry['changes'] }) {
+  const fields = Object.entries(changes);
+  if (fields.length === 0) {
+    return <span className="text-muted-foreground">No field changes</span>;
+  }
+
+  return (
+    <ul className="space-y-1">
+      {fields.map(([field, { from, to }]) => (
+        <li key={field} className="break-all">
+          <span className="font-medium">{field}</span>:{' '}
+          <span className="text-muted-foreground line-through">{formatValue(from)}</span>{' '}
+          → {formatValue(to)}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function AuditLogBrowser() {
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async (cursor?: string | null) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const page = await fetchAuditLog(toQuery(filters), cursor);
+      setEntries(current => (cursor ? [...current, ...page.entries] : page.entries));
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load audit log');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+    // Only the first page loads on its own; later ones follow the filter form
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    load();
+  };
+
+  const update = (field: keyof Filters) => (value: string) => {
+    setFilters(current => ({ ...current, [field]: value }));
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-primary flex items-center gap-2">
+          <History className="h-7 w-7" />
+          Audit Log
+        </h1>
+        <p className="text-sm text-muted-foreground">Every admin change to products and orders, newest first.</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Filters</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="audit-actor">Admin email</Label>
+              <Input
+                id="audit-actor"
+                value={filters.actor}
+                onChange={event => update('actor')(event.target.value)}
+                placeholder="admin@eggypro.com"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Action</Label>
+              <Select value={filters.action} onValueChange={update('action')}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any action</SelectItem>
+                  {AUDIT_ACTIONS.map(action => (
+                    <SelectItem key={action} value={action}>{action}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Entity</Label>
+              <div className="flex gap-2">
+                <Select value={filters.entity_type} onValueChange={update('entity_type')}>
+                  <SelectTrigger className="w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any</SelectItem>
+                    {AUDIT_ENTITY_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{type}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  aria-label="Entity id"
+                  value={filters.entity_id}
+                  onChange={event => update('entity_id')(event.target.value)}
+                  placeholder="Product id or order number"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-from">From</Label>
+              <Input id="audit-from" type="date" value={filters.from} onChange={event => update('from')(event.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-to">To</Label>
+              <Input id="audit-to" type="date" value={filters.to} onChange={event => update('to')(event.target.value)} />
+            </div>
+            <div className="flex items-end gap-2">
+              <Button type="submit" disabled={loading}>
+                <Search className="h-4 w-4 mr-2" />
+                Apply
+              </Button>
+              <Button type="button" variant="ghost" onClick={() => setFilters(EMPTY_FILTERS)}>
+                Clear
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <Card>
+        <CardContent className="pt-6">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>When</TableHead>
+                <TableHead>Admin</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Entity</TableHead>
+                <TableHead>Changes</TableHead>
+                <TableHead>Request</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map(entry => (
+                <TableRow key={entry.id} className="align-top">
+                  <TableCell className="whitespace-nowrap">{formatDate(entry.created_at)}</TableCell>
+                  <TableCell>{entry.actor.replace(/^admin:/, '')}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{entry.action}</Badge>
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {entry.entity_type} #{entry.entity_id}
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    <Changes changes={entry.changes} />
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground">
+                    {entry.request_method} {entry.request_path}
+                    {entry.ip_address && <div>{entry.ip_address}</div>}
+                  </TableCell>
+                </TableRow>
+              ))}
+              {!loading && entries.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">
+                    No matching audit entries
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+
+          <div className="flex justify-center mt-4">
+            {loading ? (
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            ) : nextCursor && (
+              <Button variant="outline" onClick={() => load(nextCursor)}>
+                Load more
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
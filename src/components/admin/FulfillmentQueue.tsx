@@ -0,0 +1,104 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Loader2, Truck } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { STATUS_LABELS } from '@/components/orders/OrderLookup';
+import { fetchOrdersToFulfill } from '@/lib/api';
+import { SHIPPING_METHOD_NAMES } from '@/lib/shipping-rates';
+
+type QueuedOrder = Awaited<ReturnType<typeof fetchOrdersToFulfill>>[number];
+
+const formatDate = (timestamp: string) => {
+  return new Date(timestamp).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+export function FulfillmentQueue() {
+  const [orders, setOrders] = useState<QueuedOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchOrdersToFulfill()
+      .then(setOrders)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load orders'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <Link href="/admin" className="text-sm text-muted-foreground flex items-center gap-1">
+          <ArrowLeft className="h-4 w-4" /> Dashboard
+        </Link>
+        <h1 className="text-3xl font-bold text-primary flex items-center gap-2">
+          <Truck className="h-7 w-7" />
+          Orders to fulfil
+        </h1>
+        <p className="text-sm text-muted-foreground">Paid orders that haven&apos;t shipped in full, newest first.</p>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <Card>
+        <CardContent className="pt-6">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Order</TableHead>
+                <TableHead>Placed</TableHead>
+                <TableHead>Customer</TableHead>
+                <TableHead className="text-right">Units</TableHead>
+                <TableHead>Shipping</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {orders.map(order => (
+                <TableRow key={order.order_id}>
+                  <TableCell className="font-medium">{order.order_id}</TableCell>
+                  <TableCell className="whitespace-nowrap">{formatDate(order.created_at)}</TableCell>
+                  <TableCell>{order.customer_name}</TableCell>
+                  <TableCell className="text-right">
+                    {order.items.reduce((sum, item) => sum + item.quantity, 0)}
+                  </TableCell>
+                  <TableCell>{SHIPPING_METHOD_NAMES[order.shipping_method]} to {order.shipping_country}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{STATUS_LABELS[order.status]}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button asChild size="sm" variant="outline">
+                      <Link href={`/admin/orders/${encodeURIComponent(order.order_id)}`}>Fulfil</Link>
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {!loading && orders.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center text-muted-foreground">
+                    Nothing waiting to ship
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+          {loading && (
+            <div className="flex justify-center mt-4">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
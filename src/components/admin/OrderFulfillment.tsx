@@ -0,0 +1,260 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Loader2, Printer, Truck } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { STATUS_LABELS } from '@/components/orders/OrderLookup';
+import {
+  createOrderShipment,
+  fetchOrderFulfillment,
+  shipOrderShipment,
+  type OrderFulfillment as OrderFulfillmentData,
+} from '@/lib/api';
+import {
+  SHIPMENT_CARRIER_NAMES,
+  SHIPMENT_CARRIERS,
+  shippableQuantity,
+  type ShipmentCarrier,
+} from '@/lib/shipment-rules';
+
+interface OrderFulfillmentProps {
+  orderId: string;
+  // Roles without orders:update_status only see the shipments
+  canUpdate: boolean;
+}
+
+const formatDate = (timestamp: string) => {
+  return new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+export function OrderFulfillment({ orderId, canUpdate }: OrderFulfillmentProps) {
+  const [data, setData] = useState<OrderFulfillmentData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  // Units of each order line to put in the next shipment
+  const [quantities, setQuantities] = useState<Record<number, string>>({});
+  const [carrier, setCarrier] = useState<ShipmentCarrier>('usps');
+  const [trackingNumber, setTrackingNumber] = useState('');
+  // Tracking numbers typed in while marking pending shipments shipped
+  const [shipTracking, setShipTracking] = useState<Record<number, string>>({});
+
+  const load = async () => {
+    try {
+      const fulfillment = await fetchOrderFulfillment(orderId);
+      setData(fulfillment);
+      setQuantities(Object.fromEntries(
+        fulfillment.lines.map(line => [line.orderItemId, String(shippableQuantity(line))])
+      ));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load shipments');
+    }
+  };
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [orderId]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!data) {
+    return (
+      <div className="p-6">
+        {error ? <p className="text-sm text-red-600">{error}</p> : <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />}
+      </div>
+    );
+  }
+
+  const canShip = canUpdate && (data.status === 'paid' || data.status === 'fulfilling');
+  const requested = data.lines
+    .map(line => ({ orderItemId: line.orderItemId, quantity: Number(quantities[line.orderItemId] || 0) }))
+    .filter(item => item.quantity > 0);
+
+  const handleCreate = () => run(async () => {
+    await createOrderShipment(orderId, {
+      items: requested,
+      carrier,
+      trackingNumber: trackingNumber.trim() || undefined,
+    });
+    setTrackingNumber('');
+  });
+
+  const handleShip = (shipmentId: number) => run(() =>
+    shipOrderShipment(orderId, shipmentId, shipTracking[shipmentId])
+  );
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <Link href="/admin/orders" className="text-sm text-muted-foreground flex items-center gap-1">
+            <ArrowLeft className="h-4 w-4" /> Orders to fulfil
+          </Link>
+          <h1 className="text-3xl font-bold text-primary flex items-center gap-2">
+            <Truck className="h-7 w-7" />
+            Order {data.orderId}
+          </h1>
+        </div>
+        <Badge variant="outline">{STATUS_LABELS[data.status]}</Badge>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Items</CardTitle>
+          <CardDescription>Packed units are in a shipment; sent ones have been handed to the carrier.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead className="text-right">Ordered</TableHead>
+                <TableHead className="text-right">Refunded</TableHead>
+                <TableHead className="text-right">Packed</TableHead>
+                <TableHead className="text-right">Sent</TableHead>
+                {canShip && <TableHead className="w-28">Next shipment</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.lines.map(line => (
+                <TableRow key={line.orderItemId}>
+                  <TableCell>{line.name}</TableCell>
+                  <TableCell className="text-right">{line.quantity}</TableCell>
+                  <TableCell className="text-right">{line.refundedQuantity}</TableCell>
+                  <TableCell className="text-right">{line.shippedQuantity}</TableCell>
+                  <TableCell className="text-right">{line.sentQuantity}</TableCell>
+                  {canShip && (
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={shippableQuantity(line)}
+                        aria-label={`Units of ${line.name} to ship`}
+                        value={quantities[line.orderItemId] ?? '0'}
+                        disabled={shippableQuantity(line) === 0}
+                        onChange={event => setQuantities(current => ({ ...current, [line.orderItemId]: event.target.value }))}
+                      />
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {canShip && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div className="space-y-2">
+                <Label>Carrier</Label>
+                <Select value={carrier} onValueChange={value => setCarrier(value as ShipmentCarrier)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SHIPMENT_CARRIERS.map(option => (
+                      <SelectItem key={option} value={option}>{SHIPMENT_CARRIER_NAMES[option]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tracking-number">Tracking number</Label>
+                <Input
+                  id="tracking-number"
+                  value={trackingNumber}
+                  onChange={event => setTrackingNumber(event.target.value)}
+                  placeholder="Optional until shipped"
+                />
+              </div>
+              <Button onClick={handleCreate} disabled={busy || requested.length === 0}>
+                Create shipment
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {data.shipments.map(shipment => (
+        <Card key={shipment.id}>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div>
+              <CardTitle className="text-base">Shipment #{shipment.id}</CardTitle>
+              <CardDescription>
+                {SHIPMENT_CARRIER_NAMES[shipment.carrier]}
+                {shipment.trackingNumber && (
+                  <>
+                    {' · '}
+                    {shipment.trackingUrl ? (
+                      <a href={shipment.trackingUrl} target="_blank" rel="noreferrer" className="underline">
+                        {shipment.trackingNumber}
+                      </a>
+                    ) : shipment.trackingNumber}
+                  </>
+                )}
+                {' · '}
+                {shipment.shippedAt ? `Shipped ${formatDate(shipment.shippedAt)}` : `Packed ${formatDate(shipment.createdAt)}`}
+              </CardDescription>
+            </div>
+            <Badge variant={shipment.status === 'shipped' ? 'default' : 'secondary'}>
+              {shipment.status === 'shipped' ? 'Shipped' : 'Packing'}
+            </Badge>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <ul className="text-sm space-y-1">
+              {shipment.items.map(item => (
+                <li key={item.orderItemId}>{item.quantity} × {item.name}</li>
+              ))}
+            </ul>
+            <div className="flex flex-wrap gap-2 items-center">
+              <Button asChild variant="outline" size="sm">
+                <Link href={`/admin/orders/${encodeURIComponent(orderId)}/packing-slip?shipment=${shipment.id}`} target="_blank">
+                  <Printer className="h-4 w-4 mr-2" />
+                  Packing slip
+                </Link>
+              </Button>
+              {canUpdate && shipment.status === 'pending' && data.status === 'fulfilling' && (
+                <>
+                  <Input
+                    className="w-56 h-9"
+                    aria-label={`Tracking number for shipment ${shipment.id}`}
+                    placeholder="Tracking number"
+                    value={shipTracking[shipment.id] ?? shipment.trackingNumber ?? ''}
+                    onChange={event => setShipTracking(current => ({ ...current, [shipment.id]: event.target.value }))}
+                  />
+                  <Button size="sm" onClick={() => handleShip(shipment.id)} disabled={busy}>
+                    Mark shipped
+                  </Button>
+                </>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -17,7 +17,12 @@ interface HealthStatus {
   timestamp: string;
 }
 
-export default function PriceMonitoringDashboard() {
+interface PriceMonitoringDashboardProps {
+  // Whether the signed-in admin may reset the metrics
+  canReset?: boolean;
+}
+
+export default function PriceMonitoringDashboard({ canReset = true }: PriceMonitoringDashboardProps) {
   const [healthStatus, setHealthStatus] = useState<HealthStatus | null>(null);
   const [loading, setLoading] = useState(false);
   const [autoRefresh, setAutoRefresh] = useState(false);
@@ -128,7 +133,7 @@ export default function PriceMonitoringDashboard() {
           >
             Auto Refresh
           </Button>
-          {process.env.NODE_ENV === 'development' && (
+          {canReset && process.env.NODE_ENV === 'development' && (
             <Button
               variant="destructive"
               size="sm"
@@ -0,0 +1,13 @@
+'use client';
+
+import { Printer } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+export function PrintButton() {
+  return (
+    <Button onClick={() => window.print()} variant="outline" className="print:hidden">
+      <Printer className="h-4 w-4 mr-2" />
+      Print
+    </Button>
+  );
+}
@@ -8,9 +8,11 @@ import CartItem from './CartItem';
 import Link from 'next/link';
 import { useEffect, useRef, useState } from 'react';
 import { PriceUtils } from '@/lib/price-utils';
+import { calculateOrderTotal } from '@/lib/cart-utils';
 
 const CartDropdown = () => {
-  const { items, totalPrice, isOpen, toggleCart, canUndo, undoDelete, clearUndo } = useCart();
+  const { items, totalPrice, isOpen, toggleCart, canUndo, undoDelete, clearUndo, promotion, tax } = useCart();
+  const discount = promotion ? Number(promotion.discount) : 0;
   const dropdownRef = useRef<HTMLDivElement>(null);
   const [isAnimating, setIsAnimating] = useState(false);
 
@@ -196,9 +198,23 @@ const CartDropdown = () => {
 
         {items.length > 0 && (
           <CardFooter className="flex flex-col gap-3 pt-4 border-t animate-in slide-in-from-bottom-2 duration-300">
+            <div className="w-full space-y-1 text-sm text-muted-foreground">
+              {discount > 0 && (
+                <div className="flex justify-between items-center text-green-700">
+                  <span>Discount ({promotion?.code})</span>
+                  <span>-{PriceUtils.formatPrice(discount)}</span>
+                </div>
+              )}
+              <div className="flex justify-between items-center">
+                <span>Tax</span>
+                <span>{tax ? PriceUtils.formatPrice(tax.amount) : 'Calculated at checkout'}</span>
+              </div>
+            </div>
             <div className="flex justify-between items-center w-full">
               <span className="font-semibold">Total:</span>
-              <span className="font-bold text-lg">{PriceUtils.formatPrice(totalPrice)}</span>
+              <span className="font-bold text-lg">
+                {PriceUtils.formatPrice(calculateOrderTotal(totalPrice, discount, tax ? Number(tax.amount) : 0))}
+              </span>
             </div>
             
             <div className="flex gap-2 w-full">
@@ -0,0 +1,41 @@
+'use client';
+
+import { AlertTriangle, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useCart } from '@/hooks/use-cart';
+
+// What the last revalidation changed in the cart, until dismissed
+const CartNotices = () => {
+  const { notices, dismissNotices } = useCart();
+
+  if (notices.length === 0) return null;
+
+  return (
+    <div className="mb-4 p-4 bg-amber-50 border border-amber-200 rounded-lg" role="status">
+      <div className="flex items-start justify-between gap-3">
+        <div className="flex items-start gap-2">
+          <AlertTriangle className="h-4 w-4 mt-0.5 text-amber-700 flex-shrink-0" />
+          <div className="space-y-1">
+            <p className="text-sm font-medium text-amber-900">Your cart was updated</p>
+            <ul className="text-sm text-amber-800 space-y-0.5">
+              {notices.map((notice, index) => (
+                <li key={`${notice.variantId}-${notice.kind}-${index}`}>{notice.message}</li>
+              ))}
+            </ul>
+          </div>
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={dismissNotices}
+          className="h-6 w-6 text-amber-800 hover:bg-amber-100"
+          aria-label="Dismiss cart updates"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default CartNotices;
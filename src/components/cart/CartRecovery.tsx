@@ -0,0 +1,61 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Loader2, ShoppingBag } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useCart } from '@/hooks/use-cart';
+import { recoverCart } from '@/lib/api';
+
+interface CartRecoveryProps {
+  token: string;
+}
+
+// Opens a cart from a recovery email link and loads it into this browser's cart
+const CartRecovery = ({ token }: CartRecoveryProps) => {
+  const { restoreCart } = useCart();
+  const router = useRouter();
+  const [error, setError] = useState('');
+  const started = useRef(false);
+
+  useEffect(() => {
+    // Restore once, even when effects run twice in development
+    if (started.current) return;
+    started.current = true;
+
+    if (!token) {
+      setError('This link is invalid or has expired.');
+      return;
+    }
+
+    recoverCart(token)
+      .then(async items => {
+        await restoreCart(items);
+        router.replace('/cart');
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to restore cart'));
+  }, [token, restoreCart, router]);
+
+  if (!error) {
+    return (
+      <div className="text-center text-muted-foreground flex items-center justify-center gap-2">
+        <Loader2 className="h-5 w-5 animate-spin" />
+        Restoring your cart…
+      </div>
+    );
+  }
+
+  return (
+    <div className="text-center">
+      <ShoppingBag className="h-16 w-16 mx-auto text-muted-foreground mb-4" />
+      <h1 className="text-xl font-semibold mb-2">We couldn&apos;t restore your cart</h1>
+      <p className="text-muted-foreground mb-6">{error}</p>
+      <Button asChild>
+        <Link href="/products">Continue Shopping</Link>
+      </Button>
+    </div>
+  );
+};
+
+export default CartRecovery;
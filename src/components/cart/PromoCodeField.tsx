@@ -0,0 +1,93 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2, Tag, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useCart } from '@/hooks/use-cart';
+import { PriceUtils } from '@/lib/price-utils';
+
+interface PromoCodeFieldProps {
+  // Checkout passes the email so per-customer limits are checked up front
+  email?: string;
+}
+
+// Enter a discount code, or show and remove the one applied to the cart
+const PromoCodeField = ({ email }: PromoCodeFieldProps) => {
+  const { promotion, promotionError, applyPromotionCode, removePromotionCode } = useCart();
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const handleApply = async () => {
+    if (!code.trim() || isApplying) return;
+
+    setIsApplying(true);
+    const message = await applyPromotionCode(code.trim(), email);
+    setIsApplying(false);
+    setError(message);
+    if (!message) {
+      setCode('');
+    }
+  };
+
+  if (promotion) {
+    return (
+      <div className="flex items-start justify-between gap-3 rounded-lg border border-green-200 bg-green-50 p-3">
+        <div className="flex items-start gap-2">
+          <Tag className="h-4 w-4 mt-0.5 text-green-700 flex-shrink-0" />
+          <div>
+            <p className="text-sm font-medium text-green-900">{promotion.code}</p>
+            <p className="text-xs text-green-800">
+              {promotion.description || (promotion.freeShipping
+                ? 'Free shipping'
+                : `${PriceUtils.formatPrice(promotion.discount)} off`)}
+            </p>
+          </div>
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={removePromotionCode}
+          className="h-6 w-6 text-green-800 hover:bg-green-100"
+          aria-label={`Remove code ${promotion.code}`}
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    );
+  }
+
+  const message = error ?? promotionError;
+
+  return (
+    <div>
+      <Label htmlFor="promo-code" className="text-sm">Discount code</Label>
+      <div className="mt-1 flex gap-2">
+        <Input
+          id="promo-code"
+          value={code}
+          onChange={(e) => {
+            setCode(e.target.value);
+            setError(null);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleApply();
+            }
+          }}
+          autoComplete="off"
+          className="h-10 uppercase"
+        />
+        <Button variant="outline" onClick={handleApply} disabled={!code.trim() || isApplying} className="h-10">
+          {isApplying ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Apply'}
+        </Button>
+      </div>
+      {message && <p className="mt-1 text-xs text-red-600" role="alert">{message}</p>}
+    </div>
+  );
+};
+
+export default PromoCodeField;
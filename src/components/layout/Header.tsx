@@ -1,7 +1,7 @@
 'use client';
 
 import Link from 'next/link';
-import { EggFried, Menu, X } from 'lucide-react';
+import { EggFried, Menu, User, X } from 'lucide-react';
 import Navbar from './Navbar';
 import { useState } from 'react';
 import { Button } from '@/components/ui/button';
@@ -30,13 +30,23 @@ const Header = () => {
           <Navbar />
         </div>
         
-        {/* Desktop Cart Icon */}
-        <div className="hidden md:block">
+        {/* Desktop Account + Cart Icons */}
+        <div className="hidden md:flex items-center gap-2">
+          <Button asChild variant="ghost" size="icon" className="h-9 w-9" aria-label="Your account">
+            <Link href="/account">
+              <User className="h-5 w-5" />
+            </Link>
+          </Button>
           <CartIcon />
         </div>
         
-        {/* Mobile: Cart Icon + Menu Button */}
+        {/* Mobile: Account + Cart Icons + Menu Button */}
         <div className="flex items-center gap-2 md:hidden">
+          <Button asChild variant="ghost" size="icon" className="h-9 w-9" aria-label="Your account">
+            <Link href="/account" onClick={closeMobileMenu}>
+              <User className="h-5 w-5" />
+            </Link>
+          </Button>
           <CartIcon />
           <Button
             variant="ghost"
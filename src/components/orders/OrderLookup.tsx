@@ -0,0 +1,253 @@
+'use client';
+
+import { useState, type FormEvent } from 'react';
+import { Calendar, CreditCard, Loader2, MapPin, Package, Search, Truck } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { formatAddressLines } from '@/lib/addresses';
+import { lookupOrder } from '@/lib/api';
+import { SHIPPING_METHOD_NAMES } from '@/lib/shipping-rates';
+import type { CustomerOrderView } from '@/lib/order-lookup';
+import type { OrderStatus } from '@/lib/order-status';
+import { PriceUtils } from '@/lib/price-utils';
+
+export const STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: 'Awaiting payment',
+  paid: 'Paid',
+  fulfilling: 'Being prepared',
+  shipped: 'Shipped',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+  refunded: 'Refunded',
+};
+
+const formatDate = (timestamp: string) => {
+  return new Date(timestamp).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+export function OrderDetails({ order }: { order: CustomerOrderView }) {
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between gap-2">
+            <span className="flex items-center gap-2">
+              <Package className="h-5 w-5" />
+              Order #{order.orderId}
+            </span>
+            <Badge variant="outline">{STATUS_LABELS[order.status]}</Badge>
+          </CardTitle>
+          <CardDescription className="flex items-center gap-2">
+            <Calendar className="h-4 w-4" />
+            Placed {formatDate(order.placedAt)}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            {order.items.map((item, index) => (
+              <div key={index} className="flex justify-between items-center">
+                <div>
+                  <p className="font-medium">{item.name}</p>
+                  <p className="text-sm text-muted-foreground">
+                    Quantity: {item.quantity} × {PriceUtils.formatPrice(item.price)}
+                  </p>
+                  {item.refundedQuantity > 0 && (
+                    <p className="text-sm text-amber-600">{item.refundedQuantity} refunded</p>
+                  )}
+                </div>
+                <p className="font-semibold">{PriceUtils.formatPrice(item.lineTotal)}</p>
+              </div>
+            ))}
+          </div>
+
+          <Separator />
+
+          {order.discountAmount > 0 && (
+            <div className="flex justify-between items-center text-sm text-green-700">
+              <p>Discount{order.promotionCode && ` (${order.promotionCode})`}</p>
+              <p>-{PriceUtils.formatPrice(order.discountAmount)}</p>
+            </div>
+          )}
+          <div className="flex justify-between items-center text-sm">
+            <p>Shipping ({SHIPPING_METHOD_NAMES[order.shippingMethod]})</p>
+            <p>{order.shippingAmount > 0 ? PriceUtils.formatPrice(order.shippingAmount) : 'Free'}</p>
+          </div>
+          {order.taxAmount > 0 && (
+            <div className="flex justify-between items-center text-sm">
+              <p>Tax</p>
+              <p>{PriceUtils.formatPrice(order.taxAmount)}</p>
+            </div>
+          )}
+          <div className="flex justify-between items-center font-bold text-lg">
+            <p>Total</p>
+            <p>{PriceUtils.formatPrice(order.totalAmount)}</p>
+          </div>
+          {order.amountRefunded > 0 && (
+            <div className="flex justify-between items-center text-sm text-amber-600">
+              <p className="flex items-center gap-2">
+                <CreditCard className="h-4 w-4" />
+                Refunded
+              </p>
+              <p>-{PriceUtils.formatPrice(order.amountRefunded)}</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <MapPin className="h-5 w-5" />
+              Shipping To
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1">
+            {formatAddressLines(order.shipping).map((line, index) => (
+              <p key={index} className={index === 0 ? 'font-medium' : undefined}>{line}</p>
+            ))}
+            {order.shipments.map((shipment, index) => (
+              <p key={index} className="text-sm pt-2 flex items-center gap-2">
+                <Truck className="h-4 w-4" />
+                <span>
+                  {shipment.carrier}
+                  {shipment.trackingNumber && ' · '}
+                  {shipment.trackingUrl ? (
+                    <a href={shipment.trackingUrl} target="_blank" rel="noreferrer" className="underline">
+                      {shipment.trackingNumber}
+                    </a>
+                  ) : shipment.trackingNumber}
+                  <span className="text-muted-foreground"> · {formatDate(shipment.shippedAt)}</span>
+                </span>
+              </p>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Order History</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ol className="space-y-3">
+              {order.history.map((entry, index) => (
+                <li key={index} className="flex justify-between gap-4 text-sm">
+                  <span className="font-medium">{STATUS_LABELS[entry.status]}</span>
+                  <span className="text-muted-foreground text-right">{formatDate(entry.at)}</span>
+                </li>
+              ))}
+            </ol>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+interface OrderLookupProps {
+  // Prefilled from the link in order emails
+  initialOrderId?: string;
+}
+
+const OrderLookup = ({ initialOrderId = '' }: OrderLookupProps) => {
+  const [orderId, setOrderId] = useState(initialOrderId);
+  const [email, setEmail] = useState('');
+  const [order, setOrder] = useState<CustomerOrderView | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+
+    if (!orderId.trim() || !email.trim()) {
+      setError('Please enter your order number and email.');
+      return;
+    }
+
+    setIsLoading(true);
+    setError('');
+    setOrder(null);
+
+    try {
+      setOrder(await lookupOrder(orderId.trim(), email.trim()));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to look up order. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg md:text-xl">
+            <Search className="h-5 w-5 text-primary" />
+            Find Your Order
+          </CardTitle>
+          <CardDescription>
+            Your order number is on the confirmation page shown after checkout.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="orderId">Order Number</Label>
+                <Input
+                  id="orderId"
+                  placeholder="order_1700000000000_abc123"
+                  value={orderId}
+                  onChange={(e) => setOrderId(e.target.value)}
+                  className="mt-1 h-11 md:h-10"
+                />
+              </div>
+              <div>
+                <Label htmlFor="email">Email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  placeholder="you@example.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  className="mt-1 h-11 md:h-10"
+                />
+              </div>
+            </div>
+
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+                <p className="text-sm text-red-800">{error}</p>
+              </div>
+            )}
+
+            <Button type="submit" disabled={isLoading} className="w-full min-h-[48px]">
+              {isLoading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Looking up order...
+                </>
+              ) : (
+                'Look Up Order'
+              )}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {order && <OrderDetails order={order} />}
+    </div>
+  );
+};
+
+export default OrderLookup;
@@ -1,10 +1,13 @@
 'use client';
 
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Zap, Loader2, CheckCircle } from 'lucide-react';
 import { getPaymentConfig } from '@/lib/stripe';
 import { PriceUtils } from '@/lib/price-utils';
+import type { ShippingAddress } from '@/lib/addresses';
+import type { ShippingMethod } from '@/lib/shipping-rates';
+import { createPaymentIntent, generateIdempotencyKey } from '@/lib/api';
 
 interface DevBypassButtonProps {
   onPaymentSuccess: (result: {
@@ -15,11 +18,14 @@ interface DevBypassButtonProps {
   onPaymentError: (error: string) => void;
   disabled?: boolean;
   amount: number;
+  // Applied discount, already taken off `amount`
+  promotionCode?: string;
+  // Chosen shipping method, already included in `amount`
+  shippingMethod?: ShippingMethod;
   customerInfo: {
-    name: string;
-    address: string;
-    city: string;
-    zip: string;
+    email?: string;
+    shipping: ShippingAddress;
+    saveAddress?: boolean;
   };
   items: Array<{
     id: string;
@@ -34,10 +40,14 @@ export default function DevBypassButton({
   onPaymentError,
   disabled = false,
   amount,
+  promotionCode,
+  shippingMethod,
   customerInfo,
   items,
 }: DevBypassButtonProps) {
   const [isProcessing, setIsProcessing] = useState(false);
+  const attemptKey = useRef<string | null>(null);
+  const submitting = useRef(false);
   const [isSuccess, setIsSuccess] = useState(false);
   
   const config = getPaymentConfig();
@@ -48,25 +58,38 @@ export default function DevBypassButton({
   }
   
   const handleBypassPayment = async () => {
-    if (disabled || isProcessing) return;
+    // The ref catches a second click before the processing state re-renders
+    if (disabled || isProcessing || submitting.current) return;
     
+    submitting.current = true;
     setIsProcessing(true);
     
     try {
-      // Create mock payment intent ID for bypass
-      const paymentIntentId = `pi_dev_bypass_${Date.now()}`;
+      // Create the payment intent, which prices the items server-side and reserves stock
+      attemptKey.current = attemptKey.current || generateIdempotencyKey();
+      const { paymentIntentId } = await createPaymentIntent(
+        amount,
+        items,
+        { name: customerInfo.shipping.fullName, email: customerInfo.email, shipping: customerInfo.shipping },
+        `${attemptKey.current}:intent`,
+        promotionCode,
+        shippingMethod
+      );
       
       // Call the payment confirmation API with order data
       const response = await fetch('/api/confirm-payment', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Idempotency-Key': `${attemptKey.current}:confirm`,
         },
         body: JSON.stringify({
           paymentIntentId,
           paymentMethodType: 'bypass',
           customerInfo,
           items,
+          promotionCode,
+          shippingMethod,
           amount,
         }),
       });
@@ -81,7 +104,7 @@ export default function DevBypassButton({
       console.log('🚀 Development Payment Bypass Completed:', {
         orderId: result.orderId,
         amount: PriceUtils.formatPrice(amount),
-        customer: customerInfo.name,
+        customer: customerInfo.shipping.fullName,
         itemCount: items.length,
       });
       
@@ -98,6 +121,9 @@ export default function DevBypassButton({
       
     } catch (error) {
       console.error('❌ Dev bypass error:', error);
+      // A failed attempt is settled; the next submit starts a new one
+      attemptKey.current = null;
+      submitting.current = false;
       onPaymentError(error instanceof Error ? error.message : 'Development bypass failed. Please try again.');
       setIsProcessing(false);
     }
@@ -1,12 +1,15 @@
 'use client';
 
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { CreditCard, Loader2, AlertCircle } from 'lucide-react';
 import { FormValidation } from '@/components/ui/form-validation';
 import { PriceUtils } from '@/lib/price-utils';
+import type { ShippingAddress } from '@/lib/addresses';
+import type { ShippingMethod } from '@/lib/shipping-rates';
+import { createPaymentIntent, generateIdempotencyKey } from '@/lib/api';
 
 interface MockStripePaymentFormProps {
   onPaymentSuccess: (result: {
@@ -17,11 +20,14 @@ interface MockStripePaymentFormProps {
   onPaymentError: (error: string) => void;
   disabled?: boolean;
   amount: number;
+  // Applied discount, already taken off `amount`
+  promotionCode?: string;
+  // Chosen shipping method, already included in `amount`
+  shippingMethod?: ShippingMethod;
   customerInfo: {
-    name: string;
-    address: string;
-    city: string;
-    zip: string;
+    email?: string;
+    shipping: ShippingAddress;
+    saveAddress?: boolean;
   };
   items: Array<{
     id: string;
@@ -31,6 +37,13 @@ interface MockStripePaymentFormProps {
   }>;
 }
 
+// Stripe test cards and the test payment methods they stand for
+const TEST_CARD_PAYMENT_METHODS: Record<string, string> = {
+  '4242424242424242': 'pm_card_visa',
+  '4000000000000002': 'pm_card_chargeDeclined',
+  '4000000000009995': 'pm_card_chargeDeclinedInsufficientFunds',
+};
+
 interface CardFormData {
   cardNumber: string;
   expiryDate: string;
@@ -50,10 +63,14 @@ export default function MockStripePaymentForm({
   onPaymentError,
   disabled = false,
   amount,
+  promotionCode,
+  shippingMethod,
   customerInfo,
   items,
 }: MockStripePaymentFormProps) {
   const [isProcessing, setIsProcessing] = useState(false);
+  const attemptKey = useRef<string | null>(null);
+  const submitting = useRef(false);
   const [cardData, setCardData] = useState<CardFormData>({
     cardNumber: '',
     expiryDate: '',
@@ -147,41 +164,48 @@ export default function MockStripePaymentForm({
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!validateForm() || disabled || isProcessing) {
+    // The ref catches a second click before the processing state re-renders
+    if (!validateForm() || disabled || isProcessing || submitting.current) {
       return;
     }
     
+    submitting.current = true;
     setIsProcessing(true);
     
     try {
       // Simulate payment processing
       await new Promise(resolve => setTimeout(resolve, 2000));
       
-      // Check for test card numbers that should fail
+      // Test card numbers map to provider test payment methods, which decide the outcome
       const cardNumber = cardData.cardNumber.replace(/\s/g, '');
+      const paymentMethodId = TEST_CARD_PAYMENT_METHODS[cardNumber] || 'pm_card_visa';
       
-      if (cardNumber === '4000000000000002') {
-        throw new Error('Your card was declined. Please try a different payment method.');
-      }
-      
-      if (cardNumber === '4000000000009995') {
-        throw new Error('Your card has insufficient funds. Please try a different payment method.');
-      }
-      
-      // Create mock payment intent ID
-      const paymentIntentId = `pi_mock_${Date.now()}`;
+      // Create the payment intent, which prices the items server-side and reserves stock
+      attemptKey.current = attemptKey.current || generateIdempotencyKey();
+      const { paymentIntentId } = await createPaymentIntent(
+        amount,
+        items,
+        { name: customerInfo.shipping.fullName, email: customerInfo.email, shipping: customerInfo.shipping },
+        `${attemptKey.current}:intent`,
+        promotionCode,
+        shippingMethod
+      );
       
       // Call the payment confirmation API with order data
       const response = await fetch('/api/confirm-payment', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Idempotency-Key': `${attemptKey.current}:confirm`,
         },
         body: JSON.stringify({
           paymentIntentId,
           paymentMethodType: 'card',
+          paymentMethodId,
           customerInfo,
           items,
+          promotionCode,
+          shippingMethod,
           amount,
         }),
       });
@@ -196,7 +220,7 @@ export default function MockStripePaymentForm({
       console.log('💳 Mock Payment Processed:', {
         orderId: result.orderId,
         amount: PriceUtils.formatPrice(amount),
-        customer: customerInfo.name,
+        customer: customerInfo.shipping.fullName,
         cardLast4: cardNumber.slice(-4),
       });
       
@@ -208,8 +232,11 @@ export default function MockStripePaymentForm({
       
     } catch (error) {
       console.error('❌ Mock payment error:', error);
+      // A failed attempt is settled; the next submit starts a new one
+      attemptKey.current = null;
       onPaymentError(error instanceof Error ? error.message : 'Payment failed. Please try again.');
     } finally {
+      submitting.current = false;
       setIsProcessing(false);
     }
   };
@@ -6,6 +6,8 @@ import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
 import Link from 'next/link';
 import { PriceUtils } from '@/lib/price-utils';
+import { formatAddressLines, type ShippingAddress } from '@/lib/addresses';
+import { calculateOrderTotal } from '@/lib/cart-utils';
 
 interface OrderConfirmationProps {
   orderDetails: {
@@ -13,6 +15,12 @@ interface OrderConfirmationProps {
     paymentIntentId: string;
     status: 'succeeded';
     amount: number;
+    discount?: number;
+    promotionCode?: string;
+    tax?: number;
+    shipping?: number;
+    shippingMethod?: string;
+    amountRefunded?: number;
     timestamp: string;
   };
   items: Array<{
@@ -20,20 +28,16 @@ interface OrderConfirmationProps {
     name: string;
     price: number;
     quantity: number;
+    refundedQuantity?: number;
   }>;
-  customerInfo: {
-    name: string;
-    address: string;
-    city: string;
-    zip: string;
-  };
+  shipping: ShippingAddress;
   isDevelopmentOrder?: boolean;
 }
 
 export default function OrderConfirmation({
   orderDetails,
   items,
-  customerInfo,
+  shipping,
   isDevelopmentOrder = false,
 }: OrderConfirmationProps) {
   const formatDate = (timestamp: string) => {
@@ -46,7 +50,21 @@ export default function OrderConfirmation({
     });
   };
 
-  const totalAmount = items.reduce((sum, item) => sum + (item.price * item.quantity), 0);
+  const discount = orderDetails.discount || 0;
+  const tax = orderDetails.tax || 0;
+  const shippingCost = orderDetails.shipping || 0;
+  const totalAmount = calculateOrderTotal(
+    items.reduce((sum, item) => sum + (item.price * item.quantity), 0),
+    discount,
+    tax,
+    shippingCost
+  );
+  const amountRefunded = orderDetails.amountRefunded || 0;
+  const paymentStatus = amountRefunded <= 0
+    ? { label: 'Paid', className: 'text-green-600' }
+    : amountRefunded >= totalAmount
+      ? { label: 'Refunded', className: 'text-muted-foreground' }
+      : { label: 'Partially refunded', className: 'text-amber-600' };
 
   return (
     <div className="max-w-2xl mx-auto space-y-6">
@@ -82,7 +100,7 @@ export default function OrderConfirmation({
             Order Details
           </CardTitle>
           <CardDescription>
-            Order #{orderDetails.orderId}
+            Order #{orderDetails.orderId} · Keep this number to track your order
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -98,7 +116,7 @@ export default function OrderConfirmation({
               <p className="font-medium text-muted-foreground">Payment Status</p>
               <p className="flex items-center gap-2">
                 <CreditCard className="h-4 w-4" />
-                <span className="text-green-600 font-medium">Paid</span>
+                <span className={`${paymentStatus.className} font-medium`}>{paymentStatus.label}</span>
               </p>
             </div>
           </div>
@@ -116,6 +134,11 @@ export default function OrderConfirmation({
                     <p className="text-sm text-muted-foreground">
                       Quantity: {item.quantity} × {PriceUtils.formatPrice(item.price)}
                     </p>
+                    {!!item.refundedQuantity && (
+                      <p className="text-sm text-amber-600">
+                        {item.refundedQuantity} refunded
+                      </p>
+                    )}
                   </div>
                   <p className="font-semibold">
                     {PriceUtils.multiplyPrice(item.price, item.quantity).formatted}
@@ -125,11 +148,43 @@ export default function OrderConfirmation({
             </div>
             
             <Separator className="my-3" />
+
+            {discount > 0 && (
+              <div className="flex justify-between items-center text-sm text-green-700 mb-1">
+                <p>Discount{orderDetails.promotionCode && ` (${orderDetails.promotionCode})`}</p>
+                <p>-{PriceUtils.formatPrice(discount)}</p>
+              </div>
+            )}
+            {orderDetails.shippingMethod && (
+              <div className="flex justify-between items-center text-sm mb-1">
+                <p>Shipping ({orderDetails.shippingMethod})</p>
+                <p>{shippingCost > 0 ? PriceUtils.formatPrice(shippingCost) : 'Free'}</p>
+              </div>
+            )}
+            {tax > 0 && (
+              <div className="flex justify-between items-center text-sm mb-1">
+                <p>Tax</p>
+                <p>{PriceUtils.formatPrice(tax)}</p>
+              </div>
+            )}
             
             <div className="flex justify-between items-center font-bold text-lg">
               <p>Total</p>
               <p>{PriceUtils.formatPrice(totalAmount)}</p>
             </div>
+
+            {amountRefunded > 0 && (
+              <div className="mt-2 space-y-1 text-sm">
+                <div className="flex justify-between items-center text-amber-600">
+                  <p>Refunded</p>
+                  <p>-{PriceUtils.formatPrice(amountRefunded)}</p>
+                </div>
+                <div className="flex justify-between items-center font-semibold">
+                  <p>Net Paid</p>
+                  <p>{PriceUtils.formatPrice(Math.max(totalAmount - amountRefunded, 0))}</p>
+                </div>
+              </div>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -144,9 +199,9 @@ export default function OrderConfirmation({
         </CardHeader>
         <CardContent>
           <div className="space-y-1">
-            <p className="font-medium">{customerInfo.name}</p>
-            <p>{customerInfo.address}</p>
-            <p>{customerInfo.city}, {customerInfo.zip}</p>
+            {formatAddressLines(shipping).map((line, index) => (
+              <p key={index} className={index === 0 ? 'font-medium' : undefined}>{line}</p>
+            ))}
           </div>
           
           <div className="mt-4 p-3 bg-blue-50 rounded-lg">
@@ -180,6 +235,9 @@ export default function OrderConfirmation({
             <Button variant="outline" asChild className="w-full">
               <Link href="/products">View All Products</Link>
             </Button>
+            <Button variant="outline" asChild className="w-full">
+              <Link href="/orders/lookup">Track Your Order</Link>
+            </Button>
           </div>
         </CardContent>
       </Card>
@@ -3,10 +3,12 @@ import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { ShoppingCart, Check, Loader2 } from 'lucide-react';
 import { useCart } from '@/hooks/use-cart';
-import type { Product } from '@/lib/types';
+import type { Product, ProductVariant } from '@/lib/types';
+import { variantDisplayName } from '@/lib/variant-options';
 
 interface AddToCartButtonProps {
   product: Product;
+  variant: ProductVariant;
   quantity: number;
   disabled?: boolean;
   className?: string;
@@ -14,6 +16,7 @@ interface AddToCartButtonProps {
 
 const AddToCartButton: React.FC<AddToCartButtonProps> = ({
   product,
+  variant,
   quantity,
   disabled = false,
   className = '',
@@ -33,7 +36,7 @@ const AddToCartButton: React.FC<AddToCartButtonProps> = ({
       // Simulate brief loading for better UX
       await new Promise(resolve => setTimeout(resolve, 300));
       
-      addItem(product, quantity);
+      addItem(product, variant, quantity);
       
       // Show success state briefly
       setShowSuccess(true);
@@ -96,7 +99,7 @@ const AddToCartButton: React.FC<AddToCartButtonProps> = ({
       className={`bg-primary hover:bg-primary/90 min-h-[48px] md:min-h-[40px] transition-all ${
         showSuccess ? 'bg-accent hover:bg-accent/90' : ''
       } ${showGoToCart ? 'bg-primary hover:bg-primary/80' : ''} ${className}`}
-      aria-label={showGoToCart ? 'Go to cart' : `Add ${quantity} ${product.name} to cart`}
+      aria-label={showGoToCart ? 'Go to cart' : `Add ${quantity} ${variantDisplayName(product.name, variant.options)} to cart`}
     >
       {getButtonContent()}
     </Button>
@@ -2,10 +2,12 @@ import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Zap, Loader2 } from 'lucide-react';
 import { useCart } from '@/hooks/use-cart';
-import type { Product } from '@/lib/types';
+import type { Product, ProductVariant } from '@/lib/types';
+import { variantDisplayName } from '@/lib/variant-options';
 
 interface BuyNowButtonProps {
   product: Product;
+  variant: ProductVariant;
   quantity: number;
   disabled?: boolean;
   className?: string;
@@ -13,6 +15,7 @@ interface BuyNowButtonProps {
 
 const BuyNowButton: React.FC<BuyNowButtonProps> = ({
   product,
+  variant,
   quantity,
   disabled = false,
   className = '',
@@ -30,7 +33,7 @@ const BuyNowButton: React.FC<BuyNowButtonProps> = ({
       await new Promise(resolve => setTimeout(resolve, 200));
       
       // buyNow will add item to cart and redirect to checkout
-      buyNow(product, quantity);
+      buyNow(product, variant, quantity);
     } catch (error) {
       console.error('Error processing buy now:', error);
       setIsLoading(false);
@@ -43,7 +46,7 @@ const BuyNowButton: React.FC<BuyNowButtonProps> = ({
       onClick={handleBuyNow}
       disabled={disabled || isLoading}
       className={`border-primary text-primary hover:bg-primary/10 min-h-[48px] md:min-h-[40px] ${className}`}
-      aria-label={`Buy ${quantity} ${product.name} now`}
+      aria-label={`Buy ${quantity} ${variantDisplayName(product.name, variant.options)} now`}
     >
       {isLoading ? (
         <>
@@ -2,11 +2,12 @@
 
 import Image from 'next/image';
 import { useState, useEffect } from 'react';
-import type { Product } from '@/lib/types';
+import type { Product, ProductVariant } from '@/lib/types';
 import ReviewList from '@/components/product/ReviewList';
 import QuantitySelector from '@/components/product/QuantitySelector';
 import AddToCartButton from '@/components/product/AddToCartButton';
 import BuyNowButton from '@/components/product/BuyNowButton';
+import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { CheckCircle, Info, DollarSign, AlertTriangle } from 'lucide-react';
 import ProductCard from '@/components/product/ProductCard';
@@ -14,6 +15,13 @@ import { EqualHeightGrid } from '@/components/ui/equal-height-grid';
 import { PageWrapper } from '@/components/ui/page-wrapper';
 import { ProductSkeleton } from '@/components/skeletons/product-skeleton';
 import { PriceUtils } from '@/lib/price-utils';
+import {
+  VARIANT_OPTION_NAMES,
+  findVariant,
+  optionValues,
+  productOptions,
+  type VariantOption,
+} from '@/lib/variant-options';
 
 import type { Review } from '@/lib/types';
 
@@ -51,17 +59,39 @@ const StockStatus = ({ stockQuantity }: { stockQuantity: number }) => {
   );
 };
 
+// Starts on the first variant in stock, so the page opens on something that can be bought
+function initialVariant(variants: ProductVariant[]): ProductVariant | undefined {
+  const active = variants.filter(variant => variant.is_active !== false);
+  return active.find(variant => variant.stock_quantity > 0) ?? active[0];
+}
+
 export default function ProductPageClient({ 
   product, 
   productReviews, 
   relatedProducts 
 }: ProductPageClientProps) {
+  const variants = product.variants ?? [];
+  const options = productOptions(variants);
+  const [selection, setSelection] = useState(() => initialVariant(variants)?.options ?? {});
+  const variant = findVariant(variants, selection);
+  const price = variant?.price ?? product.price;
+  const stockQuantity = variant?.stock_quantity ?? 0;
+
   const [quantity, setQuantity] = useState(1);
-  const [previousTotal, setPreviousTotal] = useState(PriceUtils.getNumericPrice(product.price));
+  const [previousTotal, setPreviousTotal] = useState(PriceUtils.getNumericPrice(price));
   const [slideDirection, setSlideDirection] = useState<'top' | 'bottom'>('bottom');
 
-  const totalPrice = PriceUtils.getNumericPrice(product.price) * quantity;
-  const isOutOfStock = product.stock_quantity === 0;
+  const totalPrice = PriceUtils.getNumericPrice(price) * quantity;
+  const isOutOfStock = stockQuantity === 0;
+
+  // Picking a value the other choices don't come in switches to a variant that has it
+  const selectOption = (option: VariantOption, value: string) => {
+    const next = findVariant(variants, { ...selection, [option]: value })
+      ?? variants.find(candidate => candidate.is_active !== false && candidate.options[option] === value);
+    if (next) {
+      setSelection(next.options);
+    }
+  };
 
   useEffect(() => {
     if (totalPrice !== previousTotal) {
@@ -72,10 +102,10 @@ export default function ProductPageClient({
 
   // Reset quantity if it exceeds stock
   useEffect(() => {
-    if (quantity > product.stock_quantity && product.stock_quantity > 0) {
-      setQuantity(product.stock_quantity);
+    if (quantity > stockQuantity && stockQuantity > 0) {
+      setQuantity(stockQuantity);
     }
-  }, [quantity, product.stock_quantity]);
+  }, [quantity, stockQuantity]);
 
   return (
     <PageWrapper skeleton={<ProductSkeleton />}>
@@ -85,7 +115,7 @@ export default function ProductPageClient({
           <Card className="shadow-xl">
             <CardContent className="p-3 md:p-4">
               <Image
-                src={product.images[0] || 'https://placehold.co/600x600.png'}
+                src={variant?.image_url || product.images[0] || 'https://placehold.co/600x600.png'}
                 alt={product.name}
                 width={600}
                 height={600}
@@ -100,11 +130,37 @@ export default function ProductPageClient({
           {/* Product Details */}
           <div className="space-y-4 md:space-y-6">
             <h1 className="text-2xl md:text-3xl lg:text-4xl font-bold text-primary leading-tight">{product.name}</h1>
-            <p className="text-xl md:text-2xl font-semibold text-accent">{PriceUtils.formatPrice(product.price)}</p>
+            <p className="text-xl md:text-2xl font-semibold text-accent">{PriceUtils.formatPrice(price)}</p>
             <p className="text-base md:text-lg text-foreground/80 leading-relaxed">{product.description}</p>
+
+            {/* Variant Picker */}
+            {options.map(option => (
+              <div key={option} className="space-y-2">
+                <p className="text-sm font-medium">
+                  {VARIANT_OPTION_NAMES[option]}: <span className="text-muted-foreground">{selection[option]}</span>
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {optionValues(variants, option).map(value => (
+                    <Button
+                      key={value}
+                      type="button"
+                      size="sm"
+                      variant={selection[option] === value ? 'default' : 'outline'}
+                      aria-pressed={selection[option] === value}
+                      onClick={() => selectOption(option, value)}
+                    >
+                      {value}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            ))}
+            {variant && options.length > 0 && (
+              <p className="text-xs text-muted-foreground">SKU {variant.sku}</p>
+            )}
             
             {/* Stock Status */}
-            <StockStatus stockQuantity={product.stock_quantity} />
+            <StockStatus stockQuantity={stockQuantity} />
             
             {/* Quantity Selector */}
             {!isOutOfStock && (
@@ -115,7 +171,7 @@ export default function ProductPageClient({
                 <QuantitySelector
                   quantity={quantity}
                   onQuantityChange={setQuantity}
-                  max={product.stock_quantity}
+                  max={stockQuantity}
                   disabled={isOutOfStock}
                 />
               </div>
@@ -138,27 +194,31 @@ export default function ProductPageClient({
                 </div>
                 {quantity > 1 && (
                   <div className="text-xs text-muted-foreground bg-background/80 px-2 py-1 rounded animate-in fade-in-0 slide-in-from-bottom-2">
-                    {PriceUtils.formatPrice(product.price)} each
+                    {PriceUtils.formatPrice(price)} each
                   </div>
                 )}
               </div>
             )}
 
             {/* Action Buttons */}
-            <div className="flex flex-col sm:flex-row gap-3 sm:gap-4">
-              <AddToCartButton
-                product={product}
-                quantity={quantity}
-                disabled={isOutOfStock}
-                className="w-full sm:flex-1"
-              />
-              <BuyNowButton
-                product={product}
-                quantity={quantity}
-                disabled={isOutOfStock}
-                className="w-full sm:flex-1"
-              />
-            </div>
+            {variant && (
+              <div className="flex flex-col sm:flex-row gap-3 sm:gap-4">
+                <AddToCartButton
+                  product={product}
+                  variant={variant}
+                  quantity={quantity}
+                  disabled={isOutOfStock}
+                  className="w-full sm:flex-1"
+                />
+                <BuyNowButton
+                  product={product}
+                  variant={variant}
+                  quantity={quantity}
+                  disabled={isOutOfStock}
+                  className="w-full sm:flex-1"
+                />
+              </div>
+            )}
 
             <Card className="bg-secondary/30">
               <CardHeader>
@@ -0,0 +1,111 @@
+import { formatAddressLines, isSameAddress, validateShippingAddress } from '../addresses';
+
+const address = {
+  fullName: 'Jane Doe',
+  line1: '1 Main St',
+  city: 'Springfield',
+  region: 'IL',
+  postalCode: '62701',
+  country: 'US',
+};
+
+describe('validateShippingAddress', () => {
+  it('should trim fields and drop blank optional ones', () => {
+    const result = validateShippingAddress({
+      ...address,
+      fullName: '  Jane Doe ',
+      line2: '   ',
+      postalCode: 'sw1a 1aa',
+      country: 'GB',
+      phone: '',
+    });
+
+    expect(result).toEqual({
+      ok: true,
+      address: {
+        ...address,
+        postalCode: 'SW1A 1AA',
+        country: 'GB',
+        line2: undefined,
+        phone: undefined,
+      },
+    });
+  });
+
+  it('should report every invalid field', () => {
+    const result = validateShippingAddress({ ...address, line1: '', country: 'ZZ', phone: 'call me' });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(Object.keys(result.errors).sort()).toEqual(['country', 'line1', 'phone']);
+    }
+  });
+
+  it('should reject input that is not an object', () => {
+    expect(validateShippingAddress(null).ok).toBe(false);
+  });
+});
+
+describe('formatAddressLines', () => {
+  it('should skip missing lines and spell out the country', () => {
+    expect(formatAddressLines(address)).toEqual([
+      'Jane Doe',
+      '1 Main St',
+      'Springfield, IL 62701',
+      'United States',
+    ]);
+  });
+});
+
+describe('isSameAddress', () => {
+  it('should ignore case, whitespace and blank optional fields', () => {
+    expect(isSameAddress(address, { ...address, line1: ' 1 MAIN ST', line2: '' })).toBe(true);
+    expect(isSameAddress(address, { ...address, line2: 'Apt 2' })).toBe(false);
+  });
+});
+
+describe('country address formats', () => {
+  it('should accept accented names and cities', () => {
+    const result = validateShippingAddress({
+      fullName: 'Zoë Müller-Lüdenscheidt',
+      line1: 'Bahnhofstrasse 1',
+      city: 'Zürich',
+      postalCode: '8001',
+      country: 'CH',
+    });
+
+    expect(result.ok).toBe(true);
+  });
+
+  it('should check postal codes against the country pattern', () => {
+    const brazil = { fullName: 'João Silva', line1: 'Avenida Paulista 1000', city: 'São Paulo', region: 'SP', country: 'BR' };
+
+    expect(validateShippingAddress({ ...brazil, postalCode: '01310-100' }).ok).toBe(true);
+
+    const result = validateShippingAddress({ ...brazil, postalCode: '1234' });
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errors.postalCode).toBe('CEP should look like 01310-100');
+    }
+  });
+
+  it('should require a state from the list and store its code', () => {
+    expect(validateShippingAddress({ ...address, region: '' }).ok).toBe(false);
+    expect(validateShippingAddress({ ...address, region: 'Narnia' }).ok).toBe(false);
+
+    const result = validateShippingAddress({ ...address, region: 'illinois' });
+    expect(result.ok && result.address.region).toBe('IL');
+  });
+
+  it('should not require a postal code where the country does not', () => {
+    const result = validateShippingAddress({
+      fullName: 'Siobhán Ó Briain',
+      line1: '1 Grafton Street',
+      city: 'Dublin',
+      postalCode: '',
+      country: 'IE',
+    });
+
+    expect(result.ok).toBe(true);
+  });
+});
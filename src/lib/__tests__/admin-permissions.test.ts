@@ -0,0 +1,45 @@
+import {
+  ADMIN_PERMISSIONS,
+  ADMIN_ROLES,
+  hasPermission,
+  isAdminRole,
+  permissionsForRole,
+} from '../admin-permissions';
+
+describe('admin permissions', () => {
+  it('should give owners every permission', () => {
+    ADMIN_PERMISSIONS.forEach(permission => {
+      expect(hasPermission('owner', permission)).toBe(true);
+    });
+  });
+
+  it('should keep catalog editors out of orders', () => {
+    expect(hasPermission('catalog_editor', 'products:write')).toBe(true);
+    expect(hasPermission('catalog_editor', 'orders:read')).toBe(false);
+    expect(hasPermission('catalog_editor', 'orders:refund')).toBe(false);
+  });
+
+  it('should let fulfillment move orders along but not refund them', () => {
+    expect(hasPermission('fulfillment', 'orders:update_status')).toBe(true);
+    expect(hasPermission('fulfillment', 'orders:refund')).toBe(false);
+    expect(hasPermission('fulfillment', 'products:write')).toBe(false);
+  });
+
+  it('should let support refund but not change status', () => {
+    expect(hasPermission('support', 'orders:refund')).toBe(true);
+    expect(hasPermission('support', 'orders:update_status')).toBe(false);
+  });
+
+  it('should give read-only admins no write permissions', () => {
+    const writes = ['products:write', 'orders:create', 'orders:update_status', 'orders:refund', 'price_monitoring:write'];
+    permissionsForRole('read_only').forEach(permission => {
+      expect(writes).not.toContain(permission);
+    });
+  });
+
+  it('should only accept known roles', () => {
+    ADMIN_ROLES.forEach(role => expect(isAdminRole(role)).toBe(true));
+    expect(isAdminRole('superuser')).toBe(false);
+    expect(isAdminRole(undefined)).toBe(false);
+  });
+});
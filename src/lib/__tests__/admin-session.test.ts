@@ -0,0 +1,59 @@
+import { webcrypto } from 'crypto';
+import { TextEncoder } from 'util';
+import { requiresAdminSession, signAdminSessionCookie, verifyAdminSessionCookie } from '../admin-session';
+import { hashPassword, verifyPassword } from '../passwords';
+
+// jsdom lacks Web Crypto; the middleware gets it from the Edge runtime
+Object.assign(globalThis, { TextEncoder });
+Object.defineProperty(globalThis, 'crypto', { value: webcrypto });
+
+const SECRET = 'test-session-secret';
+
+describe('admin session cookies', () => {
+  const expiresAt = new Date(Date.now() + 60 * 60 * 1000);
+
+  it('should verify a cookie it signed', async () => {
+    const cookie = await signAdminSessionCookie('token123', expiresAt, SECRET);
+    expect(await verifyAdminSessionCookie(cookie, SECRET)).toBe('token123');
+  });
+
+  it('should reject tampered, foreign or expired cookies', async () => {
+    const cookie = await signAdminSessionCookie('token123', expiresAt, SECRET);
+    const [, expires, signature] = cookie.split('.');
+
+    expect(await verifyAdminSessionCookie(`other.${expires}.${signature}`, SECRET)).toBeNull();
+    expect(await verifyAdminSessionCookie(cookie, 'another-secret')).toBeNull();
+    expect(await verifyAdminSessionCookie(cookie, SECRET, expiresAt.getTime() + 1000)).toBeNull();
+    expect(await verifyAdminSessionCookie(cookie, null)).toBeNull();
+    expect(await verifyAdminSessionCookie('garbage', SECRET)).toBeNull();
+  });
+});
+
+describe('requiresAdminSession', () => {
+  it('should guard admin pages and admin APIs', () => {
+    expect(requiresAdminSession('/admin', 'GET')).toBe(true);
+    expect(requiresAdminSession('/admin/orders', 'GET')).toBe(true);
+    expect(requiresAdminSession('/api/orders', 'GET')).toBe(true);
+    expect(requiresAdminSession('/api/orders/order_1/refunds', 'POST')).toBe(true);
+    expect(requiresAdminSession('/api/products/eggypro-original', 'DELETE')).toBe(true);
+  });
+
+  it('should leave sign-in, customer and catalog reads open', () => {
+    expect(requiresAdminSession('/admin/login', 'GET')).toBe(false);
+    expect(requiresAdminSession('/api/admin/login', 'POST')).toBe(false);
+    expect(requiresAdminSession('/api/orders/lookup', 'POST')).toBe(false);
+    expect(requiresAdminSession('/api/products', 'GET')).toBe(false);
+    expect(requiresAdminSession('/administrator', 'GET')).toBe(false);
+  });
+});
+
+describe('password hashing', () => {
+  it('should verify the right password only', async () => {
+    const stored = await hashPassword('correct horse battery');
+
+    expect(stored.startsWith('scrypt$')).toBe(true);
+    expect(await verifyPassword('correct horse battery', stored)).toBe(true);
+    expect(await verifyPassword('wrong password', stored)).toBe(false);
+    expect(await verifyPassword('anything', 'not-a-hash')).toBe(false);
+  });
+});
@@ -0,0 +1,48 @@
+import { diffAuditValues, isAuditAction } from '../audit-actions';
+
+describe('diffAuditValues', () => {
+  it('should list only the fields that changed', () => {
+    const changes = diffAuditValues(
+      { name: 'Egg Protein', price: '29.99', stock_quantity: 100 },
+      { name: 'Egg Protein', price: '24.99', stock_quantity: 80 }
+    );
+
+    expect(changes).toEqual({
+      price: { from: '29.99', to: '24.99' },
+      stock_quantity: { from: 100, to: 80 },
+    });
+  });
+
+  it('should ignore timestamps that change on every write', () => {
+    const changes = diffAuditValues(
+      { price: '29.99', updated_at: new Date('2024-01-01') },
+      { price: '29.99', updated_at: new Date('2024-02-01') }
+    );
+
+    expect(changes).toEqual({});
+  });
+
+  it('should list every field on create and delete', () => {
+    expect(diffAuditValues(null, { id: 1, name: 'Egg Protein' })).toEqual({
+      id: { from: null, to: 1 },
+      name: { from: null, to: 'Egg Protein' },
+    });
+    expect(diffAuditValues({ id: 1 }, undefined)).toEqual({
+      id: { from: 1, to: null },
+    });
+  });
+
+  it('should compare arrays and objects by value', () => {
+    expect(diffAuditValues({ ingredients: ['egg'] }, { ingredients: ['egg'] })).toEqual({});
+    expect(diffAuditValues({ ingredients: ['egg'] }, { ingredients: ['egg', 'cocoa'] })).toEqual({
+      ingredients: { from: ['egg'], to: ['egg', 'cocoa'] },
+    });
+  });
+});
+
+describe('isAuditAction', () => {
+  it('should only accept known actions', () => {
+    expect(isAuditAction('product.updated')).toBe(true);
+    expect(isAuditAction('product.renamed')).toBe(false);
+  });
+});
@@ -0,0 +1,23 @@
+import { webcrypto } from 'crypto';
+import { TextEncoder } from 'util';
+import { CART_RECOVERY_LINK_TTL_SECONDS, createCartRecoveryToken, verifyCartRecoveryToken } from '../cart-recovery';
+
+jest.mock('@/lib/db', () => ({ db: {} }));
+
+// jsdom lacks Web Crypto
+Object.assign(globalThis, { TextEncoder });
+Object.defineProperty(globalThis, 'crypto', { value: webcrypto });
+
+const SECRET = 'test-recovery-secret';
+
+describe('cart recovery links', () => {
+  it('should verify a token it signed until it expires', async () => {
+    const now = Date.now();
+    const token = await createCartRecoveryToken(42, SECRET, now);
+
+    expect(await verifyCartRecoveryToken(token, SECRET, now)).toBe(42);
+    expect(await verifyCartRecoveryToken(token, SECRET, now + CART_RECOVERY_LINK_TTL_SECONDS * 1000 + 1)).toBeNull();
+    expect(await verifyCartRecoveryToken(token, 'another-secret', now)).toBeNull();
+    expect(await verifyCartRecoveryToken(token.replace(/^42/, '43'), SECRET, now)).toBeNull();
+  });
+});
@@ -0,0 +1,108 @@
+import { MAX_CART_LINES, checkCartItems, parseCartLines } from '../carts';
+import { applyCartItemChecks, cartItemsFromServer, cartSignature } from '../cart-utils';
+
+jest.mock('@/lib/db', () => ({ db: {} }));
+
+describe('parseCartLines', () => {
+  it('should add up repeated variants and cap quantities', () => {
+    const result = parseCartLines([
+      { variantId: 1, quantity: 2 },
+      { variantId: '1', quantity: 3 },
+      { variantId: 2, quantity: 500 },
+    ]);
+
+    expect(result).toEqual({
+      ok: true,
+      lines: [
+        { variantId: 1, quantity: 5 },
+        { variantId: 2, quantity: 99 },
+      ],
+    });
+  });
+
+  it('should reject malformed items', () => {
+    expect(parseCartLines('nope').ok).toBe(false);
+    expect(parseCartLines([{ variantId: 1, quantity: 0 }]).ok).toBe(false);
+    expect(parseCartLines([{ variantId: 'abc', quantity: 1 }]).ok).toBe(false);
+    // Carts saved before variants only name the product
+    expect(parseCartLines([{ productId: 1, quantity: 1 }]).ok).toBe(false);
+  });
+
+  it('should accept an empty cart but not an oversized one', () => {
+    expect(parseCartLines([])).toEqual({ ok: true, lines: [] });
+
+    const tooMany = Array.from({ length: MAX_CART_LINES + 1 }, (_, index) => ({ variantId: index + 1, quantity: 1 }));
+    expect(parseCartLines(tooMany).ok).toBe(false);
+  });
+});
+
+describe('cart sync helpers', () => {
+  const local = [
+    { id: 'cart-item-12-1', productId: 2, variantId: 12, name: 'Shaker', price: '14.99', quantity: 1, imageUrl: '', slug: 'shaker' },
+    { id: 'cart-item-11-1', productId: 1, variantId: 11, name: 'Original', price: '29.99', quantity: 2, imageUrl: '', slug: 'original', isDeleting: true },
+  ];
+
+  it('should ignore order and items being deleted in the signature', () => {
+    expect(cartSignature(local)).toBe('12:1');
+    expect(cartSignature([...local].reverse())).toBe(cartSignature(local));
+  });
+
+  it('should keep the ids of items already in the cart', () => {
+    const items = cartItemsFromServer([
+      { productId: 2, variantId: 12, name: 'Shaker', slug: 'shaker', price: '12.99', imageUrl: '/shaker.png', quantity: 3, stockQuantity: 10 },
+    ], local);
+
+    expect(items).toEqual([
+      expect.objectContaining({ id: 'cart-item-12-1', productId: 2, variantId: 12, price: '12.99', quantity: 3, imageUrl: '/shaker.png' }),
+    ]);
+  });
+});
+
+describe('cart revalidation', () => {
+  const catalog = [
+    { id: 11, product_id: 1, sku: 'ORIGINAL-1LB', name: 'Original', options: { size: '1 lb' }, price: '31.99', stock_quantity: 10, is_active: true },
+    { id: 12, product_id: 2, sku: 'SHAKER', name: 'Shaker', options: {}, price: '14.99', stock_quantity: 5, is_active: true },
+    { id: 13, product_id: 3, sku: 'RETIRED', name: 'Retired', options: {}, price: '9.99', stock_quantity: 50, is_active: false },
+  ];
+
+  it('should report price changes, stock caps and unavailable variants', () => {
+    const checks = checkCartItems([
+      { variantId: 11, quantity: 2, price: '29.99' },
+      { variantId: 12, quantity: 4, price: '14.99' },
+      { variantId: 13, quantity: 1 },
+      { variantId: 14, quantity: 1 },
+    ], catalog, new Map([[12, 3]]));
+
+    expect(checks).toEqual([
+      expect.objectContaining({ variantId: 11, productId: 1, name: 'Original (1 lb)', available: true, price: '31.99', previousPrice: '29.99', quantity: 2 }),
+      expect.objectContaining({ variantId: 12, available: true, previousPrice: null, stockQuantity: 2, requestedQuantity: 4, quantity: 2 }),
+      expect.objectContaining({ variantId: 13, name: 'Retired', available: false, quantity: 0 }),
+      expect.objectContaining({ variantId: 14, productId: null, name: null, available: false, quantity: 0 }),
+    ]);
+  });
+
+  it('should update the cart and explain each change', () => {
+    const items = [
+      { id: 'cart-item-11-1', productId: 1, variantId: 11, name: 'Original (1 lb)', price: '29.99', quantity: 2, imageUrl: '', slug: 'original' },
+      { id: 'cart-item-12-1', productId: 2, variantId: 12, name: 'Shaker', price: '14.99', quantity: 4, imageUrl: '', slug: 'shaker' },
+      { id: 'cart-item-13-1', productId: 3, variantId: 13, name: 'Retired', price: '9.99', quantity: 1, imageUrl: '', slug: 'retired' },
+    ];
+    const checks = checkCartItems(
+      items.map(item => ({ variantId: item.variantId, quantity: item.quantity, price: item.price })),
+      catalog,
+      new Map([[12, 3]])
+    );
+
+    const result = applyCartItemChecks(items, checks);
+
+    expect(result.items).toEqual([
+      expect.objectContaining({ variantId: 11, price: '31.99', previousPrice: '29.99', quantity: 2 }),
+      expect.objectContaining({ variantId: 12, quantity: 2, stockQuantity: 2, previousPrice: undefined }),
+    ]);
+    expect(result.notices.map(notice => [notice.variantId, notice.kind])).toEqual([
+      [11, 'price_changed'],
+      [12, 'quantity_reduced'],
+      [13, 'removed'],
+    ]);
+  });
+});
@@ -0,0 +1,95 @@
+import { fromCents, normalizeLineItems, priceLineItems, toCents } from '../inventory';
+
+jest.mock('@/lib/db', () => ({ db: {} }));
+
+const catalog = [
+  { id: 1, product_id: 1, sku: 'EGGYPRO-ORIGINAL', name: 'EggyPro Original', options: {}, price: '29.99', stock_quantity: 10, is_active: true },
+  { id: 2, product_id: 2, sku: 'EGGYPRO-VANILLA-2LB', name: 'EggyPro Flavored', options: { flavor: 'Vanilla', size: '2 lb' }, price: '32.99', stock_quantity: 2, is_active: true },
+  { id: 3, product_id: 3, sku: 'EGGYPRO-RETIRED', name: 'EggyPro Retired', options: {}, price: '19.99', stock_quantity: 50, is_active: false },
+];
+
+describe('inventory', () => {
+  describe('toCents / fromCents', () => {
+    it('should convert decimal strings to integer cents', () => {
+      expect(toCents('29.99')).toBe(2999);
+      expect(toCents(0.1 + 0.2)).toBe(30);
+    });
+
+    it('should convert cents back to two-decimal strings', () => {
+      expect(fromCents(2999)).toBe('29.99');
+      expect(fromCents(100)).toBe('1.00');
+    });
+  });
+
+  describe('normalizeLineItems', () => {
+    it('should merge duplicate variants', () => {
+      const result = normalizeLineItems([
+        { id: '1', quantity: 1 },
+        { id: 1, quantity: 2 },
+      ]);
+      expect(result.issues).toEqual([]);
+      expect(result.items).toEqual([{ variantId: 1, quantity: 3 }]);
+    });
+
+    it('should reject non-numeric ids and non-positive quantities', () => {
+      const result = normalizeLineItems([
+        { id: 'eggypro-original', quantity: 1 },
+        { id: '2', quantity: 0 },
+      ]);
+      expect(result.items).toEqual([]);
+      expect(result.issues).toHaveLength(2);
+      expect(result.issues.every(issue => issue.reason === 'invalid_item')).toBe(true);
+    });
+  });
+
+  describe('priceLineItems', () => {
+    it('should price items from the catalog, not the client', () => {
+      const result = priceLineItems([{ variantId: 1, quantity: 2 }], catalog);
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.totalCents).toBe(5998);
+        expect(result.lines[0]).toMatchObject({ unitPrice: '29.99', lineTotalCents: 5998 });
+      }
+    });
+
+    it('should name and record the variant bought', () => {
+      const result = priceLineItems([{ variantId: 2, quantity: 1 }], catalog);
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.lines[0]).toMatchObject({
+          productId: 2,
+          variantId: 2,
+          sku: 'EGGYPRO-VANILLA-2LB',
+          name: 'EggyPro Flavored (Vanilla / 2 lb)',
+        });
+      }
+    });
+
+    it('should report missing and inactive variants', () => {
+      const result = priceLineItems([
+        { variantId: 3, quantity: 1 },
+        { variantId: 99, quantity: 1 },
+      ], catalog);
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.issues.map(issue => issue.reason)).toEqual(['inactive', 'not_found']);
+      }
+    });
+
+    it('should subtract quantities held by other reservations', () => {
+      const result = priceLineItems(
+        [{ variantId: 2, quantity: 2 }],
+        catalog,
+        new Map([[2, 1]])
+      );
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.issues[0]).toMatchObject({
+          reason: 'insufficient_stock',
+          requested: 2,
+          available: 1,
+        });
+      }
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { MAX_EMAIL_ATTEMPTS, nextRetryDelayMinutes } from '../mail/outbox';
+import { assertMailbox, buildMimeMessage } from '../mail/smtp-provider';
+import { renderEmail, type OrderEmailData } from '../mail/templates';
+
+jest.mock('@/lib/db', () => ({ db: {} }));
+
+const order: OrderEmailData = {
+  orderId: 'order_123_abc',
+  customerName: 'José <Admin>',
+  email: 'jose@example.com',
+  placedAt: new Date('2024-05-01T12:00:00Z'),
+  items: [
+    { name: 'EggyPro Original', quantity: 2, unitPrice: '29.99', lineTotal: '59.98' },
+    { name: 'Shaker', quantity: 1, unitPrice: '14.99', lineTotal: '14.99' },
+  ],
+  discount: '0.00',
+  tax: '0.00',
+  shippingMethod: 'standard',
+  shippingCost: '0.00',
+  promotionCode: null,
+  total: '74.97',
+  shipping: {
+    fullName: 'José <Admin>',
+    line1: '1 Main St',
+    city: 'Austin',
+    region: 'TX',
+    postalCode: '78701',
+    country: 'US',
+  },
+};
+
+describe('email templates', () => {
+  it('should render an order confirmation as text and HTML', () => {
+    const email = renderEmail('order_confirmation', { order, orderUrl: 'https://eggypro.com/orders/lookup?order=order_123_abc' });
+
+    expect(email.subject).toBe('Your EggyPro order order_123_abc');
+    expect(email.text).toContain('2 × EggyPro Original: $59.98');
+    expect(email.text).toContain('Shipping (Standard): Free');
+    expect(email.text).toContain('Total: $74.97');
+    expect(email.text).toContain('Austin, TX 78701');
+    expect(email.html).toContain('José &lt;Admin&gt;');
+    expect(email.html).not.toContain('<Admin>');
+  });
+
+  it('should list the discount and tax when there are any', () => {
+    const discounted = { ...order, discount: '7.50', promotionCode: 'SPRING10', tax: '5.40', total: '72.87' };
+    const email = renderEmail('order_confirmation', { order: discounted, orderUrl: 'https://eggypro.com/orders/lookup' });
+
+    expect(email.text).toContain('Discount (SPRING10): -$7.50');
+    expect(email.text).toContain('Tax: $5.40');
+    expect(email.text).toContain('Total: $72.87');
+    expect(renderEmail('order_confirmation', { order, orderUrl: 'https://eggypro.com/orders/lookup' }).text)
+      .not.toMatch(/Discount|Tax/);
+  });
+
+  it('should show the shipping method and what it cost', () => {
+    const express = { ...order, shippingMethod: 'express' as const, shippingCost: '16.99', total: '91.96' };
+    const email = renderEmail('order_confirmation', { order: express, orderUrl: 'https://eggypro.com/orders/lookup' });
+
+    expect(email.text).toContain('Shipping (Express): $16.99');
+    expect(email.text).toContain('Total: $91.96');
+  });
+
+  it('should include tracking only when there is some', () => {
+    const withTracking = renderEmail('order_shipped', {
+      order,
+      orderUrl: 'https://eggypro.com/orders/lookup',
+      carrier: 'UPS',
+      trackingNumber: '1Z999',
+    });
+    const without = renderEmail('order_shipped', { order, orderUrl: 'https://eggypro.com/orders/lookup' });
+
+    expect(withTracking.text).toContain('Tracking: UPS 1Z999');
+    expect(without.text).not.toContain('Tracking');
+  });
+
+  it('should tell partial refunds from full ones', () => {
+    expect(renderEmail('order_refunded', { order, amount: '14.99', fullRefund: false }).text)
+      .toContain("We've refunded $14.99 of your order order_123_abc.");
+    expect(renderEmail('order_refunded', { order, amount: '74.97', fullRefund: true, reason: 'Damaged' }).text)
+      .toContain('Reason: Damaged');
+  });
+
+  it('should total a recovered cart', () => {
+    const email = renderEmail('cart_recovery', {
+      items: [{ name: 'Shaker', quantity: 3, price: '14.99' }],
+      recoverUrl: 'https://eggypro.com/cart/recover?token=a.b.c',
+    });
+
+    expect(email.text).toContain('Subtotal: $44.97');
+    expect(email.html).toContain('href="https://eggypro.com/cart/recover?token=a.b.c"');
+  });
+});
+
+describe('email delivery', () => {
+  it('should back off between attempts and give up after the last', () => {
+    expect(nextRetryDelayMinutes(1)).toBe(1);
+    expect(nextRetryDelayMinutes(2)).toBe(5);
+    expect(nextRetryDelayMinutes(MAX_EMAIL_ATTEMPTS - 1)).toBe(120);
+    expect(nextRetryDelayMinutes(MAX_EMAIL_ATTEMPTS)).toBeNull();
+  });
+
+  it('should send text and HTML parts in one message', () => {
+    const source = buildMimeMessage(
+      { to: 'shopper@example.com', subject: 'Ihr Warenkorb wartet', text: 'Hallo', html: '<p>Hallo</p>' },
+      'EggyPro <hello@eggypro.com>',
+      { boundary: 'BOUNDARY', messageId: 'abc', date: new Date('2024-01-01T00:00:00Z') }
+    );
+
+    expect(source).toContain('Content-Type: multipart/alternative; boundary="BOUNDARY"');
+    expect(source).toContain('Message-ID: <abc@eggypro.com>');
+    expect(source).toContain(Buffer.from('<p>Hallo</p>').toString('base64'));
+    expect(source.endsWith('--BOUNDARY--')).toBe(true);
+  });
+
+  it('should refuse addresses that could add commands or headers', () => {
+    expect(() => assertMailbox('shopper@example.com', 'recipient')).not.toThrow();
+    expect(() => assertMailbox('EggyPro <hello@eggypro.com>', 'sender')).not.toThrow();
+
+    for (const address of [
+      'shopper@example.com\r\nRCPT TO:<other@example.com>',
+      'shopper@example.com\nBcc: other@example.com',
+      'shopper@example.com, other@example.com',
+      'a <shopper@example.com> <other@example.com>',
+      'not-an-address',
+      '',
+    ]) {
+      expect(() => assertMailbox(address, 'recipient')).toThrow('Invalid recipient address');
+    }
+
+    expect(() => buildMimeMessage(
+      { to: 'shopper@example.com\r\nBcc: other@example.com', subject: 'Hi', text: 'Hi' },
+      'EggyPro <hello@eggypro.com>'
+    )).toThrow();
+  });
+});
@@ -0,0 +1,89 @@
+import { MockPaymentProvider, type MockIntentRecord, type MockIntentStore } from '../payments/mock-provider';
+import { PaymentProviderError } from '../payments/types';
+
+jest.mock('@/lib/db', () => ({ db: {} }));
+
+function createMemoryStore(): MockIntentStore {
+  const records = new Map<string, MockIntentRecord>();
+  return {
+    async insert(record) {
+      records.set(record.id, { ...record });
+    },
+    async get(id) {
+      return records.get(id) || null;
+    },
+    async update(id, changes) {
+      const existing = records.get(id);
+      if (!existing) return null;
+      const updated = { ...existing, ...changes };
+      records.set(id, updated);
+      return updated;
+    },
+  };
+}
+
+describe('MockPaymentProvider', () => {
+  it('should create intents awaiting a payment method', async () => {
+    const provider = new MockPaymentProvider({ store: createMemoryStore() });
+    const intent = await provider.createIntent({ amount: 2999, currency: 'USD' });
+
+    expect(intent.id).toMatch(/^pi_mock_/);
+    expect(intent.clientSecret).toContain(`${intent.id}_secret_`);
+    expect(intent).toMatchObject({ amount: 2999, currency: 'usd', status: 'requires_payment_method' });
+  });
+
+  it('should reject non-integer amounts', async () => {
+    const provider = new MockPaymentProvider({ store: createMemoryStore() });
+    await expect(provider.createIntent({ amount: 29.99, currency: 'usd' })).rejects.toBeInstanceOf(PaymentProviderError);
+  });
+
+  it('should decide outcomes from test payment methods', async () => {
+    const provider = new MockPaymentProvider({ store: createMemoryStore() });
+    const declined = await provider.createIntent({ amount: 1000, currency: 'usd' });
+    const paid = await provider.createIntent({ amount: 1000, currency: 'usd' });
+
+    const declinedResult = await provider.confirm(declined.id, { paymentMethod: 'pm_card_chargeDeclined' });
+    const paidResult = await provider.confirm(paid.id, { paymentMethod: 'pm_card_visa' });
+
+    expect(declinedResult.status).toBe('failed');
+    expect(declinedResult.lastError?.code).toBe('card_declined');
+    expect(paidResult.status).toBe('succeeded');
+  });
+
+  it('should let tests script outcomes', async () => {
+    const provider = new MockPaymentProvider({
+      store: createMemoryStore(),
+      resolveOutcome: () => ({ status: 'processing' }),
+    });
+    const intent = await provider.createIntent({ amount: 1000, currency: 'usd' });
+
+    expect((await provider.confirm(intent.id)).status).toBe('processing');
+    expect((await provider.retrieve(intent.id))?.status).toBe('processing');
+  });
+
+  it('should refund up to the captured amount', async () => {
+    const provider = new MockPaymentProvider({ store: createMemoryStore() });
+    const intent = await provider.createIntent({ amount: 5000, currency: 'usd' });
+    await provider.confirm(intent.id);
+
+    const partial = await provider.refund(intent.id, { amount: 2000 });
+    expect(partial).toMatchObject({ amount: 2000, status: 'succeeded' });
+
+    const rest = await provider.refund(intent.id);
+    expect(rest.amount).toBe(3000);
+
+    await expect(provider.refund(intent.id, { amount: 1 })).rejects.toMatchObject({ code: 'invalid_amount' });
+  });
+
+  it('should not refund unpaid intents', async () => {
+    const provider = new MockPaymentProvider({ store: createMemoryStore() });
+    const intent = await provider.createIntent({ amount: 5000, currency: 'usd' });
+
+    await expect(provider.refund(intent.id)).rejects.toMatchObject({ code: 'invalid_state' });
+  });
+
+  it('should return null for unknown intents', async () => {
+    const provider = new MockPaymentProvider({ store: createMemoryStore() });
+    expect(await provider.retrieve('pi_missing')).toBeNull();
+  });
+});
@@ -0,0 +1,74 @@
+import { escapeCsvValue, formatExportRecord, LINE_ITEM_EXPORT_COLUMNS, orderExportRecords } from '../order-export';
+
+jest.mock('@/lib/db', () => ({ db: {} }));
+
+const order = {
+  id: 7,
+  order_id: 'order_1',
+  payment_intent_id: 'pi_1',
+  status: 'paid' as const,
+  total_amount: '74.97',
+  discount_amount: '0.00',
+  tax_amount: '0.00',
+  shipping_method: 'standard' as const,
+  shipping_amount: '0.00',
+  promotion_id: null,
+  promotion_code: null,
+  amount_refunded: '0.00',
+  currency: 'usd',
+  customer_name: 'Jane, "JJ" Doe',
+  customer_email: 'jane@example.com',
+  shipping_line1: '1 Main St',
+  shipping_line2: null,
+  shipping_city: 'Springfield',
+  shipping_region: 'IL',
+  shipping_postal_code: '12345',
+  shipping_country: 'US',
+  shipping_phone: null,
+  payment_method: 'card',
+  is_development_order: false,
+  created_at: new Date('2025-03-01T10:00:00Z'),
+  updated_at: new Date('2025-03-01T10:00:00Z'),
+  items: [
+    { id: 1, order_id: 7, product_id: 3, variant_id: 5, sku: 'EGGYPRO-ORIGINAL', product_name: 'Original', product_price: '29.99', quantity: 2, line_total: '59.98', discount_amount: '0.00', tax_amount: '0.00', tax_rate: '0.000', created_at: new Date() },
+    { id: 2, order_id: 7, product_id: 4, variant_id: 6, sku: 'SHAKER', product_name: 'Shaker', product_price: '14.99', quantity: 1, line_total: '14.99', discount_amount: '0.00', tax_amount: '0.00', tax_rate: '0.000', created_at: new Date() },
+  ],
+};
+
+describe('order export', () => {
+  it('should produce one record per order with exact decimal totals', () => {
+    const [record] = orderExportRecords(order, 'order');
+
+    expect(record).toMatchObject({ order_id: 'order_1', item_count: 3, total_amount: '74.97', amount_refunded: '0.00' });
+  });
+
+  it('should produce one record per line item', () => {
+    const records = orderExportRecords(order, 'line_item');
+
+    expect(records).toHaveLength(2);
+    expect(records.map(record => record.line_total)).toEqual(['59.98', '14.99']);
+    expect(records[1]).toMatchObject({ sku: 'SHAKER', unit_price: '14.99', order_total_amount: '74.97' });
+  });
+
+  it('should quote CSV values that contain separators or quotes', () => {
+    const [record] = orderExportRecords(order, 'line_item');
+    const line = formatExportRecord(record, 'csv', LINE_ITEM_EXPORT_COLUMNS);
+
+    expect(line).toContain('"Jane, ""JJ"" Doe"');
+    expect(line.endsWith('\r\n')).toBe(true);
+  });
+
+  it('should neutralise spreadsheet formulas but keep negative numbers', () => {
+    expect(escapeCsvValue('=HYPERLINK("x")')).toBe('"\'=HYPERLINK(""x"")"');
+    expect(escapeCsvValue('-12.50')).toBe('-12.50');
+    expect(escapeCsvValue(null)).toBe('');
+  });
+
+  it('should write NDJSON records one per line', () => {
+    const [record] = orderExportRecords(order, 'order');
+    const line = formatExportRecord(record, 'ndjson', []);
+
+    expect(JSON.parse(line)).toMatchObject({ order_id: 'order_1', total_amount: '74.97' });
+    expect(line.endsWith('\n')).toBe(true);
+  });
+});
@@ -0,0 +1,57 @@
+import { parseOrderCursor, parseOrderFilters, parseOrderPageSize } from '../order-queries';
+
+describe('parseOrderFilters', () => {
+  it('should accept every supported filter', () => {
+    const parsed = parseOrderFilters(new URLSearchParams({
+      status: 'paid, shipped',
+      from: '2025-01-01T00:00:00Z',
+      to: '2025-01-31',
+      email: ' Jane@Example.com ',
+      dev: 'false',
+      payment_method: 'card',
+    }));
+
+    expect(parsed).toEqual({
+      ok: true,
+      filters: {
+        statuses: ['paid', 'shipped'],
+        createdFrom: new Date('2025-01-01T00:00:00Z'),
+        createdBefore: new Date('2025-02-01T00:00:00Z'),
+        email: 'jane@example.com',
+        isDevelopmentOrder: false,
+        paymentMethod: 'card',
+      },
+    });
+  });
+
+  it('should treat a full timestamp in to as inclusive', () => {
+    const parsed = parseOrderFilters(new URLSearchParams({ to: '2025-01-31T12:00:00.000Z' }));
+    expect(parsed.ok && parsed.filters.createdBefore).toEqual(new Date('2025-01-31T12:00:00.001Z'));
+  });
+
+  it('should reject unknown statuses and bad dates', () => {
+    expect(parseOrderFilters(new URLSearchParams({ status: 'completed' })).ok).toBe(false);
+    expect(parseOrderFilters(new URLSearchParams({ from: 'yesterday' })).ok).toBe(false);
+    expect(parseOrderFilters(new URLSearchParams({ from: '2025-02-01', to: '2025-01-01' })).ok).toBe(false);
+    expect(parseOrderFilters(new URLSearchParams({ dev: 'yes' })).ok).toBe(false);
+  });
+
+  it('should return no filters for an empty query', () => {
+    expect(parseOrderFilters(new URLSearchParams())).toEqual({ ok: true, filters: {} });
+  });
+});
+
+describe('order pagination', () => {
+  it('should parse cursors as positive order ids', () => {
+    expect(parseOrderCursor(null)).toBeUndefined();
+    expect(parseOrderCursor('42')).toBe(42);
+    expect(parseOrderCursor('abc')).toBeNull();
+    expect(parseOrderCursor('-1')).toBeNull();
+  });
+
+  it('should clamp the page size', () => {
+    expect(parseOrderPageSize(null)).toBe(10);
+    expect(parseOrderPageSize('500')).toBe(50);
+    expect(parseOrderPageSize('0')).toBe(10);
+  });
+});
@@ -0,0 +1,60 @@
+import {
+  canSetOrderStatusManually,
+  canTransitionOrderStatus,
+  INITIAL_ORDER_STATUSES,
+  isOrderStatus,
+  isTerminalOrderStatus,
+  manualOrderStatusTransitions,
+  ORDER_STATUSES,
+  ORDER_STATUS_TRANSITIONS,
+} from '../order-status';
+
+describe('order status lifecycle', () => {
+  it('should follow the happy path from pending to delivered', () => {
+    expect(canTransitionOrderStatus('pending', 'paid')).toBe(true);
+    expect(canTransitionOrderStatus('paid', 'fulfilling')).toBe(true);
+    expect(canTransitionOrderStatus('fulfilling', 'shipped')).toBe(true);
+    expect(canTransitionOrderStatus('shipped', 'delivered')).toBe(true);
+  });
+
+  it('should reject skipping or reversing steps', () => {
+    expect(canTransitionOrderStatus('pending', 'shipped')).toBe(false);
+    expect(canTransitionOrderStatus('delivered', 'paid')).toBe(false);
+    expect(canTransitionOrderStatus('shipped', 'cancelled')).toBe(false);
+    expect(canTransitionOrderStatus('pending', 'refunded')).toBe(false);
+  });
+
+  it('should treat cancelled and refunded as terminal', () => {
+    expect(isTerminalOrderStatus('cancelled')).toBe(true);
+    expect(isTerminalOrderStatus('refunded')).toBe(true);
+    expect(isTerminalOrderStatus('paid')).toBe(false);
+  });
+
+  it('should only reference known statuses', () => {
+    for (const status of ORDER_STATUSES) {
+      for (const next of ORDER_STATUS_TRANSITIONS[status]) {
+        expect(isOrderStatus(next)).toBe(true);
+      }
+    }
+    expect(INITIAL_ORDER_STATUSES.every(isOrderStatus)).toBe(true);
+  });
+
+  it('should reject legacy and unknown values', () => {
+    expect(isOrderStatus('completed')).toBe(false);
+    expect(isOrderStatus(undefined)).toBe(false);
+  });
+
+  it('should leave refunds and cancelling paid orders to the refund flow', () => {
+    expect(canSetOrderStatusManually('pending', 'cancelled')).toBe(true);
+    expect(canSetOrderStatusManually('paid', 'cancelled')).toBe(false);
+    expect(canSetOrderStatusManually('fulfilling', 'cancelled')).toBe(false);
+    expect(canSetOrderStatusManually('delivered', 'refunded')).toBe(false);
+    expect(manualOrderStatusTransitions('paid')).toEqual(['fulfilling']);
+  });
+
+  it('should leave shipping to shipments', () => {
+    expect(canSetOrderStatusManually('fulfilling', 'shipped')).toBe(false);
+    expect(canSetOrderStatusManually('shipped', 'delivered')).toBe(true);
+    expect(manualOrderStatusTransitions('fulfilling')).toEqual([]);
+  });
+});
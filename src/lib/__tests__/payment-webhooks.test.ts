@@ -0,0 +1,43 @@
+import { signWebhookPayload, verifyWebhookSignature } from '../payments/webhooks';
+
+const secret = 'whsec_test_secret';
+const payload = JSON.stringify({ id: 'evt_1', type: 'payment_intent.succeeded', data: { object: { id: 'pi_1' } } });
+const now = 1_700_000_000;
+
+describe('payment webhook signatures', () => {
+  it('should accept a payload signed with the same secret', () => {
+    const header = signWebhookPayload(payload, secret, now);
+    expect(header).toMatch(/^t=1700000000,v1=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature(payload, header, secret, 300, now)).toEqual({ valid: true });
+  });
+
+  it('should reject a tampered payload', () => {
+    const header = signWebhookPayload(payload, secret, now);
+    const result = verifyWebhookSignature(payload.replace('pi_1', 'pi_2'), header, secret, 300, now);
+    expect(result).toEqual({ valid: false, reason: 'signature_mismatch' });
+  });
+
+  it('should reject a different secret', () => {
+    const header = signWebhookPayload(payload, 'whsec_other', now);
+    expect(verifyWebhookSignature(payload, header, secret, 300, now).valid).toBe(false);
+  });
+
+  it('should reject stale timestamps', () => {
+    const header = signWebhookPayload(payload, secret, now - 301);
+    expect(verifyWebhookSignature(payload, header, secret, 300, now)).toEqual({
+      valid: false,
+      reason: 'timestamp_out_of_tolerance',
+    });
+  });
+
+  it('should accept any matching v1 entry', () => {
+    const valid = signWebhookPayload(payload, secret, now).split(',')[1];
+    const header = `t=${now},v1=${'0'.repeat(64)},${valid}`;
+    expect(verifyWebhookSignature(payload, header, secret, 300, now).valid).toBe(true);
+  });
+
+  it('should report missing and malformed headers', () => {
+    expect(verifyWebhookSignature(payload, null, secret)).toEqual({ valid: false, reason: 'missing_header' });
+    expect(verifyWebhookSignature(payload, 'v1=abc', secret)).toEqual({ valid: false, reason: 'malformed_header' });
+  });
+});
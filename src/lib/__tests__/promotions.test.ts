@@ -0,0 +1,151 @@
+import {
+  applyPromotion,
+  checkPromotionAvailability,
+  normalizePromotionCode,
+  parsePromotionInput,
+  type PromotionTerms,
+} from '../promotion-rules';
+
+const terms = (overrides: Partial<PromotionTerms> = {}): PromotionTerms => ({
+  type: 'percentage',
+  value: '10.00',
+  minSubtotal: null,
+  productIds: null,
+  startsAt: null,
+  endsAt: null,
+  usageLimit: null,
+  usageCount: 0,
+  perCustomerLimit: null,
+  isActive: true,
+  ...overrides,
+});
+
+const lines = [
+  { productId: 1, variantId: 11, lineTotalCents: 5998 },
+  { productId: 2, variantId: 22, lineTotalCents: 1499 },
+];
+
+describe('promotion rules', () => {
+  describe('applyPromotion', () => {
+    it('should take a percentage off each line', () => {
+      expect(applyPromotion(terms(), lines)).toEqual({
+        ok: true,
+        discountCents: 750,
+        lines: [{ productId: 1, variantId: 11, discountCents: 600 }, { productId: 2, variantId: 22, discountCents: 150 }],
+        freeShipping: false,
+      });
+    });
+
+    it('should spread a fixed amount over the lines to the cent', () => {
+      const result = applyPromotion(terms({ type: 'fixed', value: '10.00' }), lines);
+
+      expect(result).toMatchObject({ ok: true, discountCents: 1000 });
+      expect(result.ok && result.lines.reduce((sum, line) => sum + line.discountCents, 0)).toBe(1000);
+    });
+
+    it('should never take more than the eligible lines are worth', () => {
+      const result = applyPromotion(terms({ type: 'fixed', value: '25.00', productIds: [2] }), lines);
+
+      expect(result).toEqual({
+        ok: true,
+        discountCents: 1499,
+        lines: [{ productId: 2, variantId: 22, discountCents: 1499 }],
+        freeShipping: false,
+      });
+    });
+
+    it('should only discount the products a code is restricted to', () => {
+      expect(applyPromotion(terms({ productIds: [2] }), lines)).toMatchObject({
+        discountCents: 150,
+        lines: [{ productId: 2, variantId: 22, discountCents: 150 }],
+      });
+      expect(applyPromotion(terms({ productIds: [3] }), lines)).toEqual({ ok: false, reason: 'no_eligible_items' });
+    });
+
+    it('should check the minimum against the whole cart', () => {
+      expect(applyPromotion(terms({ minSubtotal: '80.00' }), lines))
+        .toEqual({ ok: false, reason: 'below_minimum', minSubtotalCents: 8000 });
+      expect(applyPromotion(terms({ minSubtotal: '70.00', productIds: [2] }), lines).ok).toBe(true);
+    });
+
+    it('should flag free shipping without discounting items', () => {
+      expect(applyPromotion(terms({ type: 'free_shipping', value: '0' }), lines)).toMatchObject({
+        ok: true,
+        discountCents: 0,
+        freeShipping: true,
+      });
+    });
+  });
+
+  describe('checkPromotionAvailability', () => {
+    const now = new Date('2025-06-15T12:00:00Z');
+
+    it('should allow an active promotion inside its window', () => {
+      const window = { startsAt: new Date('2025-06-01'), endsAt: new Date('2025-07-01') };
+      expect(checkPromotionAvailability(terms(window), 0, now)).toBeNull();
+    });
+
+    it('should say why a promotion cannot be used', () => {
+      expect(checkPromotionAvailability(terms({ isActive: false }), 0, now)).toBe('inactive');
+      expect(checkPromotionAvailability(terms({ startsAt: new Date('2025-07-01') }), 0, now)).toBe('not_started');
+      expect(checkPromotionAvailability(terms({ endsAt: new Date('2025-06-15T12:00:00Z') }), 0, now)).toBe('expired');
+      expect(checkPromotionAvailability(terms({ usageLimit: 5, usageCount: 5 }), 0, now)).toBe('usage_limit_reached');
+      expect(checkPromotionAvailability(terms({ perCustomerLimit: 1 }), 1, now)).toBe('customer_limit_reached');
+    });
+  });
+
+  describe('parsePromotionInput', () => {
+    it('should normalize a new promotion', () => {
+      const result = parsePromotionInput({
+        code: ' spring10 ',
+        type: 'percentage',
+        value: 10,
+        minSubtotal: '50',
+        productIds: [1, 1, 2],
+        endsAt: '2025-07-01T00:00:00Z',
+        perCustomerLimit: 1,
+      });
+
+      expect(result).toEqual({
+        ok: true,
+        promotion: {
+          code: 'SPRING10',
+          description: null,
+          type: 'percentage',
+          value: '10.00',
+          minSubtotal: '50.00',
+          productIds: [1, 2],
+          startsAt: null,
+          endsAt: new Date('2025-07-01T00:00:00Z'),
+          usageLimit: null,
+          perCustomerLimit: 1,
+          isActive: true,
+        },
+      });
+    });
+
+    it('should report every invalid field', () => {
+      const result = parsePromotionInput({ code: 'x', type: 'bogo', usageLimit: 0, productIds: [] });
+
+      expect(result.ok).toBe(false);
+      expect(!result.ok && Object.keys(result.errors).sort()).toEqual(['code', 'productIds', 'type', 'usageLimit', 'value']);
+    });
+
+    it('should reject percentages over 100', () => {
+      const result = parsePromotionInput({ code: 'ALL', type: 'percentage', value: 150 });
+      expect(!result.ok && result.errors.value).toBeDefined();
+    });
+
+    it('should keep current values for fields left out of an update', () => {
+      const existing = parsePromotionInput({ code: 'SPRING10', type: 'fixed', value: '5', usageLimit: 100 });
+      if (!existing.ok) throw new Error('fixture should parse');
+
+      const result = parsePromotionInput({ isActive: false }, existing.promotion);
+      expect(result).toEqual({ ok: true, promotion: { ...existing.promotion, isActive: false } });
+    });
+  });
+
+  it('should match codes case-insensitively', () => {
+    expect(normalizePromotionCode('  Spring10 ')).toBe('SPRING10');
+  });
+});
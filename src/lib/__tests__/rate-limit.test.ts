@@ -0,0 +1,27 @@
+import type { NextRequest } from 'next/server';
+import { getClientIp } from '../rate-limit';
+
+jest.mock('@/lib/db', () => ({ db: {} }));
+
+function requestWith(headers: Record<string, string>): NextRequest {
+  return { headers: new Map(Object.entries(headers)) } as unknown as NextRequest;
+}
+
+describe('getClientIp', () => {
+  it('should prefer the address set by the platform', () => {
+    expect(getClientIp(requestWith({
+      'x-vercel-forwarded-for': '203.0.113.7',
+      'x-forwarded-for': '198.51.100.1, 203.0.113.7',
+    }))).toBe('203.0.113.7');
+    expect(getClientIp(requestWith({ 'x-real-ip': '203.0.113.8' }))).toBe('203.0.113.8');
+  });
+
+  it('should ignore forwarded entries the client made up', () => {
+    expect(getClientIp(requestWith({ 'x-forwarded-for': '10.0.0.1, 198.51.100.2, 203.0.113.9' }))).toBe('203.0.113.9');
+  });
+
+  it('should fall back when there is nothing to go on', () => {
+    expect(getClientIp(requestWith({}))).toBe('unknown');
+    expect(getClientIp(requestWith({ 'x-forwarded-for': ' , ' }))).toBe('unknown');
+  });
+});
@@ -0,0 +1,129 @@
+import { planProviderRefund, planRefund, type RefundableLine } from '../refunds';
+
+jest.mock('@/lib/db', () => ({ db: {} }));
+
+const lines: RefundableLine[] = [
+  { orderItemId: 1, productId: 10, unitPriceCents: 2999, quantity: 2, refundedQuantity: 0 },
+  { orderItemId: 2, productId: 11, unitPriceCents: 1500, quantity: 3, refundedQuantity: 1 },
+];
+
+describe('planRefund', () => {
+  it('should refund everything left on the order when no items are given', () => {
+    const plan = planRefund(lines, undefined, 10498, 1500);
+
+    expect(plan).toEqual({
+      ok: true,
+      amountCents: 8998,
+      fullyRefunded: true,
+      lines: [
+        { orderItemId: 1, productId: 10, quantity: 2, amountCents: 5998 },
+        { orderItemId: 2, productId: 11, quantity: 2, amountCents: 3000 },
+      ],
+    });
+  });
+
+  it('should price partial refunds at the purchase price', () => {
+    const plan = planRefund(lines, [{ orderItemId: 1, quantity: 1 }], 10498, 1500);
+
+    expect(plan).toMatchObject({ ok: true, amountCents: 2999, fullyRefunded: false });
+  });
+
+  it('should take each unit\'s share of the line discount off partial refunds', () => {
+    // 3 × $10.00 with $1.00 off the line, $29.00 paid
+    const discounted: RefundableLine[] = [
+      { orderItemId: 1, productId: 10, unitPriceCents: 1000, quantity: 3, refundedQuantity: 0, discountCents: 100 },
+    ];
+
+    const first = planRefund(discounted, [{ orderItemId: 1, quantity: 1 }], 2900, 0);
+    expect(first).toMatchObject({ ok: true, amountCents: 967, fullyRefunded: false });
+
+    const rest = planRefund(
+      [{ ...discounted[0], refundedQuantity: 1 }],
+      [{ orderItemId: 1, quantity: 2 }],
+      2900,
+      967
+    );
+    expect(rest).toMatchObject({ ok: true, amountCents: 1933, fullyRefunded: true });
+  });
+
+  it('should give back each unit\'s share of the line tax', () => {
+    // 3 × $10.00 with $2.18 tax on the line, $32.18 paid
+    const taxed: RefundableLine[] = [
+      { orderItemId: 1, productId: 10, unitPriceCents: 1000, quantity: 3, refundedQuantity: 0, taxCents: 218 },
+    ];
+
+    const first = planRefund(taxed, [{ orderItemId: 1, quantity: 1 }], 3218, 0);
+    expect(first).toMatchObject({ ok: true, amountCents: 1073 });
+
+    const rest = planRefund([{ ...taxed[0], refundedQuantity: 1 }], [{ orderItemId: 1, quantity: 2 }], 3218, 1073);
+    expect(rest).toMatchObject({ ok: true, amountCents: 2145, fullyRefunded: true });
+  });
+
+  it('should mark the order fully refunded once the last units are refunded', () => {
+    const plan = planRefund(
+      lines,
+      [{ orderItemId: 1, quantity: 2 }, { orderItemId: 2, quantity: 2 }],
+      10498,
+      1500
+    );
+
+    expect(plan).toMatchObject({ ok: true, amountCents: 8998, fullyRefunded: true });
+  });
+
+  it('should reject quantities beyond what is left on a line', () => {
+    const plan = planRefund(
+      lines,
+      [{ orderItemId: 2, quantity: 1 }, { orderItemId: 2, quantity: 2 }],
+      10498,
+      1500
+    );
+
+    expect(plan).toEqual({
+      ok: false,
+      reason: 'invalid_items',
+      issues: [{ orderItemId: 2, requested: 3, refundable: 2 }],
+    });
+  });
+
+  it('should reject unknown lines and non-positive quantities', () => {
+    const plan = planRefund(
+      lines,
+      [{ orderItemId: 99, quantity: 1 }, { orderItemId: 1, quantity: 0 }],
+      10498,
+      0
+    );
+
+    expect(plan.ok).toBe(false);
+    expect(plan.ok === false && plan.reason === 'invalid_items' && plan.issues).toHaveLength(2);
+  });
+
+  it('should refuse when nothing is left to refund', () => {
+    expect(planRefund(lines, undefined, 10498, 10498)).toEqual({ ok: false, reason: 'nothing_to_refund' });
+  });
+
+  it('should not refund more than the order total', () => {
+    const plan = planRefund(lines, [{ orderItemId: 1, quantity: 2 }], 5000, 0);
+
+    expect(plan).toEqual({ ok: false, reason: 'amount_exceeded', amountCents: 5998, refundableCents: 5000 });
+  });
+});
+
+describe('planProviderRefund', () => {
+  it('should take the remaining items with a refund of what is left', () => {
+    expect(planProviderRefund(lines, 10498, 1500, 10498)).toEqual(planRefund(lines, undefined, 10498, 1500));
+  });
+
+  it('should book only the amount of a partial refund', () => {
+    expect(planProviderRefund(lines, 10498, 1500, 4500)).toEqual({
+      ok: true,
+      lines: [],
+      amountCents: 3000,
+      fullyRefunded: false,
+    });
+  });
+
+  it('should skip refunds that are already booked', () => {
+    expect(planProviderRefund(lines, 10498, 1500, 1500)).toEqual({ ok: false, reason: 'nothing_to_refund' });
+    expect(planProviderRefund(lines, 10498, 10498, 10498)).toEqual({ ok: false, reason: 'nothing_to_refund' });
+  });
+});
@@ -0,0 +1,54 @@
+import { planShipment, trackingUrl, type ShippableLine } from '../shipment-rules';
+
+const lines: ShippableLine[] = [
+  { orderItemId: 1, quantity: 3, shippedQuantity: 1, refundedQuantity: 0 },
+  { orderItemId: 2, quantity: 2, shippedQuantity: 0, refundedQuantity: 2 },
+  { orderItemId: 3, quantity: 1, shippedQuantity: 0, refundedQuantity: 0 },
+];
+
+describe('shipment rules', () => {
+  it('should ship every remaining unit when no items are given', () => {
+    expect(planShipment(lines)).toEqual({
+      ok: true,
+      lines: [
+        { orderItemId: 1, quantity: 2 },
+        { orderItemId: 3, quantity: 1 },
+      ],
+    });
+  });
+
+  it('should split a line across shipments', () => {
+    expect(planShipment(lines, [{ orderItemId: 1, quantity: 1 }, { orderItemId: 1, quantity: 1 }])).toEqual({
+      ok: true,
+      lines: [{ orderItemId: 1, quantity: 2 }],
+    });
+  });
+
+  it('should reject refunded, unknown and excess quantities', () => {
+    expect(planShipment(lines, [
+      { orderItemId: 1, quantity: 3 },
+      { orderItemId: 2, quantity: 1 },
+      { orderItemId: 9, quantity: 1 },
+      { orderItemId: 3, quantity: 1 },
+    ])).toEqual({
+      ok: false,
+      reason: 'invalid_items',
+      issues: [
+        { orderItemId: 1, requested: 3, shippable: 2 },
+        { orderItemId: 2, requested: 1, shippable: 0 },
+        { orderItemId: 9, requested: 1, shippable: 0 },
+      ],
+    });
+  });
+
+  it('should report when everything is already packed', () => {
+    const packed = lines.map(line => ({ ...line, shippedQuantity: line.quantity - line.refundedQuantity }));
+    expect(planShipment(packed)).toEqual({ ok: false, reason: 'nothing_to_ship' });
+  });
+
+  it('should link tracking numbers for known carriers only', () => {
+    expect(trackingUrl('ups', ' 1Z 999 ')).toBe('https://www.ups.com/track?tracknum=1Z%20999');
+    expect(trackingUrl('other', '12345')).toBeNull();
+    expect(trackingUrl('usps', '')).toBeNull();
+  });
+});
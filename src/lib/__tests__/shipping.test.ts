@@ -0,0 +1,46 @@
+import { COUNTRY_ADDRESS_FORMATS } from '../address-formats';
+import { findShippingZone, quoteShippingOptions, SHIPPING_ZONES, type ShippingBasis } from '../shipping-rates';
+
+const basis: ShippingBasis = { weightGrams: 1200, subtotalCents: 2000, freeShippingCode: false };
+
+describe('shipping rates', () => {
+  it('should put every country shoppers can pick in exactly one zone', () => {
+    for (const format of COUNTRY_ADDRESS_FORMATS) {
+      const zones = SHIPPING_ZONES.filter(zone => zone.countries.includes(format.code));
+      expect([format.code, zones.length]).toEqual([format.code, 1]);
+    }
+  });
+
+  it('should match countries in any case', () => {
+    expect(findShippingZone('ca')?.id).toBe('north_america');
+  });
+
+  it('should charge weight-based methods for every started kilogram', () => {
+    expect(quoteShippingOptions('US', basis)).toEqual([
+      { method: 'standard', name: 'Standard', delivery: '3-5 business days', costCents: 599, regularCostCents: 599 },
+      { method: 'express', name: 'Express', delivery: '1-2 business days', costCents: 2099, regularCostCents: 2099 },
+    ]);
+  });
+
+  it('should make standard shipping free over the zone threshold', () => {
+    const options = quoteShippingOptions('GB', { ...basis, subtotalCents: 15000 });
+
+    expect(options.map(option => [option.method, option.costCents, option.regularCostCents])).toEqual([
+      ['standard', 0, 2499],
+      ['express', 5999, 5999],
+    ]);
+  });
+
+  it('should waive only standard shipping for free-shipping codes', () => {
+    const options = quoteShippingOptions('MX', { ...basis, freeShippingCode: true });
+
+    expect(options.map(option => [option.method, option.costCents])).toEqual([
+      ['standard', 0],
+      ['express', 3699],
+    ]);
+  });
+
+  it('should offer nothing where we don\'t ship', () => {
+    expect(quoteShippingOptions('ZZ', basis)).toEqual([]);
+  });
+});
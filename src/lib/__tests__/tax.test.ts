@@ -0,0 +1,61 @@
+import { calculateTax, findTaxRate, type TaxableLine } from '../tax-rates';
+
+const lines: TaxableLine[] = [
+  { productId: 1, variantId: 11, category: 'standard', taxableCents: 5998 },
+  { productId: 2, variantId: 22, category: 'food', taxableCents: 1499 },
+  { productId: 3, variantId: 33, category: 'exempt', taxableCents: 1000 },
+];
+
+describe('tax rates', () => {
+  describe('findTaxRate', () => {
+    it('should prefer a city rate over the state rate', () => {
+      expect(findTaxRate({ country: 'US', region: 'NY', postalCode: '10001' })?.name).toBe('New York City sales tax');
+      expect(findTaxRate({ country: 'US', region: 'NY', postalCode: '14604' })?.name).toBe('NY sales tax');
+    });
+
+    it('should match regions typed by name and any case', () => {
+      expect(findTaxRate({ country: 'ca', region: 'British Columbia', postalCode: 'V6B 1A1' })?.rates.standard).toBe(12);
+    });
+
+    it('should fall back to a country-wide rate', () => {
+      expect(findTaxRate({ country: 'GB', region: 'Kent', postalCode: 'CT1 1AA' })?.name).toBe('VAT');
+    });
+
+    it('should find nothing where we charge no tax', () => {
+      expect(findTaxRate({ country: 'US', region: 'OR', postalCode: '97201' })).toBeNull();
+      expect(findTaxRate({ country: 'BR', region: 'SP', postalCode: '01310-100' })).toBeNull();
+    });
+  });
+
+  describe('calculateTax', () => {
+    it('should tax each line at the rate for its category', () => {
+      expect(calculateTax({ country: 'US', region: 'TN', postalCode: '37201' }, lines)).toEqual({
+        taxCents: 480,
+        name: 'TN sales tax',
+        lines: [
+          { productId: 1, variantId: 11, ratePercent: 7, taxCents: 420 },
+          { productId: 2, variantId: 22, ratePercent: 4, taxCents: 60 },
+          { productId: 3, variantId: 33, ratePercent: 0, taxCents: 0 },
+        ],
+      });
+    });
+
+    it('should use the standard rate for food where there is no food rate', () => {
+      const result = calculateTax({ country: 'NZ', postalCode: '6011' }, lines);
+      expect(result.lines.map(line => line.taxCents)).toEqual([900, 225, 0]);
+    });
+
+    it('should round rates with fractions of a percent to the cent', () => {
+      const result = calculateTax({ country: 'CA', region: 'QC', postalCode: 'H2X 1Y4' }, [lines[0]]);
+      // 59.98 × 14.975% = 8.982005
+      expect(result.taxCents).toBe(898);
+    });
+
+    it('should charge nothing where no rate applies', () => {
+      expect(calculateTax({ country: 'US', region: 'DE', postalCode: '19801' }, lines)).toMatchObject({
+        taxCents: 0,
+        name: null,
+      });
+    });
+  });
+});
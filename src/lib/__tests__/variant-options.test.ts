@@ -0,0 +1,67 @@
+import { defaultVariantSku, findVariant, optionValues, parseVariantInput, productOptions, variantDisplayName } from '../variant-options';
+
+const variants = [
+  { id: 1, options: { flavor: 'Vanilla', size: '1 lb' } },
+  { id: 2, options: { flavor: 'Vanilla', size: '2 lb' } },
+  { id: 3, options: { flavor: 'Chocolate', size: '1 lb' } },
+  { id: 4, options: { flavor: 'Chocolate', size: '2 lb' }, is_active: false },
+];
+
+describe('variant options', () => {
+  it('should list the options variants differ in and their values', () => {
+    expect(productOptions(variants)).toEqual(['flavor', 'size']);
+    expect(optionValues(variants, 'flavor')).toEqual(['Vanilla', 'Chocolate']);
+    expect(productOptions([{ id: 9, options: {} }])).toEqual([]);
+  });
+
+  it('should find the active variant for a selection', () => {
+    expect(findVariant(variants, { flavor: 'Chocolate', size: '1 lb' })?.id).toBe(3);
+    expect(findVariant(variants, { flavor: 'Chocolate', size: '2 lb' })).toBeUndefined();
+    expect(findVariant([{ id: 9, options: {} }], {})?.id).toBe(9);
+  });
+
+  it('should name variants after their product', () => {
+    expect(variantDisplayName('EggyPro', { size: '2 lb', flavor: 'Vanilla' })).toBe('EggyPro (Vanilla / 2 lb)');
+    expect(variantDisplayName('EggyPro', {})).toBe('EggyPro');
+  });
+
+  it('should normalize SKUs and reject bad input', () => {
+    const parsed = parseVariantInput({ sku: ' eggypro-van-2lb ', options: { flavor: 'Vanilla' }, price: '32.5' });
+    expect(parsed).toEqual({
+      ok: true,
+      variant: expect.objectContaining({ sku: 'EGGYPRO-VAN-2LB', options: { flavor: 'Vanilla' }, price: '32.50', stockQuantity: 0 }),
+    });
+
+    const invalid = parseVariantInput({ sku: 'no spaces', options: { color: 'Red' }, price: 0, stockQuantity: -1 });
+    expect(invalid.ok).toBe(false);
+    if (!invalid.ok) {
+      expect(Object.keys(invalid.errors).sort()).toEqual(['options', 'price', 'sku', 'stockQuantity']);
+    }
+  });
+
+  it('should number the default SKU when the slug is already taken', () => {
+    expect(defaultVariantSku('eggypro-classic', new Set())).toBe('EGGYPRO-CLASSIC');
+    expect(defaultVariantSku('eggypro-classic', new Set(['EGGYPRO-CLASSIC', 'EGGYPRO-CLASSIC-2']))).toBe('EGGYPRO-CLASSIC-3');
+
+    const long = 'a'.repeat(70);
+    const sku = defaultVariantSku(long, new Set(['A'.repeat(64)]));
+    expect(sku).toBe(`${'A'.repeat(62)}-2`);
+    expect(sku).toHaveLength(64);
+  });
+
+  it('should keep existing values for fields left out of an update', () => {
+    const existing = {
+      sku: 'EGGYPRO-VAN-2LB',
+      options: { flavor: 'Vanilla', size: '2 lb' },
+      price: '32.99',
+      stockQuantity: 40,
+      imageUrl: null,
+      sortOrder: 1,
+      isActive: true,
+    };
+    expect(parseVariantInput({ stockQuantity: 12 }, existing)).toEqual({
+      ok: true,
+      variant: { ...existing, stockQuantity: 12 },
+    });
+  });
+});
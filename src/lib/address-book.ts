@@ -0,0 +1,210 @@
+import { and, asc, desc, eq, ne } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { customerAddresses, customers } from '@/lib/db/schema';
+import type { DbExecutor } from '@/lib/inventory';
+import { isSameAddress, type ShippingAddress } from '@/lib/addresses';
+
+export const MAX_SAVED_ADDRESSES = 20;
+
+export interface SavedAddress extends ShippingAddress {
+  id: number;
+  isDefault: boolean;
+}
+
+export type SaveAddressResult =
+  | { ok: true; address: SavedAddress }
+  | { ok: false; reason: 'not_found' | 'limit_reached' };
+
+type AddressRow = typeof customerAddresses.$inferSelect;
+
+function toSavedAddress(row: AddressRow): SavedAddress {
+  return {
+    id: row.id,
+    isDefault: row.is_default,
+    fullName: row.full_name,
+    line1: row.line1,
+    line2: row.line2 || undefined,
+    city: row.city,
+    region: row.region || undefined,
+    postalCode: row.postal_code,
+    country: row.country,
+    phone: row.phone || undefined,
+  };
+}
+
+function addressColumns(address: ShippingAddress) {
+  return {
+    full_name: address.fullName,
+    line1: address.line1,
+    line2: address.line2 || null,
+    city: address.city,
+    region: address.region || null,
+    postal_code: address.postalCode,
+    country: address.country,
+    phone: address.phone || null,
+  };
+}
+
+// Address book writes for one customer queue up behind this lock, so the
+// "exactly one default" bookkeeping never races
+async function lockCustomer(tx: DbExecutor, customerId: number): Promise<void> {
+  await tx.select({ id: customers.id }).from(customers).where(eq(customers.id, customerId)).for('update');
+}
+
+async function clearDefault(tx: DbExecutor, customerId: number): Promise<void> {
+  await tx
+    .update(customerAddresses)
+    .set({ is_default: false, updated_at: new Date() })
+    .where(and(eq(customerAddresses.customer_id, customerId), eq(customerAddresses.is_default, true)));
+}
+
+function listAddressRows(executor: DbExecutor, customerId: number) {
+  return executor
+    .select()
+    .from(customerAddresses)
+    .where(eq(customerAddresses.customer_id, customerId))
+    .orderBy(desc(customerAddresses.is_default), asc(customerAddresses.created_at), asc(customerAddresses.id));
+}
+
+/**
+ * The customer's saved addresses, default first
+ */
+export async function listCustomerAddresses(customerId: number): Promise<SavedAddress[]> {
+  const rows = await listAddressRows(db, customerId);
+  return rows.map(toSavedAddress);
+}
+
+/**
+ * Adds an address to the book. The first one saved becomes the default.
+ */
+export async function createCustomerAddress(
+  customerId: number,
+  address: ShippingAddress,
+  options: { makeDefault?: boolean } = {}
+): Promise<SaveAddressResult> {
+  return db.transaction(async (tx) => {
+    await lockCustomer(tx, customerId);
+
+    const existing = await listAddressRows(tx, customerId);
+    if (existing.length >= MAX_SAVED_ADDRESSES) {
+      return { ok: false, reason: 'limit_reached' };
+    }
+
+    const isDefault = existing.length === 0 || Boolean(options.makeDefault);
+    if (isDefault) {
+      await clearDefault(tx, customerId);
+    }
+
+    const [row] = await tx
+      .insert(customerAddresses)
+      .values({ customer_id: customerId, ...addressColumns(address), is_default: isDefault })
+      .returning();
+
+    return { ok: true, address: toSavedAddress(row) };
+  });
+}
+
+export async function updateCustomerAddress(
+  customerId: number,
+  addressId: number,
+  address: ShippingAddress,
+  options: { makeDefault?: boolean } = {}
+): Promise<SaveAddressResult> {
+  return db.transaction(async (tx) => {
+    await lockCustomer(tx, customerId);
+
+    if (options.makeDefault) {
+      const [target] = await tx
+        .select({ id: customerAddresses.id })
+        .from(customerAddresses)
+        .where(and(eq(customerAddresses.id, addressId), eq(customerAddresses.customer_id, customerId)));
+      if (!target) {
+        return { ok: false, reason: 'not_found' };
+      }
+      await clearDefault(tx, customerId);
+    }
+
+    const [row] = await tx
+      .update(customerAddresses)
+      .set({
+        ...addressColumns(address),
+        ...(options.makeDefault ? { is_default: true } : {}),
+        updated_at: new Date(),
+      })
+      .where(and(eq(customerAddresses.id, addressId), eq(customerAddresses.customer_id, customerId)))
+      .returning();
+
+    return row ? { ok: true, address: toSavedAddress(row) } : { ok: false, reason: 'not_found' };
+  });
+}
+
+/**
+ * Removes an address. When it was the default, the oldest remaining address
+ * takes over.
+ */
+export async function deleteCustomerAddress(customerId: number, addressId: number): Promise<boolean> {
+  return db.transaction(async (tx) => {
+    await lockCustomer(tx, customerId);
+
+    const [removed] = await tx
+      .delete(customerAddresses)
+      .where(and(eq(customerAddresses.id, addressId), eq(customerAddresses.customer_id, customerId)))
+      .returning();
+
+    if (!removed) {
+      return false;
+    }
+
+    if (removed.is_default) {
+      const [next] = await listAddressRows(tx, customerId).limit(1);
+      if (next) {
+        await tx
+          .update(customerAddresses)
+          .set({ is_default: true, updated_at: new Date() })
+          .where(eq(customerAddresses.id, next.id));
+      }
+    }
+
+    return true;
+  });
+}
+
+export async function setDefaultCustomerAddress(customerId: number, addressId: number): Promise<boolean> {
+  return db.transaction(async (tx) => {
+    await lockCustomer(tx, customerId);
+
+    const [target] = await tx
+      .select({ id: customerAddresses.id })
+      .from(customerAddresses)
+      .where(and(eq(customerAddresses.id, addressId), eq(customerAddresses.customer_id, customerId)));
+    if (!target) {
+      return false;
+    }
+
+    await tx
+      .update(customerAddresses)
+      .set({ is_default: false, updated_at: new Date() })
+      .where(and(
+        eq(customerAddresses.customer_id, customerId),
+        eq(customerAddresses.is_default, true),
+        ne(customerAddresses.id, addressId)
+      ));
+    await tx
+      .update(customerAddresses)
+      .set({ is_default: true, updated_at: new Date() })
+      .where(eq(customerAddresses.id, addressId));
+
+    return true;
+  });
+}
+
+/**
+ * Saves a checkout's shipping address unless the book already has it
+ */
+export async function saveAddressFromCheckout(customerId: number, address: ShippingAddress): Promise<void> {
+  const existing = await listCustomerAddresses(customerId);
+  if (existing.some(saved => isSameAddress(saved, address))) {
+    return;
+  }
+  await createCustomerAddress(customerId, address);
+}
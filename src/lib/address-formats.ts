@@ -0,0 +1,157 @@
+// How addresses are written in each country we ship to: which fields are
+// required, what a postal code looks like and, where there is a fixed list,
+// the states or provinces. Checkout, the address book and confirm-payment all
+// validate against these rules.
+
+export interface AddressRegion {
+  code: string;
+  name: string;
+}
+
+export interface CountryAddressFormat {
+  code: string; // ISO 3166-1 alpha-2
+  name: string;
+  postalCodeLabel: string;
+  // Null where the country has no postal codes we can check
+  postalCodePattern: RegExp | null;
+  postalCodeExample: string;
+  postalCodeRequired: boolean;
+  regionLabel: string;
+  regionRequired: boolean;
+  // When present, the region must be one of these and is stored by its code
+  regions?: AddressRegion[];
+}
+
+const US_STATES: AddressRegion[] = [
+  ['AL', 'Alabama'], ['AK', 'Alaska'], ['AZ', 'Arizona'], ['AR', 'Arkansas'], ['CA', 'California'],
+  ['CO', 'Colorado'], ['CT', 'Connecticut'], ['DE', 'Delaware'], ['DC', 'District of Columbia'],
+  ['FL', 'Florida'], ['GA', 'Georgia'], ['HI', 'Hawaii'], ['ID', 'Idaho'], ['IL', 'Illinois'],
+  ['IN', 'Indiana'], ['IA', 'Iowa'], ['KS', 'Kansas'], ['KY', 'Kentucky'], ['LA', 'Louisiana'],
+  ['ME', 'Maine'], ['MD', 'Maryland'], ['MA', 'Massachusetts'], ['MI', 'Michigan'], ['MN', 'Minnesota'],
+  ['MS', 'Mississippi'], ['MO', 'Missouri'], ['MT', 'Montana'], ['NE', 'Nebraska'], ['NV', 'Nevada'],
+  ['NH', 'New Hampshire'], ['NJ', 'New Jersey'], ['NM', 'New Mexico'], ['NY', 'New York'],
+  ['NC', 'North Carolina'], ['ND', 'North Dakota'], ['OH', 'Ohio'], ['OK', 'Oklahoma'], ['OR', 'Oregon'],
+  ['PA', 'Pennsylvania'], ['RI', 'Rhode Island'], ['SC', 'South Carolina'], ['SD', 'South Dakota'],
+  ['TN', 'Tennessee'], ['TX', 'Texas'], ['UT', 'Utah'], ['VT', 'Vermont'], ['VA', 'Virginia'],
+  ['WA', 'Washington'], ['WV', 'West Virginia'], ['WI', 'Wisconsin'], ['WY', 'Wyoming'],
+  ['PR', 'Puerto Rico'],
+].map(([code, name]) => ({ code, name }));
+
+const CA_PROVINCES: AddressRegion[] = [
+  ['AB', 'Alberta'], ['BC', 'British Columbia'], ['MB', 'Manitoba'], ['NB', 'New Brunswick'],
+  ['NL', 'Newfoundland and Labrador'], ['NS', 'Nova Scotia'], ['NT', 'Northwest Territories'],
+  ['NU', 'Nunavut'], ['ON', 'Ontario'], ['PE', 'Prince Edward Island'], ['QC', 'Quebec'],
+  ['SK', 'Saskatchewan'], ['YT', 'Yukon'],
+].map(([code, name]) => ({ code, name }));
+
+const AU_STATES: AddressRegion[] = [
+  ['ACT', 'Australian Capital Territory'], ['NSW', 'New South Wales'], ['NT', 'Northern Territory'],
+  ['QLD', 'Queensland'], ['SA', 'South Australia'], ['TAS', 'Tasmania'], ['VIC', 'Victoria'],
+  ['WA', 'Western Australia'],
+].map(([code, name]) => ({ code, name }));
+
+const BR_STATES: AddressRegion[] = [
+  ['AC', 'Acre'], ['AL', 'Alagoas'], ['AP', 'Amapá'], ['AM', 'Amazonas'], ['BA', 'Bahia'],
+  ['CE', 'Ceará'], ['DF', 'Distrito Federal'], ['ES', 'Espírito Santo'], ['GO', 'Goiás'],
+  ['MA', 'Maranhão'], ['MT', 'Mato Grosso'], ['MS', 'Mato Grosso do Sul'], ['MG', 'Minas Gerais'],
+  ['PA', 'Pará'], ['PB', 'Paraíba'], ['PR', 'Paraná'], ['PE', 'Pernambuco'], ['PI', 'Piauí'],
+  ['RJ', 'Rio de Janeiro'], ['RN', 'Rio Grande do Norte'], ['RS', 'Rio Grande do Sul'],
+  ['RO', 'Rondônia'], ['RR', 'Roraima'], ['SC', 'Santa Catarina'], ['SP', 'São Paulo'],
+  ['SE', 'Sergipe'], ['TO', 'Tocantins'],
+].map(([code, name]) => ({ code, name }));
+
+// Countries without states in their postal addresses
+const noRegion = { regionLabel: 'Region', regionRequired: false };
+
+export const COUNTRY_ADDRESS_FORMATS: CountryAddressFormat[] = [
+  {
+    code: 'US', name: 'United States',
+    postalCodeLabel: 'ZIP code', postalCodePattern: /^\d{5}(-\d{4})?$/, postalCodeExample: '90210', postalCodeRequired: true,
+    regionLabel: 'State', regionRequired: true, regions: US_STATES,
+  },
+  {
+    code: 'CA', name: 'Canada',
+    postalCodeLabel: 'Postal code', postalCodePattern: /^[A-Z]\d[A-Z] ?\d[A-Z]\d$/, postalCodeExample: 'K1A 0B1', postalCodeRequired: true,
+    regionLabel: 'Province', regionRequired: true, regions: CA_PROVINCES,
+  },
+  {
+    code: 'GB', name: 'United Kingdom',
+    postalCodeLabel: 'Postcode', postalCodePattern: /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/, postalCodeExample: 'SW1A 1AA', postalCodeRequired: true,
+    regionLabel: 'County', regionRequired: false,
+  },
+  {
+    code: 'IE', name: 'Ireland',
+    postalCodeLabel: 'Eircode', postalCodePattern: /^[A-Z]\d[\dW] ?[A-Z\d]{4}$/, postalCodeExample: 'D02 X285', postalCodeRequired: false,
+    regionLabel: 'County', regionRequired: false,
+  },
+  {
+    code: 'AU', name: 'Australia',
+    postalCodeLabel: 'Postcode', postalCodePattern: /^\d{4}$/, postalCodeExample: '2000', postalCodeRequired: true,
+    regionLabel: 'State/territory', regionRequired: true, regions: AU_STATES,
+  },
+  {
+    code: 'NZ', name: 'New Zealand',
+    postalCodeLabel: 'Postcode', postalCodePattern: /^\d{4}$/, postalCodeExample: '6011', postalCodeRequired: true,
+    ...noRegion,
+  },
+  {
+    code: 'DE', name: 'Germany',
+    postalCodeLabel: 'Postleitzahl', postalCodePattern: /^\d{5}$/, postalCodeExample: '10115', postalCodeRequired: true,
+    ...noRegion,
+  },
+  {
+    code: 'FR', name: 'France',
+    postalCodeLabel: 'Code postal', postalCodePattern: /^\d{5}$/, postalCodeExample: '75001', postalCodeRequired: true,
+    ...noRegion,
+  },
+  {
+    code: 'ES', name: 'Spain',
+    postalCodeLabel: 'Código postal', postalCodePattern: /^\d{5}$/, postalCodeExample: '28001', postalCodeRequired: true,
+    regionLabel: 'Province', regionRequired: false,
+  },
+  {
+    code: 'IT', name: 'Italy',
+    postalCodeLabel: 'CAP', postalCodePattern: /^\d{5}$/, postalCodeExample: '00118', postalCodeRequired: true,
+    regionLabel: 'Province', regionRequired: false,
+  },
+  {
+    code: 'NL', name: 'Netherlands',
+    postalCodeLabel: 'Postcode', postalCodePattern: /^\d{4} ?[A-Z]{2}$/, postalCodeExample: '1012 JS', postalCodeRequired: true,
+    ...noRegion,
+  },
+  {
+    code: 'CH', name: 'Switzerland',
+    postalCodeLabel: 'Postleitzahl', postalCodePattern: /^\d{4}$/, postalCodeExample: '8001', postalCodeRequired: true,
+    regionLabel: 'Canton', regionRequired: false,
+  },
+  {
+    code: 'BR', name: 'Brazil',
+    postalCodeLabel: 'CEP', postalCodePattern: /^\d{5}-?\d{3}$/, postalCodeExample: '01310-100', postalCodeRequired: true,
+    regionLabel: 'State', regionRequired: true, regions: BR_STATES,
+  },
+  {
+    code: 'MX', name: 'Mexico',
+    postalCodeLabel: 'Código postal', postalCodePattern: /^\d{5}$/, postalCodeExample: '06000', postalCodeRequired: true,
+    regionLabel: 'State', regionRequired: true,
+  },
+  {
+    code: 'JP', name: 'Japan',
+    postalCodeLabel: 'Postal code', postalCodePattern: /^\d{3}-?\d{4}$/, postalCodeExample: '100-0001', postalCodeRequired: true,
+    regionLabel: 'Prefecture', regionRequired: true,
+  },
+];
+
+export function getCountryAddressFormat(code: string | undefined): CountryAddressFormat | undefined {
+  const normalized = (code ?? '').trim().toUpperCase();
+  return COUNTRY_ADDRESS_FORMATS.find(format => format.code === normalized);
+}
+
+/**
+ * The region code for a code or name from the country's list, ignoring case
+ */
+export function findAddressRegion(format: CountryAddressFormat, value: string): AddressRegion | undefined {
+  const normalized = value.trim().toLowerCase();
+  return format.regions?.find(region =>
+    region.code.toLowerCase() === normalized || region.name.toLowerCase() === normalized
+  );
+}
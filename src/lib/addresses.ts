@@ -0,0 +1,223 @@
+// Shipping addresses as checkout, the address book and orders share them.
+// No database imports, so the checkout form validates with the same rules.
+
+import type { orders } from '@/lib/db/schema';
+import { COUNTRY_ADDRESS_FORMATS, findAddressRegion, getCountryAddressFormat } from '@/lib/address-formats';
+
+export interface ShippingAddress {
+  fullName: string;
+  line1: string;
+  line2?: string;
+  city: string;
+  region?: string; // State, province or county
+  postalCode: string;
+  country: string; // ISO 3166-1 alpha-2
+  phone?: string;
+}
+
+export type ShippingAddressErrors = Partial<Record<keyof ShippingAddress, string>>;
+
+export type ValidatedShippingAddress =
+  | { ok: true; address: ShippingAddress }
+  | { ok: false; errors: ShippingAddressErrors };
+
+export const SHIPPING_COUNTRIES = COUNTRY_ADDRESS_FORMATS.map(({ code, name }) => ({ code, name }));
+
+export const DEFAULT_SHIPPING_COUNTRY = 'US';
+
+export const SHIPPING_ADDRESS_FIELDS: Array<keyof ShippingAddress> = [
+  'fullName',
+  'line1',
+  'line2',
+  'city',
+  'region',
+  'postalCode',
+  'country',
+  'phone',
+];
+
+export function emptyShippingAddress(): ShippingAddress {
+  return {
+    fullName: '',
+    line1: '',
+    line2: '',
+    city: '',
+    region: '',
+    postalCode: '',
+    country: DEFAULT_SHIPPING_COUNTRY,
+    phone: '',
+  };
+}
+
+export function countryName(code: string): string {
+  return getCountryAddressFormat(code)?.name ?? code;
+}
+
+// Letters in any script (accents included), built at runtime because the
+// compile target predates Unicode property escapes in regex literals
+const NAME_PATTERN = new RegExp("^[\\p{L}\\p{M}\\s'’.-]+$", 'u');
+const CITY_PATTERN = new RegExp("^[\\p{L}\\p{M}\\s'’.()-]+$", 'u');
+
+export function normalizePostalCode(value: string): string {
+  return value.trim().replace(/\s+/g, ' ').toUpperCase();
+}
+
+/**
+ * The error message for one field, or undefined when it is valid. The rest of
+ * the address is needed because the country decides the postal code and
+ * region rules.
+ */
+export function validateShippingAddressField(
+  field: keyof ShippingAddress,
+  address: Partial<ShippingAddress>
+): string | undefined {
+  const trimmedValue = (address[field] ?? '').trim();
+  const format = getCountryAddressFormat(address.country);
+
+  switch (field) {
+    case 'fullName':
+      if (!trimmedValue) return 'Please enter your full name';
+      if (trimmedValue.length < 2) return 'Name must be at least 2 characters';
+      if (trimmedValue.length > 50) return 'Name must be less than 50 characters';
+      if (!NAME_PATTERN.test(trimmedValue)) return 'Name can only contain letters, spaces, hyphens, periods, and apostrophes';
+      return undefined;
+
+    case 'line1':
+      if (!trimmedValue) return 'Please enter your address';
+      if (trimmedValue.length < 5) return 'Address must be at least 5 characters';
+      if (trimmedValue.length > 100) return 'Address must be less than 100 characters';
+      return undefined;
+
+    case 'line2':
+      if (trimmedValue.length > 100) return 'Address line 2 must be less than 100 characters';
+      return undefined;
+
+    case 'city':
+      if (!trimmedValue) return 'Please enter your city';
+      if (trimmedValue.length < 2) return 'City must be at least 2 characters';
+      if (trimmedValue.length > 50) return 'City must be less than 50 characters';
+      if (!CITY_PATTERN.test(trimmedValue)) return 'City can only contain letters, spaces, hyphens, apostrophes, and periods';
+      return undefined;
+
+    case 'region': {
+      const label = format?.regionLabel ?? 'State/region';
+      if (!trimmedValue) return format?.regionRequired ? `${label} is required` : undefined;
+      if (trimmedValue.length > 50) return `${label} must be less than 50 characters`;
+      if (format?.regions && !findAddressRegion(format, trimmedValue)) return `Please choose a ${label.toLowerCase()} from the list`;
+      return undefined;
+    }
+
+    case 'postalCode': {
+      const label = format?.postalCodeLabel ?? 'Postal code';
+      if (!trimmedValue) return format?.postalCodeRequired === false ? undefined : `${label} is required`;
+      if (trimmedValue.length > 20) return `${label} must be less than 20 characters`;
+      if (format?.postalCodePattern && !format.postalCodePattern.test(normalizePostalCode(trimmedValue))) {
+        return `${label} should look like ${format.postalCodeExample}`;
+      }
+      return undefined;
+    }
+
+    case 'country':
+      if (!format) return 'We do not ship to this country yet';
+      return undefined;
+
+    case 'phone':
+      if (trimmedValue && !/^\+?[0-9\s().-]{7,20}$/.test(trimmedValue)) return 'Please enter a valid phone number';
+      return undefined;
+
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Validates and trims an address from untrusted input. Optional fields left
+ * blank come back undefined.
+ */
+export function validateShippingAddress(input: unknown): ValidatedShippingAddress {
+  const source = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+  const value = (field: keyof ShippingAddress) =>
+    typeof source[field] === 'string' ? (source[field] as string).trim() : '';
+
+  const trimmed = Object.fromEntries(SHIPPING_ADDRESS_FIELDS.map(field => [field, value(field)])) as Record<keyof ShippingAddress, string>;
+
+  const errors: ShippingAddressErrors = {};
+  SHIPPING_ADDRESS_FIELDS.forEach(field => {
+    const error = validateShippingAddressField(field, trimmed);
+    if (error) {
+      errors[field] = error;
+    }
+  });
+
+  if (Object.keys(errors).length > 0) {
+    return { ok: false, errors };
+  }
+
+  // Regions from a fixed list are stored by code, whichever way they were typed
+  const format = getCountryAddressFormat(trimmed.country);
+  const region = format && trimmed.region ? findAddressRegion(format, trimmed.region)?.code ?? trimmed.region : trimmed.region;
+
+  return {
+    ok: true,
+    address: {
+      fullName: trimmed.fullName,
+      line1: trimmed.line1,
+      line2: trimmed.line2 || undefined,
+      city: trimmed.city,
+      region: region || undefined,
+      postalCode: normalizePostalCode(trimmed.postalCode),
+      country: trimmed.country.toUpperCase(),
+      phone: trimmed.phone || undefined,
+    },
+  };
+}
+
+/**
+ * Whether two addresses are the same place, ignoring case and whitespace
+ */
+export function isSameAddress(a: ShippingAddress, b: ShippingAddress): boolean {
+  const normalize = (value: string | undefined) => (value ?? '').trim().toLowerCase();
+  return SHIPPING_ADDRESS_FIELDS.every(field => normalize(a[field]) === normalize(b[field]));
+}
+
+/**
+ * The address as printed on a label, one line per entry
+ */
+export function formatAddressLines(address: ShippingAddress): string[] {
+  return [
+    address.fullName,
+    address.line1,
+    address.line2,
+    [address.city, [address.region, address.postalCode].filter(Boolean).join(' ')].filter(Boolean).join(', '),
+    countryName(address.country),
+  ].filter((line): line is string => Boolean(line));
+}
+
+/**
+ * The `orders` columns an address is stored in
+ */
+export function shippingAddressColumns(address: ShippingAddress) {
+  return {
+    customer_name: address.fullName,
+    shipping_line1: address.line1,
+    shipping_line2: address.line2 || null,
+    shipping_city: address.city,
+    shipping_region: address.region || null,
+    shipping_postal_code: address.postalCode,
+    shipping_country: address.country,
+    shipping_phone: address.phone || null,
+  };
+}
+
+export function shippingAddressFromOrder(order: typeof orders.$inferSelect): ShippingAddress {
+  return {
+    fullName: order.customer_name,
+    line1: order.shipping_line1,
+    line2: order.shipping_line2 || undefined,
+    city: order.shipping_city,
+    region: order.shipping_region || undefined,
+    postalCode: order.shipping_postal_code,
+    country: order.shipping_country,
+    phone: order.shipping_phone || undefined,
+  };
+}
@@ -0,0 +1,191 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { createHash, randomBytes } from 'crypto';
+import { and, eq, gt, isNull } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { adminSessions, adminUsers } from '@/lib/db/schema';
+import {
+  ADMIN_SESSION_COOKIE,
+  ADMIN_SESSION_TTL_SECONDS,
+  getAdminSessionSecret,
+  signAdminSessionCookie,
+  verifyAdminSessionCookie,
+} from '@/lib/admin-session';
+import { hasPermission, type AdminPermission, type AdminRole } from '@/lib/admin-permissions';
+import { hashPassword, verifyPassword } from '@/lib/passwords';
+
+export interface AdminSession {
+  sessionId: number;
+  expiresAt: Date;
+  user: {
+    id: number;
+    email: string;
+    name: string;
+    role: AdminRole;
+  };
+}
+
+export type AdminAuthorization =
+  | { ok: true; admin: AdminSession }
+  | { ok: false; response: NextResponse };
+
+// Compared against when the email is unknown, so both cases take as long
+let dummyPasswordHash: Promise<string> | null = null;
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function normalizeAdminEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Checks an email and password against `admin_users`
+ */
+export async function authenticateAdmin(email: string, password: string): Promise<AdminSession['user'] | null> {
+  const [user] = await db
+    .select()
+    .from(adminUsers)
+    .where(eq(adminUsers.email, normalizeAdminEmail(email)))
+    .limit(1);
+
+  if (!user || !user.is_active) {
+    dummyPasswordHash ??= hashPassword('not-a-real-password');
+    await verifyPassword(password, await dummyPasswordHash);
+    return null;
+  }
+
+  if (!(await verifyPassword(password, user.password_hash))) {
+    return null;
+  }
+
+  return { id: user.id, email: user.email, name: user.name, role: user.role };
+}
+
+/**
+ * Starts a session for the admin and returns the signed cookie value
+ */
+export async function createAdminSession(
+  userId: number,
+  client: { ipAddress?: string; userAgent?: string | null } = {}
+): Promise<{ cookie: string; expiresAt: Date }> {
+  const secret = getAdminSessionSecret();
+  if (!secret) {
+    throw new Error('ADMIN_SESSION_SECRET is not configured');
+  }
+
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + ADMIN_SESSION_TTL_SECONDS * 1000);
+
+  await db.insert(adminSessions).values({
+    admin_user_id: userId,
+    token_hash: hashToken(token),
+    expires_at: expiresAt,
+    ip_address: client.ipAddress || null,
+    user_agent: client.userAgent || null,
+  });
+
+  await db
+    .update(adminUsers)
+    .set({ last_login_at: new Date(), updated_at: new Date() })
+    .where(eq(adminUsers.id, userId));
+
+  return { cookie: await signAdminSessionCookie(token, expiresAt, secret), expiresAt };
+}
+
+async function resolveAdminSession(cookieValue: string | undefined): Promise<AdminSession | null> {
+  const token = await verifyAdminSessionCookie(cookieValue, getAdminSessionSecret());
+  if (!token) {
+    return null;
+  }
+
+  const [session] = await db
+    .select({
+      sessionId: adminSessions.id,
+      expiresAt: adminSessions.expires_at,
+      user: { id: adminUsers.id, email: adminUsers.email, name: adminUsers.name, role: adminUsers.role },
+    })
+    .from(adminSessions)
+    .innerJoin(adminUsers, eq(adminUsers.id, adminSessions.admin_user_id))
+    .where(and(
+      eq(adminSessions.token_hash, hashToken(token)),
+      isNull(adminSessions.revoked_at),
+      gt(adminSessions.expires_at, new Date()),
+      eq(adminUsers.is_active, true)
+    ))
+    .limit(1);
+
+  return session || null;
+}
+
+/**
+ * The signed-in admin for an API request, or null. The middleware has only
+ * checked the cookie signature; this also checks the session is still live.
+ */
+export async function getAdminSession(request: NextRequest): Promise<AdminSession | null> {
+  return resolveAdminSession(request.cookies.get(ADMIN_SESSION_COOKIE)?.value);
+}
+
+/**
+ * Same as getAdminSession, for server components and actions
+ */
+export async function getAdminSessionFromCookies(): Promise<AdminSession | null> {
+  const store = await cookies();
+  return resolveAdminSession(store.get(ADMIN_SESSION_COOKIE)?.value);
+}
+
+/**
+ * The signed-in admin when their role grants `permission`; otherwise the 401
+ * or 403 response the route should return.
+ */
+export async function authorizeAdmin(request: NextRequest, permission: AdminPermission): Promise<AdminAuthorization> {
+  const admin = await getAdminSession(request);
+  if (!admin) {
+    return { ok: false, response: adminUnauthorizedResponse() };
+  }
+
+  if (!hasPermission(admin.user.role, permission)) {
+    return { ok: false, response: adminForbiddenResponse(permission) };
+  }
+
+  return { ok: true, admin };
+}
+
+export async function revokeAdminSession(sessionId: number): Promise<void> {
+  await db
+    .update(adminSessions)
+    .set({ revoked_at: new Date() })
+    .where(eq(adminSessions.id, sessionId));
+}
+
+export function adminUnauthorizedResponse() {
+  return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+}
+
+export function adminForbiddenResponse(permission: AdminPermission) {
+  return NextResponse.json(
+    { error: 'Your admin role does not allow this action', permission },
+    { status: 403 }
+  );
+}
+
+export function setAdminSessionCookie(response: NextResponse, value: string, expiresAt: Date): void {
+  response.cookies.set(ADMIN_SESSION_COOKIE, value, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    expires: expiresAt,
+  });
+}
+
+export function clearAdminSessionCookie(response: NextResponse): void {
+  response.cookies.set(ADMIN_SESSION_COOKIE, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: 0,
+  });
+}
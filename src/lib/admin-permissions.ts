@@ -0,0 +1,47 @@
+// Admin roles and what each may do. Pure data so the dashboard can hide
+// actions with the same rules the API routes enforce.
+
+export const ADMIN_ROLES = ['owner', 'catalog_editor', 'fulfillment', 'support', 'read_only'] as const;
+export type AdminRole = typeof ADMIN_ROLES[number];
+
+export const ADMIN_PERMISSIONS = [
+  'products:write',
+  'orders:read',
+  'orders:create',
+  'orders:update_status',
+  'orders:refund',
+  'orders:export',
+  'promotions:write',
+  'price_monitoring:read',
+  'price_monitoring:write',
+  'audit_log:read',
+] as const;
+export type AdminPermission = typeof ADMIN_PERMISSIONS[number];
+
+export const ADMIN_ROLE_LABELS: Record<AdminRole, string> = {
+  owner: 'Owner',
+  catalog_editor: 'Catalog Editor',
+  fulfillment: 'Fulfillment',
+  support: 'Support',
+  read_only: 'Read-only',
+};
+
+const ROLE_PERMISSIONS: Record<AdminRole, readonly AdminPermission[]> = {
+  owner: ADMIN_PERMISSIONS,
+  catalog_editor: ['products:write', 'promotions:write', 'price_monitoring:read', 'price_monitoring:write'],
+  fulfillment: ['orders:read', 'orders:update_status'],
+  support: ['orders:read', 'orders:create', 'orders:refund'],
+  read_only: ['orders:read', 'orders:export', 'price_monitoring:read'],
+};
+
+export function isAdminRole(value: unknown): value is AdminRole {
+  return typeof value === 'string' && (ADMIN_ROLES as readonly string[]).includes(value);
+}
+
+export function permissionsForRole(role: AdminRole): AdminPermission[] {
+  return [...(ROLE_PERMISSIONS[role] ?? [])];
+}
+
+export function hasPermission(role: AdminRole, permission: AdminPermission): boolean {
+  return (ROLE_PERMISSIONS[role] ?? []).includes(permission);
+}
@@ -0,0 +1,45 @@
+// Admin session cookies. Runs in the Edge middleware as well as on the server,
+// so only Web Crypto is used here and nothing touches the database.
+
+import { signSessionCookie, verifySessionCookie } from '@/lib/signed-cookies';
+
+export const ADMIN_SESSION_COOKIE = 'admin_session';
+export const ADMIN_SESSION_TTL_SECONDS = 8 * 60 * 60;
+export const ADMIN_LOGIN_PATH = '/admin/login';
+
+// Reachable without a session so admins can sign in and out
+const PUBLIC_ADMIN_PATHS = [ADMIN_LOGIN_PATH, '/api/admin/login', '/api/admin/logout'];
+
+export function getAdminSessionSecret(): string | null {
+  return process.env.ADMIN_SESSION_SECRET || null;
+}
+
+export function signAdminSessionCookie(token: string, expiresAt: Date, secret: string): Promise<string> {
+  return signSessionCookie(token, expiresAt, secret);
+}
+
+export function verifyAdminSessionCookie(
+  value: string | undefined,
+  secret: string | null,
+  now: number = Date.now()
+): Promise<string | null> {
+  return verifySessionCookie(value, secret, now);
+}
+
+/**
+ * Which requests the middleware sends through admin authentication
+ */
+export function requiresAdminSession(pathname: string, method: string): boolean {
+  if (PUBLIC_ADMIN_PATHS.includes(pathname)) return false;
+
+  if (pathname === '/admin' || pathname.startsWith('/admin/')) return true;
+  if (pathname.startsWith('/api/admin/')) return true;
+
+  // Customers look up their own orders without an admin session
+  if (pathname === '/api/orders/lookup') return false;
+  if (pathname === '/api/orders' || pathname.startsWith('/api/orders/')) return true;
+
+  // The catalog is public to read; changing it is admin-only
+  const isProductsApi = pathname === '/api/products' || pathname.startsWith('/api/products/');
+  return isProductsApi && method !== 'GET' && method !== 'HEAD';
+}
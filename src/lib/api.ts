@@ -1,4 +1,17 @@
 import type { Product, ApiProduct, CreateProductData, UpdateProductData } from './types';
+import type { CustomerOrderView } from './order-lookup';
+import type { OrderStatus } from './order-status';
+import type { AuditLogEntry } from './audit-log';
+import type { SavedAddress } from './address-book';
+import type { ShippingAddress } from './addresses';
+import type { CartItemCheck, ServerCart, ServerCartItem } from './carts';
+import type { PromotionSummary } from './promotions';
+import type { TaxSummary } from './tax';
+import type { TaxAddress } from './tax-rates';
+import type { ShippingOptionSummary } from './shipping';
+import type { ShippingMethod } from './shipping-rates';
+import type { FulfillmentLine, ShipmentView } from './shipments';
+import type { ShipmentCarrier, ShipmentLineRequest } from './shipment-rules';
 
 export async function fetchProducts(): Promise<Product[]> {
   // For client-side, always use relative URLs
@@ -74,7 +87,8 @@ export async function fetchProduct(slug: string): Promise<ApiProduct> {
   };
 }
 
-export async function createProduct(data: CreateProductData, token: string): Promise<Product> {
+// Admin product calls are authorized by the admin session cookie sent with same-origin requests
+export async function createProduct(data: CreateProductData): Promise<Product> {
   const formData = new FormData();
   
   Object.entries(data).forEach(([key, value]) => {
@@ -89,9 +103,6 @@ export async function createProduct(data: CreateProductData, token: string): Pro
 
   const response = await fetch('/api/products', {
     method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${token}`,
-    },
     body: formData,
   });
 
@@ -102,7 +113,7 @@ export async function createProduct(data: CreateProductData, token: string): Pro
   return response.json();
 }
 
-export async function updateProduct(slug: string, data: UpdateProductData, token: string): Promise<Product> {
+export async function updateProduct(slug: string, data: UpdateProductData): Promise<Product> {
   const formData = new FormData();
   
   Object.entries(data).forEach(([key, value]) => {
@@ -117,9 +128,6 @@ export async function updateProduct(slug: string, data: UpdateProductData, token
 
   const response = await fetch(`/api/products/${slug}`, {
     method: 'PUT',
-    headers: {
-      'Authorization': `Bearer ${token}`,
-    },
     body: formData,
   });
 
@@ -130,15 +138,447 @@ export async function updateProduct(slug: string, data: UpdateProductData, token
   return response.json();
 }
 
-export async function deleteProduct(slug: string, token: string): Promise<void> {
+export async function deleteProduct(slug: string): Promise<void> {
   const response = await fetch(`/api/products/${slug}`, {
     method: 'DELETE',
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Failed to delete product');
+  }
+}
+export interface CheckoutLineItem {
+  id: string; // The variant's
+  name: string;
+  price: number;
+  quantity: number;
+}
+
+export async function createPaymentIntent(
+  amount: number,
+  items: CheckoutLineItem[],
+  customerInfo?: { name: string; email?: string; shipping?: ShippingAddress },
+  idempotencyKey?: string,
+  promotionCode?: string,
+  shippingMethod?: ShippingMethod
+): Promise<{ paymentIntentId: string; clientSecret: string; amount: number; reservationExpiresAt: string }> {
+  const response = await fetch('/api/create-payment-intent', {
+    method: 'POST',
     headers: {
-      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json',
+      ...(idempotencyKey && { 'Idempotency-Key': idempotencyKey }),
     },
+    body: JSON.stringify({
+      amount,
+      currency: 'usd',
+      items,
+      customerInfo,
+      promotionCode,
+      shippingMethod,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Failed to create payment intent');
+  }
+
+  return response.json();
+}
+
+// One key per checkout attempt; retries and double submits reuse it
+export function generateIdempotencyKey(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `idem_${Date.now()}_${Math.random().toString(36).substr(2, 12)}`;
+}
+
+export async function lookupOrder(orderId: string, email: string): Promise<CustomerOrderView> {
+  const response = await fetch('/api/orders/lookup', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ orderId, email }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Failed to look up order');
+  }
+
+  const data = await response.json();
+  return data.order;
+}
+
+export async function adminLogin(email: string, password: string): Promise<{ user: { id: number; email: string; name: string }; expiresAt: string }> {
+  const response = await fetch('/api/admin/login', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password }),
   });
 
   if (!response.ok) {
-    throw new Error('Failed to delete product');
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Failed to sign in');
+  }
+
+  return response.json();
+}
+
+export async function adminLogout(): Promise<void> {
+  await fetch('/api/admin/logout', { method: 'POST' });
+}
+
+export async function fetchAuditLog(
+  filters: Record<string, string>,
+  cursor?: string | null
+): Promise<{ entries: AuditLogEntry[]; nextCursor: string | null }> {
+  const params = new URLSearchParams(filters);
+  if (cursor) {
+    params.set('cursor', cursor);
+  }
+
+  const response = await fetch(`/api/admin/audit-log?${params.toString()}`);
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Failed to load audit log');
+  }
+
+  return response.json();
+}
+
+export interface CustomerAccount {
+  id: number;
+  email: string;
+  name: string;
+}
+
+export async function customerSignup(email: string, name: string, password: string): Promise<{ customer: CustomerAccount }> {
+  const response = await fetch('/api/account/signup', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, name, password }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Failed to create account');
+  }
+
+  return response.json();
+}
+
+export async function customerLogin(email: string, password: string): Promise<{ customer: CustomerAccount }> {
+  const response = await fetch('/api/account/login', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, password }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Failed to sign in');
+  }
+
+  return response.json();
+}
+
+export async function customerLogout(): Promise<void> {
+  await fetch('/api/account/logout', { method: 'POST' });
+}
+
+export async function claimOrder(orderId: string): Promise<{ orderId: string }> {
+  const response = await fetch('/api/account/orders/claim', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ orderId }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Failed to add order');
+  }
+
+  return response.json();
+}
+
+// Null when nobody is signed in, so checkout can fall back to the guest form
+export async function fetchSavedAddresses(): Promise<SavedAddress[] | null> {
+  const response = await fetch('/api/account/addresses');
+
+  if (response.status === 401) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error('Failed to load saved addresses');
+  }
+
+  const data: { addresses: SavedAddress[] } = await response.json();
+  return data.addresses;
+}
+
+export async function createSavedAddress(address: ShippingAddress, makeDefault = false): Promise<SavedAddress> {
+  const response = await fetch('/api/account/addresses', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ address, makeDefault }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Failed to save address');
+  }
+
+  const data: { address: SavedAddress } = await response.json();
+  return data.address;
+}
+
+export async function updateSavedAddress(
+  addressId: number,
+  changes: { address?: ShippingAddress; makeDefault?: boolean }
+): Promise<void> {
+  const response = await fetch(`/api/account/addresses/${addressId}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(changes),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Failed to update address');
+  }
+}
+
+export async function deleteSavedAddress(addressId: number): Promise<void> {
+  const response = await fetch(`/api/account/addresses/${addressId}`, { method: 'DELETE' });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Failed to remove address');
   }
-}
\ No newline at end of file
+}
+
+export async function fetchServerCart(): Promise<ServerCart> {
+  const response = await fetch('/api/cart', { cache: 'no-store' });
+
+  if (!response.ok) {
+    throw new Error(`Failed to load cart: ${response.status}`);
+  }
+
+  return response.json();
+}
+
+export async function saveServerCart(items: Array<{ variantId: number; quantity: number }>): Promise<ServerCart> {
+  const response = await fetch('/api/cart', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ items }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Failed to save cart');
+  }
+
+  return response.json();
+}
+
+export async function validateCartItems(
+  items: Array<{ variantId: number; quantity: number; price: string | number }>
+): Promise<{ items: CartItemCheck[]; changed: boolean }> {
+  const response = await fetch('/api/cart/validate', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ items }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Failed to check cart');
+  }
+
+  return response.json();
+}
+
+export async function captureCheckoutEmail(
+  email: string,
+  items: Array<{ variantId: number; quantity: number }>
+): Promise<void> {
+  const response = await fetch('/api/cart/email', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email, items }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Failed to save cart');
+  }
+}
+
+export async function recoverCart(token: string): Promise<ServerCartItem[]> {
+  const response = await fetch('/api/cart/recover', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ token }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Failed to restore cart');
+  }
+
+  const data: { items: ServerCartItem[] } = await response.json();
+  return data.items;
+}
+
+export type PromotionCodeResult =
+  | { ok: true; promotion: PromotionSummary; subtotal: string; total: string }
+  | { ok: false; error: string };
+
+// Unknown, expired or used-up codes come back as `ok: false`; other failures throw
+export async function checkPromotionCode(
+  code: string,
+  items: Array<{ variantId: number; quantity: number }>,
+  email?: string
+): Promise<PromotionCodeResult> {
+  const response = await fetch('/api/cart/promotion', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ code, items, email }),
+  });
+
+  if (response.status === 400 || response.status === 404 || response.status === 409) {
+    const errorData = await response.json().catch(() => ({}));
+    return { ok: false, error: errorData.error || 'That code is not valid.' };
+  }
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Failed to check code');
+  }
+
+  return { ok: true, ...(await response.json()) };
+}
+
+export interface TaxEstimate {
+  tax: TaxSummary;
+  subtotal: string;
+  discount: string;
+  total: string;
+}
+
+export async function estimateTax(
+  items: Array<{ variantId: number; quantity: number }>,
+  address: TaxAddress,
+  promotionCode?: string
+): Promise<TaxEstimate> {
+  const response = await fetch('/api/cart/tax', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ items, address, promotionCode }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Failed to calculate tax');
+  }
+
+  return response.json();
+}
+
+export async function fetchShippingOptions(
+  items: Array<{ variantId: number; quantity: number }>,
+  country: string,
+  promotionCode?: string
+): Promise<ShippingOptionSummary[]> {
+  const response = await fetch('/api/cart/shipping', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ items, address: { country }, promotionCode }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Failed to load shipping options');
+  }
+
+  const data: { methods: ShippingOptionSummary[] } = await response.json();
+  return data.methods;
+}
+
+export interface OrderFulfillment {
+  orderId: string;
+  status: OrderStatus;
+  lines: FulfillmentLine[];
+  shipments: ShipmentView[];
+}
+
+// Paid orders not yet shipped in full, newest first
+export async function fetchOrdersToFulfill(): Promise<Array<{
+  order_id: string;
+  status: OrderStatus;
+  customer_name: string;
+  shipping_country: string;
+  shipping_method: ShippingMethod;
+  created_at: string;
+  items: Array<{ quantity: number }>;
+}>> {
+  const response = await fetch('/api/orders?status=paid,fulfilling&limit=50');
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Failed to load orders');
+  }
+
+  const data = await response.json();
+  return data.orders;
+}
+
+export async function fetchOrderFulfillment(orderId: string): Promise<OrderFulfillment> {
+  const response = await fetch(`/api/orders/${encodeURIComponent(orderId)}/shipments`);
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Failed to load shipments');
+  }
+
+  return response.json();
+}
+
+export async function createOrderShipment(
+  orderId: string,
+  shipment: { items?: ShipmentLineRequest[]; carrier: ShipmentCarrier; trackingNumber?: string }
+): Promise<ShipmentView> {
+  const response = await fetch(`/api/orders/${encodeURIComponent(orderId)}/shipments`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(shipment),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Failed to create shipment');
+  }
+
+  const data: { shipment: ShipmentView } = await response.json();
+  return data.shipment;
+}
+
+export async function shipOrderShipment(orderId: string, shipmentId: number, trackingNumber?: string): Promise<ShipmentView> {
+  const response = await fetch(`/api/orders/${encodeURIComponent(orderId)}/shipments/${shipmentId}/ship`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ trackingNumber }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Failed to mark shipment shipped');
+  }
+
+  const data: { shipment: ShipmentView } = await response.json();
+  return data.shipment;
+}
@@ -0,0 +1,62 @@
+// What the audit log records. Kept free of database imports so the schema
+// and the admin UI can share it, like order-status.
+
+export const AUDIT_ACTIONS = [
+  'product.created',
+  'product.updated',
+  'product.deleted',
+  'product.variant_created',
+  'product.variant_updated',
+  'order.created',
+  'order.status_changed',
+  'order.refunded',
+  'order.shipment_created',
+  'order.shipment_shipped',
+  'promotion.created',
+  'promotion.updated',
+] as const;
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+export const AUDIT_ENTITY_TYPES = ['product', 'order', 'promotion'] as const;
+export type AuditEntityType = typeof AUDIT_ENTITY_TYPES[number];
+
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+export function isAuditAction(value: unknown): value is AuditAction {
+  return typeof value === 'string' && (AUDIT_ACTIONS as readonly string[]).includes(value);
+}
+
+export function isAuditEntityType(value: unknown): value is AuditEntityType {
+  return typeof value === 'string' && (AUDIT_ENTITY_TYPES as readonly string[]).includes(value);
+}
+
+// Bookkeeping columns that change on every write and would only add noise
+const IGNORED_FIELDS = new Set(['created_at', 'updated_at']);
+
+function comparable(value: unknown): string {
+  return JSON.stringify(value instanceof Date ? value.toISOString() : value ?? null);
+}
+
+/**
+ * The fields that differ between two versions of a row, as `{ field: { from, to } }`.
+ * A missing side counts as null, so creates and deletes list every field.
+ */
+export function diffAuditValues(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined
+): AuditChanges {
+  const changes: AuditChanges = {};
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+
+  fields.forEach(field => {
+    if (IGNORED_FIELDS.has(field)) return;
+
+    const from = before?.[field] ?? null;
+    const to = after?.[field] ?? null;
+    if (comparable(from) !== comparable(to)) {
+      changes[field] = { from, to };
+    }
+  });
+
+  return changes;
+}
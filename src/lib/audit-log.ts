@@ -0,0 +1,144 @@
+import type { NextRequest } from 'next/server';
+import { and, eq, gte, lt, type SQL } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { auditLog } from '@/lib/db/schema';
+import type { DbExecutor } from '@/lib/inventory';
+import { parseDateRange } from '@/lib/order-queries';
+import { getClientIp } from '@/lib/rate-limit';
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ENTITY_TYPES,
+  diffAuditValues,
+  isAuditAction,
+  isAuditEntityType,
+  type AuditAction,
+  type AuditEntityType,
+} from '@/lib/audit-actions';
+
+// An audit row as the API returns it
+export type AuditLogEntry = Omit<typeof auditLog.$inferSelect, 'created_at'> & { created_at: string };
+
+export interface AuditRequestMetadata {
+  ipAddress: string;
+  userAgent: string | null;
+  method: string;
+  path: string;
+}
+
+export interface AuditEvent {
+  actor: string;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string | number;
+  // Null or omitted on create (before) and delete (after)
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  request?: AuditRequestMetadata;
+}
+
+export function auditRequestMetadata(request: NextRequest): AuditRequestMetadata {
+  return {
+    ipAddress: getClientIp(request),
+    userAgent: request.headers.get('user-agent'),
+    method: request.method,
+    path: request.nextUrl.pathname,
+  };
+}
+
+/**
+ * Writes an audit row. Pass the transaction making the change so the row is
+ * only kept when the change commits.
+ */
+export async function recordAuditEvent(event: AuditEvent, executor: DbExecutor = db): Promise<void> {
+  await executor.insert(auditLog).values({
+    actor: event.actor,
+    action: event.action,
+    entity_type: event.entityType,
+    entity_id: String(event.entityId),
+    changes: diffAuditValues(event.before, event.after),
+    ip_address: event.request?.ipAddress ?? null,
+    user_agent: event.request?.userAgent ?? null,
+    request_method: event.request?.method ?? null,
+    request_path: event.request?.path ?? null,
+  });
+}
+
+export interface AuditLogFilters {
+  actor?: string;
+  action?: AuditAction;
+  entityType?: AuditEntityType;
+  entityId?: string;
+  createdFrom?: Date;
+  createdBefore?: Date; // Exclusive upper bound
+}
+
+/**
+ * Reads audit log filters from query parameters: `actor`, `action`,
+ * `entity_type`, `entity_id` and `from` / `to` (ISO dates, inclusive).
+ */
+export function parseAuditLogFilters(
+  searchParams: URLSearchParams
+): { ok: true; filters: AuditLogFilters } | { ok: false; error: string } {
+  const filters: AuditLogFilters = {};
+
+  const action = searchParams.get('action')?.trim();
+  if (action) {
+    if (!isAuditAction(action)) {
+      return { ok: false, error: `action must be one of ${AUDIT_ACTIONS.join(', ')}` };
+    }
+    filters.action = action;
+  }
+
+  const entityType = searchParams.get('entity_type')?.trim();
+  if (entityType) {
+    if (!isAuditEntityType(entityType)) {
+      return { ok: false, error: `entity_type must be one of ${AUDIT_ENTITY_TYPES.join(', ')}` };
+    }
+    filters.entityType = entityType;
+  }
+
+  const entityId = searchParams.get('entity_id')?.trim();
+  if (entityId) {
+    filters.entityId = entityId;
+  }
+
+  // Actors are stored as admin:<email>, so a bare email is accepted too
+  const actor = searchParams.get('actor')?.trim().toLowerCase();
+  if (actor) {
+    filters.actor = actor.includes(':') ? actor : `admin:${actor}`;
+  }
+
+  const range = parseDateRange(searchParams);
+  if (!range.ok) {
+    return range;
+  }
+  filters.createdFrom = range.createdFrom;
+  filters.createdBefore = range.createdBefore;
+
+  return { ok: true, filters };
+}
+
+export function auditLogFilterCondition(filters: AuditLogFilters): SQL | undefined {
+  const conditions: SQL[] = [];
+
+  if (filters.actor) {
+    conditions.push(eq(auditLog.actor, filters.actor));
+  }
+  if (filters.action) {
+    conditions.push(eq(auditLog.action, filters.action));
+  }
+  if (filters.entityType) {
+    conditions.push(eq(auditLog.entity_type, filters.entityType));
+  }
+  if (filters.entityId) {
+    conditions.push(eq(auditLog.entity_id, filters.entityId));
+  }
+  if (filters.createdFrom) {
+    conditions.push(gte(auditLog.created_at, filters.createdFrom));
+  }
+  if (filters.createdBefore) {
+    conditions.push(lt(auditLog.created_at, filters.createdBefore));
+  }
+
+  return conditions.length > 0 ? and(...conditions) : undefined;
+}
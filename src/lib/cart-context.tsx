@@ -1,11 +1,20 @@
 'use client';
 
-import React, { createContext, useContext, useReducer, useEffect } from 'react';
+import React, { createContext, useCallback, useContext, useReducer, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
-import type { CartContextType, CartState, CartItem, Product } from './cart-types';
+import type { CartContextType, CartState, CartItem, Product, ProductVariant } from './cart-types';
+import { checkPromotionCode, estimateTax, fetchServerCart, saveServerCart, validateCartItems } from './api';
+import type { CartItemCheck, ServerCartItem } from './carts';
+import type { PromotionSummary } from './promotions';
+import type { TaxSummary } from './tax';
+import type { TaxAddress } from './tax-rates';
+import { variantDisplayName } from './variant-options';
 import { 
+  applyCartItemChecks,
   calculateCartTotal, 
   calculateItemCount, 
+  cartItemsFromServer,
+  cartSignature,
   generateCartItemId, 
   validateQuantity,
   findCartItem,
@@ -13,11 +22,20 @@ import {
   removeCartItem
 } from './cart-utils';
 
+const CART_STORAGE_KEY = 'eggypro-cart';
+// Set while local changes have not reached the server (offline or a failed request)
+const CART_UNSYNCED_KEY = 'eggypro-cart-unsynced';
+const CART_SYNC_DELAY_MS = 500;
+// The discount code the shopper entered, re-checked whenever the cart changes
+const PROMOTION_CODE_KEY = 'eggypro-promo-code';
+// Country, region and postal code from the last checkout, so the cart can show tax
+const TAX_ADDRESS_KEY = 'eggypro-tax-address';
+
 
 const CartContext = createContext<CartContextType | undefined>(undefined);
 
 type CartAction =
-  | { type: 'ADD_ITEM'; payload: { product: Product; quantity: number } }
+  | { type: 'ADD_ITEM'; payload: { product: Product; variant: ProductVariant; quantity: number } }
   | { type: 'REMOVE_ITEM'; payload: { itemId: string } }
   | { type: 'MARK_ITEM_DELETING'; payload: { itemId: string } }
   | { type: 'COMPLETE_ITEM_DELETION'; payload: { itemId: string } }
@@ -26,6 +44,12 @@ type CartAction =
   | { type: 'TOGGLE_CART' }
   | { type: 'SET_CART_OPEN'; payload: { isOpen: boolean } }
   | { type: 'LOAD_CART'; payload: { items: CartItem[] } }
+  | { type: 'APPLY_REVALIDATION'; payload: { checks: CartItemCheck[] } }
+  | { type: 'DISMISS_NOTICES' }
+  | { type: 'SET_PROMOTION'; payload: { promotion: PromotionSummary | null; error?: string | null } }
+  | { type: 'SET_TAX_ADDRESS'; payload: { address: TaxAddress | null } }
+  | { type: 'TAX_PENDING' }
+  | { type: 'SET_TAX'; payload: { tax: TaxSummary | null } }
   // Undo functionality actions
   | { type: 'UNDO_DELETE' }
   | { type: 'CLEAR_UNDO' }
@@ -39,18 +63,25 @@ const initialState: CartState = {
   // Undo functionality initial state
   lastDeletedItem: null,
   canUndo: false,
+  isLoaded: false,
+  notices: [],
+  promotion: null,
+  promotionError: null,
+  taxAddress: null,
+  tax: null,
+  isTaxPending: false,
 };
 
 function cartReducer(state: CartState, action: CartAction): CartState {
   switch (action.type) {
     case 'ADD_ITEM': {
-      const { product, quantity } = action.payload;
+      const { product, variant, quantity } = action.payload;
       
       if (!validateQuantity(quantity)) {
         return state;
       }
 
-      const existingItem = findCartItem(state.items, product.id);
+      const existingItem = findCartItem(state.items, variant.id);
       let newItems: CartItem[];
 
       if (existingItem) {
@@ -63,14 +94,16 @@ function cartReducer(state: CartState, action: CartAction): CartState {
       } else {
         // Add new item - keep original price format for flexibility
         const newItem: CartItem = {
-          id: generateCartItemId(product.id),
+          id: generateCartItemId(variant.id),
           productId: product.id,
-          name: product.name,
-          price: product.price, // Keep original format, PriceUtils will handle conversion
+          variantId: variant.id,
+          name: variantDisplayName(product.name, variant.options),
+          price: variant.price, // Keep original format, PriceUtils will handle conversion
           quantity,
-          imageUrl: product.images[0] || '',
+          imageUrl: variant.image_url || product.images[0] || '',
           slug: product.slug,
           isDeleting: false,
+          stockQuantity: variant.stock_quantity,
         };
         newItems = [...state.items, newItem];
       }
@@ -172,6 +205,10 @@ function cartReducer(state: CartState, action: CartAction): CartState {
         items: [],
         totalItems: 0,
         totalPrice: 0,
+        promotion: null,
+        promotionError: null,
+        tax: null,
+        isTaxPending: false,
       };
     }
 
@@ -199,6 +236,58 @@ function cartReducer(state: CartState, action: CartAction): CartState {
         // Preserve undo state when loading cart
         lastDeletedItem: state.lastDeletedItem,
         canUndo: state.canUndo,
+        isLoaded: true,
+      };
+    }
+
+    case 'APPLY_REVALIDATION': {
+      const { items, notices } = applyCartItemChecks(state.items, action.payload.checks);
+      return {
+        ...state,
+        items,
+        totalItems: calculateItemCount(items),
+        totalPrice: calculateCartTotal(items),
+        notices,
+      };
+    }
+
+    case 'DISMISS_NOTICES': {
+      return {
+        ...state,
+        notices: [],
+      };
+    }
+
+    case 'SET_PROMOTION': {
+      return {
+        ...state,
+        promotion: action.payload.promotion,
+        promotionError: action.payload.error ?? null,
+      };
+    }
+
+    case 'SET_TAX_ADDRESS': {
+      return {
+        ...state,
+        taxAddress: action.payload.address,
+        // A different place means different rates
+        tax: null,
+        isTaxPending: action.payload.address !== null,
+      };
+    }
+
+    case 'TAX_PENDING': {
+      return {
+        ...state,
+        isTaxPending: true,
+      };
+    }
+
+    case 'SET_TAX': {
+      return {
+        ...state,
+        tax: action.payload.tax,
+        isTaxPending: false,
       };
     }
 
@@ -210,31 +299,238 @@ function cartReducer(state: CartState, action: CartAction): CartState {
 export function CartProvider({ children }: { children: React.ReactNode }) {
   const [state, dispatch] = useReducer(cartReducer, initialState);
   const router = useRouter();
+  // Kept current during render so callbacks run from child effects see the latest items
+  const itemsRef = useRef<CartItem[]>(state.items);
+  itemsRef.current = state.items;
+  // Signature of the cart as the server last had it; changes are only pushed
+  // once the first sync with the server has settled
+  const lastSynced = useRef<string | null>(null);
+  const syncReady = useRef(false);
+  const syncTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // The sync under way, if any
+  const syncing = useRef<Promise<void> | null>(null);
+  const promotionCode = useRef<string | null>(null);
+  const taxAddressRef = useRef<TaxAddress | null>(state.taxAddress);
+  taxAddressRef.current = state.taxAddress;
+
+  const setPromotionCode = useCallback((code: string | null) => {
+    promotionCode.current = code;
+    try {
+      if (code) {
+        localStorage.setItem(PROMOTION_CODE_KEY, code);
+      } else {
+        localStorage.removeItem(PROMOTION_CODE_KEY);
+      }
+    } catch {
+      // Storage disabled; the code still applies until the page is closed
+    }
+  }, []);
+
+  const pushToServer = useCallback(async (items: CartItem[]) => {
+    try {
+      await saveServerCart(
+        items.filter(item => !item.isDeleting).map(item => ({ variantId: item.variantId, quantity: item.quantity }))
+      );
+      lastSynced.current = cartSignature(items);
+      if (cartSignature(itemsRef.current) === lastSynced.current) {
+        localStorage.removeItem(CART_UNSYNCED_KEY);
+      }
+    } catch (error) {
+      // Stays marked unsynced and is retried when the browser is back online
+      console.error('Error saving cart to server:', error);
+    }
+  }, []);
+
+  const syncWithServer = useCallback(async (localItems: CartItem[]) => {
+    try {
+      if (localStorage.getItem(CART_UNSYNCED_KEY)) {
+        // Changes made offline win over whatever the server has
+        await pushToServer(localItems);
+        return;
+      }
+
+      const cart = await fetchServerCart();
+      if (cart.updatedAt === null) {
+        // No server cart yet: this device's cart becomes it
+        if (localItems.length > 0) {
+          await pushToServer(localItems);
+        } else {
+          lastSynced.current = cartSignature([]);
+        }
+        return;
+      }
 
-  // Load cart from localStorage on mount
+      const items = cartItemsFromServer(cart.items, itemsRef.current);
+      lastSynced.current = cartSignature(items);
+      dispatch({ type: 'LOAD_CART', payload: { items } });
+    } catch (error) {
+      // Offline: keep using the local cart
+      console.error('Error syncing cart with server:', error);
+    } finally {
+      syncReady.current = true;
+    }
+  }, [pushToServer]);
+
+  // Load cart from localStorage on mount, then bring it in line with the server
   useEffect(() => {
+    let items: CartItem[] = [];
     try {
-      const savedCart = localStorage.getItem('eggypro-cart');
+      const savedCart = localStorage.getItem(CART_STORAGE_KEY);
       if (savedCart) {
-        const items = JSON.parse(savedCart) as CartItem[];
-        dispatch({ type: 'LOAD_CART', payload: { items } });
+        // Carts saved before variants have no variantId; the server copy replaces them
+        items = (JSON.parse(savedCart) as CartItem[]).filter(item => typeof item.variantId === 'number');
       }
     } catch (error) {
       console.error('Error loading cart from localStorage:', error);
     }
-  }, []);
+    dispatch({ type: 'LOAD_CART', payload: { items } });
+    promotionCode.current = localStorage.getItem(PROMOTION_CODE_KEY);
+    try {
+      const savedTaxAddress = localStorage.getItem(TAX_ADDRESS_KEY);
+      if (savedTaxAddress) {
+        dispatch({ type: 'SET_TAX_ADDRESS', payload: { address: JSON.parse(savedTaxAddress) as TaxAddress } });
+      }
+    } catch (error) {
+      console.error('Error loading tax address from localStorage:', error);
+    }
+
+    syncing.current = syncWithServer(items);
+  }, [syncWithServer]);
 
-  // Save cart to localStorage whenever items change
+  // Save cart to localStorage whenever items change, and to the server shortly after
   useEffect(() => {
+    if (!state.isLoaded) {
+      return;
+    }
     try {
-      localStorage.setItem('eggypro-cart', JSON.stringify(state.items));
+      localStorage.setItem(CART_STORAGE_KEY, JSON.stringify(state.items));
     } catch (error) {
       console.error('Error saving cart to localStorage:', error);
     }
-  }, [state.items]);
 
-  const addItem = (product: Product, quantity: number) => {
-    dispatch({ type: 'ADD_ITEM', payload: { product, quantity } });
+    if (!syncReady.current || cartSignature(state.items) === lastSynced.current) {
+      return;
+    }
+
+    try {
+      localStorage.setItem(CART_UNSYNCED_KEY, '1');
+    } catch {
+      // Storage full or disabled; the debounced push below still runs
+    }
+    if (syncTimer.current) {
+      clearTimeout(syncTimer.current);
+    }
+    syncTimer.current = setTimeout(() => pushToServer(itemsRef.current), CART_SYNC_DELAY_MS);
+  }, [state.items, state.isLoaded, pushToServer]);
+
+  // Pick up changes made on other devices when the tab regains focus, and
+  // push offline changes when the connection returns
+  useEffect(() => {
+    const handleFocus = () => {
+      if (syncReady.current) {
+        syncing.current = syncWithServer(itemsRef.current);
+      }
+    };
+    const handleOnline = () => {
+      if (localStorage.getItem(CART_UNSYNCED_KEY)) {
+        pushToServer(itemsRef.current);
+      }
+    };
+
+    window.addEventListener('focus', handleFocus);
+    window.addEventListener('online', handleOnline);
+    return () => {
+      window.removeEventListener('focus', handleFocus);
+      window.removeEventListener('online', handleOnline);
+      if (syncTimer.current) {
+        clearTimeout(syncTimer.current);
+      }
+    };
+  }, [syncWithServer, pushToServer]);
+
+  // A discount depends on what is in the cart, so check the code again once the
+  // cart settles after a change; a code that no longer applies is taken off
+  const itemsSignature = cartSignature(state.items);
+  useEffect(() => {
+    const code = promotionCode.current;
+    if (!state.isLoaded || !code) {
+      return;
+    }
+    if (itemsSignature === '') {
+      dispatch({ type: 'SET_PROMOTION', payload: { promotion: null } });
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      const items = itemsRef.current.filter(item => !item.isDeleting);
+      try {
+        const result = await checkPromotionCode(
+          code,
+          items.map(item => ({ variantId: item.variantId, quantity: item.quantity }))
+        );
+        if (promotionCode.current !== code) {
+          return;
+        }
+        if (result.ok) {
+          dispatch({ type: 'SET_PROMOTION', payload: { promotion: result.promotion } });
+        } else {
+          setPromotionCode(null);
+          dispatch({ type: 'SET_PROMOTION', payload: { promotion: null, error: `${code} was removed: ${result.error}` } });
+        }
+      } catch (error) {
+        // Checkout checks the code again, so a failed check only delays the update
+        console.error('Error checking promotion code:', error);
+      }
+    }, CART_SYNC_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [itemsSignature, state.isLoaded, setPromotionCode]);
+
+  // Tax follows the items, the discount and the shipping address, so work it
+  // out again once any of them settles after a change
+  const taxAddressKey = state.taxAddress
+    ? [state.taxAddress.country, state.taxAddress.region, state.taxAddress.postalCode].join('|')
+    : '';
+  const appliedCode = state.promotion?.code;
+  const appliedDiscount = state.promotion?.discount;
+  useEffect(() => {
+    const address = taxAddressRef.current;
+    if (!state.isLoaded || !address) {
+      return;
+    }
+    if (itemsSignature === '') {
+      dispatch({ type: 'SET_TAX', payload: { tax: null } });
+      return;
+    }
+
+    let cancelled = false;
+    dispatch({ type: 'TAX_PENDING' });
+    const timer = setTimeout(async () => {
+      const items = itemsRef.current.filter(item => !item.isDeleting);
+      try {
+        const estimate = await estimateTax(
+          items.map(item => ({ variantId: item.variantId, quantity: item.quantity })),
+          address,
+          appliedCode
+        );
+        if (!cancelled) {
+          dispatch({ type: 'SET_TAX', payload: { tax: estimate.tax } });
+        }
+      } catch (error) {
+        // Checkout works the tax out again, so a failed estimate only hides it here
+        console.error('Error estimating tax:', error);
+        if (!cancelled) {
+          dispatch({ type: 'SET_TAX', payload: { tax: null } });
+        }
+      }
+    }, CART_SYNC_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [itemsSignature, state.isLoaded, taxAddressKey, appliedCode, appliedDiscount]);
+
+  const addItem = (product: Product, variant: ProductVariant, quantity: number) => {
+    dispatch({ type: 'ADD_ITEM', payload: { product, variant, quantity } });
   };
 
   const markItemDeleting = (itemId: string) => {
@@ -254,6 +550,7 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
   };
 
   const clearCart = () => {
+    setPromotionCode(null);
     dispatch({ type: 'CLEAR_CART' });
   };
 
@@ -261,9 +558,9 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
     dispatch({ type: 'TOGGLE_CART' });
   };
 
-  const buyNow = (product: Product, quantity: number) => {
+  const buyNow = (product: Product, variant: ProductVariant, quantity: number) => {
     // Add item to cart
-    addItem(product, quantity);
+    addItem(product, variant, quantity);
     // Close cart if open
     dispatch({ type: 'SET_CART_OPEN', payload: { isOpen: false } });
     // Redirect to checkout
@@ -281,6 +578,79 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
     dispatch({ type: 'CLEAR_UNDO' });
   };
 
+  const syncCart = () => {
+    syncing.current = syncWithServer(itemsRef.current);
+  };
+
+  const restoreCart = useCallback(async (serverItems: ServerCartItem[]) => {
+    // A sync landing afterwards would put the old cart back
+    await syncing.current;
+    // Saved to the server by the usual debounced push
+    dispatch({ type: 'LOAD_CART', payload: { items: cartItemsFromServer(serverItems, []) } });
+  }, []);
+
+  const revalidateCart = useCallback(async () => {
+    const items = itemsRef.current.filter(item => !item.isDeleting);
+    if (items.length === 0) {
+      return;
+    }
+
+    try {
+      const result = await validateCartItems(
+        items.map(item => ({ variantId: item.variantId, quantity: item.quantity, price: item.price }))
+      );
+      dispatch({ type: 'APPLY_REVALIDATION', payload: { checks: result.items } });
+    } catch (error) {
+      // Checkout prices from the catalog regardless, so a failed check only delays the notice
+      console.error('Error revalidating cart:', error);
+    }
+  }, []);
+
+  const dismissNotices = useCallback(() => {
+    dispatch({ type: 'DISMISS_NOTICES' });
+  }, []);
+
+  const applyPromotionCode = useCallback(async (code: string, email?: string): Promise<string | null> => {
+    const items = itemsRef.current.filter(item => !item.isDeleting);
+    try {
+      const result = await checkPromotionCode(
+        code,
+        items.map(item => ({ variantId: item.variantId, quantity: item.quantity })),
+        email
+      );
+      if (!result.ok) {
+        return result.error;
+      }
+      setPromotionCode(result.promotion.code);
+      dispatch({ type: 'SET_PROMOTION', payload: { promotion: result.promotion } });
+      return null;
+    } catch (error) {
+      console.error('Error applying promotion code:', error);
+      return error instanceof Error ? error.message : 'Failed to check code';
+    }
+  }, [setPromotionCode]);
+
+  const removePromotionCode = useCallback(() => {
+    setPromotionCode(null);
+    dispatch({ type: 'SET_PROMOTION', payload: { promotion: null } });
+  }, [setPromotionCode]);
+
+  const setTaxAddress = useCallback((address: TaxAddress | null) => {
+    if (JSON.stringify(address) === JSON.stringify(taxAddressRef.current)) {
+      return;
+    }
+    try {
+      if (address) {
+        localStorage.setItem(TAX_ADDRESS_KEY, JSON.stringify(address));
+      } else {
+        localStorage.removeItem(TAX_ADDRESS_KEY);
+      }
+    } catch {
+      // Storage disabled; the estimate still shows until the page is closed
+    }
+    dispatch({ type: 'SET_TAX_ADDRESS', payload: { address } });
+  }, []);
+
   const contextValue: CartContextType = {
     ...state,
     addItem,
@@ -293,6 +663,13 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
     buyNow,
     undoDelete,
     clearUndo,
+    syncCart,
+    restoreCart,
+    revalidateCart,
+    dismissNotices,
+    applyPromotionCode,
+    removePromotionCode,
+    setTaxAddress,
   };
 
   return (
@@ -0,0 +1,205 @@
+import { and, asc, eq, gte, isNotNull, isNull, lt, sql } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { cartItems, carts, orders } from '@/lib/db/schema';
+import { loadCartItems, type ServerCartItem } from '@/lib/carts';
+import { getSiteUrl, queueEmail } from '@/lib/mail';
+import { PriceUtils } from '@/lib/price-utils';
+import { signSessionCookie, verifySessionCookie } from '@/lib/signed-cookies';
+
+// Abandoned cart follow-up: carts that reached checkout with an email but
+// never became an order get one email with a link that restores them.
+
+export const DEFAULT_ABANDONED_AFTER_HOURS = 24;
+// Carts idle for longer than this are left alone, so a first run doesn't
+// email every cart ever started
+export const MAX_ABANDONED_CART_AGE_DAYS = 7;
+export const CART_RECOVERY_LINK_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export interface AbandonedCart {
+  id: number;
+  email: string;
+  items: ServerCartItem[];
+  updatedAt: Date;
+}
+
+export interface AbandonedCartRunResult {
+  found: number;
+  // Written to the email outbox, which sends and retries them
+  queued: number;
+  failed: Array<{ cartId: number; error: string }>;
+}
+
+export type RestoreCartResult =
+  | { ok: true; items: ServerCartItem[] }
+  | { ok: false; reason: 'not_found' | 'converted' };
+
+export interface CartRecoveryStats {
+  emailed: number;
+  recovered: number;
+  converted: number;
+  // Sum of the orders recovered carts became
+  revenue: string;
+}
+
+export function getCartRecoverySecret(): string | null {
+  return process.env.CART_RECOVERY_SECRET || null;
+}
+
+/**
+ * Signs a recovery link token for the cart, `<cart id>.<expires>.<hmac>`
+ */
+export function createCartRecoveryToken(cartId: number, secret: string, now: number = Date.now()): Promise<string> {
+  return signSessionCookie(String(cartId), new Date(now + CART_RECOVERY_LINK_TTL_SECONDS * 1000), secret);
+}
+
+/**
+ * The cart id from an untampered, unexpired recovery token
+ */
+export async function verifyCartRecoveryToken(
+  value: string | undefined,
+  secret: string | null,
+  now: number = Date.now()
+): Promise<number | null> {
+  const cartId = await verifySessionCookie(value, secret, now);
+  return cartId && /^\d+$/.test(cartId) ? Number(cartId) : null;
+}
+
+/**
+ * Active carts with an email that have been idle for `olderThanHours` and
+ * have no order from that email since the email was captured. Carts whose
+ * products are all gone are skipped.
+ */
+export async function findAbandonedCarts(options: {
+  olderThanHours: number;
+  limit?: number;
+  now?: Date;
+}): Promise<AbandonedCart[]> {
+  const now = options.now ?? new Date();
+  const idleSince = new Date(now.getTime() - options.olderThanHours * 60 * 60 * 1000);
+  const oldest = new Date(now.getTime() - MAX_ABANDONED_CART_AGE_DAYS * 24 * 60 * 60 * 1000);
+
+  const rows = await db
+    .select({ id: carts.id, email: carts.email, updatedAt: carts.updated_at })
+    .from(carts)
+    .where(and(
+      eq(carts.status, 'active'),
+      isNotNull(carts.email),
+      isNull(carts.recovery_email_sent_at),
+      lt(carts.updated_at, idleSince),
+      gte(carts.updated_at, oldest),
+      sql`exists (select 1 from ${cartItems} where ${cartItems.cart_id} = ${carts.id})`,
+      sql`not exists (
+        select 1 from ${orders}
+        where lower(${orders.customer_email}) = lower(${carts.email})
+          and ${orders.created_at} >= ${carts.email_captured_at}
+      )`
+    ))
+    .orderBy(asc(carts.updated_at))
+    .limit(options.limit ?? 100);
+
+  const abandoned: AbandonedCart[] = [];
+  for (const row of rows) {
+    const items = await loadCartItems(db, row.id);
+    if (items.length > 0 && row.email) {
+      abandoned.push({ id: row.id, email: row.email, items, updatedAt: row.updatedAt });
+    }
+  }
+  return abandoned;
+}
+
+/**
+ * Emails each abandoned cart once. A cart is claimed before its email is
+ * queued so two overlapping runs can't both email it; if queueing fails the
+ * claim is released and the cart is tried again on the next run.
+ */
+export async function sendAbandonedCartEmails(options: {
+  olderThanHours?: number;
+  limit?: number;
+  siteUrl?: string;
+} = {}): Promise<AbandonedCartRunResult> {
+  const secret = getCartRecoverySecret();
+  if (!secret) {
+    throw new Error('CART_RECOVERY_SECRET is not configured');
+  }
+
+  const siteUrl = (options.siteUrl ?? getSiteUrl()).replace(/\/+$/, '');
+  const abandoned = await findAbandonedCarts({
+    olderThanHours: options.olderThanHours ?? DEFAULT_ABANDONED_AFTER_HOURS,
+    limit: options.limit,
+  });
+  const result: AbandonedCartRunResult = { found: abandoned.length, queued: 0, failed: [] };
+
+  for (const cart of abandoned) {
+    const [claimed] = await db
+      .update(carts)
+      .set({ recovery_email_sent_at: new Date() })
+      .where(and(eq(carts.id, cart.id), eq(carts.status, 'active'), isNull(carts.recovery_email_sent_at)))
+      .returning({ id: carts.id });
+    if (!claimed) {
+      continue;
+    }
+
+    try {
+      const token = await createCartRecoveryToken(cart.id, secret);
+      await queueEmail({
+        template: 'cart_recovery',
+        to: cart.email,
+        data: { items: cart.items, recoverUrl: `${siteUrl}/cart/recover?token=${encodeURIComponent(token)}` },
+        dedupeKey: `cart_recovery:${cart.id}`,
+      });
+      result.queued++;
+    } catch (error) {
+      await db.update(carts).set({ recovery_email_sent_at: null }).where(eq(carts.id, cart.id));
+      result.failed.push({ cartId: cart.id, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * The contents of a cart opened from its recovery link, at current catalog
+ * prices. The first visit is recorded; carts already checked out aren't restored.
+ */
+export async function restoreRecoveredCart(cartId: number): Promise<RestoreCartResult> {
+  const [cart] = await db
+    .update(carts)
+    .set({ recovered_at: sql`coalesce(${carts.recovered_at}, now())` })
+    .where(eq(carts.id, cartId))
+    .returning({ id: carts.id, status: carts.status });
+
+  if (!cart) {
+    return { ok: false, reason: 'not_found' };
+  }
+  if (cart.status === 'converted') {
+    return { ok: false, reason: 'converted' };
+  }
+
+  return { ok: true, items: await loadCartItems(db, cart.id) };
+}
+
+/**
+ * Recovery emails sent, links opened and orders that followed
+ */
+export async function getCartRecoveryStats(since?: Date): Promise<CartRecoveryStats> {
+  const [row] = await db
+    .select({
+      emailed: sql<number>`count(*)::int`,
+      recovered: sql<number>`count(${carts.recovered_at})::int`,
+      converted: sql<number>`count(*) filter (where ${carts.recovered_at} is not null and ${carts.converted_order_id} is not null)::int`,
+      revenue: sql<string>`coalesce(sum(${orders.total_amount}) filter (where ${carts.recovered_at} is not null), 0)::text`,
+    })
+    .from(carts)
+    .leftJoin(orders, eq(orders.id, carts.converted_order_id))
+    .where(and(
+      isNotNull(carts.recovery_email_sent_at),
+      since ? gte(carts.recovery_email_sent_at, since) : undefined
+    ));
+
+  return {
+    emailed: row?.emailed ?? 0,
+    recovered: row?.recovered ?? 0,
+    converted: row?.converted ?? 0,
+    revenue: PriceUtils.formatPrice(row?.revenue ?? '0'),
+  };
+}
@@ -1,12 +1,29 @@
+// carts.status: `merged` once a guest cart was folded into a customer's cart
+// at sign-in, `converted` once it was checked out
+export const CART_STATUSES = ['active', 'merged', 'converted'] as const;
+export type CartStatus = (typeof CART_STATUSES)[number];
+
 export interface CartItem {
   id: string;
-  productId: string;
+  productId: number;
+  variantId: number;
+  // The product name with the variant's options
   name: string;
   price: string | number; // Allow both string and number types
   quantity: number;
   imageUrl: string;
   slug: string;
   isDeleting?: boolean;
+  // From the last revalidation against the catalog
+  stockQuantity?: number;
+  previousPrice?: string | number;
+}
+
+// Told to the shopper after revalidation changed their cart
+export interface CartNotice {
+  variantId: number;
+  kind: 'removed' | 'quantity_reduced' | 'price_changed';
+  message: string;
 }
 
 export interface CartState {
@@ -17,24 +34,52 @@ export interface CartState {
   // Undo functionality properties
   lastDeletedItem: CartItem | null;
   canUndo: boolean;
+  // False until the saved cart has been read on this page load
+  isLoaded: boolean;
+  notices: CartNotice[];
+  // The discount code as last checked against this cart
+  promotion: PromotionSummary | null;
+  // Why a code was taken off the cart after it changed
+  promotionError: string | null;
+  // Where the shopper last said the order ships to; tax depends on it
+  taxAddress: TaxAddress | null;
+  // Tax on the cart for taxAddress, null until an address is known
+  tax: TaxSummary | null;
+  // True while the tax is being worked out again after a change
+  isTaxPending: boolean;
 }
 
 export interface CartActions {
-  addItem: (product: Product, quantity: number) => void;
+  addItem: (product: Product, variant: ProductVariant, quantity: number) => void;
   markItemDeleting: (itemId: string) => void;
   completeItemDeletion: (itemId: string) => void;
   removeItem: (itemId: string) => void;
   updateQuantity: (itemId: string, quantity: number) => void;
   clearCart: () => void;
   toggleCart: () => void;
-  buyNow: (product: Product, quantity: number) => void;
+  buyNow: (product: Product, variant: ProductVariant, quantity: number) => void;
   // Undo functionality methods
   undoDelete: () => void;
   clearUndo: () => void;
+  // Reloads the cart from the server, e.g. after signing in merged carts
+  syncCart: () => void;
+  // Replaces the cart with one reopened from a recovery email
+  restoreCart: (items: ServerCartItem[]) => Promise<void>;
+  // Updates prices and caps quantities to stock, dropping what can't be bought
+  revalidateCart: () => Promise<void>;
+  dismissNotices: () => void;
+  // Resolves to an error message when the code doesn't apply
+  applyPromotionCode: (code: string, email?: string) => Promise<string | null>;
+  removePromotionCode: () => void;
+  // Checkout sets this once the shipping address is complete enough to tax
+  setTaxAddress: (address: TaxAddress | null) => void;
 }
 
 export interface CartContextType extends CartState, CartActions {}
 
 // Import Product type from existing types
-import type { Product } from './types';
-export type { Product } from './types';
\ No newline at end of file
+import type { Product, ProductVariant } from './types';
+export type { Product, ProductVariant } from './types';import type { ServerCartItem } from './carts';
+import type { PromotionSummary } from './promotions';
+import type { TaxSummary } from './tax';
+import type { TaxAddress } from './tax-rates';
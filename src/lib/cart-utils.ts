@@ -1,4 +1,5 @@
-import type { CartItem } from './cart-types';
+import type { CartItem, CartNotice } from './cart-types';
+import type { CartItemCheck, ServerCartItem } from './carts';
 import { PriceUtils } from './price-utils';
 
 export function calculateCartTotal(items: CartItem[]): number {
@@ -11,6 +12,11 @@ export function calculateCartTotal(items: CartItem[]): number {
   return total.numeric;
 }
 
+// What the shopper pays: the subtotal less any discount, plus tax and shipping, to the cent
+export function calculateOrderTotal(subtotal: number, discount = 0, tax = 0, shipping = 0): number {
+  return Math.round((Math.max(subtotal - discount, 0) + tax + shipping) * 100) / 100;
+}
+
 export function calculateItemCount(items: CartItem[]): number {
   return items.reduce((count, item) => count + item.quantity, 0);
 }
@@ -19,16 +25,16 @@ export function formatCartBadgeCount(count: number): string {
   return count > 9 ? '9+' : count.toString();
 }
 
-export function generateCartItemId(productId: string): string {
-  return `cart-item-${productId}-${Date.now()}`;
+export function generateCartItemId(variantId: number): string {
+  return `cart-item-${variantId}-${Date.now()}`;
 }
 
 export function validateQuantity(quantity: number): boolean {
   return Number.isInteger(quantity) && quantity >= 1 && quantity <= 99;
 }
 
-export function findCartItem(items: CartItem[], productId: string): CartItem | undefined {
-  return items.find(item => item.productId === productId);
+export function findCartItem(items: CartItem[], variantId: number): CartItem | undefined {
+  return items.find(item => item.variantId === variantId);
 }
 
 export function updateCartItemQuantity(items: CartItem[], itemId: string, quantity: number): CartItem[] {
@@ -39,4 +45,94 @@ export function updateCartItemQuantity(items: CartItem[], itemId: string, quanti
 
 export function removeCartItem(items: CartItem[], itemId: string): CartItem[] {
   return items.filter(item => item.id !== itemId);
-}
\ No newline at end of file
+}
+// What the server stores of a cart, to tell whether local changes still need syncing
+export function cartSignature(items: CartItem[]): string {
+  return items
+    .filter(item => !item.isDeleting)
+    .map(item => `${item.variantId}:${item.quantity}`)
+    .sort()
+    .join(',');
+}
+
+// Server cart lines as cart items, keeping the ids of items already shown
+export function cartItemsFromServer(serverItems: ServerCartItem[], current: CartItem[]): CartItem[] {
+  return serverItems.map(item => ({
+    id: findCartItem(current, item.variantId)?.id ?? generateCartItemId(item.variantId),
+    productId: item.productId,
+    variantId: item.variantId,
+    name: item.name,
+    price: item.price,
+    quantity: item.quantity,
+    imageUrl: item.imageUrl,
+    slug: item.slug,
+    isDeleting: false,
+    stockQuantity: item.stockQuantity,
+  }));
+}
+
+/**
+ * Applies revalidation results: current prices, quantities capped to stock and
+ * lines that can't be bought removed. Items without a check are left alone.
+ */
+export function applyCartItemChecks(
+  items: CartItem[],
+  checks: CartItemCheck[]
+): { items: CartItem[]; notices: CartNotice[] } {
+  const byVariant = new Map(checks.map(check => [check.variantId, check]));
+  const notices: CartNotice[] = [];
+  const kept: CartItem[] = [];
+
+  for (const item of items) {
+    const check = byVariant.get(item.variantId);
+    if (!check || item.isDeleting) {
+      kept.push(item);
+      continue;
+    }
+
+    if (!check.available || check.price === null) {
+      notices.push({
+        variantId: item.variantId,
+        kind: 'removed',
+        message: `${item.name} is no longer available and was removed from your cart.`,
+      });
+      continue;
+    }
+
+    if (check.quantity === 0) {
+      notices.push({
+        variantId: item.variantId,
+        kind: 'removed',
+        message: `${item.name} is out of stock and was removed from your cart.`,
+      });
+      continue;
+    }
+
+    if (check.quantity < item.quantity) {
+      notices.push({
+        variantId: item.variantId,
+        kind: 'quantity_reduced',
+        message: `Only ${check.quantity} of ${item.name} left in stock, so we lowered your quantity.`,
+      });
+    }
+
+    if (check.previousPrice !== null) {
+      notices.push({
+        variantId: item.variantId,
+        kind: 'price_changed',
+        message: `The price of ${item.name} changed from ${PriceUtils.formatPrice(check.previousPrice)} to ${PriceUtils.formatPrice(check.price)}.`,
+      });
+    }
+
+    kept.push({
+      ...item,
+      price: check.price,
+      quantity: Math.min(item.quantity, check.quantity),
+      stockQuantity: check.stockQuantity,
+      // Stays flagged until the shopper has seen a revalidation at the new price
+      previousPrice: check.previousPrice ?? undefined,
+    });
+  }
+
+  return { items: kept, notices };
+}
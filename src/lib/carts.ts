@@ -0,0 +1,402 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createHash, randomBytes } from 'crypto';
+import { and, asc, eq, inArray, isNotNull, isNull, notInArray, or, sql } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { cartItems, carts, products, productVariants } from '@/lib/db/schema';
+import {
+  getReservedQuantities,
+  loadCatalogVariants,
+  normalizeLineItems,
+  toCents,
+  type CatalogVariantRow,
+  type DbExecutor,
+  type RequestedLineItem,
+} from '@/lib/inventory';
+import { variantDisplayName } from '@/lib/variant-options';
+
+export const CART_TOKEN_COOKIE = 'cart_token';
+export const CART_TOKEN_TTL_SECONDS = 90 * 24 * 60 * 60;
+export const MAX_CART_LINES = 50;
+export const MAX_CART_LINE_QUANTITY = 99; // Same cap as the cart UI
+
+// A cart line with the variant as it is now, not as it was when added
+export interface ServerCartItem {
+  productId: number;
+  variantId: number;
+  name: string; // Product name with the variant's options
+  slug: string;
+  price: string;
+  imageUrl: string;
+  quantity: number;
+  stockQuantity: number;
+}
+
+export interface ServerCart {
+  items: ServerCartItem[];
+  updatedAt: string | null;
+}
+
+// Whose cart a request is about: the signed-in customer's, or else the
+// guest cart named by the cart_token cookie
+export interface CartIdentity {
+  customerId: number | null;
+  token: string | null;
+}
+
+// One cart line checked against the live catalog
+export interface CartItemCheck {
+  variantId: number;
+  // Null when the variant no longer exists
+  productId: number | null;
+  name: string | null;
+  // False when the variant or its product no longer exists or was deactivated
+  available: boolean;
+  price: string | null;
+  // The price the shopper last saw, when it differs from `price`
+  previousPrice: string | null;
+  // Stock not already held by open checkouts
+  stockQuantity: number;
+  requestedQuantity: number;
+  // The requested quantity capped to stock; 0 when it can't be bought at all
+  quantity: number;
+}
+
+export type ParsedCartLines =
+  | { ok: true; lines: RequestedLineItem[] }
+  | { ok: false; error: string };
+
+type CartRow = typeof carts.$inferSelect;
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Validates the `items` of a cart write: variant ids with quantities, at most
+ * MAX_CART_LINES variants. Repeated variants are added together.
+ */
+export function parseCartLines(input: unknown): ParsedCartLines {
+  if (!Array.isArray(input)) {
+    return { ok: false, error: 'items must be an array' };
+  }
+
+  const { items, issues } = normalizeLineItems(
+    input.map(item => ({ id: item?.variantId, quantity: item?.quantity }))
+  );
+
+  if (issues.length > 0) {
+    return { ok: false, error: 'Each item needs a variant id and a positive whole quantity' };
+  }
+  if (items.length > MAX_CART_LINES) {
+    return { ok: false, error: `A cart can hold at most ${MAX_CART_LINES} different items` };
+  }
+
+  return {
+    ok: true,
+    lines: items.map(item => ({ ...item, quantity: Math.min(item.quantity, MAX_CART_LINE_QUANTITY) })),
+  };
+}
+
+async function findActiveCart(executor: DbExecutor, identity: CartIdentity, lock = false): Promise<CartRow | null> {
+  let condition;
+  if (identity.customerId !== null) {
+    condition = and(eq(carts.customer_id, identity.customerId), eq(carts.status, 'active'));
+  } else if (identity.token) {
+    // A guest token never reaches a cart that has since been linked to an account
+    condition = and(eq(carts.token_hash, hashToken(identity.token)), eq(carts.status, 'active'), isNull(carts.customer_id));
+  } else {
+    return null;
+  }
+
+  const query = executor.select().from(carts).where(condition).limit(1);
+  const [cart] = lock ? await query.for('update') : await query;
+  return cart || null;
+}
+
+export async function loadCartItems(executor: DbExecutor, cartId: number): Promise<ServerCartItem[]> {
+  const rows = await executor
+    .select({
+      productId: products.id,
+      variantId: productVariants.id,
+      name: products.name,
+      options: productVariants.options,
+      slug: products.slug,
+      price: productVariants.price,
+      images: products.images,
+      variantImage: productVariants.image_url,
+      quantity: cartItems.quantity,
+      stockQuantity: productVariants.stock_quantity,
+    })
+    .from(cartItems)
+    .innerJoin(productVariants, eq(productVariants.id, cartItems.variant_id))
+    .innerJoin(products, eq(products.id, productVariants.product_id))
+    .where(and(eq(cartItems.cart_id, cartId), eq(products.is_active, true), eq(productVariants.is_active, true)))
+    .orderBy(asc(cartItems.id));
+
+  return rows.map(({ images, variantImage, options, name, ...row }) => ({
+    ...row,
+    name: variantDisplayName(name, options),
+    imageUrl: variantImage || images[0] || '',
+  }));
+}
+
+export async function getCart(identity: CartIdentity): Promise<ServerCart> {
+  const cart = await findActiveCart(db, identity);
+  if (!cart) {
+    return { items: [], updatedAt: null };
+  }
+
+  return { items: await loadCartItems(db, cart.id), updatedAt: cart.updated_at.toISOString() };
+}
+
+async function createCart(executor: DbExecutor, customerId: number | null): Promise<{ cart: CartRow | null; token: string }> {
+  const token = randomBytes(32).toString('base64url');
+  const [cart] = await executor
+    .insert(carts)
+    .values({ token_hash: hashToken(token), customer_id: customerId })
+    // A concurrent request may have just created this customer's cart
+    .onConflictDoNothing()
+    .returning();
+
+  return { cart: cart || null, token };
+}
+
+/**
+ * Makes the cart hold exactly `lines`, creating it on the first write. Unknown
+ * variants are dropped. `token` is set when a new guest cart was created and
+ * its cookie needs setting.
+ */
+export async function replaceCart(
+  identity: CartIdentity,
+  lines: RequestedLineItem[]
+): Promise<{ cart: ServerCart; token: string | null }> {
+  return db.transaction(async (tx) => {
+    let cart = await findActiveCart(tx, identity, true);
+    let token: string | null = null;
+
+    if (!cart) {
+      if (lines.length === 0) {
+        return { cart: { items: [], updatedAt: null }, token: null };
+      }
+
+      const created = await createCart(tx, identity.customerId);
+      cart = created.cart ?? await findActiveCart(tx, identity, true);
+      if (!cart) {
+        throw new Error('Failed to create cart');
+      }
+      if (identity.customerId === null) {
+        token = created.token;
+      }
+    }
+
+    const cartId = cart.id;
+    const known = lines.length > 0
+      ? await tx
+          .select({ id: productVariants.id, productId: productVariants.product_id })
+          .from(productVariants)
+          .where(inArray(productVariants.id, lines.map(line => line.variantId)))
+      : [];
+    const productIds = new Map(known.map(variant => [variant.id, variant.productId]));
+    const kept = lines.filter(line => productIds.has(line.variantId));
+
+    await tx
+      .delete(cartItems)
+      .where(kept.length > 0
+        ? and(eq(cartItems.cart_id, cartId), notInArray(cartItems.variant_id, kept.map(line => line.variantId)))
+        : eq(cartItems.cart_id, cartId));
+
+    if (kept.length > 0) {
+      await tx
+        .insert(cartItems)
+        .values(kept.map(line => ({
+          cart_id: cartId,
+          product_id: productIds.get(line.variantId)!,
+          variant_id: line.variantId,
+          quantity: line.quantity,
+        })))
+        .onConflictDoUpdate({
+          target: [cartItems.cart_id, cartItems.variant_id],
+          set: { quantity: sql`excluded.quantity`, updated_at: new Date() },
+        });
+    }
+
+    const [updated] = await tx
+      .update(carts)
+      .set({ updated_at: new Date() })
+      .where(eq(carts.id, cartId))
+      .returning();
+
+    return {
+      cart: { items: await loadCartItems(tx, cartId), updatedAt: updated.updated_at.toISOString() },
+      token,
+    };
+  });
+}
+
+/**
+ * Folds the guest cart named by `token` into the customer's cart at sign-in.
+ * Quantities of variants in both are added up, to the per-line cap. Without a
+ * customer cart the guest cart simply becomes theirs.
+ */
+export async function mergeGuestCart(token: string | null, customerId: number): Promise<void> {
+  if (!token) {
+    return;
+  }
+
+  await db.transaction(async (tx) => {
+    const guest = await findActiveCart(tx, { customerId: null, token }, true);
+    if (!guest) {
+      return;
+    }
+
+    const existing = await findActiveCart(tx, { customerId, token: null }, true);
+    if (!existing) {
+      await tx
+        .update(carts)
+        .set({ customer_id: customerId, updated_at: new Date() })
+        .where(eq(carts.id, guest.id));
+      return;
+    }
+
+    const guestItems = await tx
+      .select({ product_id: cartItems.product_id, variant_id: cartItems.variant_id, quantity: cartItems.quantity })
+      .from(cartItems)
+      .where(eq(cartItems.cart_id, guest.id));
+
+    if (guestItems.length > 0) {
+      await tx
+        .insert(cartItems)
+        .values(guestItems.map(item => ({ cart_id: existing.id, ...item })))
+        .onConflictDoUpdate({
+          target: [cartItems.cart_id, cartItems.variant_id],
+          set: {
+            quantity: sql`least(${cartItems.quantity} + excluded.quantity, ${MAX_CART_LINE_QUANTITY})`,
+            updated_at: new Date(),
+          },
+        });
+    }
+
+    await tx.update(carts).set({ status: 'merged', updated_at: new Date() }).where(eq(carts.id, guest.id));
+    await tx.update(carts).set({ updated_at: new Date() }).where(eq(carts.id, existing.id));
+  });
+}
+
+/**
+ * Remembers the email typed at checkout on the shopper's cart, so the cart can
+ * be followed up if it is abandoned. False when there is no cart to record it on.
+ */
+export async function recordCheckoutEmail(identity: CartIdentity, email: string): Promise<boolean> {
+  const cart = await findActiveCart(db, identity);
+  if (!cart) {
+    return false;
+  }
+
+  const now = new Date();
+  await db
+    .update(carts)
+    .set({ email, email_captured_at: now, updated_at: now })
+    .where(eq(carts.id, cart.id));
+  return true;
+}
+
+/**
+ * Closes the carts an order came from: the shopper's own cart, and carts sent
+ * a recovery email to the order's address, wherever they were opened. Returns
+ * how many carts were converted.
+ */
+export async function markCartsConverted(
+  identity: CartIdentity,
+  order: { id: number; email: string | null }
+): Promise<number> {
+  const own = await findActiveCart(db, identity);
+  const emailed = order.email
+    ? and(isNotNull(carts.recovery_email_sent_at), sql`lower(${carts.email}) = ${order.email.trim().toLowerCase()}`)
+    : undefined;
+
+  if (!own && !emailed) {
+    return 0;
+  }
+
+  const now = new Date();
+  const converted = await db
+    .update(carts)
+    .set({ status: 'converted', converted_order_id: order.id, converted_at: now, updated_at: now })
+    .where(and(eq(carts.status, 'active'), or(own ? eq(carts.id, own.id) : undefined, emailed)))
+    .returning({ id: carts.id });
+  return converted.length;
+}
+
+export function getCartToken(request: NextRequest): string | null {
+  return request.cookies.get(CART_TOKEN_COOKIE)?.value || null;
+}
+
+export function setCartTokenCookie(response: NextResponse, token: string): void {
+  response.cookies.set(CART_TOKEN_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: CART_TOKEN_TTL_SECONDS,
+  });
+}
+
+/**
+ * Compares cart lines with catalog rows: current price, sellable stock and
+ * whether the variant can still be bought. `reserved` holds quantities held
+ * by open checkouts.
+ */
+export function checkCartItems(
+  requested: Array<RequestedLineItem & { price?: string | number | null }>,
+  catalog: CatalogVariantRow[],
+  reserved: Map<number, number> = new Map()
+): CartItemCheck[] {
+  const byId = new Map(catalog.map(variant => [variant.id, variant]));
+
+  return requested.map(({ variantId, quantity, price }) => {
+    const variant = byId.get(variantId);
+    const name = variant ? variantDisplayName(variant.name, variant.options) : null;
+    if (!variant || !variant.is_active) {
+      return {
+        variantId,
+        productId: variant?.product_id ?? null,
+        name,
+        available: false,
+        price: null,
+        previousPrice: null,
+        stockQuantity: 0,
+        requestedQuantity: quantity,
+        quantity: 0,
+      };
+    }
+
+    const stockQuantity = Math.max(0, variant.stock_quantity - (reserved.get(variantId) || 0));
+    const seenPrice = price === undefined || price === null || price === '' ? null : String(price);
+    const priceChanged = seenPrice !== null && Number.isFinite(Number(seenPrice)) && toCents(seenPrice) !== toCents(variant.price);
+
+    return {
+      variantId,
+      productId: variant.product_id,
+      name,
+      available: true,
+      price: variant.price,
+      previousPrice: priceChanged ? seenPrice : null,
+      stockQuantity,
+      requestedQuantity: quantity,
+      quantity: Math.min(quantity, stockQuantity),
+    };
+  });
+}
+
+export async function revalidateCartItems(
+  requested: Array<RequestedLineItem & { price?: string | number | null }>
+): Promise<CartItemCheck[]> {
+  const variantIds = requested.map(item => item.variantId);
+  if (variantIds.length === 0) {
+    return [];
+  }
+
+  const catalog = await loadCatalogVariants(db, variantIds);
+  const reserved = await getReservedQuantities(db, variantIds);
+
+  return checkCartItems(requested, catalog, reserved);
+}
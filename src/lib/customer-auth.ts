@@ -0,0 +1,182 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { createHash, randomBytes } from 'crypto';
+import { and, eq, gt, isNull } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { customers, customerSessions } from '@/lib/db/schema';
+import { hashPassword, verifyPassword } from '@/lib/passwords';
+import { signSessionCookie, verifySessionCookie } from '@/lib/signed-cookies';
+
+export const CUSTOMER_SESSION_COOKIE = 'customer_session';
+export const CUSTOMER_SESSION_TTL_SECONDS = 30 * 24 * 60 * 60;
+export const CUSTOMER_LOGIN_PATH = '/account/login';
+export const MIN_CUSTOMER_PASSWORD_LENGTH = 8;
+
+export interface CustomerSession {
+  sessionId: number;
+  expiresAt: Date;
+  customer: {
+    id: number;
+    email: string;
+    name: string;
+  };
+}
+
+export type RegisterCustomerResult =
+  | { ok: true; customer: CustomerSession['customer'] }
+  | { ok: false; reason: 'email_taken' };
+
+// Compared against when the email is unknown, so both cases take as long
+let dummyPasswordHash: Promise<string> | null = null;
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function getCustomerSessionSecret(): string | null {
+  return process.env.CUSTOMER_SESSION_SECRET || null;
+}
+
+export function normalizeCustomerEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export async function registerCustomer(input: {
+  email: string;
+  name: string;
+  password: string;
+}): Promise<RegisterCustomerResult> {
+  const [customer] = await db
+    .insert(customers)
+    .values({
+      email: normalizeCustomerEmail(input.email),
+      name: input.name.trim(),
+      password_hash: await hashPassword(input.password),
+    })
+    .onConflictDoNothing({ target: customers.email })
+    .returning({ id: customers.id, email: customers.email, name: customers.name });
+
+  return customer ? { ok: true, customer } : { ok: false, reason: 'email_taken' };
+}
+
+/**
+ * Checks an email and password against `customers`
+ */
+export async function authenticateCustomer(
+  email: string,
+  password: string
+): Promise<CustomerSession['customer'] | null> {
+  const [customer] = await db
+    .select()
+    .from(customers)
+    .where(eq(customers.email, normalizeCustomerEmail(email)))
+    .limit(1);
+
+  if (!customer) {
+    dummyPasswordHash ??= hashPassword('not-a-real-password');
+    await verifyPassword(password, await dummyPasswordHash);
+    return null;
+  }
+
+  if (!(await verifyPassword(password, customer.password_hash))) {
+    return null;
+  }
+
+  return { id: customer.id, email: customer.email, name: customer.name };
+}
+
+/**
+ * Starts a session for the customer and returns the signed cookie value
+ */
+export async function createCustomerSession(customerId: number): Promise<{ cookie: string; expiresAt: Date }> {
+  const secret = getCustomerSessionSecret();
+  if (!secret) {
+    throw new Error('CUSTOMER_SESSION_SECRET is not configured');
+  }
+
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + CUSTOMER_SESSION_TTL_SECONDS * 1000);
+
+  await db.insert(customerSessions).values({
+    customer_id: customerId,
+    token_hash: hashToken(token),
+    expires_at: expiresAt,
+  });
+
+  await db
+    .update(customers)
+    .set({ last_login_at: new Date(), updated_at: new Date() })
+    .where(eq(customers.id, customerId));
+
+  return { cookie: await signSessionCookie(token, expiresAt, secret), expiresAt };
+}
+
+async function resolveCustomerSession(cookieValue: string | undefined): Promise<CustomerSession | null> {
+  const token = await verifySessionCookie(cookieValue, getCustomerSessionSecret());
+  if (!token) {
+    return null;
+  }
+
+  const [session] = await db
+    .select({
+      sessionId: customerSessions.id,
+      expiresAt: customerSessions.expires_at,
+      customer: { id: customers.id, email: customers.email, name: customers.name },
+    })
+    .from(customerSessions)
+    .innerJoin(customers, eq(customers.id, customerSessions.customer_id))
+    .where(and(
+      eq(customerSessions.token_hash, hashToken(token)),
+      isNull(customerSessions.revoked_at),
+      gt(customerSessions.expires_at, new Date())
+    ))
+    .limit(1);
+
+  return session || null;
+}
+
+/**
+ * The signed-in customer for an API request, or null
+ */
+export async function getCustomerSession(request: NextRequest): Promise<CustomerSession | null> {
+  return resolveCustomerSession(request.cookies.get(CUSTOMER_SESSION_COOKIE)?.value);
+}
+
+/**
+ * Same as getCustomerSession, for server components and actions
+ */
+export async function getCustomerSessionFromCookies(): Promise<CustomerSession | null> {
+  const store = await cookies();
+  return resolveCustomerSession(store.get(CUSTOMER_SESSION_COOKIE)?.value);
+}
+
+export async function revokeCustomerSession(sessionId: number): Promise<void> {
+  await db
+    .update(customerSessions)
+    .set({ revoked_at: new Date() })
+    .where(eq(customerSessions.id, sessionId));
+}
+
+export function customerUnauthorizedResponse() {
+  return NextResponse.json({ error: 'Please sign in to your account' }, { status: 401 });
+}
+
+export function setCustomerSessionCookie(response: NextResponse, value: string, expiresAt: Date): void {
+  response.cookies.set(CUSTOMER_SESSION_COOKIE, value, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    expires: expiresAt,
+  });
+}
+
+export function clearCustomerSessionCookie(response: NextResponse): void {
+  response.cookies.set(CUSTOMER_SESSION_COOKIE, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: 0,
+  });
+}
@@ -0,0 +1,16 @@
+CREATE TABLE "stock_reservations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"payment_intent_id" varchar(100) NOT NULL,
+	"product_id" integer NOT NULL,
+	"quantity" integer NOT NULL,
+	"unit_price" numeric(10, 2) NOT NULL,
+	"status" varchar(20) DEFAULT 'active' NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "stock_reservations_payment_intent_idx" ON "stock_reservations" USING btree ("payment_intent_id");--> statement-breakpoint
+CREATE INDEX "stock_reservations_product_status_idx" ON "stock_reservations" USING btree ("product_id","status");--> statement-breakpoint
+CREATE INDEX "stock_reservations_expires_at_idx" ON "stock_reservations" USING btree ("expires_at");--> statement-breakpoint
+ALTER TABLE "stock_reservations" ADD CONSTRAINT "stock_reservations_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "products"("id") ON DELETE restrict ON UPDATE no action;
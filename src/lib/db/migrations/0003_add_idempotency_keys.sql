@@ -0,0 +1,16 @@
+CREATE TABLE "idempotency_keys" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"key" varchar(255) NOT NULL,
+	"scope" varchar(100) NOT NULL,
+	"request_hash" varchar(64) NOT NULL,
+	"status" varchar(20) DEFAULT 'in_progress' NOT NULL,
+	"response_status" integer,
+	"response_body" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "idempotency_keys_key_scope_idx" ON "idempotency_keys" USING btree ("key","scope");--> statement-breakpoint
+CREATE INDEX "idempotency_keys_created_at_idx" ON "idempotency_keys" USING btree ("created_at");--> statement-breakpoint
+DROP INDEX "orders_payment_intent_idx";--> statement-breakpoint
+CREATE UNIQUE INDEX "orders_payment_intent_idx" ON "orders" USING btree ("payment_intent_id");
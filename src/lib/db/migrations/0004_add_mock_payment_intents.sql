@@ -0,0 +1,15 @@
+CREATE TABLE "mock_payment_intents" (
+	"id" varchar(100) PRIMARY KEY NOT NULL,
+	"client_secret" varchar(255) NOT NULL,
+	"amount" integer NOT NULL,
+	"amount_refunded" integer DEFAULT 0 NOT NULL,
+	"currency" varchar(3) DEFAULT 'usd' NOT NULL,
+	"status" varchar(50) DEFAULT 'requires_payment_method' NOT NULL,
+	"payment_method" varchar(100),
+	"last_error_code" varchar(100),
+	"metadata" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "mock_payment_intents_status_idx" ON "mock_payment_intents" USING btree ("status");
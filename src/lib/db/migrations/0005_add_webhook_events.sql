@@ -0,0 +1,11 @@
+CREATE TABLE "webhook_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"event_id" varchar(255) NOT NULL,
+	"type" varchar(100) NOT NULL,
+	"payment_intent_id" varchar(100),
+	"payload" jsonb NOT NULL,
+	"processed_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "webhook_events_event_id_idx" ON "webhook_events" USING btree ("event_id");--> statement-breakpoint
+CREATE INDEX "webhook_events_payment_intent_idx" ON "webhook_events" USING btree ("payment_intent_id");
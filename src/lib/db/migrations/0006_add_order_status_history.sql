@@ -0,0 +1,18 @@
+UPDATE "orders" SET "status" = 'paid' WHERE "status" = 'completed';--> statement-breakpoint
+UPDATE "orders" SET "status" = 'pending' WHERE "status" = 'processing';--> statement-breakpoint
+UPDATE "orders" SET "status" = 'cancelled' WHERE "status" = 'failed';--> statement-breakpoint
+CREATE TABLE "order_status_history" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"order_id" integer NOT NULL,
+	"from_status" varchar(50),
+	"to_status" varchar(50) NOT NULL,
+	"actor" varchar(255) NOT NULL,
+	"reason" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "order_status_history_order_id_idx" ON "order_status_history" USING btree ("order_id");--> statement-breakpoint
+CREATE INDEX "order_status_history_created_at_idx" ON "order_status_history" USING btree ("created_at");--> statement-breakpoint
+ALTER TABLE "order_status_history" ADD CONSTRAINT "order_status_history_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "orders"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+INSERT INTO "order_status_history" ("order_id", "from_status", "to_status", "actor", "reason", "created_at")
+SELECT "id", NULL, "status", 'system', 'Backfilled from existing order', "created_at" FROM "orders";
@@ -0,0 +1,3 @@
+ALTER TABLE "admin_users" ADD COLUMN "role" varchar(50) DEFAULT 'read_only' NOT NULL;--> statement-breakpoint
+-- Admins created before roles existed had full access; keep it that way
+UPDATE "admin_users" SET "role" = 'owner';
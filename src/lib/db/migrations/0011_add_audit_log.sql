@@ -0,0 +1,17 @@
+CREATE TABLE "audit_log" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"actor" varchar(255) NOT NULL,
+	"action" varchar(100) NOT NULL,
+	"entity_type" varchar(50) NOT NULL,
+	"entity_id" varchar(255) NOT NULL,
+	"changes" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"ip_address" varchar(100),
+	"user_agent" text,
+	"request_method" varchar(10),
+	"request_path" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "audit_log_entity_idx" ON "audit_log" USING btree ("entity_type","entity_id");--> statement-breakpoint
+CREATE INDEX "audit_log_actor_idx" ON "audit_log" USING btree ("actor");--> statement-breakpoint
+CREATE INDEX "audit_log_created_at_idx" ON "audit_log" USING btree ("created_at");
@@ -0,0 +1,25 @@
+ALTER TABLE "orders" RENAME COLUMN "shipping_address" TO "shipping_line1";--> statement-breakpoint
+ALTER TABLE "orders" RENAME COLUMN "shipping_zip" TO "shipping_postal_code";--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "shipping_line2" text;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "shipping_region" varchar(100);--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "shipping_country" varchar(2) DEFAULT 'US' NOT NULL;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "shipping_phone" varchar(30);--> statement-breakpoint
+CREATE TABLE "customer_addresses" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"customer_id" integer NOT NULL,
+	"full_name" varchar(255) NOT NULL,
+	"line1" text NOT NULL,
+	"line2" text,
+	"city" varchar(100) NOT NULL,
+	"region" varchar(100),
+	"postal_code" varchar(20) NOT NULL,
+	"country" varchar(2) NOT NULL,
+	"phone" varchar(30),
+	"is_default" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "customer_addresses_customer_id_idx" ON "customer_addresses" USING btree ("customer_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "customer_addresses_default_idx" ON "customer_addresses" USING btree ("customer_id") WHERE "customer_addresses"."is_default";--> statement-breakpoint
+ALTER TABLE "customer_addresses" ADD CONSTRAINT "customer_addresses_customer_id_customers_id_fk" FOREIGN KEY ("customer_id") REFERENCES "customers"("id") ON DELETE cascade ON UPDATE no action;
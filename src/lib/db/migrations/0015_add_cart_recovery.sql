@@ -0,0 +1,8 @@
+ALTER TABLE "carts" ADD COLUMN "email" varchar(255);--> statement-breakpoint
+ALTER TABLE "carts" ADD COLUMN "email_captured_at" timestamp;--> statement-breakpoint
+ALTER TABLE "carts" ADD COLUMN "recovery_email_sent_at" timestamp;--> statement-breakpoint
+ALTER TABLE "carts" ADD COLUMN "recovered_at" timestamp;--> statement-breakpoint
+ALTER TABLE "carts" ADD COLUMN "converted_order_id" integer;--> statement-breakpoint
+ALTER TABLE "carts" ADD COLUMN "converted_at" timestamp;--> statement-breakpoint
+CREATE INDEX "carts_email_lower_idx" ON "carts" USING btree (lower("email"));--> statement-breakpoint
+ALTER TABLE "carts" ADD CONSTRAINT "carts_converted_order_id_orders_id_fk" FOREIGN KEY ("converted_order_id") REFERENCES "orders"("id") ON DELETE set null ON UPDATE no action;
@@ -0,0 +1,40 @@
+CREATE TABLE "promotions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"code" varchar(50) NOT NULL,
+	"description" text,
+	"type" varchar(20) NOT NULL,
+	"value" numeric(10, 2) DEFAULT '0' NOT NULL,
+	"min_subtotal" numeric(10, 2),
+	"product_ids" integer[],
+	"starts_at" timestamp,
+	"ends_at" timestamp,
+	"usage_limit" integer,
+	"usage_count" integer DEFAULT 0 NOT NULL,
+	"per_customer_limit" integer,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "promotion_redemptions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"promotion_id" integer NOT NULL,
+	"order_id" integer NOT NULL,
+	"customer_id" integer,
+	"email" varchar(255),
+	"discount_amount" numeric(10, 2) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "discount_amount" numeric(10, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "promotion_id" integer;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "promotion_code" varchar(50);--> statement-breakpoint
+ALTER TABLE "order_items" ADD COLUMN "discount_amount" numeric(10, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX "promotions_code_idx" ON "promotions" USING btree ("code");--> statement-breakpoint
+CREATE UNIQUE INDEX "promotion_redemptions_order_id_idx" ON "promotion_redemptions" USING btree ("order_id");--> statement-breakpoint
+CREATE INDEX "promotion_redemptions_promotion_customer_idx" ON "promotion_redemptions" USING btree ("promotion_id","customer_id");--> statement-breakpoint
+CREATE INDEX "promotion_redemptions_promotion_email_idx" ON "promotion_redemptions" USING btree ("promotion_id","email");--> statement-breakpoint
+CREATE INDEX "orders_promotion_id_idx" ON "orders" USING btree ("promotion_id");--> statement-breakpoint
+ALTER TABLE "orders" ADD CONSTRAINT "orders_promotion_id_promotions_id_fk" FOREIGN KEY ("promotion_id") REFERENCES "promotions"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "promotion_redemptions" ADD CONSTRAINT "promotion_redemptions_promotion_id_promotions_id_fk" FOREIGN KEY ("promotion_id") REFERENCES "promotions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "promotion_redemptions" ADD CONSTRAINT "promotion_redemptions_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "orders"("id") ON DELETE cascade ON UPDATE no action;
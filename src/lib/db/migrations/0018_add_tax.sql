@@ -0,0 +1,4 @@
+ALTER TABLE "products" ADD COLUMN "tax_category" varchar(20) DEFAULT 'standard' NOT NULL;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "tax_amount" numeric(10, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "order_items" ADD COLUMN "tax_amount" numeric(10, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "order_items" ADD COLUMN "tax_rate" numeric(6, 3) DEFAULT '0' NOT NULL;
@@ -0,0 +1,3 @@
+ALTER TABLE "products" ADD COLUMN "weight_grams" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "shipping_method" varchar(20) DEFAULT 'standard' NOT NULL;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "shipping_amount" numeric(10, 2) DEFAULT '0' NOT NULL;
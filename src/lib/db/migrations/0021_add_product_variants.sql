@@ -0,0 +1,38 @@
+CREATE TABLE "product_variants" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"product_id" integer NOT NULL,
+	"sku" varchar(64) NOT NULL,
+	"options" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"price" numeric(10, 2) NOT NULL,
+	"stock_quantity" integer DEFAULT 0 NOT NULL,
+	"image_url" text,
+	"sort_order" integer DEFAULT 0 NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "product_variants_sku_idx" ON "product_variants" USING btree ("sku");--> statement-breakpoint
+CREATE INDEX "product_variants_product_id_idx" ON "product_variants" USING btree ("product_id");--> statement-breakpoint
+CREATE INDEX "product_variants_stock_idx" ON "product_variants" USING btree ("stock_quantity");--> statement-breakpoint
+ALTER TABLE "product_variants" ADD CONSTRAINT "product_variants_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "products"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+-- Every existing product becomes a product with a single, option-less variant
+INSERT INTO "product_variants" ("product_id", "sku", "price", "stock_quantity")
+SELECT "id", left(upper("slug"), 64), "price", "stock_quantity" FROM "products";--> statement-breakpoint
+ALTER TABLE "cart_items" ADD COLUMN "variant_id" integer;--> statement-breakpoint
+UPDATE "cart_items" SET "variant_id" = "product_variants"."id" FROM "product_variants" WHERE "product_variants"."product_id" = "cart_items"."product_id";--> statement-breakpoint
+ALTER TABLE "cart_items" ALTER COLUMN "variant_id" SET NOT NULL;--> statement-breakpoint
+DROP INDEX "cart_items_cart_product_idx";--> statement-breakpoint
+CREATE UNIQUE INDEX "cart_items_cart_variant_idx" ON "cart_items" USING btree ("cart_id","variant_id");--> statement-breakpoint
+CREATE INDEX "cart_items_product_id_idx" ON "cart_items" USING btree ("product_id");--> statement-breakpoint
+ALTER TABLE "cart_items" ADD CONSTRAINT "cart_items_variant_id_product_variants_id_fk" FOREIGN KEY ("variant_id") REFERENCES "product_variants"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "stock_reservations" ADD COLUMN "variant_id" integer;--> statement-breakpoint
+UPDATE "stock_reservations" SET "variant_id" = "product_variants"."id" FROM "product_variants" WHERE "product_variants"."product_id" = "stock_reservations"."product_id";--> statement-breakpoint
+ALTER TABLE "stock_reservations" ALTER COLUMN "variant_id" SET NOT NULL;--> statement-breakpoint
+CREATE INDEX "stock_reservations_variant_status_idx" ON "stock_reservations" USING btree ("variant_id","status");--> statement-breakpoint
+ALTER TABLE "stock_reservations" ADD CONSTRAINT "stock_reservations_variant_id_product_variants_id_fk" FOREIGN KEY ("variant_id") REFERENCES "product_variants"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "order_items" ADD COLUMN "variant_id" integer;--> statement-breakpoint
+ALTER TABLE "order_items" ADD COLUMN "sku" varchar(64);--> statement-breakpoint
+UPDATE "order_items" SET "variant_id" = "product_variants"."id", "sku" = "product_variants"."sku" FROM "product_variants" WHERE "product_variants"."product_id" = "order_items"."product_id";--> statement-breakpoint
+CREATE INDEX "order_items_variant_id_idx" ON "order_items" USING btree ("variant_id");--> statement-breakpoint
+ALTER TABLE "order_items" ADD CONSTRAINT "order_items_variant_id_product_variants_id_fk" FOREIGN KEY ("variant_id") REFERENCES "product_variants"("id") ON DELETE restrict ON UPDATE no action;
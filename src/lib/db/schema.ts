@@ -1,5 +1,15 @@
-import { pgTable, serial, varchar, text, decimal, integer, timestamp, boolean, index, uniqueIndex } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { pgTable, serial, varchar, text, decimal, integer, timestamp, boolean, jsonb, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { relations, sql } from 'drizzle-orm';
+import { ORDER_STATUSES } from '../order-status';
+import { ADMIN_ROLES } from '../admin-permissions';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES, type AuditChanges } from '../audit-actions';
+import { CART_STATUSES } from '../cart-types';
+import { EMAIL_OUTBOX_STATUSES, EMAIL_TEMPLATES } from '../mail/types';
+import { PROMOTION_TYPES } from '../promotion-rules';
+import { TAX_CATEGORIES } from '../tax-rates';
+import { SHIPPING_METHODS } from '../shipping-rates';
+import { SHIPMENT_CARRIERS, SHIPMENT_STATUSES } from '../shipment-rules';
+import type { VariantOptions } from '../variant-options';
 
 // Products table
 export const products = pgTable('products', {
@@ -8,10 +18,12 @@ export const products = pgTable('products', {
   slug: varchar('slug', { length: 255 }).notNull(),
   description: text('description').notNull(),
   details: text('details').notNull(),
-  price: decimal('price', { precision: 10, scale: 2 }).notNull(),
+  price: decimal('price', { precision: 10, scale: 2 }).notNull(), // Lowest active variant price, for listings
   images: text('images').array().notNull().default([]),
   ingredients: text('ingredients').array().notNull().default([]),
-  stock_quantity: integer('stock_quantity').notNull().default(0),
+  stock_quantity: integer('stock_quantity').notNull().default(0), // Sum of the variants' stock, for listings
+  tax_category: varchar('tax_category', { length: 20, enum: TAX_CATEGORIES }).notNull().default('standard'), // Picks the rate from the tax tables
+  weight_grams: integer('weight_grams').notNull().default(0), // Shipped weight of one unit, for weight-based shipping
   is_active: boolean('is_active').notNull().default(true),
   created_at: timestamp('created_at').notNull().defaultNow(),
   updated_at: timestamp('updated_at').notNull().defaultNow(),
@@ -23,6 +35,25 @@ export const products = pgTable('products', {
   activeIdx: index('products_active_idx').on(table.is_active),
 }));
 
+// Product variants table (what is actually sold: every product has at least one)
+export const productVariants = pgTable('product_variants', {
+  id: serial('id').primaryKey(),
+  product_id: integer('product_id').notNull(),
+  sku: varchar('sku', { length: 64 }).notNull(),
+  options: jsonb('options').$type<VariantOptions>().notNull().default({}), // e.g. { flavor: 'Vanilla', size: '2 lb' }
+  price: decimal('price', { precision: 10, scale: 2 }).notNull(),
+  stock_quantity: integer('stock_quantity').notNull().default(0),
+  image_url: text('image_url'), // Shown instead of the product's first image when picked
+  sort_order: integer('sort_order').notNull().default(0),
+  is_active: boolean('is_active').notNull().default(true),
+  created_at: timestamp('created_at').notNull().defaultNow(),
+  updated_at: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  skuIdx: uniqueIndex('product_variants_sku_idx').on(table.sku),
+  productIdx: index('product_variants_product_id_idx').on(table.product_id),
+  stockIdx: index('product_variants_stock_idx').on(table.stock_quantity),
+}));
+
 // Reviews table
 export const reviews = pgTable('reviews', {
   id: serial('id').primaryKey(),
@@ -66,24 +97,39 @@ export const orders = pgTable('orders', {
   id: serial('id').primaryKey(),
   order_id: varchar('order_id', { length: 100 }).notNull(),
   payment_intent_id: varchar('payment_intent_id', { length: 100 }).notNull(),
-  status: varchar('status', { length: 50 }).notNull().default('pending'), // pending, processing, completed, cancelled, failed
-  total_amount: decimal('total_amount', { precision: 10, scale: 2 }).notNull(),
+  status: varchar('status', { length: 50, enum: ORDER_STATUSES }).notNull().default('pending'), // See ORDER_STATUS_TRANSITIONS for the lifecycle
+  total_amount: decimal('total_amount', { precision: 10, scale: 2 }).notNull(), // What was charged, after discount and with tax and shipping
+  discount_amount: decimal('discount_amount', { precision: 10, scale: 2 }).notNull().default('0'), // Sum of the line discounts
+  tax_amount: decimal('tax_amount', { precision: 10, scale: 2 }).notNull().default('0'), // Sum of the line taxes
+  shipping_method: varchar('shipping_method', { length: 20, enum: SHIPPING_METHODS }).notNull().default('standard'),
+  shipping_amount: decimal('shipping_amount', { precision: 10, scale: 2 }).notNull().default('0'), // As charged, after free-shipping thresholds and codes
+  promotion_id: integer('promotion_id'),
+  promotion_code: varchar('promotion_code', { length: 50 }), // As applied, kept if the promotion is edited
+  amount_refunded: decimal('amount_refunded', { precision: 10, scale: 2 }).notNull().default('0'), // Sum of refunds
   currency: varchar('currency', { length: 3 }).notNull().default('usd'),
-  customer_name: varchar('customer_name', { length: 255 }).notNull(),
+  customer_id: integer('customer_id'), // Null for guest checkouts until claimed
+  customer_name: varchar('customer_name', { length: 255 }).notNull(), // Also the shipping recipient
   customer_email: varchar('customer_email', { length: 255 }),
-  shipping_address: text('shipping_address').notNull(),
+  shipping_line1: text('shipping_line1').notNull(),
+  shipping_line2: text('shipping_line2'),
   shipping_city: varchar('shipping_city', { length: 100 }).notNull(),
-  shipping_zip: varchar('shipping_zip', { length: 20 }).notNull(),
-  payment_method: varchar('payment_method', { length: 50 }).notNull().default('card'), // card, bypass
+  shipping_region: varchar('shipping_region', { length: 100 }), // State, province or county
+  shipping_postal_code: varchar('shipping_postal_code', { length: 20 }).notNull(),
+  shipping_country: varchar('shipping_country', { length: 2 }).notNull().default('US'), // ISO 3166-1 alpha-2
+  shipping_phone: varchar('shipping_phone', { length: 30 }),
+  payment_method: varchar('payment_method', { length: 50 }).notNull().default('card'), // card, bypass, manual
   is_development_order: boolean('is_development_order').notNull().default(false),
   created_at: timestamp('created_at').notNull().defaultNow(),
   updated_at: timestamp('updated_at').notNull().defaultNow(),
 }, (table) => ({
   orderIdIdx: uniqueIndex('orders_order_id_idx').on(table.order_id),
-  paymentIntentIdx: index('orders_payment_intent_idx').on(table.payment_intent_id),
+  paymentIntentIdx: uniqueIndex('orders_payment_intent_idx').on(table.payment_intent_id),
   statusIdx: index('orders_status_idx').on(table.status),
   customerEmailIdx: index('orders_customer_email_idx').on(table.customer_email),
+  customerEmailLowerIdx: index('orders_customer_email_lower_idx').on(sql`lower(${table.customer_email})`), // Order lookup
   createdAtIdx: index('orders_created_at_idx').on(table.created_at),
+  customerIdx: index('orders_customer_id_idx').on(table.customer_id),
+  promotionIdx: index('orders_promotion_id_idx').on(table.promotion_id),
 }));
 
 // Order items table
@@ -91,21 +137,368 @@ export const orderItems = pgTable('order_items', {
   id: serial('id').primaryKey(),
   order_id: integer('order_id').notNull(),
   product_id: integer('product_id').notNull(),
-  product_name: varchar('product_name', { length: 255 }).notNull(), // Store name at time of purchase
+  variant_id: integer('variant_id'), // Null on manual orders entered without one
+  sku: varchar('sku', { length: 64 }), // Store SKU at time of purchase
+  product_name: varchar('product_name', { length: 255 }).notNull(), // Store name, with the variant's options, at time of purchase
   product_price: decimal('product_price', { precision: 10, scale: 2 }).notNull(), // Store price at time of purchase
   quantity: integer('quantity').notNull(),
-  line_total: decimal('line_total', { precision: 10, scale: 2 }).notNull(),
+  line_total: decimal('line_total', { precision: 10, scale: 2 }).notNull(), // Before discount
+  discount_amount: decimal('discount_amount', { precision: 10, scale: 2 }).notNull().default('0'), // This line's share of the order discount
+  tax_amount: decimal('tax_amount', { precision: 10, scale: 2 }).notNull().default('0'), // On the line total less its discount
+  tax_rate: decimal('tax_rate', { precision: 6, scale: 3 }).notNull().default('0'), // Percent, as applied
   created_at: timestamp('created_at').notNull().defaultNow(),
 }, (table) => ({
   orderIdx: index('order_items_order_id_idx').on(table.order_id),
   productIdx: index('order_items_product_id_idx').on(table.product_id),
+  variantIdx: index('order_items_variant_id_idx').on(table.variant_id),
+}));
+
+// Order status history table (one row per lifecycle transition)
+export const orderStatusHistory = pgTable('order_status_history', {
+  id: serial('id').primaryKey(),
+  order_id: integer('order_id').notNull(),
+  from_status: varchar('from_status', { length: 50, enum: ORDER_STATUSES }), // Null for the initial status
+  to_status: varchar('to_status', { length: 50, enum: ORDER_STATUSES }).notNull(),
+  actor: varchar('actor', { length: 255 }).notNull(), // system, checkout, admin:<email>, webhook:<event id>
+  reason: text('reason'),
+  created_at: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  orderIdx: index('order_status_history_order_id_idx').on(table.order_id),
+  createdAtIdx: index('order_status_history_created_at_idx').on(table.created_at),
+}));
+
+// Refunds table (money returned on an order, in full or for some line items)
+export const refunds = pgTable('refunds', {
+  id: serial('id').primaryKey(),
+  order_id: integer('order_id').notNull(),
+  provider_refund_id: varchar('provider_refund_id', { length: 100 }), // Null for orders paid outside the provider
+  amount: decimal('amount', { precision: 10, scale: 2 }).notNull(),
+  reason: text('reason'),
+  restocked: boolean('restocked').notNull().default(false),
+  actor: varchar('actor', { length: 255 }).notNull(),
+  created_at: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  orderIdx: index('refunds_order_id_idx').on(table.order_id),
+}));
+
+// Refund items table (quantities of each order line covered by a refund)
+export const refundItems = pgTable('refund_items', {
+  id: serial('id').primaryKey(),
+  refund_id: integer('refund_id').notNull(),
+  order_item_id: integer('order_item_id').notNull(),
+  quantity: integer('quantity').notNull(),
+  amount: decimal('amount', { precision: 10, scale: 2 }).notNull(),
+}, (table) => ({
+  refundIdx: index('refund_items_refund_id_idx').on(table.refund_id),
+  orderItemIdx: index('refund_items_order_item_id_idx').on(table.order_item_id),
+}));
+
+// Shipments table (packages sent for an order; an order may ship in several)
+export const shipments = pgTable('shipments', {
+  id: serial('id').primaryKey(),
+  order_id: integer('order_id').notNull(),
+  status: varchar('status', { length: 20, enum: SHIPMENT_STATUSES }).notNull().default('pending'),
+  carrier: varchar('carrier', { length: 20, enum: SHIPMENT_CARRIERS }).notNull(),
+  tracking_number: varchar('tracking_number', { length: 100 }), // Can be added when the package is marked shipped
+  actor: varchar('actor', { length: 255 }).notNull(), // Who created it
+  shipped_at: timestamp('shipped_at'),
+  created_at: timestamp('created_at').notNull().defaultNow(),
+  updated_at: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  orderIdx: index('shipments_order_id_idx').on(table.order_id),
+}));
+
+// Shipment items table (quantities of each order line in a shipment)
+export const shipmentItems = pgTable('shipment_items', {
+  id: serial('id').primaryKey(),
+  shipment_id: integer('shipment_id').notNull(),
+  order_item_id: integer('order_item_id').notNull(),
+  quantity: integer('quantity').notNull(),
+}, (table) => ({
+  shipmentIdx: index('shipment_items_shipment_id_idx').on(table.shipment_id),
+  orderItemIdx: index('shipment_items_order_item_id_idx').on(table.order_item_id),
+}));
+
+// Stock reservations table (holds inventory while a payment intent is open)
+export const stockReservations = pgTable('stock_reservations', {
+  id: serial('id').primaryKey(),
+  payment_intent_id: varchar('payment_intent_id', { length: 100 }).notNull(),
+  product_id: integer('product_id').notNull(),
+  variant_id: integer('variant_id').notNull(),
+  quantity: integer('quantity').notNull(),
+  unit_price: decimal('unit_price', { precision: 10, scale: 2 }).notNull(), // Price at time of reservation
+  status: varchar('status', { length: 20 }).notNull().default('active'), // active, consumed, released
+  expires_at: timestamp('expires_at').notNull(),
+  created_at: timestamp('created_at').notNull().defaultNow(),
+  updated_at: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  paymentIntentIdx: index('stock_reservations_payment_intent_idx').on(table.payment_intent_id),
+  productStatusIdx: index('stock_reservations_product_status_idx').on(table.product_id, table.status),
+  variantStatusIdx: index('stock_reservations_variant_status_idx').on(table.variant_id, table.status),
+  expiresAtIdx: index('stock_reservations_expires_at_idx').on(table.expires_at),
+}));
+
+// Idempotency keys table (stores the first response for replaying client retries)
+export const idempotencyKeys = pgTable('idempotency_keys', {
+  id: serial('id').primaryKey(),
+  key: varchar('key', { length: 255 }).notNull(),
+  scope: varchar('scope', { length: 100 }).notNull(), // Route the key was used on
+  request_hash: varchar('request_hash', { length: 64 }).notNull(),
+  status: varchar('status', { length: 20 }).notNull().default('in_progress'), // in_progress, completed
+  response_status: integer('response_status'),
+  response_body: jsonb('response_body'),
+  created_at: timestamp('created_at').notNull().defaultNow(),
+  updated_at: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  keyScopeIdx: uniqueIndex('idempotency_keys_key_scope_idx').on(table.key, table.scope),
+  createdAtIdx: index('idempotency_keys_created_at_idx').on(table.created_at),
+}));
+
+// Mock payment intents table (state for the local Stripe-compatible provider)
+export const mockPaymentIntents = pgTable('mock_payment_intents', {
+  id: varchar('id', { length: 100 }).primaryKey(),
+  client_secret: varchar('client_secret', { length: 255 }).notNull(),
+  amount: integer('amount').notNull(), // In cents
+  amount_refunded: integer('amount_refunded').notNull().default(0), // In cents
+  currency: varchar('currency', { length: 3 }).notNull().default('usd'),
+  status: varchar('status', { length: 50 }).notNull().default('requires_payment_method'), // requires_payment_method, processing, succeeded, failed, canceled
+  payment_method: varchar('payment_method', { length: 100 }),
+  last_error_code: varchar('last_error_code', { length: 100 }),
+  metadata: jsonb('metadata').notNull().default({}),
+  created_at: timestamp('created_at').notNull().defaultNow(),
+  updated_at: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  statusIdx: index('mock_payment_intents_status_idx').on(table.status),
+}));
+
+// Webhook events table (processed provider events, for idempotent delivery)
+export const webhookEvents = pgTable('webhook_events', {
+  id: serial('id').primaryKey(),
+  event_id: varchar('event_id', { length: 255 }).notNull(),
+  type: varchar('type', { length: 100 }).notNull(),
+  payment_intent_id: varchar('payment_intent_id', { length: 100 }),
+  payload: jsonb('payload').notNull(),
+  processed_at: timestamp('processed_at').notNull().defaultNow(),
+}, (table) => ({
+  eventIdIdx: uniqueIndex('webhook_events_event_id_idx').on(table.event_id),
+  paymentIntentIdx: index('webhook_events_payment_intent_idx').on(table.payment_intent_id),
+}));
+
+// Rate limits table (fixed-window request counters shared by every server instance)
+export const rateLimits = pgTable('rate_limits', {
+  key: varchar('key', { length: 255 }).primaryKey(), // <scope>:<subject>, e.g. order-lookup:ip:203.0.113.7
+  count: integer('count').notNull().default(0),
+  window_started_at: timestamp('window_started_at').notNull().defaultNow(),
+});
+
+// Admin users table (people allowed into /admin and the admin API)
+export const adminUsers = pgTable('admin_users', {
+  id: serial('id').primaryKey(),
+  email: varchar('email', { length: 255 }).notNull(), // Stored lower-cased
+  name: varchar('name', { length: 255 }).notNull(),
+  password_hash: text('password_hash').notNull(), // scrypt, see lib/passwords
+  role: varchar('role', { length: 50, enum: ADMIN_ROLES }).notNull().default('read_only'), // See lib/admin-permissions
+  is_active: boolean('is_active').notNull().default(true),
+  last_login_at: timestamp('last_login_at'),
+  created_at: timestamp('created_at').notNull().defaultNow(),
+  updated_at: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  emailIdx: uniqueIndex('admin_users_email_idx').on(table.email),
+}));
+
+// Admin sessions table (one row per login; the cookie carries the token, the row its hash)
+export const adminSessions = pgTable('admin_sessions', {
+  id: serial('id').primaryKey(),
+  admin_user_id: integer('admin_user_id').notNull(),
+  token_hash: varchar('token_hash', { length: 64 }).notNull(), // sha256 hex of the session token
+  expires_at: timestamp('expires_at').notNull(),
+  revoked_at: timestamp('revoked_at'), // Set on logout
+  ip_address: varchar('ip_address', { length: 100 }),
+  user_agent: text('user_agent'),
+  created_at: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  tokenHashIdx: uniqueIndex('admin_sessions_token_hash_idx').on(table.token_hash),
+  adminUserIdx: index('admin_sessions_admin_user_id_idx').on(table.admin_user_id),
+}));
+
+// Customers table (optional shopper accounts; guests check out without one)
+export const customers = pgTable('customers', {
+  id: serial('id').primaryKey(),
+  email: varchar('email', { length: 255 }).notNull(), // Stored lower-cased
+  name: varchar('name', { length: 255 }).notNull(),
+  password_hash: text('password_hash').notNull(), // scrypt, see lib/passwords
+  last_login_at: timestamp('last_login_at'),
+  created_at: timestamp('created_at').notNull().defaultNow(),
+  updated_at: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  emailIdx: uniqueIndex('customers_email_idx').on(table.email),
+}));
+
+// Customer addresses table (a customer's address book; at most one default)
+export const customerAddresses = pgTable('customer_addresses', {
+  id: serial('id').primaryKey(),
+  customer_id: integer('customer_id').notNull(),
+  full_name: varchar('full_name', { length: 255 }).notNull(),
+  line1: text('line1').notNull(),
+  line2: text('line2'),
+  city: varchar('city', { length: 100 }).notNull(),
+  region: varchar('region', { length: 100 }),
+  postal_code: varchar('postal_code', { length: 20 }).notNull(),
+  country: varchar('country', { length: 2 }).notNull(), // ISO 3166-1 alpha-2
+  phone: varchar('phone', { length: 30 }),
+  is_default: boolean('is_default').notNull().default(false),
+  created_at: timestamp('created_at').notNull().defaultNow(),
+  updated_at: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  customerIdx: index('customer_addresses_customer_id_idx').on(table.customer_id),
+  defaultIdx: uniqueIndex('customer_addresses_default_idx').on(table.customer_id).where(sql`${table.is_default}`),
+}));
+
+// Customer sessions table (same scheme as admin sessions)
+export const customerSessions = pgTable('customer_sessions', {
+  id: serial('id').primaryKey(),
+  customer_id: integer('customer_id').notNull(),
+  token_hash: varchar('token_hash', { length: 64 }).notNull(), // sha256 hex of the session token
+  expires_at: timestamp('expires_at').notNull(),
+  revoked_at: timestamp('revoked_at'), // Set on logout
+  created_at: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  tokenHashIdx: uniqueIndex('customer_sessions_token_hash_idx').on(table.token_hash),
+  customerIdx: index('customer_sessions_customer_id_idx').on(table.customer_id),
+}));
+
+// Carts table (a shopper's cart, kept server-side so it follows them across devices)
+export const carts = pgTable('carts', {
+  id: serial('id').primaryKey(),
+  token_hash: varchar('token_hash', { length: 64 }).notNull(), // sha256 hex of the cart_token cookie
+  customer_id: integer('customer_id'), // Null for guest carts
+  status: varchar('status', { length: 20, enum: CART_STATUSES }).notNull().default('active'),
+  email: varchar('email', { length: 255 }), // Captured at checkout, for the recovery email
+  email_captured_at: timestamp('email_captured_at'),
+  recovery_email_sent_at: timestamp('recovery_email_sent_at'),
+  recovered_at: timestamp('recovered_at'), // First time the recovery link was opened
+  converted_order_id: integer('converted_order_id'), // The order this cart became
+  converted_at: timestamp('converted_at'),
+  created_at: timestamp('created_at').notNull().defaultNow(),
+  updated_at: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  tokenHashIdx: uniqueIndex('carts_token_hash_idx').on(table.token_hash),
+  customerActiveIdx: uniqueIndex('carts_customer_active_idx').on(table.customer_id).where(sql`${table.status} = 'active'`),
+  updatedAtIdx: index('carts_updated_at_idx').on(table.updated_at),
+  emailLowerIdx: index('carts_email_lower_idx').on(sql`lower(${table.email})`), // Conversion matching
+}));
+
+// Cart items table (one row per product in a cart)
+export const cartItems = pgTable('cart_items', {
+  id: serial('id').primaryKey(),
+  cart_id: integer('cart_id').notNull(),
+  product_id: integer('product_id').notNull(),
+  variant_id: integer('variant_id').notNull(), // One line per variant, so two flavors of a product are two lines
+  quantity: integer('quantity').notNull(),
+  created_at: timestamp('created_at').notNull().defaultNow(),
+  updated_at: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  cartVariantIdx: uniqueIndex('cart_items_cart_variant_idx').on(table.cart_id, table.variant_id),
+  productIdx: index('cart_items_product_id_idx').on(table.product_id),
+}));
+
+// Email outbox table (every email sent, and the ones still waiting to be)
+export const emailOutbox = pgTable('email_outbox', {
+  id: serial('id').primaryKey(),
+  template: varchar('template', { length: 50, enum: EMAIL_TEMPLATES }).notNull(),
+  to_address: varchar('to_address', { length: 255 }).notNull(),
+  subject: text('subject').notNull(),
+  text_body: text('text_body').notNull(),
+  html_body: text('html_body').notNull(),
+  dedupe_key: varchar('dedupe_key', { length: 255 }), // e.g. order_confirmation:<order id>; queued at most once
+  order_id: integer('order_id'),
+  status: varchar('status', { length: 20, enum: EMAIL_OUTBOX_STATUSES }).notNull().default('pending'),
+  attempts: integer('attempts').notNull().default(0),
+  last_error: text('last_error'),
+  next_attempt_at: timestamp('next_attempt_at').notNull().defaultNow(),
+  provider: varchar('provider', { length: 20 }), // Provider that delivered it
+  sent_at: timestamp('sent_at'),
+  created_at: timestamp('created_at').notNull().defaultNow(),
+  updated_at: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  dedupeKeyIdx: uniqueIndex('email_outbox_dedupe_key_idx').on(table.dedupe_key),
+  dueIdx: index('email_outbox_due_idx').on(table.status, table.next_attempt_at),
+  orderIdx: index('email_outbox_order_id_idx').on(table.order_id),
+}));
+
+// Promotions table (discount codes; see lib/promotion-rules for how they apply)
+export const promotions = pgTable('promotions', {
+  id: serial('id').primaryKey(),
+  code: varchar('code', { length: 50 }).notNull(), // Stored upper-cased
+  description: text('description'),
+  type: varchar('type', { length: 20, enum: PROMOTION_TYPES }).notNull(),
+  value: decimal('value', { precision: 10, scale: 2 }).notNull().default('0'), // Percent or amount off
+  min_subtotal: decimal('min_subtotal', { precision: 10, scale: 2 }), // Cart subtotal needed, before discount
+  product_ids: integer('product_ids').array(), // Null applies to every product
+  starts_at: timestamp('starts_at'),
+  ends_at: timestamp('ends_at'),
+  usage_limit: integer('usage_limit'), // Null for unlimited
+  usage_count: integer('usage_count').notNull().default(0),
+  per_customer_limit: integer('per_customer_limit'), // Per account or email
+  is_active: boolean('is_active').notNull().default(true),
+  created_at: timestamp('created_at').notNull().defaultNow(),
+  updated_at: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => ({
+  codeIdx: uniqueIndex('promotions_code_idx').on(table.code),
+}));
+
+// Promotion redemptions table (one row per order placed with a code)
+export const promotionRedemptions = pgTable('promotion_redemptions', {
+  id: serial('id').primaryKey(),
+  promotion_id: integer('promotion_id').notNull(),
+  order_id: integer('order_id').notNull(),
+  customer_id: integer('customer_id'),
+  email: varchar('email', { length: 255 }), // Stored lower-cased, for per-customer limits on guest orders
+  discount_amount: decimal('discount_amount', { precision: 10, scale: 2 }).notNull(),
+  created_at: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  orderIdx: uniqueIndex('promotion_redemptions_order_id_idx').on(table.order_id),
+  promotionCustomerIdx: index('promotion_redemptions_promotion_customer_idx').on(table.promotion_id, table.customer_id),
+  promotionEmailIdx: index('promotion_redemptions_promotion_email_idx').on(table.promotion_id, table.email),
+}));
+
+// Audit log table (one row per admin write, with the fields it changed)
+export const auditLog = pgTable('audit_log', {
+  id: serial('id').primaryKey(),
+  actor: varchar('actor', { length: 255 }).notNull(), // admin:<email>
+  action: varchar('action', { length: 100, enum: AUDIT_ACTIONS }).notNull(),
+  entity_type: varchar('entity_type', { length: 50, enum: AUDIT_ENTITY_TYPES }).notNull(),
+  entity_id: varchar('entity_id', { length: 255 }).notNull(), // Product id, public order id or promotion id
+  changes: jsonb('changes').$type<AuditChanges>().notNull().default({}), // { field: { from, to } }
+  ip_address: varchar('ip_address', { length: 100 }),
+  user_agent: text('user_agent'),
+  request_method: varchar('request_method', { length: 10 }),
+  request_path: text('request_path'),
+  created_at: timestamp('created_at').notNull().defaultNow(),
+}, (table) => ({
+  entityIdx: index('audit_log_entity_idx').on(table.entity_type, table.entity_id),
+  actorIdx: index('audit_log_actor_idx').on(table.actor),
+  createdAtIdx: index('audit_log_created_at_idx').on(table.created_at),
 }));
 
 // Relations
 export const productsRelations = relations(products, ({ many }) => ({
+  variants: many(productVariants),
   reviews: many(reviews),
   categories: many(productCategories),
   orderItems: many(orderItems),
+  stockReservations: many(stockReservations),
+  cartItems: many(cartItems),
+}));
+
+export const productVariantsRelations = relations(productVariants, ({ one, many }) => ({
+  product: one(products, {
+    fields: [productVariants.product_id],
+    references: [products.id],
+  }),
+  orderItems: many(orderItems),
+  stockReservations: many(stockReservations),
+  cartItems: many(cartItems),
 }));
 
 export const reviewsRelations = relations(reviews, ({ one }) => ({
@@ -130,11 +523,22 @@ export const productCategoriesRelations = relations(productCategories, ({ one })
   }),
 }));
 
-export const ordersRelations = relations(orders, ({ many }) => ({
+export const ordersRelations = relations(orders, ({ one, many }) => ({
+  customer: one(customers, {
+    fields: [orders.customer_id],
+    references: [customers.id],
+  }),
   items: many(orderItems),
+  promotion: one(promotions, {
+    fields: [orders.promotion_id],
+    references: [promotions.id],
+  }),
+  statusHistory: many(orderStatusHistory),
+  refunds: many(refunds),
+  shipments: many(shipments),
 }));
 
-export const orderItemsRelations = relations(orderItems, ({ one }) => ({
+export const orderItemsRelations = relations(orderItems, ({ one, many }) => ({
   order: one(orders, {
     fields: [orderItems.order_id],
     references: [orders.id],
@@ -143,4 +547,148 @@ export const orderItemsRelations = relations(orderItems, ({ one }) => ({
     fields: [orderItems.product_id],
     references: [products.id],
   }),
-}));
\ No newline at end of file
+  variant: one(productVariants, {
+    fields: [orderItems.variant_id],
+    references: [productVariants.id],
+  }),
+  refundItems: many(refundItems),
+  shipmentItems: many(shipmentItems),
+}));
+
+export const stockReservationsRelations = relations(stockReservations, ({ one }) => ({
+  product: one(products, {
+    fields: [stockReservations.product_id],
+    references: [products.id],
+  }),
+  variant: one(productVariants, {
+    fields: [stockReservations.variant_id],
+    references: [productVariants.id],
+  }),
+}));
+
+export const orderStatusHistoryRelations = relations(orderStatusHistory, ({ one }) => ({
+  order: one(orders, {
+    fields: [orderStatusHistory.order_id],
+    references: [orders.id],
+  }),
+}));
+
+export const refundsRelations = relations(refunds, ({ one, many }) => ({
+  order: one(orders, {
+    fields: [refunds.order_id],
+    references: [orders.id],
+  }),
+  items: many(refundItems),
+}));
+
+export const refundItemsRelations = relations(refundItems, ({ one }) => ({
+  refund: one(refunds, {
+    fields: [refundItems.refund_id],
+    references: [refunds.id],
+  }),
+  orderItem: one(orderItems, {
+    fields: [refundItems.order_item_id],
+    references: [orderItems.id],
+  }),
+}));
+
+export const shipmentsRelations = relations(shipments, ({ one, many }) => ({
+  order: one(orders, {
+    fields: [shipments.order_id],
+    references: [orders.id],
+  }),
+  items: many(shipmentItems),
+}));
+
+export const shipmentItemsRelations = relations(shipmentItems, ({ one }) => ({
+  shipment: one(shipments, {
+    fields: [shipmentItems.shipment_id],
+    references: [shipments.id],
+  }),
+  orderItem: one(orderItems, {
+    fields: [shipmentItems.order_item_id],
+    references: [orderItems.id],
+  }),
+}));
+
+export const adminUsersRelations = relations(adminUsers, ({ many }) => ({
+  sessions: many(adminSessions),
+}));
+
+export const adminSessionsRelations = relations(adminSessions, ({ one }) => ({
+  adminUser: one(adminUsers, {
+    fields: [adminSessions.admin_user_id],
+    references: [adminUsers.id],
+  }),
+}));
+
+export const customersRelations = relations(customers, ({ many }) => ({
+  orders: many(orders),
+  addresses: many(customerAddresses),
+  carts: many(carts),
+  sessions: many(customerSessions),
+}));
+
+export const customerAddressesRelations = relations(customerAddresses, ({ one }) => ({
+  customer: one(customers, {
+    fields: [customerAddresses.customer_id],
+    references: [customers.id],
+  }),
+}));
+
+export const customerSessionsRelations = relations(customerSessions, ({ one }) => ({
+  customer: one(customers, {
+    fields: [customerSessions.customer_id],
+    references: [customers.id],
+  }),
+}));
+
+export const cartsRelations = relations(carts, ({ one, many }) => ({
+  customer: one(customers, {
+    fields: [carts.customer_id],
+    references: [customers.id],
+  }),
+  items: many(cartItems),
+  convertedOrder: one(orders, {
+    fields: [carts.converted_order_id],
+    references: [orders.id],
+  }),
+}));
+
+export const emailOutboxRelations = relations(emailOutbox, ({ one }) => ({
+  order: one(orders, {
+    fields: [emailOutbox.order_id],
+    references: [orders.id],
+  }),
+}));
+
+export const cartItemsRelations = relations(cartItems, ({ one }) => ({
+  cart: one(carts, {
+    fields: [cartItems.cart_id],
+    references: [carts.id],
+  }),
+  product: one(products, {
+    fields: [cartItems.product_id],
+    references: [products.id],
+  }),
+  variant: one(productVariants, {
+    fields: [cartItems.variant_id],
+    references: [productVariants.id],
+  }),
+}));
+
+export const promotionsRelations = relations(promotions, ({ many }) => ({
+  orders: many(orders),
+  redemptions: many(promotionRedemptions),
+}));
+
+export const promotionRedemptionsRelations = relations(promotionRedemptions, ({ one }) => ({
+  promotion: one(promotions, {
+    fields: [promotionRedemptions.promotion_id],
+    references: [promotions.id],
+  }),
+  order: one(orders, {
+    fields: [promotionRedemptions.order_id],
+    references: [orders.id],
+  }),
+}));
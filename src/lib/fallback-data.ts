@@ -1,6 +1,6 @@
 // Fallback data for when database connections fail
 
-export const mockProducts = [
+const mockProductRows = [
   {
     id: 1,
     name: 'EggyPro Original',
@@ -171,6 +171,22 @@ export const mockProducts = [
   }
 ];
 
+// Each mock product is sold as a single, option-less variant, as migrated products are
+export const mockProducts = mockProductRows.map(product => ({
+  ...product,
+  variants: [{
+    id: product.id,
+    product_id: product.id,
+    sku: product.slug.toUpperCase(),
+    options: {},
+    price: product.price,
+    stock_quantity: product.stock_quantity,
+    image_url: null,
+    sort_order: 0,
+    is_active: true,
+  }],
+}));
+
 export const mockReviews = [
   {
     id: 1,
@@ -220,7 +236,17 @@ export const mockStats = {
   totalStock: 1020,
   totalReviews: 5,
   averageRating: '4.6',
-  lowStockProducts: mockProducts.filter(p => p.stock_quantity < 70),
+  lowStockVariants: mockProducts
+    .filter(p => p.stock_quantity < 70)
+    .map(p => ({
+      id: p.variants[0].id,
+      product_id: p.id,
+      sku: p.variants[0].sku,
+      name: p.name,
+      slug: p.slug,
+      price: p.price,
+      stock_quantity: p.stock_quantity,
+    })),
   summary: {
     inStock: 12,
     outOfStock: 0,
@@ -0,0 +1,128 @@
+import { createHash } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { and, eq } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { idempotencyKeys } from '@/lib/db/schema';
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+// Keys older than this are forgotten and may be reused
+const KEY_TTL_HOURS = 24;
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Stable hash of a request body, used to detect a key reused with a different payload
+ */
+export function hashRequestBody(body: unknown): string {
+  return createHash('sha256').update(stableStringify(body)).digest('hex');
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+
+  return JSON.stringify(value) ?? 'null';
+}
+
+function conflict(message: string, code: string): NextResponse {
+  return NextResponse.json({ error: message, code }, { status: 409 });
+}
+
+/**
+ * Runs a route handler at most once per Idempotency-Key and scope.
+ * The first response is stored and replayed for repeats with the same body;
+ * server errors are not stored so the client can retry them.
+ */
+export async function withIdempotency(
+  request: NextRequest,
+  scope: string,
+  body: unknown,
+  handler: () => Promise<NextResponse>
+): Promise<NextResponse> {
+  const key = request.headers.get(IDEMPOTENCY_HEADER)?.trim();
+
+  if (!key) {
+    return handler();
+  }
+
+  if (key.length > MAX_KEY_LENGTH) {
+    return NextResponse.json(
+      { error: `${IDEMPOTENCY_HEADER} must be at most ${MAX_KEY_LENGTH} characters.` },
+      { status: 400 }
+    );
+  }
+
+  const requestHash = hashRequestBody(body);
+  const keyMatch = and(eq(idempotencyKeys.key, key), eq(idempotencyKeys.scope, scope));
+
+  const [claimed] = await db
+    .insert(idempotencyKeys)
+    .values({ key, scope, request_hash: requestHash })
+    .onConflictDoNothing()
+    .returning({ id: idempotencyKeys.id });
+
+  if (!claimed) {
+    const [existing] = await db.select().from(idempotencyKeys).where(keyMatch).limit(1);
+
+    if (existing && Date.now() - existing.created_at.getTime() > KEY_TTL_HOURS * 60 * 60 * 1000) {
+      // Expired key: forget it and treat this request as the first one
+      await db.delete(idempotencyKeys).where(eq(idempotencyKeys.id, existing.id));
+      return withIdempotency(request, scope, body, handler);
+    }
+
+    if (!existing) {
+      return conflict('This request is already being processed. Please retry shortly.', 'idempotency_request_in_progress');
+    }
+
+    if (existing.request_hash !== requestHash) {
+      return conflict(
+        `${IDEMPOTENCY_HEADER} was already used with a different request body.`,
+        'idempotency_key_reused'
+      );
+    }
+
+    if (existing.status !== 'completed' || existing.response_status === null) {
+      return conflict('This request is already being processed. Please retry shortly.', 'idempotency_request_in_progress');
+    }
+
+    return NextResponse.json(existing.response_body, {
+      status: existing.response_status,
+      headers: { 'Idempotent-Replayed': 'true' },
+    });
+  }
+
+  let response: NextResponse;
+  try {
+    response = await handler();
+  } catch (error) {
+    await db.delete(idempotencyKeys).where(eq(idempotencyKeys.id, claimed.id));
+    throw error;
+  }
+
+  if (response.status >= 500) {
+    await db.delete(idempotencyKeys).where(eq(idempotencyKeys.id, claimed.id));
+    return response;
+  }
+
+  const responseBody = await response.clone().json().catch(() => null);
+
+  await db
+    .update(idempotencyKeys)
+    .set({
+      status: 'completed',
+      response_status: response.status,
+      response_body: responseBody,
+      updated_at: new Date(),
+    })
+    .where(eq(idempotencyKeys.id, claimed.id));
+
+  return response;
+}
@@ -0,0 +1,346 @@
+import { and, eq, gt, inArray, sql } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { products, productVariants, stockReservations } from '@/lib/db/schema';
+import { variantDisplayName, type VariantOptions } from '@/lib/variant-options';
+
+// How long a payment intent may hold stock before it is returned to the pool
+export const RESERVATION_TTL_MINUTES = 15;
+
+// Units one checkout may hold at a time, so a single request can't tie up a whole drop
+export const MAX_RESERVED_QUANTITY = 100;
+
+type Database = typeof db;
+type Transaction = Parameters<Parameters<Database['transaction']>[0]>[0];
+export type DbExecutor = Database | Transaction;
+
+// Carts and checkouts name the variant; the product follows from it
+export interface RequestedLineItem {
+  variantId: number;
+  quantity: number;
+}
+
+export interface PricedLineItem {
+  productId: number;
+  variantId: number;
+  sku: string;
+  name: string; // Product name with the variant's options
+  unitPrice: string; // Decimal string as stored in the database
+  quantity: number;
+  lineTotalCents: number;
+}
+
+export interface LineItemIssue {
+  variantId: number;
+  name?: string;
+  reason: 'invalid_item' | 'not_found' | 'inactive' | 'insufficient_stock';
+  requested: number;
+  available?: number;
+}
+
+// A variant with what the catalog says about its product
+export interface CatalogVariantRow {
+  id: number; // The variant's
+  product_id: number;
+  sku: string;
+  name: string; // The product's
+  options: VariantOptions;
+  price: string;
+  stock_quantity: number;
+  is_active: boolean; // False when either the variant or its product is inactive
+}
+
+export interface StockChange {
+  productId: number;
+  // Null for order lines entered by hand without a variant
+  variantId: number | null;
+  // Negative to take stock away
+  delta: number;
+}
+
+export type PricingResult =
+  | { ok: true; lines: PricedLineItem[]; totalCents: number }
+  | { ok: false; issues: LineItemIssue[] };
+
+export type ReservationResult =
+  | { ok: true; lines: PricedLineItem[]; totalCents: number; expiresAt: Date }
+  | { ok: false; issues: LineItemIssue[] };
+
+/**
+ * Converts a decimal price to integer cents without floating point drift
+ */
+export function toCents(price: string | number): number {
+  return Math.round(Number(price) * 100);
+}
+
+/**
+ * Converts integer cents back to a two-decimal string for decimal columns
+ */
+export function fromCents(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+/**
+ * Parses client line items into variant ids and quantities, merging duplicates.
+ * Anything that is not a positive integer id/quantity is reported as an issue.
+ */
+export function normalizeLineItems(
+  items: Array<{ id: string | number; quantity: number }>
+): { items: RequestedLineItem[]; issues: LineItemIssue[] } {
+  const quantities = new Map<number, number>();
+  const issues: LineItemIssue[] = [];
+
+  for (const item of items) {
+    const variantId = Number(item.id);
+    const quantity = Number(item.quantity);
+
+    if (!Number.isInteger(variantId) || variantId <= 0 || !Number.isInteger(quantity) || quantity <= 0) {
+      issues.push({
+        variantId: Number.isInteger(variantId) ? variantId : 0,
+        reason: 'invalid_item',
+        requested: Number.isFinite(quantity) ? quantity : 0,
+      });
+      continue;
+    }
+
+    quantities.set(variantId, (quantities.get(variantId) || 0) + quantity);
+  }
+
+  return {
+    items: Array.from(quantities, ([variantId, quantity]) => ({ variantId, quantity })),
+    issues,
+  };
+}
+
+/**
+ * Prices requested items from catalog rows and checks availability.
+ * `reserved` holds quantities already held by other open reservations.
+ */
+export function priceLineItems(
+  requested: RequestedLineItem[],
+  catalog: CatalogVariantRow[],
+  reserved: Map<number, number> = new Map()
+): PricingResult {
+  const byId = new Map(catalog.map(variant => [variant.id, variant]));
+  const lines: PricedLineItem[] = [];
+  const issues: LineItemIssue[] = [];
+
+  for (const { variantId, quantity } of requested) {
+    const variant = byId.get(variantId);
+
+    if (!variant) {
+      issues.push({ variantId, reason: 'not_found', requested: quantity });
+      continue;
+    }
+
+    const name = variantDisplayName(variant.name, variant.options);
+    if (!variant.is_active) {
+      issues.push({ variantId, name, reason: 'inactive', requested: quantity });
+      continue;
+    }
+
+    const available = Math.max(0, variant.stock_quantity - (reserved.get(variantId) || 0));
+    if (quantity > available) {
+      issues.push({
+        variantId,
+        name,
+        reason: 'insufficient_stock',
+        requested: quantity,
+        available,
+      });
+      continue;
+    }
+
+    lines.push({
+      productId: variant.product_id,
+      variantId,
+      sku: variant.sku,
+      name,
+      unitPrice: variant.price,
+      quantity,
+      lineTotalCents: toCents(variant.price) * quantity,
+    });
+  }
+
+  if (issues.length > 0) {
+    return { ok: false, issues };
+  }
+
+  return {
+    ok: true,
+    lines,
+    totalCents: lines.reduce((total, line) => total + line.lineTotalCents, 0),
+  };
+}
+
+/**
+ * Loads variants with their product's name and active flag. With `lock`, the
+ * product and variant rows are locked in product order, so checkouts sharing
+ * a product queue up instead of overselling or deadlocking.
+ */
+export async function loadCatalogVariants(
+  executor: DbExecutor,
+  variantIds: number[],
+  lock = false
+): Promise<CatalogVariantRow[]> {
+  if (variantIds.length === 0) {
+    return [];
+  }
+
+  const query = executor
+    .select({
+      id: productVariants.id,
+      product_id: productVariants.product_id,
+      sku: productVariants.sku,
+      name: products.name,
+      options: productVariants.options,
+      price: productVariants.price,
+      stock_quantity: productVariants.stock_quantity,
+      is_active: sql<boolean>`${productVariants.is_active} and ${products.is_active}`,
+    })
+    .from(productVariants)
+    .innerJoin(products, eq(products.id, productVariants.product_id))
+    .where(inArray(productVariants.id, variantIds))
+    .orderBy(productVariants.product_id, productVariants.id);
+
+  return lock ? query.for('update') : query;
+}
+
+/**
+ * Sums quantities held by active, unexpired reservations per variant.
+ * Expired reservations are simply ignored, so they lapse without a cleanup job.
+ */
+export async function getReservedQuantities(
+  executor: DbExecutor,
+  variantIds: number[],
+  excludePaymentIntentId?: string
+): Promise<Map<number, number>> {
+  if (variantIds.length === 0) {
+    return new Map();
+  }
+
+  const conditions = [
+    inArray(stockReservations.variant_id, variantIds),
+    eq(stockReservations.status, 'active'),
+    gt(stockReservations.expires_at, new Date()),
+  ];
+
+  if (excludePaymentIntentId) {
+    conditions.push(sql`${stockReservations.payment_intent_id} <> ${excludePaymentIntentId}`);
+  }
+
+  const rows = await executor
+    .select({
+      variantId: stockReservations.variant_id,
+      quantity: sql<number>`coalesce(sum(${stockReservations.quantity}), 0)::int`,
+    })
+    .from(stockReservations)
+    .where(and(...conditions))
+    .groupBy(stockReservations.variant_id);
+
+  return new Map(rows.map(row => [row.variantId, Number(row.quantity)]));
+}
+
+/**
+ * Moves variant stock and keeps each product's total in step with it.
+ * Callers hold the row locks, see loadCatalogVariants.
+ */
+export async function adjustStock(executor: DbExecutor, changes: StockChange[]): Promise<void> {
+  for (const change of changes) {
+    if (change.variantId !== null) {
+      await executor
+        .update(productVariants)
+        .set({
+          stock_quantity: sql`${productVariants.stock_quantity} + ${change.delta}`,
+          updated_at: new Date(),
+        })
+        .where(eq(productVariants.id, change.variantId));
+    }
+
+    await executor
+      .update(products)
+      .set({
+        stock_quantity: sql`${products.stock_quantity} + ${change.delta}`,
+        updated_at: new Date(),
+      })
+      .where(eq(products.id, change.productId));
+  }
+}
+
+/**
+ * Locks the variant rows, prices the items from the database and, when
+ * everything is available, holds the stock for the given payment intent.
+ */
+export async function reserveStock(
+  paymentIntentId: string,
+  requested: RequestedLineItem[]
+): Promise<ReservationResult> {
+  return db.transaction(async (tx) => {
+    const variantIds = requested.map(item => item.variantId);
+
+    const catalog = await loadCatalogVariants(tx, variantIds, true);
+    const reserved = await getReservedQuantities(tx, variantIds);
+    const pricing = priceLineItems(requested, catalog, reserved);
+
+    if (!pricing.ok) {
+      return pricing;
+    }
+
+    const expiresAt = new Date(Date.now() + RESERVATION_TTL_MINUTES * 60 * 1000);
+
+    await tx.insert(stockReservations).values(
+      pricing.lines.map(line => ({
+        payment_intent_id: paymentIntentId,
+        product_id: line.productId,
+        variant_id: line.variantId,
+        quantity: line.quantity,
+        unit_price: line.unitPrice,
+        expires_at: expiresAt,
+      }))
+    );
+
+    return { ...pricing, expiresAt };
+  });
+}
+
+/**
+ * Marks the reservations held by a payment intent as consumed or released.
+ * Returns the number of reservations that were still active and unexpired.
+ */
+async function settleReservation(
+  executor: DbExecutor,
+  paymentIntentId: string,
+  status: 'consumed' | 'released'
+): Promise<number> {
+  const settled = await executor
+    .update(stockReservations)
+    .set({ status, updated_at: new Date() })
+    .where(and(
+      eq(stockReservations.payment_intent_id, paymentIntentId),
+      eq(stockReservations.status, 'active'),
+      gt(stockReservations.expires_at, new Date())
+    ))
+    .returning({ id: stockReservations.id });
+
+  return settled.length;
+}
+
+export function consumeReservation(paymentIntentId: string, executor: DbExecutor = db): Promise<number> {
+  return settleReservation(executor, paymentIntentId, 'consumed');
+}
+
+export function releaseReservation(paymentIntentId: string, executor: DbExecutor = db): Promise<number> {
+  return settleReservation(executor, paymentIntentId, 'released');
+}
+
+/**
+ * Moves reservations held under a temporary key onto the provider's payment intent id
+ */
+export async function reassignReservation(fromKey: string, paymentIntentId: string): Promise<void> {
+  await db
+    .update(stockReservations)
+    .set({ payment_intent_id: paymentIntentId, updated_at: new Date() })
+    .where(and(
+      eq(stockReservations.payment_intent_id, fromKey),
+      eq(stockReservations.status, 'active')
+    ));
+}
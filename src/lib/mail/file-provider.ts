@@ -0,0 +1,27 @@
+import { randomBytes } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import { buildMimeMessage, getMailFrom } from './smtp-provider';
+import type { MailMessage, MailProvider } from './types';
+
+// Development provider: writes each message as an .eml file instead of
+// sending it. Open the files in any mail client to check how they render.
+
+export function getMailOutboxDir(): string {
+  return resolve(process.cwd(), process.env.MAIL_OUTBOX_DIR || '.mail-outbox');
+}
+
+export class FileMailProvider implements MailProvider {
+  readonly name = 'file' as const;
+
+  constructor(private dir: string = getMailOutboxDir(), private from: string = getMailFrom()) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+
+    const recipient = message.to.replace(/[^a-z0-9@._-]+/gi, '_');
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const file = join(this.dir, `${stamp}-${randomBytes(3).toString('hex')}-${recipient}.eml`);
+    await writeFile(file, buildMimeMessage(message, this.from), 'utf8');
+  }
+}
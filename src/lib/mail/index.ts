@@ -0,0 +1,8 @@
+export * from './types';
+export * from './templates';
+export * from './outbox';
+export { getMailProvider, setMailProvider } from './provider';
+export { SmtpMailProvider, SmtpError, buildMimeMessage, getSmtpConfig, sendMail, type SmtpConfig } from './smtp-provider';
+export { FileMailProvider, getMailOutboxDir } from './file-provider';
+export { getSiteUrl } from './links';
+export { sendOrderConfirmationEmail, sendOrderRefundedEmail, sendOrderShippedEmail } from './order-emails';
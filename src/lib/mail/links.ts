@@ -0,0 +1,4 @@
+// Base URL for links in emails
+export function getSiteUrl(): string {
+  return (process.env.SITE_URL || 'http://localhost:9004').replace(/\/+$/, '');
+}
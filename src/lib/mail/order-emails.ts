@@ -0,0 +1,130 @@
+import { asc, eq } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { orderItems, orders } from '@/lib/db/schema';
+import { shippingAddressFromOrder } from '@/lib/addresses';
+import { getSiteUrl } from './links';
+import { queueEmail } from './outbox';
+import type { OrderEmailData } from './templates';
+
+// Customer emails about an order. Each is sent after the change it reports
+// has been committed and never throws: a mail problem must not fail the
+// request that changed the order.
+
+type OrderRow = typeof orders.$inferSelect;
+
+async function loadOrderEmailData(orderDbId: number): Promise<{ row: OrderRow; order: OrderEmailData } | null> {
+  const [row] = await db.select().from(orders).where(eq(orders.id, orderDbId));
+  if (!row || !row.customer_email) {
+    return null;
+  }
+
+  const items = await db
+    .select()
+    .from(orderItems)
+    .where(eq(orderItems.order_id, orderDbId))
+    .orderBy(asc(orderItems.id));
+
+  return {
+    row,
+    order: {
+      orderId: row.order_id,
+      customerName: row.customer_name,
+      email: row.customer_email,
+      placedAt: row.created_at,
+      items: items.map(item => ({
+        name: item.product_name,
+        quantity: item.quantity,
+        unitPrice: item.product_price,
+        lineTotal: item.line_total,
+      })),
+      discount: row.discount_amount,
+      promotionCode: row.promotion_code,
+      tax: row.tax_amount,
+      shippingMethod: row.shipping_method,
+      shippingCost: row.shipping_amount,
+      total: row.total_amount,
+      shipping: shippingAddressFromOrder(row),
+    },
+  };
+}
+
+function orderUrl(orderId: string): string {
+  return `${getSiteUrl()}/orders/lookup?order=${encodeURIComponent(orderId)}`;
+}
+
+async function notify(label: string, orderDbId: number, send: () => Promise<unknown>): Promise<void> {
+  try {
+    await send();
+  } catch (error) {
+    console.error(`❌ Failed to queue ${label} email for order ${orderDbId}:`, error);
+  }
+}
+
+/**
+ * Once per order, when it is paid
+ */
+export function sendOrderConfirmationEmail(orderDbId: number): Promise<void> {
+  return notify('order confirmation', orderDbId, async () => {
+    const loaded = await loadOrderEmailData(orderDbId);
+    if (!loaded || loaded.row.status === 'pending' || loaded.row.status === 'cancelled') return;
+
+    await queueEmail({
+      template: 'order_confirmation',
+      to: loaded.order.email,
+      data: { order: loaded.order, orderUrl: orderUrl(loaded.order.orderId) },
+      dedupeKey: `order_confirmation:${loaded.order.orderId}`,
+      orderId: orderDbId,
+    });
+  });
+}
+
+export function sendOrderShippedEmail(
+  orderDbId: number,
+  tracking: {
+    carrier?: string | null;
+    trackingNumber?: string | null;
+    trackingUrl?: string | null;
+    packageItems?: Array<{ name: string; quantity: number }>;
+  } = {},
+  // Distinguishes shipments when an order ships in parts
+  shipmentKey: string = 'order'
+): Promise<void> {
+  return notify('shipped', orderDbId, async () => {
+    const loaded = await loadOrderEmailData(orderDbId);
+    if (!loaded) return;
+
+    await queueEmail({
+      template: 'order_shipped',
+      to: loaded.order.email,
+      data: { order: loaded.order, orderUrl: orderUrl(loaded.order.orderId), ...tracking },
+      dedupeKey: `order_shipped:${loaded.order.orderId}:${shipmentKey}`,
+      orderId: orderDbId,
+    });
+  });
+}
+
+/**
+ * One per refund; `refund.key` is the refund row id or the provider event id
+ */
+export function sendOrderRefundedEmail(
+  orderDbId: number,
+  refund: { key: string; amount: string; reason?: string | null }
+): Promise<void> {
+  return notify('refund', orderDbId, async () => {
+    const loaded = await loadOrderEmailData(orderDbId);
+    if (!loaded) return;
+
+    await queueEmail({
+      template: 'order_refunded',
+      to: loaded.order.email,
+      data: {
+        order: loaded.order,
+        amount: refund.amount,
+        fullRefund: loaded.row.status === 'refunded',
+        reason: refund.reason,
+      },
+      dedupeKey: `order_refunded:${loaded.order.orderId}:${refund.key}`,
+      orderId: orderDbId,
+    });
+  });
+}
@@ -0,0 +1,147 @@
+import { and, asc, eq, lte, sql } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { emailOutbox } from '@/lib/db/schema';
+import { getMailProvider } from './provider';
+import { renderEmail, type EmailTemplateData } from './templates';
+import type { EmailOutboxStatus, EmailTemplate, MailProvider } from './types';
+
+// Every email is written to email_outbox before it is sent. A failed send
+// stays pending and is retried with backoff by `npm run mail:retry`; after
+// MAX_EMAIL_ATTEMPTS it is marked failed for someone to look at.
+
+export const MAX_EMAIL_ATTEMPTS = 5;
+// Wait before the next attempt, by the number of attempts made so far
+const RETRY_DELAYS_MINUTES = [1, 5, 30, 120];
+// How long a send may take before another run may pick the email up again
+const SEND_LEASE_MINUTES = 10;
+
+export interface QueueEmailInput<T extends EmailTemplate> {
+  template: T;
+  to: string;
+  data: EmailTemplateData[T];
+  // Emails with the same key are queued once, e.g. one confirmation per order
+  dedupeKey?: string;
+  orderId?: number | null;
+}
+
+export interface RetryRunResult {
+  attempted: number;
+  sent: number;
+  failed: number;
+}
+
+/**
+ * Minutes until the next attempt after `attempts` failed ones, or null once
+ * the email is out of attempts
+ */
+export function nextRetryDelayMinutes(attempts: number): number | null {
+  if (attempts >= MAX_EMAIL_ATTEMPTS) {
+    return null;
+  }
+  return RETRY_DELAYS_MINUTES[Math.max(attempts, 1) - 1] ?? RETRY_DELAYS_MINUTES[RETRY_DELAYS_MINUTES.length - 1];
+}
+
+function minutesFromNow(minutes: number): Date {
+  return new Date(Date.now() + minutes * 60 * 1000);
+}
+
+/**
+ * Sends one outbox email if it is due. Returns its status afterwards, or
+ * null when it wasn't due or another run is already sending it.
+ */
+export async function deliverEmail(
+  id: number,
+  provider: MailProvider = getMailProvider()
+): Promise<EmailOutboxStatus | null> {
+  const [email] = await db
+    .update(emailOutbox)
+    .set({
+      attempts: sql`${emailOutbox.attempts} + 1`,
+      next_attempt_at: minutesFromNow(SEND_LEASE_MINUTES),
+      updated_at: new Date(),
+    })
+    .where(and(eq(emailOutbox.id, id), eq(emailOutbox.status, 'pending'), lte(emailOutbox.next_attempt_at, new Date())))
+    .returning();
+
+  if (!email) {
+    return null;
+  }
+
+  try {
+    await provider.send({ to: email.to_address, subject: email.subject, text: email.text_body, html: email.html_body });
+  } catch (error) {
+    const delay = nextRetryDelayMinutes(email.attempts);
+    const status: EmailOutboxStatus = delay === null ? 'failed' : 'pending';
+    await db
+      .update(emailOutbox)
+      .set({
+        status,
+        last_error: error instanceof Error ? error.message : String(error),
+        next_attempt_at: delay === null ? email.next_attempt_at : minutesFromNow(delay),
+        updated_at: new Date(),
+      })
+      .where(eq(emailOutbox.id, id));
+
+    console.error(`❌ Email ${id} (${email.template}) failed, attempt ${email.attempts}:`, error);
+    return status;
+  }
+
+  await db
+    .update(emailOutbox)
+    .set({ status: 'sent', provider: provider.name, sent_at: new Date(), last_error: null, updated_at: new Date() })
+    .where(eq(emailOutbox.id, id));
+  return 'sent';
+}
+
+/**
+ * Renders the template into the outbox and tries to send it straight away.
+ * Resolves to null when an email with the same dedupe key was queued before.
+ * Never throws for a failed send; the retry job takes over.
+ */
+export async function queueEmail<T extends EmailTemplate>(
+  input: QueueEmailInput<T>
+): Promise<{ id: number; status: EmailOutboxStatus | null } | null> {
+  const rendered = renderEmail(input.template, input.data);
+
+  const [queued] = await db
+    .insert(emailOutbox)
+    .values({
+      template: input.template,
+      to_address: input.to,
+      subject: rendered.subject,
+      text_body: rendered.text,
+      html_body: rendered.html,
+      dedupe_key: input.dedupeKey ?? null,
+      order_id: input.orderId ?? null,
+    })
+    .onConflictDoNothing()
+    .returning({ id: emailOutbox.id });
+
+  if (!queued) {
+    return null;
+  }
+
+  return { id: queued.id, status: await deliverEmail(queued.id) };
+}
+
+/**
+ * Sends pending emails whose next attempt is due, oldest first
+ */
+export async function retryDueEmails(limit = 50, provider: MailProvider = getMailProvider()): Promise<RetryRunResult> {
+  const due = await db
+    .select({ id: emailOutbox.id })
+    .from(emailOutbox)
+    .where(and(eq(emailOutbox.status, 'pending'), lte(emailOutbox.next_attempt_at, new Date())))
+    .orderBy(asc(emailOutbox.next_attempt_at))
+    .limit(limit);
+
+  const result: RetryRunResult = { attempted: 0, sent: 0, failed: 0 };
+  for (const { id } of due) {
+    const status = await deliverEmail(id, provider);
+    if (status === null) continue;
+    result.attempted++;
+    if (status === 'sent') result.sent++;
+    else result.failed++;
+  }
+  return result;
+}
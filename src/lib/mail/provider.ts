@@ -0,0 +1,31 @@
+import { FileMailProvider } from './file-provider';
+import { SmtpMailProvider } from './smtp-provider';
+import type { MailProvider } from './types';
+
+// Provider instance (singleton)
+let provider: MailProvider | null = null;
+
+/**
+ * SMTP when MAIL_PROVIDER=smtp or SMTP_HOST is set; otherwise messages are
+ * written to the local outbox directory
+ */
+export function getMailProvider(): MailProvider {
+  if (!provider) {
+    const name = process.env.MAIL_PROVIDER || (process.env.SMTP_HOST ? 'smtp' : 'file');
+
+    if (name === 'smtp') {
+      provider = new SmtpMailProvider();
+    } else {
+      if (process.env.NODE_ENV === 'production') {
+        console.warn('⚠️ No SMTP server configured; emails are written to the local outbox directory only');
+      }
+      provider = new FileMailProvider();
+    }
+  }
+  return provider;
+}
+
+// Swap the active provider, e.g. for a failing one in tests
+export function setMailProvider(next: MailProvider | null): void {
+  provider = next;
+}
@@ -0,0 +1,225 @@
+import { randomBytes } from 'crypto';
+import { connect as connectTcp, type Socket } from 'net';
+import { connect as connectTls } from 'tls';
+import type { MailMessage, MailProvider } from './types';
+
+// A small SMTP client for outgoing mail. Point it at a relay, or for
+// development at a local capture server such as Mailpit (SMTP on port 1025).
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  // Implicit TLS, usually port 465; STARTTLS is not supported
+  secure: boolean;
+  user: string | null;
+  password: string | null;
+  from: string;
+}
+
+export class SmtpError extends Error {
+  constructor(message: string, public code: number | null = null) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+}
+
+const COMMAND_TIMEOUT_MS = 15_000;
+
+export function getMailFrom(): string {
+  return process.env.MAIL_FROM || 'EggyPro <hello@eggypro.com>';
+}
+
+export function getSmtpConfig(): SmtpConfig {
+  return {
+    host: process.env.SMTP_HOST || 'localhost',
+    port: Number(process.env.SMTP_PORT) || 1025,
+    secure: process.env.SMTP_SECURE === 'true',
+    user: process.env.SMTP_USER || null,
+    password: process.env.SMTP_PASSWORD || null,
+    from: getMailFrom(),
+  };
+}
+
+function encodeHeader(value: string): string {
+  // Non-ASCII subjects and names go out as RFC 2047 encoded words
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function encodeBody(value: string): string {
+  return (Buffer.from(value, 'utf8').toString('base64').match(/.{1,76}/g) || []).join('\r\n');
+}
+
+// The address inside "Name <address>", or the value itself
+export function mailboxAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim();
+}
+
+// local@domain, without whitespace or the characters that separate or quote addresses
+const ADDR_SPEC_PATTERN = /^[^\s@<>()[\]\\,;:"]+@[^\s@<>()[\]\\,;:"]+$/;
+
+/**
+ * Throws unless the value is one mailbox, a bare address or "Name <address>".
+ * Addresses end up in SMTP commands and headers, so a line break in one could
+ * add commands or headers of its own.
+ */
+export function assertMailbox(value: string, role: 'sender' | 'recipient'): void {
+  const match = /[\r\n]/.test(value) ? null : value.match(/^\s*(?:[^<>,;@]*<([^<>]+)>|([^<>]+))\s*$/);
+  if (!match || !ADDR_SPEC_PATTERN.test((match[1] ?? match[2]).trim())) {
+    throw new SmtpError(`Invalid ${role} address: ${JSON.stringify(value)}`);
+  }
+}
+
+/**
+ * Builds the message source: text only, or multipart/alternative with HTML
+ */
+export function buildMimeMessage(
+  message: MailMessage,
+  from: string,
+  options: { date?: Date; boundary?: string; messageId?: string } = {}
+): string {
+  assertMailbox(from, 'sender');
+  assertMailbox(message.to, 'recipient');
+
+  const domain = mailboxAddress(from).split('@')[1] || 'localhost';
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${(options.date ?? new Date()).toUTCString()}`,
+    `Message-ID: <${options.messageId ?? randomBytes(12).toString('hex')}@${domain}>`,
+    'MIME-Version: 1.0',
+  ];
+
+  if (!message.html) {
+    return [
+      ...headers,
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      encodeBody(message.text),
+    ].join('\r\n');
+  }
+
+  const boundary = options.boundary ?? `=_${randomBytes(12).toString('hex')}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.html),
+    `--${boundary}--`,
+  ].join('\r\n');
+}
+
+// Reads one (possibly multi-line) reply per call, in order
+function replyReader(socket: Socket) {
+  let buffer = '';
+  const lines: string[] = [];
+  let waiting: ((reply: { code: number; text: string }) => void) | null = null;
+  let failed: ((error: Error) => void) | null = null;
+  let closedWith: Error | null = null;
+
+  const tryResolve = () => {
+    const end = lines.findIndex(line => /^\d{3} /.test(line) || /^\d{3}$/.test(line));
+    if (end === -1 || !waiting) return;
+    const replyLines = lines.splice(0, end + 1);
+    const resolve = waiting;
+    waiting = null;
+    failed = null;
+    resolve({ code: Number(replyLines[end].slice(0, 3)), text: replyLines.map(line => line.slice(4)).join('\n') });
+  };
+
+  socket.on('data', chunk => {
+    buffer += chunk.toString('utf8');
+    const parts = buffer.split('\r\n');
+    buffer = parts.pop() ?? '';
+    lines.push(...parts);
+    tryResolve();
+  });
+  const close = (error: Error) => {
+    closedWith = error;
+    failed?.(error);
+  };
+  socket.on('error', close);
+  socket.on('close', () => close(new SmtpError('Connection closed by server')));
+
+  return () => new Promise<{ code: number; text: string }>((resolve, reject) => {
+    if (closedWith && lines.length === 0) {
+      reject(closedWith);
+      return;
+    }
+    waiting = resolve;
+    failed = reject;
+    tryResolve();
+  });
+}
+
+/**
+ * Sends one message. Rejects with SmtpError when the server refuses it.
+ */
+export async function sendMail(message: MailMessage, config: SmtpConfig = getSmtpConfig()): Promise<void> {
+  // Checked before connecting, so nothing unchecked is ever written to the socket
+  assertMailbox(config.from, 'sender');
+  assertMailbox(message.to, 'recipient');
+
+  const socket = await new Promise<Socket>((resolve, reject) => {
+    const onConnect = () => resolve(socket);
+    const socket = config.secure
+      ? connectTls({ host: config.host, port: config.port, servername: config.host }, onConnect)
+      : connectTcp({ host: config.host, port: config.port }, onConnect);
+    socket.once('error', reject);
+  });
+  socket.setTimeout(COMMAND_TIMEOUT_MS, () => socket.destroy(new SmtpError('SMTP server timed out')));
+
+  const nextReply = replyReader(socket);
+  const expect = async (codes: number[], command?: string) => {
+    if (command !== undefined) {
+      socket.write(`${command}\r\n`);
+    }
+    const reply = await nextReply();
+    if (!codes.includes(reply.code)) {
+      throw new SmtpError(`SMTP ${command?.split(' ')[0] ?? 'greeting'} failed: ${reply.code} ${reply.text}`, reply.code);
+    }
+    return reply;
+  };
+
+  try {
+    await expect([220]);
+    await expect([250], `EHLO ${mailboxAddress(config.from).split('@')[1] || 'localhost'}`);
+
+    if (config.user && config.password) {
+      const credentials = Buffer.from(`\u0000${config.user}\u0000${config.password}`, 'utf8').toString('base64');
+      await expect([235], `AUTH PLAIN ${credentials}`);
+    }
+
+    await expect([250], `MAIL FROM:<${mailboxAddress(config.from)}>`);
+    await expect([250, 251], `RCPT TO:<${mailboxAddress(message.to)}>`);
+    await expect([354], 'DATA');
+
+    // Lines starting with a dot are escaped by doubling it
+    const source = buildMimeMessage(message, config.from).replace(/^\./gm, '..');
+    await expect([250], `${source}\r\n.`);
+    await expect([221], 'QUIT').catch(() => undefined);
+  } finally {
+    socket.end();
+  }
+}
+
+export class SmtpMailProvider implements MailProvider {
+  readonly name = 'smtp' as const;
+
+  constructor(private config: SmtpConfig = getSmtpConfig()) {}
+
+  send(message: MailMessage): Promise<void> {
+    return sendMail(message, this.config);
+  }
+}
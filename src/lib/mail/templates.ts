@@ -0,0 +1,269 @@
+import { formatAddressLines, type ShippingAddress } from '@/lib/addresses';
+import { PriceUtils } from '@/lib/price-utils';
+import { SHIPPING_METHOD_NAMES, type ShippingMethod } from '@/lib/shipping-rates';
+import type { EmailTemplate } from './types';
+
+// Every template renders to a subject, a plain text body and an HTML body
+// from typed data, so a missing field is a compile error rather than a blank
+// in a customer's inbox.
+
+export interface OrderEmailLine {
+  name: string;
+  quantity: number;
+  unitPrice: string;
+  lineTotal: string;
+}
+
+// An order as the emails show it, built from `orders` and `orderItems`
+export interface OrderEmailData {
+  orderId: string; // Public order number
+  customerName: string;
+  email: string;
+  placedAt: Date;
+  items: OrderEmailLine[];
+  // Already taken off the total
+  discount: string;
+  promotionCode: string | null;
+  // Already included in the total
+  tax: string;
+  shippingMethod: ShippingMethod;
+  // Already included in the total; the address is `shipping`
+  shippingCost: string;
+  total: string;
+  shipping: ShippingAddress;
+}
+
+export interface EmailTemplateData {
+  order_confirmation: { order: OrderEmailData; orderUrl: string };
+  order_shipped: {
+    order: OrderEmailData;
+    orderUrl: string;
+    carrier?: string | null;
+    trackingNumber?: string | null;
+    trackingUrl?: string | null;
+    // What this package holds, when the order ships in parts
+    packageItems?: Array<{ name: string; quantity: number }>;
+  };
+  order_refunded: { order: OrderEmailData; amount: string; fullRefund: boolean; reason?: string | null };
+  password_reset: { name: string; resetUrl: string; expiresInMinutes: number };
+  cart_recovery: { items: Array<{ name: string; quantity: number; price: string }>; recoverUrl: string };
+}
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function layout(heading: string, body: string): string {
+  return `<!doctype html>
+<html>
+  <body style="margin: 0; padding: 24px; background: #f9fafb; font-family: sans-serif; color: #1f2937;">
+    <div style="max-width: 560px; margin: 0 auto; background: #ffffff; border-radius: 8px; padding: 24px;">
+      <p style="margin: 0 0 16px; font-weight: bold; color: #d97706;">EggyPro</p>
+      <h1 style="font-size: 20px; margin: 0 0 16px;">${escapeHtml(heading)}</h1>
+      ${body}
+    </div>
+  </body>
+</html>`;
+}
+
+function button(href: string, label: string): string {
+  return `<p><a href="${escapeHtml(href)}" style="display: inline-block; padding: 10px 16px; background: #d97706; color: #ffffff; text-decoration: none; border-radius: 6px;">${escapeHtml(label)}</a></p>`;
+}
+
+function paragraph(text: string): string {
+  return `<p>${escapeHtml(text)}</p>`;
+}
+
+function linesTable(rows: Array<{ label: string; amount: string }>, totalLabel: string, total: string): string {
+  const body = rows
+    .map(row => `<tr><td>${escapeHtml(row.label)}</td><td align="right">${escapeHtml(row.amount)}</td></tr>`)
+    .join('\n        ');
+  return `<table cellpadding="4" style="width: 100%; border-collapse: collapse;">
+        ${body}
+        <tr><td style="border-top: 1px solid #e5e7eb;"><strong>${escapeHtml(totalLabel)}</strong></td><td align="right" style="border-top: 1px solid #e5e7eb;"><strong>${escapeHtml(total)}</strong></td></tr>
+      </table>`;
+}
+
+function orderRows(order: OrderEmailData) {
+  const rows = order.items.map(item => ({
+    label: `${item.quantity} × ${item.name}`,
+    amount: PriceUtils.formatPrice(item.lineTotal),
+  }));
+  if (Number(order.discount) > 0) {
+    rows.push({
+      label: order.promotionCode ? `Discount (${order.promotionCode})` : 'Discount',
+      amount: `-${PriceUtils.formatPrice(order.discount)}`,
+    });
+  }
+  rows.push({
+    label: `Shipping (${SHIPPING_METHOD_NAMES[order.shippingMethod]})`,
+    amount: Number(order.shippingCost) > 0 ? PriceUtils.formatPrice(order.shippingCost) : 'Free',
+  });
+  if (Number(order.tax) > 0) {
+    rows.push({ label: 'Tax', amount: PriceUtils.formatPrice(order.tax) });
+  }
+  return rows;
+}
+
+function orderLinesText(order: OrderEmailData): string[] {
+  return [
+    ...orderRows(order).map(row => `${row.label}: ${row.amount}`),
+    `Total: ${PriceUtils.formatPrice(order.total)}`,
+  ];
+}
+
+function addressHtml(address: ShippingAddress): string {
+  return `<p style="color: #4b5563;">${formatAddressLines(address).map(escapeHtml).join('<br>')}</p>`;
+}
+
+type Renderers = { [T in EmailTemplate]: (data: EmailTemplateData[T]) => RenderedEmail };
+
+const RENDERERS: Renderers = {
+  order_confirmation: ({ order, orderUrl }) => {
+    const intro = `Thanks for your order, ${order.customerName}! We're getting it ready.`;
+    return {
+      subject: `Your EggyPro order ${order.orderId}`,
+      text: [
+        intro,
+        '',
+        `Order number: ${order.orderId}`,
+        '',
+        ...orderLinesText(order),
+        '',
+        'Shipping to:',
+        ...formatAddressLines(order.shipping),
+        '',
+        `Track your order: ${orderUrl}`,
+      ].join('\n'),
+      html: layout('Thanks for your order', [
+        paragraph(intro),
+        paragraph(`Order number: ${order.orderId}`),
+        linesTable(orderRows(order), 'Total', PriceUtils.formatPrice(order.total)),
+        '<p><strong>Shipping to</strong></p>',
+        addressHtml(order.shipping),
+        button(orderUrl, 'Track your order'),
+      ].join('\n      ')),
+    };
+  },
+
+  order_shipped: ({ order, orderUrl, carrier, trackingNumber, trackingUrl, packageItems }) => {
+    const tracking = [carrier, trackingNumber].filter(Boolean).join(' ');
+    const contents = packageItems?.map(item => `${item.quantity} × ${item.name}`) ?? [];
+    return {
+      subject: `Your EggyPro order ${order.orderId} has shipped`,
+      text: [
+        `Good news, ${order.customerName}: your order ${order.orderId} is on its way.`,
+        ...(tracking ? ['', `Tracking: ${tracking}`] : []),
+        ...(trackingUrl ? [trackingUrl] : []),
+        ...(contents.length > 0 ? ['', 'In this shipment:', ...contents] : []),
+        '',
+        ...orderLinesText(order),
+        '',
+        'Shipping to:',
+        ...formatAddressLines(order.shipping),
+        '',
+        `Order status: ${orderUrl}`,
+      ].join('\n'),
+      html: layout('Your order has shipped', [
+        paragraph(`Good news, ${order.customerName}: your order ${order.orderId} is on its way.`),
+        tracking ? paragraph(`Tracking: ${tracking}`) : '',
+        trackingUrl ? button(trackingUrl, 'Track your package') : '',
+        contents.length > 0
+          ? `<p><strong>In this shipment</strong><br>${contents.map(escapeHtml).join('<br>')}</p>`
+          : '',
+        linesTable(orderRows(order), 'Total', PriceUtils.formatPrice(order.total)),
+        addressHtml(order.shipping),
+        `<p><a href="${escapeHtml(orderUrl)}">Order status</a></p>`,
+      ].filter(Boolean).join('\n      ')),
+    };
+  },
+
+  order_refunded: ({ order, amount, fullRefund, reason }) => {
+    const summary = fullRefund
+      ? `We've refunded your order ${order.orderId} in full: ${PriceUtils.formatPrice(amount)}.`
+      : `We've refunded ${PriceUtils.formatPrice(amount)} of your order ${order.orderId}.`;
+    const timing = 'Refunds usually reach your account within 5-10 business days.';
+    return {
+      subject: `Refund for your EggyPro order ${order.orderId}`,
+      text: [
+        `Hi ${order.customerName},`,
+        '',
+        summary,
+        ...(reason ? [`Reason: ${reason}`] : []),
+        timing,
+      ].join('\n'),
+      html: layout('Your refund is on its way', [
+        paragraph(`Hi ${order.customerName},`),
+        paragraph(summary),
+        reason ? paragraph(`Reason: ${reason}`) : '',
+        paragraph(timing),
+      ].filter(Boolean).join('\n      ')),
+    };
+  },
+
+  password_reset: ({ name, resetUrl, expiresInMinutes }) => {
+    const ignore = "If you didn't ask to reset your password, you can ignore this email.";
+    return {
+      subject: 'Reset your EggyPro password',
+      text: [
+        `Hi ${name},`,
+        '',
+        `Use this link to choose a new password. It works for ${expiresInMinutes} minutes.`,
+        resetUrl,
+        '',
+        ignore,
+      ].join('\n'),
+      html: layout('Reset your password', [
+        paragraph(`Hi ${name},`),
+        paragraph(`Use the button below to choose a new password. The link works for ${expiresInMinutes} minutes.`),
+        button(resetUrl, 'Choose a new password'),
+        paragraph(ignore),
+      ].join('\n      ')),
+    };
+  },
+
+  cart_recovery: ({ items, recoverUrl }) => {
+    const rows = items.map(item => ({
+      label: `${item.quantity} × ${item.name}`,
+      amount: PriceUtils.multiplyPrice(item.price, item.quantity).formatted,
+    }));
+    const subtotal = PriceUtils.formatPrice(
+      items.reduce((sum, item) => sum + PriceUtils.multiplyPrice(item.price, item.quantity).numeric, 0)
+    );
+    const note = 'Prices and stock are checked again when you open your cart.';
+    return {
+      subject: 'You left something in your cart',
+      text: [
+        'You left something in your cart',
+        '',
+        ...rows.map(row => `${row.label}: ${row.amount}`),
+        `Subtotal: ${subtotal}`,
+        '',
+        'Pick up where you left off:',
+        recoverUrl,
+        '',
+        note,
+      ].join('\n'),
+      html: layout('You left something in your cart', [
+        linesTable(rows, 'Subtotal', subtotal),
+        button(recoverUrl, 'Return to your cart'),
+        `<p style="font-size: 12px; color: #6b7280;">${escapeHtml(note)}</p>`,
+      ].join('\n      ')),
+    };
+  },
+};
+
+export function renderEmail<T extends EmailTemplate>(template: T, data: EmailTemplateData[T]): RenderedEmail {
+  return RENDERERS[template](data);
+}
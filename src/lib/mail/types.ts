@@ -0,0 +1,28 @@
+// Provider-neutral mail types. Pure, so the schema and client code can import them.
+
+// Every email the shop sends has a template; email_outbox.template records which
+export const EMAIL_TEMPLATES = [
+  'order_confirmation',
+  'order_shipped',
+  'order_refunded',
+  'password_reset',
+  'cart_recovery',
+] as const;
+export type EmailTemplate = (typeof EMAIL_TEMPLATES)[number];
+
+// email_outbox.status: `pending` until delivered or out of attempts
+export const EMAIL_OUTBOX_STATUSES = ['pending', 'sent', 'failed'] as const;
+export type EmailOutboxStatus = (typeof EMAIL_OUTBOX_STATUSES)[number];
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailProvider {
+  readonly name: 'smtp' | 'file';
+  // Rejects when the message could not be handed over; the outbox retries it
+  send(message: MailMessage): Promise<void>;
+}
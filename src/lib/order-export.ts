@@ -0,0 +1,209 @@
+import { and, asc, gt } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { orders, orderItems } from '@/lib/db/schema';
+import { orderFilterCondition, type OrderFilters } from '@/lib/order-queries';
+
+export const ORDER_EXPORT_FORMATS = ['csv', 'ndjson'] as const;
+export type OrderExportFormat = typeof ORDER_EXPORT_FORMATS[number];
+
+// One row per order, or one row per order line item
+export const ORDER_EXPORT_GRANULARITIES = ['order', 'line_item'] as const;
+export type OrderExportGranularity = typeof ORDER_EXPORT_GRANULARITIES[number];
+
+type OrderWithItems = typeof orders.$inferSelect & { items: Array<typeof orderItems.$inferSelect> };
+
+// Amounts are copied from the decimal columns as strings, so exports add up to the cent
+export type ExportRecord = Record<string, string | number | boolean | null>;
+
+export const ORDER_EXPORT_COLUMNS = [
+  'order_id',
+  'created_at',
+  'status',
+  'customer_name',
+  'customer_email',
+  'shipping_line1',
+  'shipping_line2',
+  'shipping_city',
+  'shipping_region',
+  'shipping_postal_code',
+  'shipping_country',
+  'shipping_phone',
+  'shipping_method',
+  'payment_method',
+  'currency',
+  'item_count',
+  'promotion_code',
+  'discount_amount',
+  'tax_amount',
+  'shipping_amount',
+  'total_amount',
+  'amount_refunded',
+  'is_development_order',
+] as const;
+
+export const LINE_ITEM_EXPORT_COLUMNS = [
+  'order_id',
+  'created_at',
+  'status',
+  'customer_name',
+  'customer_email',
+  'payment_method',
+  'currency',
+  'product_id',
+  'variant_id',
+  'sku',
+  'product_name',
+  'unit_price',
+  'quantity',
+  'line_total',
+  'discount_amount',
+  'tax_rate',
+  'tax_amount',
+  'order_total_amount',
+  'is_development_order',
+] as const;
+
+const EXPORT_BATCH_SIZE = 200;
+
+export function exportColumns(granularity: OrderExportGranularity): readonly string[] {
+  return granularity === 'order' ? ORDER_EXPORT_COLUMNS : LINE_ITEM_EXPORT_COLUMNS;
+}
+
+export function orderExportRecords(order: OrderWithItems, granularity: OrderExportGranularity): ExportRecord[] {
+  const shared = {
+    order_id: order.order_id,
+    created_at: order.created_at.toISOString(),
+    status: order.status,
+    customer_name: order.customer_name,
+    customer_email: order.customer_email,
+  };
+
+  if (granularity === 'order') {
+    return [{
+      ...shared,
+      shipping_line1: order.shipping_line1,
+      shipping_line2: order.shipping_line2,
+      shipping_city: order.shipping_city,
+      shipping_region: order.shipping_region,
+      shipping_postal_code: order.shipping_postal_code,
+      shipping_country: order.shipping_country,
+      shipping_phone: order.shipping_phone,
+      shipping_method: order.shipping_method,
+      payment_method: order.payment_method,
+      currency: order.currency,
+      item_count: order.items.reduce((sum, item) => sum + item.quantity, 0),
+      promotion_code: order.promotion_code,
+      discount_amount: order.discount_amount,
+      tax_amount: order.tax_amount,
+      shipping_amount: order.shipping_amount,
+      total_amount: order.total_amount,
+      amount_refunded: order.amount_refunded,
+      is_development_order: order.is_development_order,
+    }];
+  }
+
+  return order.items.map(item => ({
+    ...shared,
+    payment_method: order.payment_method,
+    currency: order.currency,
+    product_id: item.product_id,
+    variant_id: item.variant_id,
+    sku: item.sku,
+    product_name: item.product_name,
+    unit_price: item.product_price,
+    quantity: item.quantity,
+    line_total: item.line_total,
+    discount_amount: item.discount_amount,
+    tax_rate: item.tax_rate,
+    tax_amount: item.tax_amount,
+    order_total_amount: order.total_amount,
+    is_development_order: order.is_development_order,
+  }));
+}
+
+const NUMERIC = /^-?\d+(\.\d+)?$/;
+
+/**
+ * Quotes a value for CSV. Text starting with a formula character is prefixed
+ * with `'` so spreadsheets do not evaluate customer input.
+ */
+export function escapeCsvValue(value: ExportRecord[string]): string {
+  if (value === null || value === undefined) return '';
+
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text) && !NUMERIC.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsvLine(values: Array<ExportRecord[string]>): string {
+  return `${values.map(escapeCsvValue).join(',')}\r\n`;
+}
+
+export function formatExportRecord(
+  record: ExportRecord,
+  format: OrderExportFormat,
+  columns: readonly string[]
+): string {
+  return format === 'csv'
+    ? toCsvLine(columns.map(column => record[column] ?? null))
+    : `${JSON.stringify(record)}\n`;
+}
+
+/**
+ * Streams matching orders oldest first, reading them in batches so large date
+ * ranges never sit in memory at once.
+ */
+export function streamOrderExport(
+  filters: OrderFilters,
+  format: OrderExportFormat,
+  granularity: OrderExportGranularity
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const columns = exportColumns(granularity);
+  const condition = orderFilterCondition(filters);
+  let lastId = 0;
+  let headerSent = false;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        let chunk = '';
+        if (!headerSent) {
+          headerSent = true;
+          if (format === 'csv') {
+            chunk += toCsvLine([...columns]);
+          }
+        }
+
+        const batch = await db.query.orders.findMany({
+          where: and(condition, gt(orders.id, lastId)),
+          orderBy: [asc(orders.id)],
+          limit: EXPORT_BATCH_SIZE,
+          with: { items: { orderBy: [asc(orderItems.id)] } },
+        });
+
+        for (const order of batch) {
+          for (const record of orderExportRecords(order, granularity)) {
+            chunk += formatExportRecord(record, format, columns);
+          }
+        }
+
+        if (chunk) {
+          controller.enqueue(encoder.encode(chunk));
+        }
+
+        if (batch.length < EXPORT_BATCH_SIZE) {
+          controller.close();
+        } else {
+          lastId = batch[batch.length - 1].id;
+        }
+      } catch (error) {
+        console.error('❌ Order export failed mid-stream:', error);
+        controller.error(error);
+      }
+    },
+  });
+}
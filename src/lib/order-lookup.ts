@@ -0,0 +1,130 @@
+import { and, asc, desc, eq, sql, type SQL } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { orders, orderItems, orderStatusHistory, shipments } from '@/lib/db/schema';
+import { shippingAddressFromOrder, type ShippingAddress } from '@/lib/addresses';
+import type { OrderStatus } from '@/lib/order-status';
+import type { ShippingMethod } from '@/lib/shipping-rates';
+import { SHIPMENT_CARRIER_NAMES, trackingUrl } from '@/lib/shipment-rules';
+
+// What a customer may see of their own order. Payment ids, actors and
+// internal notes stay out of it.
+export interface CustomerOrderView {
+  orderId: string;
+  status: OrderStatus;
+  placedAt: string;
+  currency: string;
+  totalAmount: number;
+  // Already taken off totalAmount
+  discountAmount: number;
+  promotionCode: string | null;
+  // Already included in totalAmount
+  taxAmount: number;
+  shippingMethod: ShippingMethod;
+  // Already included in totalAmount
+  shippingAmount: number;
+  amountRefunded: number;
+  items: Array<{
+    name: string;
+    price: number;
+    quantity: number;
+    lineTotal: number;
+    discount: number;
+    tax: number;
+    refundedQuantity: number;
+  }>;
+  shipping: ShippingAddress;
+  // Packages handed to the carrier, oldest first
+  shipments: Array<{
+    carrier: string;
+    trackingNumber: string | null;
+    trackingUrl: string | null;
+    shippedAt: string;
+  }>;
+  history: Array<{
+    status: OrderStatus;
+    at: string;
+  }>;
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+// Orders with everything a CustomerOrderView is built from, newest first, in one query
+function queryCustomerOrders(where: SQL | undefined, limit?: number) {
+  return db.query.orders.findMany({
+    where,
+    orderBy: [desc(orders.created_at), desc(orders.id)],
+    limit,
+    with: {
+      items: {
+        orderBy: [asc(orderItems.id)],
+        with: { refundItems: { columns: { quantity: true } } },
+      },
+      statusHistory: {
+        columns: { to_status: true, created_at: true },
+        orderBy: [asc(orderStatusHistory.created_at), asc(orderStatusHistory.id)],
+      },
+      shipments: {
+        where: eq(shipments.status, 'shipped'),
+        orderBy: [asc(shipments.shipped_at), asc(shipments.id)],
+      },
+    },
+  });
+}
+
+type CustomerOrderRow = Awaited<ReturnType<typeof queryCustomerOrders>>[number];
+
+function toCustomerOrderView(order: CustomerOrderRow): CustomerOrderView {
+  return {
+    orderId: order.order_id,
+    status: order.status,
+    placedAt: order.created_at.toISOString(),
+    currency: order.currency,
+    totalAmount: Number(order.total_amount),
+    discountAmount: Number(order.discount_amount),
+    promotionCode: order.promotion_code,
+    taxAmount: Number(order.tax_amount),
+    shippingMethod: order.shipping_method,
+    shippingAmount: Number(order.shipping_amount),
+    amountRefunded: Number(order.amount_refunded),
+    items: order.items.map(item => ({
+      name: item.product_name,
+      price: Number(item.product_price),
+      quantity: item.quantity,
+      lineTotal: Number(item.line_total),
+      discount: Number(item.discount_amount),
+      tax: Number(item.tax_amount),
+      refundedQuantity: item.refundItems.reduce((sum, refunded) => sum + refunded.quantity, 0),
+    })),
+    shipping: shippingAddressFromOrder(order),
+    shipments: order.shipments.map(shipment => ({
+      carrier: SHIPMENT_CARRIER_NAMES[shipment.carrier],
+      trackingNumber: shipment.tracking_number,
+      trackingUrl: trackingUrl(shipment.carrier, shipment.tracking_number),
+      shippedAt: (shipment.shipped_at ?? shipment.updated_at).toISOString(),
+    })),
+    history: order.statusHistory.map(entry => ({ status: entry.to_status, at: entry.created_at.toISOString() })),
+  };
+}
+
+/**
+ * Finds an order by its public id, but only when the email matches the one it
+ * was placed with. A wrong email and an unknown order look the same to the caller.
+ */
+export async function findCustomerOrder(orderId: string, email: string): Promise<CustomerOrderView | null> {
+  const [order] = await queryCustomerOrders(and(
+    eq(orders.order_id, orderId.trim()),
+    sql`lower(${orders.customer_email}) = ${normalizeEmail(email)}`
+  ), 1);
+
+  return order ? toCustomerOrderView(order) : null;
+}
+
+/**
+ * The orders linked to a customer account, newest first
+ */
+export async function listCustomerAccountOrders(customerId: number): Promise<CustomerOrderView[]> {
+  const rows = await queryCustomerOrders(eq(orders.customer_id, customerId));
+  return rows.map(toCustomerOrderView);
+}
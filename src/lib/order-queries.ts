@@ -0,0 +1,146 @@
+import { and, eq, gte, inArray, lt, sql, type SQL } from 'drizzle-orm';
+import { orders } from '@/lib/db/schema';
+import { isOrderStatus, ORDER_STATUSES, type OrderStatus } from '@/lib/order-status';
+
+export const DEFAULT_ORDER_PAGE_SIZE = 10;
+export const MAX_ORDER_PAGE_SIZE = 50;
+
+export interface OrderFilters {
+  statuses?: OrderStatus[];
+  createdFrom?: Date;
+  createdBefore?: Date; // Exclusive upper bound
+  email?: string;
+  isDevelopmentOrder?: boolean;
+  paymentMethod?: string;
+}
+
+export type ParsedOrderFilters =
+  | { ok: true; filters: OrderFilters }
+  | { ok: false; error: string };
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseDate(value: string | null): Date | null | undefined {
+  if (value === null || value === '') return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Reads inclusive `from` / `to` ISO dates into a half-open range. A plain date
+ * in `to` covers that whole day.
+ */
+export function parseDateRange(
+  searchParams: URLSearchParams
+): { ok: true; createdFrom?: Date; createdBefore?: Date } | { ok: false; error: string } {
+  const to = searchParams.get('to');
+  const createdFrom = parseDate(searchParams.get('from'));
+  const createdTo = parseDate(to);
+  if (createdFrom === null || createdTo === null) {
+    return { ok: false, error: 'from and to must be ISO 8601 dates' };
+  }
+  if (createdFrom && createdTo && createdFrom > createdTo) {
+    return { ok: false, error: 'from must not be after to' };
+  }
+
+  const inclusiveMs = DATE_ONLY.test(to || '') ? DAY_MS : 1;
+  return {
+    ok: true,
+    createdFrom,
+    createdBefore: createdTo ? new Date(createdTo.getTime() + inclusiveMs) : undefined,
+  };
+}
+
+/**
+ * Reads the admin order filters from query parameters:
+ * `status` (comma separated), `from` / `to` (ISO dates, inclusive), `email`,
+ * `dev` (`true` / `false`) and `payment_method`.
+ */
+export function parseOrderFilters(searchParams: URLSearchParams): ParsedOrderFilters {
+  const filters: OrderFilters = {};
+
+  const status = searchParams.get('status');
+  if (status) {
+    const statuses = status.split(',').map(value => value.trim()).filter(Boolean);
+    const unknown = statuses.filter(value => !isOrderStatus(value));
+    if (unknown.length > 0) {
+      return { ok: false, error: `Unknown status: ${unknown.join(', ')}. Expected one of ${ORDER_STATUSES.join(', ')}` };
+    }
+    filters.statuses = statuses as OrderStatus[];
+  }
+
+  const range = parseDateRange(searchParams);
+  if (!range.ok) {
+    return range;
+  }
+  filters.createdFrom = range.createdFrom;
+  filters.createdBefore = range.createdBefore;
+
+  const email = searchParams.get('email')?.trim();
+  if (email) {
+    filters.email = email.toLowerCase();
+  }
+
+  const dev = searchParams.get('dev');
+  if (dev !== null && dev !== '') {
+    if (dev !== 'true' && dev !== 'false') {
+      return { ok: false, error: 'dev must be true or false' };
+    }
+    filters.isDevelopmentOrder = dev === 'true';
+  }
+
+  const paymentMethod = searchParams.get('payment_method')?.trim();
+  if (paymentMethod) {
+    filters.paymentMethod = paymentMethod;
+  }
+
+  return { ok: true, filters };
+}
+
+/**
+ * Turns filters into a where clause on `orders`, or undefined when nothing is filtered
+ */
+export function orderFilterCondition(filters: OrderFilters): SQL | undefined {
+  const conditions: SQL[] = [];
+
+  if (filters.statuses?.length) {
+    conditions.push(inArray(orders.status, filters.statuses));
+  }
+  if (filters.createdFrom) {
+    conditions.push(gte(orders.created_at, filters.createdFrom));
+  }
+  if (filters.createdBefore) {
+    conditions.push(lt(orders.created_at, filters.createdBefore));
+  }
+  if (filters.email) {
+    conditions.push(sql`lower(${orders.customer_email}) = ${filters.email}`);
+  }
+  if (filters.isDevelopmentOrder !== undefined) {
+    conditions.push(eq(orders.is_development_order, filters.isDevelopmentOrder));
+  }
+  if (filters.paymentMethod) {
+    conditions.push(eq(orders.payment_method, filters.paymentMethod));
+  }
+
+  return conditions.length > 0 ? and(...conditions) : undefined;
+}
+
+/**
+ * Orders are paged newest first by id. The cursor is the id of the last order
+ * on the previous page, so pages stay stable while new orders come in.
+ */
+export function parseOrderCursor(cursor: string | null): number | null | undefined {
+  if (cursor === null || cursor === '') return undefined;
+  const id = Number(cursor);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+export function orderCursorCondition(cursor: number | undefined): SQL | undefined {
+  return cursor === undefined ? undefined : lt(orders.id, cursor);
+}
+
+export function parseOrderPageSize(limit: string | null): number {
+  const size = parseInt(limit || '') || DEFAULT_ORDER_PAGE_SIZE;
+  return Math.min(Math.max(size, 1), MAX_ORDER_PAGE_SIZE);
+}
@@ -0,0 +1,57 @@
+// Order lifecycle: pending → paid → fulfilling → shipped → delivered, plus cancelled/refunded
+
+export const ORDER_STATUSES = [
+  'pending',    // Created, payment not settled yet
+  'paid',       // Payment captured
+  'fulfilling', // Being picked and packed
+  'shipped',    // Handed to the carrier
+  'delivered',  // Received by the customer
+  'cancelled',  // Stopped before delivery (includes failed payments)
+  'refunded',   // Payment returned in full
+] as const;
+
+export type OrderStatus = typeof ORDER_STATUSES[number];
+
+// Allowed next statuses for each status; terminal statuses map to an empty list
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  pending: ['paid', 'cancelled'],
+  paid: ['fulfilling', 'cancelled', 'refunded'],
+  fulfilling: ['shipped', 'cancelled', 'refunded'],
+  shipped: ['delivered', 'refunded'],
+  delivered: ['refunded'],
+  cancelled: [],
+  refunded: [],
+};
+
+// Statuses an order may be created with
+export const INITIAL_ORDER_STATUSES: readonly OrderStatus[] = ['pending', 'paid'];
+
+export function isOrderStatus(value: unknown): value is OrderStatus {
+  return typeof value === 'string' && (ORDER_STATUSES as readonly string[]).includes(value);
+}
+
+export function canTransitionOrderStatus(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Whether an admin may set the status by hand. Refunds go through the refunds
+ * route, which returns the payment and the stock with them, and an order that
+ * was paid for is cancelled by refunding it. Orders are shipped through
+ * shipments, so there is a tracking number and the customer hears about it.
+ */
+export function canSetOrderStatusManually(from: OrderStatus, to: OrderStatus): boolean {
+  if (to === 'refunded' || to === 'shipped' || (to === 'cancelled' && from !== 'pending')) {
+    return false;
+  }
+  return canTransitionOrderStatus(from, to);
+}
+
+// The statuses an admin can set by hand next
+export function manualOrderStatusTransitions(from: OrderStatus): OrderStatus[] {
+  return ORDER_STATUS_TRANSITIONS[from].filter(to => canSetOrderStatusManually(from, to));
+}
+
+export function isTerminalOrderStatus(status: OrderStatus): boolean {
+  return ORDER_STATUS_TRANSITIONS[status].length === 0;
+}
@@ -0,0 +1,308 @@
+import { and, eq, sql } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { orders, orderItems, orderStatusHistory } from '@/lib/db/schema';
+import { shippingAddressColumns, type ShippingAddress } from '@/lib/addresses';
+import {
+  adjustStock,
+  consumeReservation,
+  fromCents,
+  getReservedQuantities,
+  loadCatalogVariants,
+  priceLineItems,
+  type LineItemIssue,
+  type PricedLineItem,
+  type DbExecutor,
+  type RequestedLineItem,
+} from '@/lib/inventory';
+import { quotePromotion, redeemPromotion } from '@/lib/promotions';
+import type { PromotionRejection } from '@/lib/promotion-rules';
+import { quoteTax } from '@/lib/tax';
+import { quoteShipping } from '@/lib/shipping';
+import type { ShippingMethod } from '@/lib/shipping-rates';
+import { canTransitionOrderStatus, ORDER_STATUS_TRANSITIONS, type OrderStatus } from '@/lib/order-status';
+
+export interface NewOrderInput {
+  orderId: string;
+  paymentIntentId: string;
+  status: OrderStatus;
+  // Who created the order, recorded in the status history
+  actor?: string;
+  // Signed-in customer account the order belongs to
+  customerId?: number | null;
+  currency?: string;
+  email?: string | null;
+  shipping: ShippingAddress;
+  paymentMethod: string;
+  isDevelopmentOrder: boolean;
+  items: RequestedLineItem[];
+  // Discount code applied at checkout, checked again here against its limits
+  promotionCode?: string | null;
+  shippingMethod: ShippingMethod;
+  // When set, the order is rejected unless the database total matches (in cents)
+  expectedTotalCents?: number;
+}
+
+export type CreateOrderResult =
+  | {
+      ok: true;
+      order: typeof orders.$inferSelect;
+      lines: PricedLineItem[];
+      totalCents: number;
+      discountCents: number;
+      taxCents: number;
+      shippingCents: number;
+    }
+  | { ok: false; reason: 'duplicate'; order: typeof orders.$inferSelect }
+  | { ok: false; reason: 'insufficient_stock'; issues: LineItemIssue[] }
+  | { ok: false; reason: 'promotion_rejected'; rejection: PromotionRejection }
+  | { ok: false; reason: 'shipping_unavailable'; method: ShippingMethod }
+  | { ok: false; reason: 'amount_mismatch'; totalCents: number };
+
+/**
+ * Creates the order, its line items and decrements stock in one transaction.
+ * Variant rows are locked first so concurrent checkouts queue up instead of overselling,
+ * and the promotion row too so a code can't be redeemed past its limits. Tax and
+ * the cost of the chosen shipping method are worked out from the shipping address.
+ */
+export async function createOrderWithStock(input: NewOrderInput): Promise<CreateOrderResult> {
+  return db.transaction(async (tx) => {
+    const variantIds = input.items.map(item => item.variantId);
+
+    const catalog = await loadCatalogVariants(tx, variantIds, true);
+
+    // A concurrent confirm for the same intent waits on the row locks above,
+    // so by now it can see the order the first one committed
+    const [existingOrder] = await tx
+      .select()
+      .from(orders)
+      .where(eq(orders.payment_intent_id, input.paymentIntentId))
+      .limit(1);
+
+    if (existingOrder) {
+      return { ok: false, reason: 'duplicate', order: existingOrder };
+    }
+
+    // Stock held by this intent's own reservation is available to it
+    const reserved = await getReservedQuantities(tx, variantIds, input.paymentIntentId);
+    const pricing = priceLineItems(input.items, catalog, reserved);
+
+    if (!pricing.ok) {
+      return { ok: false, reason: 'insufficient_stock', issues: pricing.issues };
+    }
+
+    const customer = { customerId: input.customerId, email: input.email };
+    const promotion = input.promotionCode
+      ? await quotePromotion(input.promotionCode, pricing.lines, customer, tx, true)
+      : null;
+
+    if (promotion && !promotion.ok) {
+      return { ok: false, reason: 'promotion_rejected', rejection: promotion.reason };
+    }
+
+    // Taxed on what is left after the discount, at the rates for the shipping address
+    const discountCents = promotion?.discountCents ?? 0;
+    const tax = await quoteTax(input.shipping, pricing.lines, promotion?.lines, tx);
+
+    const shippingOptions = await quoteShipping(
+      input.shipping.country,
+      pricing.lines,
+      pricing.totalCents - discountCents,
+      promotion?.freeShipping ?? false,
+      tx
+    );
+    const shipping = shippingOptions.find(option => option.method === input.shippingMethod);
+    if (!shipping) {
+      return { ok: false, reason: 'shipping_unavailable', method: input.shippingMethod };
+    }
+
+    const totalCents = pricing.totalCents - discountCents + tax.taxCents + shipping.costCents;
+
+    if (input.expectedTotalCents !== undefined && input.expectedTotalCents !== totalCents) {
+      return { ok: false, reason: 'amount_mismatch', totalCents };
+    }
+
+    const [order] = await tx.insert(orders).values({
+      order_id: input.orderId,
+      payment_intent_id: input.paymentIntentId,
+      status: input.status,
+      total_amount: fromCents(totalCents),
+      discount_amount: fromCents(discountCents),
+      tax_amount: fromCents(tax.taxCents),
+      shipping_method: shipping.method,
+      shipping_amount: fromCents(shipping.costCents),
+      promotion_id: promotion?.promotion.id ?? null,
+      promotion_code: promotion?.promotion.code ?? null,
+      currency: input.currency || 'usd',
+      ...shippingAddressColumns(input.shipping),
+      customer_id: input.customerId ?? null,
+      customer_email: input.email || null,
+      payment_method: input.paymentMethod,
+      is_development_order: input.isDevelopmentOrder,
+    }).returning();
+
+    await tx.insert(orderStatusHistory).values({
+      order_id: order.id,
+      from_status: null,
+      to_status: order.status,
+      actor: input.actor || 'system',
+      reason: 'Order created',
+    });
+
+    await tx.insert(orderItems).values(
+      pricing.lines.map(line => {
+        const lineTax = tax.lines.find(taxed => taxed.variantId === line.variantId);
+        return {
+          order_id: order.id,
+          product_id: line.productId,
+          variant_id: line.variantId,
+          sku: line.sku,
+          product_name: line.name,
+          product_price: line.unitPrice,
+          quantity: line.quantity,
+          line_total: fromCents(line.lineTotalCents),
+          discount_amount: fromCents(
+            promotion?.lines.find(discounted => discounted.variantId === line.variantId)?.discountCents ?? 0
+          ),
+          tax_amount: fromCents(lineTax?.taxCents ?? 0),
+          tax_rate: (lineTax?.ratePercent ?? 0).toFixed(3),
+        };
+      })
+    );
+
+    if (promotion) {
+      await redeemPromotion(tx, promotion.promotion.id, order.id, discountCents, customer);
+    }
+
+    await adjustStock(tx, pricing.lines.map(line => ({
+      productId: line.productId,
+      variantId: line.variantId,
+      delta: -line.quantity,
+    })));
+
+    await consumeReservation(input.paymentIntentId, tx);
+
+    return {
+      ok: true,
+      order,
+      lines: pricing.lines,
+      totalCents,
+      discountCents,
+      taxCents: tax.taxCents,
+      shippingCents: shipping.costCents,
+    };
+  });
+}
+
+/**
+ * Puts an order's line item quantities back into variant stock
+ */
+export async function restockOrderItems(executor: DbExecutor, orderDbId: number): Promise<void> {
+  const items = await executor
+    .select({ productId: orderItems.product_id, variantId: orderItems.variant_id, quantity: orderItems.quantity })
+    .from(orderItems)
+    .where(eq(orderItems.order_id, orderDbId));
+
+  await adjustStock(executor, items.map(item => ({
+    productId: item.productId,
+    variantId: item.variantId,
+    delta: item.quantity,
+  })));
+}
+
+export type ClaimGuestOrderResult =
+  | { ok: true; order: typeof orders.$inferSelect }
+  | { ok: false; reason: 'not_found' | 'already_claimed' };
+
+/**
+ * Links a guest order to a customer account. The order must have been placed
+ * with the account's email; knowing the order number as well is the same proof
+ * the public order lookup asks for.
+ */
+export async function claimGuestOrder(
+  customerId: number,
+  customerEmail: string,
+  orderId: string
+): Promise<ClaimGuestOrderResult> {
+  return db.transaction(async (tx) => {
+    const [order] = await tx
+      .select()
+      .from(orders)
+      .where(and(
+        eq(orders.order_id, orderId.trim()),
+        sql`lower(${orders.customer_email}) = ${customerEmail.trim().toLowerCase()}`
+      ))
+      .for('update');
+
+    if (!order) {
+      return { ok: false, reason: 'not_found' };
+    }
+
+    if (order.customer_id !== null) {
+      return order.customer_id === customerId
+        ? { ok: true, order }
+        : { ok: false, reason: 'already_claimed' };
+    }
+
+    const [claimed] = await tx
+      .update(orders)
+      .set({ customer_id: customerId, updated_at: new Date() })
+      .where(eq(orders.id, order.id))
+      .returning();
+
+    return { ok: true, order: claimed };
+  });
+}
+
+export interface StatusChange {
+  actor: string;
+  reason?: string;
+}
+
+export type TransitionResult =
+  | { ok: true; order: typeof orders.$inferSelect; from: OrderStatus }
+  | { ok: false; reason: 'not_found' }
+  | { ok: false; reason: 'illegal_transition'; from: OrderStatus; to: OrderStatus; allowed: readonly OrderStatus[] };
+
+/**
+ * The only way to change an order's status after creation: locks the order,
+ * checks the transition against the lifecycle and records it in the history.
+ */
+export async function transitionOrderStatus(
+  orderDbId: number,
+  to: OrderStatus,
+  change: StatusChange,
+  executor: DbExecutor = db
+): Promise<TransitionResult> {
+  return executor.transaction(async (tx) => {
+    const [current] = await tx
+      .select()
+      .from(orders)
+      .where(eq(orders.id, orderDbId))
+      .for('update');
+
+    if (!current) {
+      return { ok: false, reason: 'not_found' };
+    }
+
+    const from = current.status;
+    if (!canTransitionOrderStatus(from, to)) {
+      return { ok: false, reason: 'illegal_transition', from, to, allowed: ORDER_STATUS_TRANSITIONS[from] };
+    }
+
+    const [order] = await tx
+      .update(orders)
+      .set({ status: to, updated_at: new Date() })
+      .where(eq(orders.id, orderDbId))
+      .returning();
+
+    await tx.insert(orderStatusHistory).values({
+      order_id: orderDbId,
+      from_status: from,
+      to_status: to,
+      actor: change.actor,
+      reason: change.reason || null,
+    });
+
+    return { ok: true, order, from };
+  });
+}
@@ -0,0 +1,37 @@
+import { getPaymentConfig } from '@/lib/stripe';
+import { MockPaymentProvider } from './mock-provider';
+import { StripePaymentProvider } from './stripe-provider';
+import type { PaymentProvider } from './types';
+
+export * from './types';
+export * from './webhooks';
+export { MockPaymentProvider, MOCK_TEST_PAYMENT_METHODS } from './mock-provider';
+export type { MockOutcome, MockIntentRecord, MockIntentStore } from './mock-provider';
+
+// Provider instance (singleton)
+let provider: PaymentProvider | null = null;
+
+// Get the payment provider selected by the payment configuration
+export function getPaymentProvider(): PaymentProvider {
+  if (!provider) {
+    const config = getPaymentConfig();
+
+    if (config.provider === 'stripe') {
+      const secretKey = process.env.STRIPE_SECRET_KEY;
+      if (!secretKey) {
+        throw new Error(
+          'Missing Stripe secret key. Please add STRIPE_SECRET_KEY to your environment variables or unset PAYMENT_PROVIDER.'
+        );
+      }
+      provider = new StripePaymentProvider(secretKey);
+    } else {
+      provider = new MockPaymentProvider();
+    }
+  }
+  return provider;
+}
+
+// Swap the active provider, e.g. for a scripted mock in tests
+export function setPaymentProvider(next: PaymentProvider | null): void {
+  provider = next;
+}
@@ -0,0 +1,217 @@
+import { eq } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { mockPaymentIntents } from '@/lib/db/schema';
+import {
+  PaymentProviderError,
+  type ConfirmIntentParams,
+  type CreateIntentParams,
+  type PaymentError,
+  type PaymentIntentStatus,
+  type PaymentProvider,
+  type ProviderPaymentIntent,
+  type ProviderRefund,
+  type RefundParams,
+} from './types';
+
+export type MockOutcome =
+  | { status: 'succeeded' }
+  | { status: 'processing' }
+  | { status: 'failed'; error: PaymentError };
+
+export interface MockIntentRecord extends ProviderPaymentIntent {
+  paymentMethod?: string;
+}
+
+// Persistence for mock intents; the default keeps them in the database
+export interface MockIntentStore {
+  insert(record: MockIntentRecord): Promise<void>;
+  get(id: string): Promise<MockIntentRecord | null>;
+  update(id: string, changes: Partial<MockIntentRecord>): Promise<MockIntentRecord | null>;
+}
+
+// Stripe-style test payment methods understood by the mock provider
+export const MOCK_TEST_PAYMENT_METHODS: Record<string, MockOutcome> = {
+  pm_card_visa: { status: 'succeeded' },
+  pm_bypass: { status: 'succeeded' },
+  pm_card_processing: { status: 'processing' },
+  pm_card_chargeDeclined: {
+    status: 'failed',
+    error: { code: 'card_declined', message: 'Your card was declined. Please try a different payment method.' },
+  },
+  pm_card_chargeDeclinedInsufficientFunds: {
+    status: 'failed',
+    error: { code: 'insufficient_funds', message: 'Your card has insufficient funds. Please try a different payment method.' },
+  },
+};
+
+function defaultOutcome(_intent: MockIntentRecord, paymentMethod?: string): MockOutcome {
+  return (paymentMethod && MOCK_TEST_PAYMENT_METHODS[paymentMethod]) || { status: 'succeeded' };
+}
+
+class DatabaseMockIntentStore implements MockIntentStore {
+  private toRecord(row: typeof mockPaymentIntents.$inferSelect): MockIntentRecord {
+    return {
+      id: row.id,
+      clientSecret: row.client_secret,
+      amount: row.amount,
+      amountRefunded: row.amount_refunded,
+      currency: row.currency,
+      status: row.status as PaymentIntentStatus,
+      metadata: (row.metadata || {}) as Record<string, string>,
+      paymentMethod: row.payment_method || undefined,
+      lastError: row.last_error_code
+        ? { code: row.last_error_code, message: 'The payment failed.' }
+        : undefined,
+    };
+  }
+
+  async insert(record: MockIntentRecord): Promise<void> {
+    await db.insert(mockPaymentIntents).values({
+      id: record.id,
+      client_secret: record.clientSecret,
+      amount: record.amount,
+      amount_refunded: record.amountRefunded,
+      currency: record.currency,
+      status: record.status,
+      metadata: record.metadata,
+    });
+  }
+
+  async get(id: string): Promise<MockIntentRecord | null> {
+    const [row] = await db.select().from(mockPaymentIntents).where(eq(mockPaymentIntents.id, id)).limit(1);
+    return row ? this.toRecord(row) : null;
+  }
+
+  async update(id: string, changes: Partial<MockIntentRecord>): Promise<MockIntentRecord | null> {
+    const [row] = await db
+      .update(mockPaymentIntents)
+      .set({
+        ...(changes.status !== undefined && { status: changes.status }),
+        ...(changes.amountRefunded !== undefined && { amount_refunded: changes.amountRefunded }),
+        ...(changes.paymentMethod !== undefined && { payment_method: changes.paymentMethod }),
+        ...('lastError' in changes && { last_error_code: changes.lastError?.code ?? null }),
+        updated_at: new Date(),
+      })
+      .where(eq(mockPaymentIntents.id, id))
+      .returning();
+
+    return row ? this.toRecord(row) : null;
+  }
+}
+
+function randomSuffix(length: number): string {
+  return Math.random().toString(36).substr(2, length);
+}
+
+function toPublicIntent(record: MockIntentRecord): ProviderPaymentIntent {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { paymentMethod, ...intent } = record;
+  return intent;
+}
+
+/**
+ * Local stand-in for Stripe. Outcomes come from the payment method used at
+ * confirm time, or from a custom `resolveOutcome` so tests can script them.
+ */
+export class MockPaymentProvider implements PaymentProvider {
+  readonly name = 'mock' as const;
+  readonly isTestMode = true;
+  private store: MockIntentStore;
+  private resolveOutcome: (intent: MockIntentRecord, paymentMethod?: string) => MockOutcome;
+
+  constructor(options: {
+    store?: MockIntentStore;
+    resolveOutcome?: (intent: MockIntentRecord, paymentMethod?: string) => MockOutcome;
+  } = {}) {
+    this.store = options.store || new DatabaseMockIntentStore();
+    this.resolveOutcome = options.resolveOutcome || defaultOutcome;
+  }
+
+  async createIntent(params: CreateIntentParams): Promise<ProviderPaymentIntent> {
+    if (!Number.isInteger(params.amount) || params.amount <= 0) {
+      throw new PaymentProviderError('Amount must be a positive integer in cents.', 'invalid_amount');
+    }
+
+    const id = `pi_mock_${Date.now()}_${randomSuffix(9)}`;
+    const record: MockIntentRecord = {
+      id,
+      clientSecret: `${id}_secret_${randomSuffix(16)}`,
+      amount: params.amount,
+      amountRefunded: 0,
+      currency: params.currency.toLowerCase(),
+      status: 'requires_payment_method',
+      metadata: params.metadata || {},
+    };
+
+    await this.store.insert(record);
+    return toPublicIntent(record);
+  }
+
+  async confirm(paymentIntentId: string, params: ConfirmIntentParams = {}): Promise<ProviderPaymentIntent> {
+    const intent = await this.requireIntent(paymentIntentId);
+
+    // Confirming a settled intent again is a no-op, like retrying against Stripe
+    if (intent.status === 'succeeded' || intent.status === 'processing') {
+      return toPublicIntent(intent);
+    }
+
+    if (intent.status === 'canceled') {
+      throw new PaymentProviderError('This payment has been canceled.', 'invalid_state');
+    }
+
+    const outcome = this.resolveOutcome(intent, params.paymentMethod);
+    const updated = await this.store.update(paymentIntentId, {
+      status: outcome.status,
+      paymentMethod: params.paymentMethod,
+      lastError: outcome.status === 'failed' ? outcome.error : undefined,
+    });
+
+    const result = toPublicIntent(updated || intent);
+    // The store only keeps the error code, so hand back the full scripted error
+    return outcome.status === 'failed' ? { ...result, lastError: outcome.error } : result;
+  }
+
+  async refund(paymentIntentId: string, params: RefundParams = {}): Promise<ProviderRefund> {
+    const intent = await this.requireIntent(paymentIntentId);
+
+    if (intent.status !== 'succeeded') {
+      throw new PaymentProviderError('Only succeeded payments can be refunded.', 'invalid_state');
+    }
+
+    const refundable = intent.amount - intent.amountRefunded;
+    const amount = params.amount ?? refundable;
+
+    if (!Number.isInteger(amount) || amount <= 0 || amount > refundable) {
+      throw new PaymentProviderError(
+        `Refund amount must be between 1 and ${refundable} cents.`,
+        'invalid_amount'
+      );
+    }
+
+    await this.store.update(paymentIntentId, { amountRefunded: intent.amountRefunded + amount });
+
+    return {
+      id: `re_mock_${Date.now()}_${randomSuffix(9)}`,
+      paymentIntentId,
+      amount,
+      status: 'succeeded',
+    };
+  }
+
+  async retrieve(paymentIntentId: string): Promise<ProviderPaymentIntent | null> {
+    const intent = await this.store.get(paymentIntentId);
+    return intent ? toPublicIntent(intent) : null;
+  }
+
+  receiptUrl(_intent: ProviderPaymentIntent, orderId: string): string {
+    return `https://mock-receipts.com/${orderId}`;
+  }
+
+  private async requireIntent(paymentIntentId: string): Promise<MockIntentRecord> {
+    const intent = await this.store.get(paymentIntentId);
+    if (!intent) {
+      throw new PaymentProviderError(`No such payment intent: ${paymentIntentId}`, 'not_found', 404);
+    }
+    return intent;
+  }
+}
@@ -0,0 +1,162 @@
+import Stripe from 'stripe';
+import {
+  PaymentProviderError,
+  type ConfirmIntentParams,
+  type CreateIntentParams,
+  type PaymentIntentStatus,
+  type PaymentProvider,
+  type ProviderPaymentIntent,
+  type ProviderRefund,
+  type RefundParams,
+} from './types';
+
+function toIntent(intent: Stripe.PaymentIntent): ProviderPaymentIntent {
+  let status: PaymentIntentStatus;
+
+  switch (intent.status) {
+    case 'requires_payment_method':
+      // Stripe moves a declined intent back here and records the decline as last_payment_error
+      status = intent.last_payment_error ? 'failed' : 'requires_payment_method';
+      break;
+    case 'requires_capture':
+      status = 'processing';
+      break;
+    default:
+      status = intent.status;
+  }
+
+  const charge = typeof intent.latest_charge === 'object' ? intent.latest_charge : null;
+
+  return {
+    id: intent.id,
+    clientSecret: intent.client_secret || '',
+    amount: intent.amount,
+    amountRefunded: charge?.amount_refunded || 0,
+    currency: intent.currency,
+    status,
+    metadata: intent.metadata,
+    lastError: intent.last_payment_error
+      ? {
+          code: intent.last_payment_error.decline_code || intent.last_payment_error.code || 'payment_failed',
+          message: intent.last_payment_error.message || 'The payment failed.',
+        }
+      : undefined,
+    receiptUrl: charge?.receipt_url || undefined,
+  };
+}
+
+function toProviderError(error: unknown): PaymentProviderError {
+  if (error instanceof Stripe.errors.StripeError) {
+    if (error.code === 'resource_missing') {
+      return new PaymentProviderError(error.message, 'not_found', 404);
+    }
+    if (error.code === 'payment_intent_unexpected_state') {
+      return new PaymentProviderError(error.message, 'invalid_state');
+    }
+    if (error.code === 'amount_too_large' || error.code === 'amount_too_small') {
+      return new PaymentProviderError(error.message, 'invalid_amount');
+    }
+    return new PaymentProviderError(error.message, 'provider_error', error.statusCode || 502);
+  }
+
+  return new PaymentProviderError(
+    error instanceof Error ? error.message : 'Unknown payment provider error',
+    'provider_error',
+    502
+  );
+}
+
+/**
+ * Stripe-backed provider, used when PAYMENT_PROVIDER=stripe
+ */
+export class StripePaymentProvider implements PaymentProvider {
+  readonly name = 'stripe' as const;
+  readonly isTestMode: boolean;
+  private stripe: Stripe;
+
+  constructor(secretKey: string) {
+    this.stripe = new Stripe(secretKey);
+    this.isTestMode = secretKey.startsWith('sk_test_');
+  }
+
+  async createIntent(params: CreateIntentParams): Promise<ProviderPaymentIntent> {
+    try {
+      const intent = await this.stripe.paymentIntents.create(
+        {
+          amount: params.amount,
+          currency: params.currency.toLowerCase(),
+          metadata: params.metadata,
+          automatic_payment_methods: { enabled: true },
+        },
+        { idempotencyKey: params.idempotencyKey }
+      );
+      return toIntent(intent);
+    } catch (error) {
+      throw toProviderError(error);
+    }
+  }
+
+  async confirm(paymentIntentId: string, params: ConfirmIntentParams = {}): Promise<ProviderPaymentIntent> {
+    try {
+      const intent = await this.stripe.paymentIntents.confirm(
+        paymentIntentId,
+        { payment_method: params.paymentMethod, expand: ['latest_charge'] },
+        { idempotencyKey: params.idempotencyKey }
+      );
+      return toIntent(intent);
+    } catch (error) {
+      // Card declines are raised as errors but leave a readable intent behind
+      if (error instanceof Stripe.errors.StripeCardError) {
+        const intent = await this.retrieve(paymentIntentId);
+        if (intent) {
+          return intent;
+        }
+      }
+      throw toProviderError(error);
+    }
+  }
+
+  async refund(paymentIntentId: string, params: RefundParams = {}): Promise<ProviderRefund> {
+    try {
+      const refund = await this.stripe.refunds.create(
+        {
+          payment_intent: paymentIntentId,
+          amount: params.amount,
+          metadata: params.reason ? { reason: params.reason } : undefined,
+        },
+        { idempotencyKey: params.idempotencyKey }
+      );
+
+      return {
+        id: refund.id,
+        paymentIntentId,
+        amount: refund.amount,
+        status: refund.status === 'succeeded' ? 'succeeded'
+          : refund.status === 'failed' || refund.status === 'canceled' ? 'failed'
+          : 'pending',
+      };
+    } catch (error) {
+      throw toProviderError(error);
+    }
+  }
+
+  async retrieve(paymentIntentId: string): Promise<ProviderPaymentIntent | null> {
+    try {
+      const intent = await this.stripe.paymentIntents.retrieve(paymentIntentId, {
+        expand: ['latest_charge'],
+      });
+      return toIntent(intent);
+    } catch (error) {
+      const providerError = toProviderError(error);
+      if (providerError.code === 'not_found') {
+        return null;
+      }
+      throw providerError;
+    }
+  }
+
+  // Stripe hosts a receipt for each charge
+  receiptUrl(intent: ProviderPaymentIntent): string | undefined {
+    return intent.receiptUrl;
+  }
+}
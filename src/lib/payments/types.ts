@@ -0,0 +1,79 @@
+// Provider-neutral payment types. Amounts are always in the smallest currency unit (cents).
+
+export type PaymentIntentStatus =
+  | 'requires_payment_method'
+  | 'requires_confirmation'
+  | 'requires_action'
+  | 'processing'
+  | 'succeeded'
+  | 'failed'
+  | 'canceled';
+
+export interface PaymentError {
+  code: string;
+  message: string;
+}
+
+export interface ProviderPaymentIntent {
+  id: string;
+  clientSecret: string;
+  amount: number;
+  amountRefunded: number;
+  currency: string;
+  status: PaymentIntentStatus;
+  metadata: Record<string, string>;
+  lastError?: PaymentError;
+  // The provider's receipt page for the charge, once there is one
+  receiptUrl?: string;
+}
+
+export interface ProviderRefund {
+  id: string;
+  paymentIntentId: string;
+  amount: number;
+  status: 'pending' | 'succeeded' | 'failed';
+}
+
+export interface CreateIntentParams {
+  amount: number;
+  currency: string;
+  metadata?: Record<string, string>;
+  idempotencyKey?: string;
+}
+
+export interface ConfirmIntentParams {
+  // Provider payment method id, e.g. `pm_card_visa`
+  paymentMethod?: string;
+  idempotencyKey?: string;
+}
+
+export interface RefundParams {
+  // Omit to refund whatever has not been refunded yet
+  amount?: number;
+  reason?: string;
+  idempotencyKey?: string;
+}
+
+export interface PaymentProvider {
+  readonly name: 'mock' | 'stripe';
+  // Orders paid through a test-mode provider are flagged as development orders
+  readonly isTestMode: boolean;
+  createIntent(params: CreateIntentParams): Promise<ProviderPaymentIntent>;
+  confirm(paymentIntentId: string, params?: ConfirmIntentParams): Promise<ProviderPaymentIntent>;
+  refund(paymentIntentId: string, params?: RefundParams): Promise<ProviderRefund>;
+  // Resolves to null when the provider does not know the intent
+  retrieve(paymentIntentId: string): Promise<ProviderPaymentIntent | null>;
+  // Where the shopper can view the receipt for an order paid with the intent, if the provider hosts one
+  receiptUrl(intent: ProviderPaymentIntent, orderId: string): string | undefined;
+}
+
+export class PaymentProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'not_found' | 'invalid_state' | 'invalid_amount' | 'provider_error',
+    public readonly status: number = 400
+  ) {
+    super(message);
+    this.name = 'PaymentProviderError';
+  }
+}
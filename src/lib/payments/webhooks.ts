@@ -0,0 +1,90 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// Stripe-compatible webhook signatures: `t=<unix seconds>,v1=<hex hmac-sha256 of "t.payload">`
+
+export const WEBHOOK_SIGNATURE_HEADER = 'stripe-signature';
+
+// Reject events signed more than five minutes away from now (replay protection)
+export const DEFAULT_TOLERANCE_SECONDS = 300;
+
+export interface PaymentWebhookEvent {
+  id: string;
+  type: string;
+  created: number;
+  data: {
+    object: {
+      id: string;
+      object?: string;
+      amount?: number;
+      amount_refunded?: number;
+      refunded?: boolean;
+      // On charges, newest first
+      refunds?: { data?: Array<{ id: string; amount?: number }> };
+      payment_intent?: string | null;
+      [key: string]: unknown;
+    };
+  };
+}
+
+export type SignatureVerificationResult =
+  | { valid: true }
+  | { valid: false; reason: 'missing_header' | 'malformed_header' | 'timestamp_out_of_tolerance' | 'signature_mismatch' };
+
+function computeSignature(payload: string, secret: string, timestamp: number): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${payload}`, 'utf8').digest('hex');
+}
+
+/**
+ * Builds a signature header for a payload, as the provider would send it
+ */
+export function signWebhookPayload(
+  payload: string,
+  secret: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  return `t=${timestamp},v1=${computeSignature(payload, secret, timestamp)}`;
+}
+
+/**
+ * Checks a signature header against the raw request body. Any of several
+ * `v1` entries may match, which allows rotating secrets without downtime.
+ */
+export function verifyWebhookSignature(
+  payload: string,
+  header: string | null,
+  secret: string,
+  toleranceSeconds: number = DEFAULT_TOLERANCE_SECONDS,
+  now: number = Math.floor(Date.now() / 1000)
+): SignatureVerificationResult {
+  if (!header) {
+    return { valid: false, reason: 'missing_header' };
+  }
+
+  let timestamp: number | null = null;
+  const signatures: string[] = [];
+
+  for (const part of header.split(',')) {
+    const [key, value] = part.trim().split('=', 2);
+    if (key === 't' && value) {
+      timestamp = Number(value);
+    } else if (key === 'v1' && value) {
+      signatures.push(value);
+    }
+  }
+
+  if (timestamp === null || !Number.isInteger(timestamp) || signatures.length === 0) {
+    return { valid: false, reason: 'malformed_header' };
+  }
+
+  if (Math.abs(now - timestamp) > toleranceSeconds) {
+    return { valid: false, reason: 'timestamp_out_of_tolerance' };
+  }
+
+  const expected = Buffer.from(computeSignature(payload, secret, timestamp), 'hex');
+  const matches = signatures.some(signature => {
+    const candidate = Buffer.from(signature, 'hex');
+    return candidate.length === expected.length && timingSafeEqual(candidate, expected);
+  });
+
+  return matches ? { valid: true } : { valid: false, reason: 'signature_mismatch' };
+}
@@ -0,0 +1,247 @@
+import { and, asc, eq, like, ne, sql } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { products, productVariants } from '@/lib/db/schema';
+import { recordAuditEvent, type AuditRequestMetadata } from '@/lib/audit-log';
+import type { DbExecutor } from '@/lib/inventory';
+import { defaultVariantSku, normalizeSku, type VariantInput } from '@/lib/variant-options';
+
+export type ProductVariantRow = typeof productVariants.$inferSelect;
+
+// The editable fields, as the admin API takes them
+export function variantInput(variant: ProductVariantRow): VariantInput {
+  return {
+    sku: variant.sku,
+    options: variant.options,
+    price: variant.price,
+    stockQuantity: variant.stock_quantity,
+    imageUrl: variant.image_url,
+    sortOrder: variant.sort_order,
+    isActive: variant.is_active,
+  };
+}
+
+function variantColumns(input: VariantInput) {
+  return {
+    sku: input.sku,
+    options: input.options,
+    price: input.price,
+    stock_quantity: input.stockQuantity,
+    image_url: input.imageUrl,
+    sort_order: input.sortOrder,
+    is_active: input.isActive,
+  };
+}
+
+export async function findProductId(slug: string): Promise<number | null> {
+  const [product] = await db.select({ id: products.id }).from(products).where(eq(products.slug, slug));
+  return product?.id ?? null;
+}
+
+export async function getVariant(productId: number, variantId: number): Promise<ProductVariantRow | null> {
+  const [variant] = await db
+    .select()
+    .from(productVariants)
+    .where(and(eq(productVariants.id, variantId), eq(productVariants.product_id, productId)));
+  return variant ?? null;
+}
+
+export function listVariants(productId: number, executor: DbExecutor = db): Promise<ProductVariantRow[]> {
+  return executor
+    .select()
+    .from(productVariants)
+    .where(eq(productVariants.product_id, productId))
+    .orderBy(asc(productVariants.sort_order), asc(productVariants.id));
+}
+
+/**
+ * Brings the product's listing price and stock back in line with its
+ * variants: the lowest active price and the stock of all of them.
+ */
+export async function syncProductRollup(executor: DbExecutor, productId: number): Promise<void> {
+  const [rollup] = await executor
+    .select({
+      price: sql<string | null>`coalesce(min(${productVariants.price}) filter (where ${productVariants.is_active}), min(${productVariants.price}))`,
+      stock: sql<number>`coalesce(sum(${productVariants.stock_quantity}), 0)::int`,
+    })
+    .from(productVariants)
+    .where(eq(productVariants.product_id, productId));
+
+  await executor
+    .update(products)
+    .set({
+      ...(rollup?.price ? { price: rollup.price } : {}),
+      stock_quantity: rollup?.stock ?? 0,
+      updated_at: new Date(),
+    })
+    .where(eq(products.id, productId));
+}
+
+/**
+ * Gives a new product the option-less variant it is sold as until variants
+ * are added, with the product's slug as its SKU. When another variant already
+ * has that SKU a numbered one is used instead.
+ */
+export async function createDefaultVariant(
+  executor: DbExecutor,
+  product: { id: number; slug: string; price: string; stock_quantity: number }
+): Promise<ProductVariantRow> {
+  // Numbered SKUs may cut the slug short, so look for anything sharing its start
+  const prefix = normalizeSku(product.slug).slice(0, 56);
+
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const taken = await executor
+      .select({ sku: productVariants.sku })
+      .from(productVariants)
+      .where(like(productVariants.sku, `${prefix}%`));
+
+    const [variant] = await executor
+      .insert(productVariants)
+      .values({
+        product_id: product.id,
+        sku: defaultVariantSku(product.slug, new Set(taken.map(row => row.sku))),
+        price: product.price,
+        stock_quantity: product.stock_quantity,
+      })
+      // A concurrent insert may take the SKU between the read and here; look again
+      .onConflictDoNothing({ target: productVariants.sku })
+      .returning();
+
+    if (variant) {
+      return variant;
+    }
+  }
+
+  throw new Error(`Could not find a free SKU for product ${product.slug}`);
+}
+
+/**
+ * Applies a price or stock edited on the product itself to its variant.
+ * Returns false, changing nothing, when the product has several variants and
+ * it isn't clear which one was meant.
+ */
+export async function updateOnlyVariant(
+  executor: DbExecutor,
+  productId: number,
+  changes: { price?: string; stock_quantity?: number }
+): Promise<boolean> {
+  const variants = await executor
+    .select({ id: productVariants.id })
+    .from(productVariants)
+    .where(eq(productVariants.product_id, productId))
+    .for('update');
+
+  if (variants.length > 1) {
+    return false;
+  }
+
+  if (variants.length === 1) {
+    await executor
+      .update(productVariants)
+      .set({ ...changes, updated_at: new Date() })
+      .where(eq(productVariants.id, variants[0].id));
+  }
+  return true;
+}
+
+export interface VariantChange {
+  actor: string;
+  request?: AuditRequestMetadata;
+}
+
+export type SaveVariantResult =
+  | { ok: true; variant: ProductVariantRow }
+  | { ok: false; reason: 'not_found' | 'duplicate_sku' };
+
+export async function createVariant(
+  productId: number,
+  input: VariantInput,
+  change: VariantChange
+): Promise<SaveVariantResult> {
+  return db.transaction(async (tx) => {
+    // Locked first, like checkout does, so rollups from concurrent edits don't interleave
+    const [product] = await tx
+      .select({ id: products.id })
+      .from(products)
+      .where(eq(products.id, productId))
+      .for('update');
+
+    if (!product) {
+      return { ok: false, reason: 'not_found' };
+    }
+
+    const [variant] = await tx
+      .insert(productVariants)
+      .values({ product_id: productId, ...variantColumns(input) })
+      .onConflictDoNothing({ target: productVariants.sku })
+      .returning();
+
+    if (!variant) {
+      return { ok: false, reason: 'duplicate_sku' };
+    }
+
+    await syncProductRollup(tx, productId);
+
+    await recordAuditEvent({
+      actor: change.actor,
+      action: 'product.variant_created',
+      entityType: 'product',
+      entityId: productId,
+      after: variant,
+      request: change.request,
+    }, tx);
+
+    return { ok: true, variant };
+  });
+}
+
+/**
+ * Saves new values for a variant. Placed orders keep the SKU and price they
+ * were placed with.
+ */
+export async function updateVariant(
+  productId: number,
+  variantId: number,
+  input: VariantInput,
+  change: VariantChange
+): Promise<SaveVariantResult> {
+  return db.transaction(async (tx) => {
+    const [current] = await tx
+      .select()
+      .from(productVariants)
+      .innerJoin(products, eq(products.id, productVariants.product_id))
+      .where(and(eq(productVariants.id, variantId), eq(productVariants.product_id, productId)))
+      .for('update');
+
+    if (!current) {
+      return { ok: false, reason: 'not_found' };
+    }
+
+    const [taken] = await tx
+      .select({ id: productVariants.id })
+      .from(productVariants)
+      .where(and(eq(productVariants.sku, input.sku), ne(productVariants.id, variantId)));
+    if (taken) {
+      return { ok: false, reason: 'duplicate_sku' };
+    }
+
+    const [variant] = await tx
+      .update(productVariants)
+      .set({ ...variantColumns(input), updated_at: new Date() })
+      .where(eq(productVariants.id, variantId))
+      .returning();
+
+    await syncProductRollup(tx, productId);
+
+    await recordAuditEvent({
+      actor: change.actor,
+      action: 'product.variant_updated',
+      entityType: 'product',
+      entityId: productId,
+      before: current.product_variants,
+      after: variant,
+      request: change.request,
+    }, tx);
+
+    return { ok: true, variant };
+  });
+}
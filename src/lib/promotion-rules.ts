@@ -0,0 +1,275 @@
+// Promotion types and the rules for applying a code to a cart. Kept free of
+// database imports so the schema, the API routes and their tests share them.
+
+export const PROMOTION_TYPES = ['percentage', 'fixed', 'free_shipping'] as const;
+export type PromotionType = typeof PROMOTION_TYPES[number];
+
+export const PROMOTION_CODE_PATTERN = /^[A-Z0-9_-]{3,50}$/;
+
+export interface PromotionTerms {
+  type: PromotionType;
+  // Percent off for `percentage`, amount off for `fixed`; unused for `free_shipping`
+  value: string;
+  minSubtotal: string | null;
+  // Null when every product qualifies
+  productIds: number[] | null;
+  startsAt: Date | null;
+  endsAt: Date | null;
+  usageLimit: number | null;
+  usageCount: number;
+  perCustomerLimit: number | null;
+  isActive: boolean;
+}
+
+export type PromotionRejection =
+  | 'not_found'
+  | 'inactive'
+  | 'not_started'
+  | 'expired'
+  | 'usage_limit_reached'
+  | 'customer_limit_reached'
+  | 'below_minimum'
+  | 'no_eligible_items';
+
+export const PROMOTION_REJECTION_MESSAGES: Record<PromotionRejection, string> = {
+  not_found: 'That code is not valid.',
+  inactive: 'That code is no longer active.',
+  not_started: 'That code is not active yet.',
+  expired: 'That code has expired.',
+  usage_limit_reached: 'That code has been fully redeemed.',
+  customer_limit_reached: 'You have already used that code.',
+  below_minimum: 'Your cart does not reach the minimum for that code.',
+  no_eligible_items: 'That code does not apply to the items in your cart.',
+};
+
+// Restrictions go by product, so a code covers every variant of it
+export interface DiscountableLine {
+  productId: number;
+  variantId: number;
+  lineTotalCents: number;
+}
+
+export interface LineDiscount {
+  productId: number;
+  variantId: number;
+  discountCents: number;
+}
+
+export type PromotionApplication =
+  | { ok: true; discountCents: number; lines: LineDiscount[]; freeShipping: boolean }
+  | { ok: false; reason: 'below_minimum'; minSubtotalCents: number }
+  | { ok: false; reason: 'no_eligible_items' };
+
+export interface PromotionInput {
+  code: string;
+  description: string | null;
+  type: PromotionType;
+  value: string;
+  minSubtotal: string | null;
+  productIds: number[] | null;
+  startsAt: Date | null;
+  endsAt: Date | null;
+  usageLimit: number | null;
+  perCustomerLimit: number | null;
+  isActive: boolean;
+}
+
+export type PromotionInputErrors = Partial<Record<keyof PromotionInput, string>>;
+
+function cents(value: string): number {
+  return Math.round(Number(value) * 100);
+}
+
+/**
+ * Codes are matched case-insensitively and stored upper-cased
+ */
+export function normalizePromotionCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+export function isPromotionType(value: unknown): value is PromotionType {
+  return typeof value === 'string' && (PROMOTION_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Why the promotion can't be used right now by a customer who has already
+ * redeemed it `customerRedemptions` times, or null when it can
+ */
+export function checkPromotionAvailability(
+  terms: PromotionTerms,
+  customerRedemptions: number,
+  now: Date = new Date()
+): PromotionRejection | null {
+  if (!terms.isActive) return 'inactive';
+  if (terms.startsAt && now < terms.startsAt) return 'not_started';
+  if (terms.endsAt && now >= terms.endsAt) return 'expired';
+  if (terms.usageLimit !== null && terms.usageCount >= terms.usageLimit) return 'usage_limit_reached';
+  if (terms.perCustomerLimit !== null && customerRedemptions >= terms.perCustomerLimit) return 'customer_limit_reached';
+  return null;
+}
+
+/**
+ * Works out the discount on each line. The minimum applies to the whole cart;
+ * the discount only to the products the promotion is restricted to. A fixed
+ * amount is spread over those lines in proportion to their totals and never
+ * exceeds them.
+ */
+export function applyPromotion(terms: PromotionTerms, lines: DiscountableLine[]): PromotionApplication {
+  const subtotalCents = lines.reduce((sum, line) => sum + line.lineTotalCents, 0);
+  const minSubtotalCents = terms.minSubtotal === null ? 0 : cents(terms.minSubtotal);
+  if (subtotalCents < minSubtotalCents) {
+    return { ok: false, reason: 'below_minimum', minSubtotalCents };
+  }
+
+  const eligible = terms.productIds === null
+    ? lines
+    : lines.filter(line => terms.productIds!.includes(line.productId));
+  const eligibleCents = eligible.reduce((sum, line) => sum + line.lineTotalCents, 0);
+  if (eligibleCents <= 0) {
+    return { ok: false, reason: 'no_eligible_items' };
+  }
+
+  let discounts: number[];
+  if (terms.type === 'percentage') {
+    const percent = Math.min(Number(terms.value), 100);
+    discounts = eligible.map(line => Math.round(line.lineTotalCents * percent / 100));
+  } else if (terms.type === 'fixed') {
+    const amountCents = Math.min(cents(terms.value), eligibleCents);
+    discounts = eligible.map(line => Math.floor(amountCents * line.lineTotalCents / eligibleCents));
+    // Rounding leaves a few cents over; each line below its total can take one
+    let leftover = amountCents - discounts.reduce((sum, discount) => sum + discount, 0);
+    for (let i = 0; leftover > 0 && i < discounts.length; i++) {
+      if (discounts[i] < eligible[i].lineTotalCents) {
+        discounts[i]++;
+        leftover--;
+      }
+    }
+  } else {
+    discounts = eligible.map(() => 0);
+  }
+
+  return {
+    ok: true,
+    discountCents: discounts.reduce((sum, discount) => sum + discount, 0),
+    lines: eligible.map((line, i) => ({ productId: line.productId, variantId: line.variantId, discountCents: discounts[i] })),
+    freeShipping: terms.type === 'free_shipping',
+  };
+}
+
+function optionalAmount(value: unknown): string | null | undefined {
+  if (value === null || value === undefined || value === '') return null;
+  const amount = Number(value);
+  return Number.isFinite(amount) && amount > 0 ? amount.toFixed(2) : undefined;
+}
+
+function optionalLimit(value: unknown): number | null | undefined {
+  if (value === null || value === undefined || value === '') return null;
+  const limit = Number(value);
+  return Number.isInteger(limit) && limit > 0 ? limit : undefined;
+}
+
+function optionalDate(value: unknown): Date | null | undefined {
+  if (value === null || value === undefined || value === '') return null;
+  const date = typeof value === 'string' ? new Date(value) : undefined;
+  return date && !Number.isNaN(date.getTime()) ? date : undefined;
+}
+
+/**
+ * Checks a promotion submitted from the admin API. With `existing`, fields
+ * missing from `body` keep their current values.
+ */
+export function parsePromotionInput(
+  body: Record<string, unknown>,
+  existing?: PromotionInput
+): { ok: true; promotion: PromotionInput } | { ok: false; errors: PromotionInputErrors } {
+  const errors: PromotionInputErrors = {};
+  const has = (field: string) => !existing || field in body;
+
+  const code = has('code')
+    ? normalizePromotionCode(typeof body.code === 'string' ? body.code : '')
+    : existing!.code;
+  if (!PROMOTION_CODE_PATTERN.test(code)) {
+    errors.code = 'Codes are 3-50 letters, digits, dashes or underscores';
+  }
+
+  const description = has('description')
+    ? (typeof body.description === 'string' && body.description.trim() ? body.description.trim() : null)
+    : existing!.description;
+
+  const type = has('type') ? body.type : existing!.type;
+  if (!isPromotionType(type)) {
+    errors.type = `Type must be one of ${PROMOTION_TYPES.join(', ')}`;
+  }
+
+  let value = existing?.value ?? '0';
+  if (has('value') || (existing && 'type' in body)) {
+    const amount = Number(body.value ?? 0);
+    if (type === 'free_shipping') {
+      value = '0';
+    } else if (!Number.isFinite(amount) || amount <= 0 || (type === 'percentage' && amount > 100)) {
+      errors.value = type === 'percentage' ? 'Percentage must be more than 0 and at most 100' : 'Amount must be more than 0';
+    } else {
+      value = amount.toFixed(2);
+    }
+  }
+
+  const minSubtotal = has('minSubtotal') ? optionalAmount(body.minSubtotal) : existing!.minSubtotal;
+  if (minSubtotal === undefined) {
+    errors.minSubtotal = 'Minimum subtotal must be a positive amount';
+  }
+
+  let productIds = existing?.productIds ?? null;
+  if (has('productIds') && body.productIds !== null && body.productIds !== undefined) {
+    const ids = Array.isArray(body.productIds) ? body.productIds.map(Number) : [];
+    if (ids.length === 0 || !ids.every(id => Number.isInteger(id) && id > 0)) {
+      errors.productIds = 'Products must be a non-empty list of product ids, or null for all products';
+    } else {
+      productIds = Array.from(new Set(ids));
+    }
+  } else if (has('productIds')) {
+    productIds = null;
+  }
+
+  const startsAt = has('startsAt') ? optionalDate(body.startsAt) : existing!.startsAt;
+  if (startsAt === undefined) {
+    errors.startsAt = 'Start must be an ISO date';
+  }
+  const endsAt = has('endsAt') ? optionalDate(body.endsAt) : existing!.endsAt;
+  if (endsAt === undefined) {
+    errors.endsAt = 'End must be an ISO date';
+  } else if (startsAt && endsAt && endsAt <= startsAt) {
+    errors.endsAt = 'End must be after the start';
+  }
+
+  const usageLimit = has('usageLimit') ? optionalLimit(body.usageLimit) : existing!.usageLimit;
+  if (usageLimit === undefined) {
+    errors.usageLimit = 'Usage limit must be a positive whole number';
+  }
+  const perCustomerLimit = has('perCustomerLimit') ? optionalLimit(body.perCustomerLimit) : existing!.perCustomerLimit;
+  if (perCustomerLimit === undefined) {
+    errors.perCustomerLimit = 'Per-customer limit must be a positive whole number';
+  }
+
+  const isActive = has('isActive') ? body.isActive !== false : existing!.isActive;
+
+  if (Object.keys(errors).length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    promotion: {
+      code,
+      description,
+      type: type as PromotionType,
+      value,
+      minSubtotal: minSubtotal!,
+      productIds,
+      startsAt: startsAt!,
+      endsAt: endsAt!,
+      usageLimit: usageLimit!,
+      perCustomerLimit: perCustomerLimit!,
+      isActive,
+    },
+  };
+}
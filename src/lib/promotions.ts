@@ -0,0 +1,292 @@
+import { and, desc, eq, or, sql } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { promotionRedemptions, promotions } from '@/lib/db/schema';
+import { recordAuditEvent, type AuditRequestMetadata } from '@/lib/audit-log';
+import { fromCents, type DbExecutor } from '@/lib/inventory';
+import {
+  applyPromotion,
+  checkPromotionAvailability,
+  normalizePromotionCode,
+  type DiscountableLine,
+  type LineDiscount,
+  type PromotionInput,
+  type PromotionRejection,
+  type PromotionTerms,
+} from '@/lib/promotion-rules';
+
+export type Promotion = typeof promotions.$inferSelect;
+
+// Who is redeeming a code, for per-customer limits. Guests are matched by email.
+export interface PromotionCustomer {
+  customerId?: number | null;
+  email?: string | null;
+}
+
+export type PromotionQuote =
+  | {
+      ok: true;
+      promotion: Promotion;
+      discountCents: number;
+      lines: LineDiscount[];
+      freeShipping: boolean;
+    }
+  | { ok: false; reason: PromotionRejection };
+
+// What the cart and checkout pages show for an applied code
+export interface PromotionSummary {
+  code: string;
+  description: string | null;
+  type: Promotion['type'];
+  discount: string;
+  freeShipping: boolean;
+  lines: Array<{ productId: number; variantId: number; discount: string }>;
+}
+
+export function promotionTerms(promotion: Promotion): PromotionTerms {
+  return {
+    type: promotion.type,
+    value: promotion.value,
+    minSubtotal: promotion.min_subtotal,
+    productIds: promotion.product_ids,
+    startsAt: promotion.starts_at,
+    endsAt: promotion.ends_at,
+    usageLimit: promotion.usage_limit,
+    usageCount: promotion.usage_count,
+    perCustomerLimit: promotion.per_customer_limit,
+    isActive: promotion.is_active,
+  };
+}
+
+// The editable fields, as the admin API takes them
+export function promotionInput(promotion: Promotion): PromotionInput {
+  return {
+    code: promotion.code,
+    description: promotion.description,
+    type: promotion.type,
+    value: promotion.value,
+    minSubtotal: promotion.min_subtotal,
+    productIds: promotion.product_ids,
+    startsAt: promotion.starts_at,
+    endsAt: promotion.ends_at,
+    usageLimit: promotion.usage_limit,
+    perCustomerLimit: promotion.per_customer_limit,
+    isActive: promotion.is_active,
+  };
+}
+
+function promotionColumns(input: PromotionInput) {
+  return {
+    code: input.code,
+    description: input.description,
+    type: input.type,
+    value: input.value,
+    min_subtotal: input.minSubtotal,
+    product_ids: input.productIds,
+    starts_at: input.startsAt,
+    ends_at: input.endsAt,
+    usage_limit: input.usageLimit,
+    per_customer_limit: input.perCustomerLimit,
+    is_active: input.isActive,
+  };
+}
+
+export function summarizePromotionQuote(quote: Extract<PromotionQuote, { ok: true }>): PromotionSummary {
+  return {
+    code: quote.promotion.code,
+    description: quote.promotion.description,
+    type: quote.promotion.type,
+    discount: fromCents(quote.discountCents),
+    freeShipping: quote.freeShipping,
+    lines: quote.lines.map(line => ({
+      productId: line.productId,
+      variantId: line.variantId,
+      discount: fromCents(line.discountCents),
+    })),
+  };
+}
+
+async function countCustomerRedemptions(
+  executor: DbExecutor,
+  promotionId: number,
+  customer: PromotionCustomer
+): Promise<number> {
+  const email = customer.email?.trim().toLowerCase();
+  const matches = [
+    customer.customerId ? eq(promotionRedemptions.customer_id, customer.customerId) : undefined,
+    email ? eq(promotionRedemptions.email, email) : undefined,
+  ].filter(condition => condition !== undefined);
+
+  if (matches.length === 0) {
+    return 0;
+  }
+
+  const [row] = await executor
+    .select({ count: sql<number>`count(*)::int` })
+    .from(promotionRedemptions)
+    .where(and(eq(promotionRedemptions.promotion_id, promotionId), or(...matches)));
+
+  return row?.count ?? 0;
+}
+
+/**
+ * Looks up a code and works out its discount on priced lines. Inside the
+ * order transaction pass `lock`, so the usage limit check holds until the
+ * redemption is recorded.
+ */
+export async function quotePromotion(
+  code: string,
+  lines: DiscountableLine[],
+  customer: PromotionCustomer,
+  executor: DbExecutor = db,
+  lock = false
+): Promise<PromotionQuote> {
+  const query = executor
+    .select()
+    .from(promotions)
+    .where(eq(promotions.code, normalizePromotionCode(code)));
+  const [promotion] = lock ? await query.for('update') : await query;
+
+  if (!promotion) {
+    return { ok: false, reason: 'not_found' };
+  }
+
+  const redemptions = promotion.per_customer_limit === null
+    ? 0
+    : await countCustomerRedemptions(executor, promotion.id, customer);
+  const terms = promotionTerms(promotion);
+  const unavailable = checkPromotionAvailability(terms, redemptions);
+  if (unavailable) {
+    return { ok: false, reason: unavailable };
+  }
+
+  const applied = applyPromotion(terms, lines);
+  if (!applied.ok) {
+    return { ok: false, reason: applied.reason };
+  }
+
+  return {
+    ok: true,
+    promotion,
+    discountCents: applied.discountCents,
+    lines: applied.lines,
+    freeShipping: applied.freeShipping,
+  };
+}
+
+/**
+ * Counts an order against the promotion's limits. Call inside the transaction
+ * that created the order, after quotePromotion with `lock`.
+ */
+export async function redeemPromotion(
+  executor: DbExecutor,
+  promotionId: number,
+  orderDbId: number,
+  discountCents: number,
+  customer: PromotionCustomer
+): Promise<void> {
+  await executor.insert(promotionRedemptions).values({
+    promotion_id: promotionId,
+    order_id: orderDbId,
+    customer_id: customer.customerId ?? null,
+    email: customer.email?.trim().toLowerCase() || null,
+    discount_amount: fromCents(discountCents),
+  });
+
+  await executor
+    .update(promotions)
+    .set({ usage_count: sql`${promotions.usage_count} + 1`, updated_at: new Date() })
+    .where(eq(promotions.id, promotionId));
+}
+
+export function listPromotions(): Promise<Promotion[]> {
+  return db.select().from(promotions).orderBy(desc(promotions.created_at), desc(promotions.id));
+}
+
+export async function getPromotion(promotionId: number): Promise<Promotion | null> {
+  const [promotion] = await db.select().from(promotions).where(eq(promotions.id, promotionId));
+  return promotion ?? null;
+}
+
+export interface PromotionChange {
+  actor: string;
+  request?: AuditRequestMetadata;
+}
+
+export type SavePromotionResult =
+  | { ok: true; promotion: Promotion }
+  | { ok: false; reason: 'not_found' | 'duplicate_code' };
+
+export async function createPromotion(input: PromotionInput, change: PromotionChange): Promise<SavePromotionResult> {
+  return db.transaction(async (tx) => {
+    const [promotion] = await tx
+      .insert(promotions)
+      .values(promotionColumns(input))
+      .onConflictDoNothing({ target: promotions.code })
+      .returning();
+
+    if (!promotion) {
+      return { ok: false, reason: 'duplicate_code' };
+    }
+
+    await recordAuditEvent({
+      actor: change.actor,
+      action: 'promotion.created',
+      entityType: 'promotion',
+      entityId: promotion.id,
+      after: promotion,
+      request: change.request,
+    }, tx);
+
+    return { ok: true, promotion };
+  });
+}
+
+/**
+ * Saves new values for a promotion. Only orders placed afterwards are
+ * affected; placed orders keep the discount they got.
+ */
+export async function updatePromotion(
+  promotionId: number,
+  input: PromotionInput,
+  change: PromotionChange
+): Promise<SavePromotionResult> {
+  return db.transaction(async (tx) => {
+    const [current] = await tx
+      .select()
+      .from(promotions)
+      .where(eq(promotions.id, promotionId))
+      .for('update');
+
+    if (!current) {
+      return { ok: false, reason: 'not_found' };
+    }
+
+    if (input.code !== current.code) {
+      const [taken] = await tx
+        .select({ id: promotions.id })
+        .from(promotions)
+        .where(eq(promotions.code, input.code));
+      if (taken) {
+        return { ok: false, reason: 'duplicate_code' };
+      }
+    }
+
+    const [promotion] = await tx
+      .update(promotions)
+      .set({ ...promotionColumns(input), updated_at: new Date() })
+      .where(eq(promotions.id, promotionId))
+      .returning();
+
+    await recordAuditEvent({
+      actor: change.actor,
+      action: 'promotion.updated',
+      entityType: 'promotion',
+      entityId: promotion.id,
+      before: current,
+      after: promotion,
+      request: change.request,
+    }, tx);
+
+    return { ok: true, promotion };
+  });
+}
@@ -0,0 +1,58 @@
+import { NextRequest } from 'next/server';
+import { sql } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { rateLimits } from '@/lib/db/schema';
+
+export interface RateLimitRule {
+  limit: number;
+  windowSeconds: number;
+}
+
+export type RateLimitResult =
+  | { allowed: true; remaining: number }
+  | { allowed: false; retryAfterSeconds: number };
+
+/**
+ * Counts one request against `key` and reports whether it is within the rule.
+ * The counter lives in the database so every server instance shares it; a
+ * window that has run out is restarted by the same upsert that counts.
+ */
+export async function consumeRateLimit(key: string, rule: RateLimitRule): Promise<RateLimitResult> {
+  const expired = sql`${rateLimits.window_started_at} <= now() - make_interval(secs => ${rule.windowSeconds})`;
+
+  const [counter] = await db
+    .insert(rateLimits)
+    .values({ key, count: 1 })
+    .onConflictDoUpdate({
+      target: rateLimits.key,
+      set: {
+        count: sql`case when ${expired} then 1 else ${rateLimits.count} + 1 end`,
+        window_started_at: sql`case when ${expired} then now() else ${rateLimits.window_started_at} end`,
+      },
+    })
+    .returning();
+
+  if (counter.count <= rule.limit) {
+    return { allowed: true, remaining: rule.limit - counter.count };
+  }
+
+  const resetsAt = counter.window_started_at.getTime() + rule.windowSeconds * 1000;
+  return { allowed: false, retryAfterSeconds: Math.max(1, Math.ceil((resetsAt - Date.now()) / 1000)) };
+}
+
+/**
+ * The client's address as the proxy in front of the app saw it. The app runs
+ * on Vercel, whose edge sets `x-vercel-forwarded-for` and `x-real-ip` from the
+ * connection and overwrites whatever the client sent. Behind another proxy,
+ * only the last `x-forwarded-for` entry is used: the one that proxy appended.
+ * Entries before it come from the client and can be anything.
+ */
+export function getClientIp(request: Pick<NextRequest, 'headers'>): string {
+  const platformIp = request.headers.get('x-vercel-forwarded-for') || request.headers.get('x-real-ip');
+  if (platformIp) {
+    return platformIp.trim();
+  }
+
+  const forwarded = request.headers.get('x-forwarded-for')?.split(',').map(hop => hop.trim()).filter(Boolean);
+  return forwarded?.[forwarded.length - 1] || 'unknown';
+}
@@ -0,0 +1,431 @@
+import { and, count, eq, inArray, sql } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { recordAuditEvent, type AuditRequestMetadata } from '@/lib/audit-log';
+import { orders, orderItems, refundItems, refunds } from '@/lib/db/schema';
+import { adjustStock, fromCents, toCents, type DbExecutor } from '@/lib/inventory';
+import { transitionOrderStatus } from '@/lib/orders';
+import { canTransitionOrderStatus, type OrderStatus } from '@/lib/order-status';
+import { getPaymentProvider, type PaymentProvider } from '@/lib/payments';
+
+// An order line as far as refunds are concerned
+export interface RefundableLine {
+  orderItemId: number;
+  productId: number;
+  unitPriceCents: number;
+  quantity: number;
+  refundedQuantity: number;
+  // The line's share of a promotion discount, spread over its units
+  discountCents?: number;
+  // Tax charged on the line, given back with the units it was charged on
+  taxCents?: number;
+}
+
+export interface RefundLineRequest {
+  orderItemId: number;
+  quantity: number;
+}
+
+export interface PlannedRefundLine {
+  orderItemId: number;
+  productId: number;
+  quantity: number;
+  amountCents: number;
+}
+
+export interface RefundLineIssue {
+  orderItemId: number;
+  requested: number;
+  refundable: number;
+}
+
+export type RefundPlan =
+  | { ok: true; lines: PlannedRefundLine[]; amountCents: number; fullyRefunded: boolean }
+  | { ok: false; reason: 'nothing_to_refund' }
+  | { ok: false; reason: 'invalid_items'; issues: RefundLineIssue[] }
+  | { ok: false; reason: 'amount_exceeded'; amountCents: number; refundableCents: number };
+
+// What refunding `quantity` more units of a line gives back: their price less
+// their part of the line discount plus their part of its tax, rounded so all
+// units together give back the line exactly
+function refundLineAmountCents(line: RefundableLine, quantity: number): number {
+  const share = (cents = 0) =>
+    Math.round(cents * (line.refundedQuantity + quantity) / line.quantity)
+    - Math.round(cents * line.refundedQuantity / line.quantity);
+  return line.unitPriceCents * quantity - share(line.discountCents) + share(line.taxCents);
+}
+
+/**
+ * Works out what a refund covers. Without `requested` every remaining unit is
+ * refunded together with the rest of the order total; otherwise only the given
+ * quantities are, at the price each line was bought for less its discount
+ * and with its tax.
+ */
+export function planRefund(
+  lines: RefundableLine[],
+  requested: RefundLineRequest[] | undefined,
+  orderTotalCents: number,
+  refundedCents: number
+): RefundPlan {
+  const refundableCents = orderTotalCents - refundedCents;
+
+  if (refundableCents <= 0) {
+    return { ok: false, reason: 'nothing_to_refund' };
+  }
+
+  if (!requested) {
+    const remaining = lines
+      .filter(line => line.quantity > line.refundedQuantity)
+      .map(line => {
+        const quantity = line.quantity - line.refundedQuantity;
+        return {
+          orderItemId: line.orderItemId,
+          productId: line.productId,
+          quantity,
+          amountCents: refundLineAmountCents(line, quantity),
+        };
+      });
+
+    return { ok: true, lines: remaining, amountCents: refundableCents, fullyRefunded: true };
+  }
+
+  // Merge repeated lines so the quantity check sees the full request
+  const quantities = new Map<number, number>();
+  for (const item of requested) {
+    quantities.set(item.orderItemId, (quantities.get(item.orderItemId) || 0) + item.quantity);
+  }
+
+  const issues: RefundLineIssue[] = [];
+  const planned: PlannedRefundLine[] = [];
+
+  for (const [orderItemId, quantity] of quantities) {
+    const line = lines.find(candidate => candidate.orderItemId === orderItemId);
+    const refundable = line ? line.quantity - line.refundedQuantity : 0;
+
+    if (!line || !Number.isInteger(quantity) || quantity <= 0 || quantity > refundable) {
+      issues.push({ orderItemId, requested: quantity, refundable });
+      continue;
+    }
+
+    planned.push({
+      orderItemId,
+      productId: line.productId,
+      quantity,
+      amountCents: refundLineAmountCents(line, quantity),
+    });
+  }
+
+  if (issues.length > 0) {
+    return { ok: false, reason: 'invalid_items', issues };
+  }
+
+  if (planned.length === 0) {
+    return { ok: false, reason: 'nothing_to_refund' };
+  }
+
+  const amountCents = planned.reduce((sum, line) => sum + line.amountCents, 0);
+  if (amountCents > refundableCents) {
+    return { ok: false, reason: 'amount_exceeded', amountCents, refundableCents };
+  }
+
+  return { ok: true, lines: planned, amountCents, fullyRefunded: amountCents === refundableCents };
+}
+
+/**
+ * Works out what a refund made at the payment provider covers, from the total
+ * the charge now has refunded. Refunds already booked are left out, so the
+ * same refund reported twice comes to nothing the second time. The provider
+ * doesn't say which items a partial refund was for, so only a refund of what
+ * is left on the order takes its remaining items with it.
+ */
+export function planProviderRefund(
+  lines: RefundableLine[],
+  orderTotalCents: number,
+  refundedCents: number,
+  chargeRefundedCents: number
+): RefundPlan {
+  const amountCents = Math.min(chargeRefundedCents, orderTotalCents) - refundedCents;
+
+  if (amountCents <= 0) {
+    return { ok: false, reason: 'nothing_to_refund' };
+  }
+  if (amountCents === orderTotalCents - refundedCents) {
+    return planRefund(lines, undefined, orderTotalCents, refundedCents);
+  }
+  return { ok: true, lines: [], amountCents, fullyRefunded: false };
+}
+
+export interface RefundOrderInput {
+  // Omit for a full refund
+  items?: RefundLineRequest[];
+  restock: boolean;
+  reason?: string;
+  actor: string;
+  // Recorded in the audit log alongside the refund
+  request?: AuditRequestMetadata;
+}
+
+export type RefundRow = typeof refunds.$inferSelect;
+
+export type RefundOrderResult =
+  | {
+      ok: true;
+      refund: RefundRow;
+      items: Array<typeof refundItems.$inferSelect>;
+      order: typeof orders.$inferSelect;
+    }
+  | { ok: false; reason: 'not_found' }
+  | { ok: false; reason: 'not_refundable'; status: OrderStatus }
+  | Exclude<RefundPlan, { ok: true }>;
+
+type OrderRow = typeof orders.$inferSelect;
+type OrderItemRow = typeof orderItems.$inferSelect;
+
+// An order's items, and each as a line with what has been refunded of it so far
+async function loadRefundableLines(
+  tx: DbExecutor,
+  order: OrderRow
+): Promise<{ items: OrderItemRow[]; lines: RefundableLine[] }> {
+  const items = await tx
+    .select()
+    .from(orderItems)
+    .where(eq(orderItems.order_id, order.id));
+
+  const refunded = items.length > 0
+    ? await tx
+        .select({
+          orderItemId: refundItems.order_item_id,
+          quantity: sql<number>`cast(sum(${refundItems.quantity}) as integer)`,
+        })
+        .from(refundItems)
+        .where(inArray(refundItems.order_item_id, items.map(item => item.id)))
+        .groupBy(refundItems.order_item_id)
+    : [];
+
+  return {
+    items,
+    lines: items.map(item => ({
+      orderItemId: item.id,
+      productId: item.product_id,
+      unitPriceCents: toCents(item.product_price),
+      quantity: item.quantity,
+      refundedQuantity: refunded.find(row => row.orderItemId === item.id)?.quantity || 0,
+      discountCents: toCents(item.discount_amount),
+      taxCents: toCents(item.tax_amount),
+    })),
+  };
+}
+
+/**
+ * Stores a planned refund against a locked order: the refund and its items,
+ * stock put back if asked, the order's refunded amount, the move to
+ * `refunded` once nothing is left, and the audit entry.
+ */
+async function bookRefund(
+  tx: DbExecutor,
+  order: OrderRow,
+  items: OrderItemRow[],
+  plan: Extract<RefundPlan, { ok: true }>,
+  details: {
+    providerRefundId: string | null;
+    restock: boolean;
+    reason?: string;
+    actor: string;
+    request?: AuditRequestMetadata;
+  }
+) {
+  const [refund] = await tx.insert(refunds).values({
+    order_id: order.id,
+    provider_refund_id: details.providerRefundId,
+    amount: fromCents(plan.amountCents),
+    reason: details.reason || null,
+    restocked: details.restock && plan.lines.length > 0,
+    actor: details.actor,
+  }).returning();
+
+  const insertedItems = plan.lines.length > 0
+    ? await tx.insert(refundItems).values(
+        plan.lines.map(line => ({
+          refund_id: refund.id,
+          order_item_id: line.orderItemId,
+          quantity: line.quantity,
+          amount: fromCents(line.amountCents),
+        }))
+      ).returning()
+    : [];
+
+  if (details.restock) {
+    await adjustStock(tx, plan.lines.map(line => ({
+      productId: line.productId,
+      variantId: items.find(item => item.id === line.orderItemId)?.variant_id ?? null,
+      delta: line.quantity,
+    })));
+  }
+
+  let [updatedOrder] = await tx
+    .update(orders)
+    .set({
+      amount_refunded: fromCents(toCents(order.amount_refunded) + plan.amountCents),
+      updated_at: new Date(),
+    })
+    .where(eq(orders.id, order.id))
+    .returning();
+
+  if (plan.fullyRefunded) {
+    const transition = await transitionOrderStatus(
+      order.id,
+      'refunded',
+      { actor: details.actor, reason: details.reason || 'Refunded in full' },
+      tx
+    );
+    if (transition.ok) {
+      updatedOrder = transition.order;
+    }
+  }
+
+  await recordAuditEvent({
+    actor: details.actor,
+    action: 'order.refunded',
+    entityType: 'order',
+    entityId: order.order_id,
+    before: { status: order.status, amount_refunded: order.amount_refunded },
+    after: {
+      status: updatedOrder.status,
+      amount_refunded: updatedOrder.amount_refunded,
+      refund_id: refund.id,
+      restocked: refund.restocked,
+      items: insertedItems.map(item => ({ orderItemId: item.order_item_id, quantity: item.quantity })),
+    },
+    request: details.request,
+  }, tx);
+
+  return { refund, items: insertedItems, order: updatedOrder };
+}
+
+/**
+ * Refunds an order in full or for some of its line items. The order row stays
+ * locked while the provider refund runs, so two refunds can never both spend
+ * the same remaining amount. A provider failure rolls everything back.
+ */
+export async function refundOrder(
+  orderDbId: number,
+  input: RefundOrderInput,
+  provider: PaymentProvider = getPaymentProvider()
+): Promise<RefundOrderResult> {
+  return db.transaction(async (tx) => {
+    const [order] = await tx
+      .select()
+      .from(orders)
+      .where(eq(orders.id, orderDbId))
+      .for('update');
+
+    if (!order) {
+      return { ok: false, reason: 'not_found' };
+    }
+
+    // Only orders that were paid for can be refunded, partially or in full
+    if (!canTransitionOrderStatus(order.status, 'refunded')) {
+      return { ok: false, reason: 'not_refundable', status: order.status };
+    }
+
+    const { items, lines } = await loadRefundableLines(tx, order);
+    const plan = planRefund(lines, input.items, toCents(order.total_amount), toCents(order.amount_refunded));
+
+    if (!plan.ok) {
+      return plan;
+    }
+
+    // Manual orders were never charged through the provider, so there is nothing to reverse there
+    let providerRefundId: string | null = null;
+    if (order.payment_method !== 'manual') {
+      const [{ previous }] = await tx
+        .select({ previous: count() })
+        .from(refunds)
+        .where(eq(refunds.order_id, order.id));
+
+      const providerRefund = await provider.refund(order.payment_intent_id, {
+        amount: plan.amountCents,
+        reason: input.reason,
+        idempotencyKey: `${order.order_id}:refund:${previous + 1}`,
+      });
+      providerRefundId = providerRefund.id;
+    }
+
+    const booked = await bookRefund(tx, order, items, plan, {
+      providerRefundId,
+      restock: input.restock,
+      reason: input.reason,
+      actor: input.actor,
+      request: input.request,
+    });
+
+    return { ok: true, ...booked };
+  });
+}
+
+export interface ProviderRefundInput {
+  // The provider's id for the refund, when the event names it
+  providerRefundId: string | null;
+  // What the charge has refunded in total, this refund included
+  chargeRefundedCents: number;
+  reason: string;
+  actor: string;
+}
+
+/**
+ * Books a refund made at the payment provider, e.g. from its dashboard, the
+ * same way refundOrder books one made here. A refund that takes what is left
+ * on the order puts the remaining items back into stock. Refunds issued from
+ * here come back as events too and are recognized by their provider id or by
+ * the amount already booked. Returns the refunds it booked.
+ */
+export async function recordProviderRefund(
+  tx: DbExecutor,
+  paymentIntentId: string,
+  input: ProviderRefundInput
+): Promise<RefundRow[]> {
+  const matching = await tx
+    .select()
+    .from(orders)
+    .where(eq(orders.payment_intent_id, paymentIntentId))
+    .for('update');
+
+  const booked: RefundRow[] = [];
+  for (const order of matching) {
+    if (!canTransitionOrderStatus(order.status, 'refunded')) {
+      continue;
+    }
+
+    if (input.providerRefundId) {
+      const [booked] = await tx
+        .select({ id: refunds.id })
+        .from(refunds)
+        .where(and(eq(refunds.order_id, order.id), eq(refunds.provider_refund_id, input.providerRefundId)))
+        .limit(1);
+      if (booked) {
+        continue;
+      }
+    }
+
+    const { items, lines } = await loadRefundableLines(tx, order);
+    const plan = planProviderRefund(
+      lines,
+      toCents(order.total_amount),
+      toCents(order.amount_refunded),
+      input.chargeRefundedCents
+    );
+
+    if (!plan.ok) {
+      continue;
+    }
+
+    const { refund } = await bookRefund(tx, order, items, plan, {
+      providerRefundId: input.providerRefundId,
+      restock: true,
+      reason: input.reason,
+      actor: input.actor,
+    });
+    booked.push(refund);
+  }
+
+  return booked;
+}
@@ -0,0 +1,109 @@
+// Shipments: which order lines go out in which package, and with which
+// carrier. No database imports, so the schema, the admin screens and the API
+// routes share them.
+
+// A shipment is `pending` while it is packed and `shipped` once handed to the carrier
+export const SHIPMENT_STATUSES = ['pending', 'shipped'] as const;
+export type ShipmentStatus = typeof SHIPMENT_STATUSES[number];
+
+export const SHIPMENT_CARRIERS = ['usps', 'ups', 'fedex', 'dhl', 'other'] as const;
+export type ShipmentCarrier = typeof SHIPMENT_CARRIERS[number];
+
+export const SHIPMENT_CARRIER_NAMES: Record<ShipmentCarrier, string> = {
+  usps: 'USPS',
+  ups: 'UPS',
+  fedex: 'FedEx',
+  dhl: 'DHL',
+  other: 'Other',
+};
+
+// `{number}` is replaced with the tracking number
+const TRACKING_URLS: Partial<Record<ShipmentCarrier, string>> = {
+  usps: 'https://tools.usps.com/go/TrackConfirmAction?tLabels={number}',
+  ups: 'https://www.ups.com/track?tracknum={number}',
+  fedex: 'https://www.fedex.com/fedextrack/?trknbr={number}',
+  dhl: 'https://www.dhl.com/en/express/tracking.html?AWB={number}',
+};
+
+// An order line as far as shipments are concerned
+export interface ShippableLine {
+  orderItemId: number;
+  quantity: number;
+  // Already in a shipment, packed or shipped
+  shippedQuantity: number;
+  // Refunded units don't need to ship
+  refundedQuantity: number;
+}
+
+export interface ShipmentLineRequest {
+  orderItemId: number;
+  quantity: number;
+}
+
+export interface ShipmentLineIssue {
+  orderItemId: number;
+  requested: number;
+  shippable: number;
+}
+
+export type ShipmentPlan =
+  | { ok: true; lines: ShipmentLineRequest[] }
+  | { ok: false; reason: 'nothing_to_ship' }
+  | { ok: false; reason: 'invalid_items'; issues: ShipmentLineIssue[] };
+
+export function isShipmentCarrier(value: unknown): value is ShipmentCarrier {
+  return typeof value === 'string' && (SHIPMENT_CARRIERS as readonly string[]).includes(value);
+}
+
+export function trackingUrl(carrier: ShipmentCarrier, trackingNumber: string | null | undefined): string | null {
+  const template = TRACKING_URLS[carrier];
+  const number = trackingNumber?.trim();
+  return template && number ? template.replace('{number}', encodeURIComponent(number)) : null;
+}
+
+// Units of a line still waiting for a shipment
+export function shippableQuantity(line: ShippableLine): number {
+  return Math.max(line.quantity - line.refundedQuantity - line.shippedQuantity, 0);
+}
+
+/**
+ * Works out what a new shipment holds. Without `requested` it takes every
+ * unit not yet in a shipment; otherwise only the given quantities, which may
+ * not exceed what is left of each line.
+ */
+export function planShipment(lines: ShippableLine[], requested?: ShipmentLineRequest[]): ShipmentPlan {
+  if (!requested) {
+    const remaining = lines
+      .filter(line => shippableQuantity(line) > 0)
+      .map(line => ({ orderItemId: line.orderItemId, quantity: shippableQuantity(line) }));
+
+    return remaining.length > 0 ? { ok: true, lines: remaining } : { ok: false, reason: 'nothing_to_ship' };
+  }
+
+  // Merge repeated lines so the quantity check sees the full request
+  const quantities = new Map<number, number>();
+  for (const item of requested) {
+    quantities.set(item.orderItemId, (quantities.get(item.orderItemId) || 0) + item.quantity);
+  }
+
+  const issues: ShipmentLineIssue[] = [];
+  const planned: ShipmentLineRequest[] = [];
+
+  for (const [orderItemId, quantity] of quantities) {
+    const line = lines.find(candidate => candidate.orderItemId === orderItemId);
+    const shippable = line ? shippableQuantity(line) : 0;
+
+    if (!line || !Number.isInteger(quantity) || quantity <= 0 || quantity > shippable) {
+      issues.push({ orderItemId, requested: quantity, shippable });
+      continue;
+    }
+
+    planned.push({ orderItemId, quantity });
+  }
+
+  if (issues.length > 0) {
+    return { ok: false, reason: 'invalid_items', issues };
+  }
+
+  return planned.length > 0 ? { ok: true, lines: planned } : { ok: false, reason: 'nothing_to_ship' };
+}
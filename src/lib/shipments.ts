@@ -0,0 +1,391 @@
+import { and, asc, eq, inArray, sql } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { shippingAddressFromOrder, type ShippingAddress } from '@/lib/addresses';
+import { recordAuditEvent, type AuditRequestMetadata } from '@/lib/audit-log';
+import { orders, orderItems, refundItems, shipmentItems, shipments } from '@/lib/db/schema';
+import type { DbExecutor } from '@/lib/inventory';
+import { transitionOrderStatus } from '@/lib/orders';
+import type { OrderStatus } from '@/lib/order-status';
+import type { ShippingMethod } from '@/lib/shipping-rates';
+import {
+  planShipment,
+  shippableQuantity,
+  trackingUrl,
+  type ShipmentCarrier,
+  type ShipmentLineRequest,
+  type ShipmentPlan,
+  type ShipmentStatus,
+  type ShippableLine,
+} from '@/lib/shipment-rules';
+
+// Orders in these statuses can have shipments created and sent
+const SHIPPABLE_ORDER_STATUSES: readonly OrderStatus[] = ['paid', 'fulfilling'];
+
+// A shipment as the admin screens and packing slips show it
+export interface ShipmentView {
+  id: number;
+  status: ShipmentStatus;
+  carrier: ShipmentCarrier;
+  trackingNumber: string | null;
+  trackingUrl: string | null;
+  shippedAt: string | null;
+  createdAt: string;
+  items: Array<{ orderItemId: number; name: string; sku: string | null; quantity: number }>;
+}
+
+// An order line with how much of it has been packed, sent and refunded
+export interface FulfillmentLine extends ShippableLine {
+  productId: number;
+  name: string;
+  sku: string | null;
+  // In shipments marked shipped
+  sentQuantity: number;
+}
+
+async function loadFulfillmentLines(executor: DbExecutor, orderDbId: number): Promise<FulfillmentLine[]> {
+  const items = await executor
+    .select()
+    .from(orderItems)
+    .where(eq(orderItems.order_id, orderDbId))
+    .orderBy(asc(orderItems.id));
+
+  if (items.length === 0) {
+    return [];
+  }
+
+  const itemIds = items.map(item => item.id);
+  const refunded = await executor
+    .select({
+      orderItemId: refundItems.order_item_id,
+      quantity: sql<number>`cast(sum(${refundItems.quantity}) as integer)`,
+    })
+    .from(refundItems)
+    .where(inArray(refundItems.order_item_id, itemIds))
+    .groupBy(refundItems.order_item_id);
+  const packed = await executor
+    .select({
+      orderItemId: shipmentItems.order_item_id,
+      quantity: sql<number>`cast(sum(${shipmentItems.quantity}) as integer)`,
+      sent: sql<number>`cast(sum(case when ${shipments.status} = 'shipped' then ${shipmentItems.quantity} else 0 end) as integer)`,
+    })
+    .from(shipmentItems)
+    .innerJoin(shipments, eq(shipments.id, shipmentItems.shipment_id))
+    .where(inArray(shipmentItems.order_item_id, itemIds))
+    .groupBy(shipmentItems.order_item_id);
+
+  return items.map(item => {
+    const shipped = packed.find(row => row.orderItemId === item.id);
+    return {
+      orderItemId: item.id,
+      productId: item.product_id,
+      name: item.product_name,
+      sku: item.sku,
+      quantity: item.quantity,
+      shippedQuantity: shipped?.quantity || 0,
+      sentQuantity: shipped?.sent || 0,
+      refundedQuantity: refunded.find(row => row.orderItemId === item.id)?.quantity || 0,
+    };
+  });
+}
+
+async function loadShipmentViews(executor: DbExecutor, orderDbId: number, shipmentId?: number): Promise<ShipmentView[]> {
+  const rows = await executor
+    .select()
+    .from(shipments)
+    .where(shipmentId === undefined
+      ? eq(shipments.order_id, orderDbId)
+      : and(eq(shipments.order_id, orderDbId), eq(shipments.id, shipmentId)))
+    .orderBy(asc(shipments.created_at), asc(shipments.id));
+
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const items = await executor
+    .select({
+      shipmentId: shipmentItems.shipment_id,
+      orderItemId: shipmentItems.order_item_id,
+      name: orderItems.product_name,
+      sku: orderItems.sku,
+      quantity: shipmentItems.quantity,
+    })
+    .from(shipmentItems)
+    .innerJoin(orderItems, eq(orderItems.id, shipmentItems.order_item_id))
+    .where(inArray(shipmentItems.shipment_id, rows.map(row => row.id)))
+    .orderBy(asc(shipmentItems.id));
+
+  return rows.map(row => ({
+    id: row.id,
+    status: row.status,
+    carrier: row.carrier,
+    trackingNumber: row.tracking_number,
+    trackingUrl: trackingUrl(row.carrier, row.tracking_number),
+    shippedAt: row.shipped_at?.toISOString() ?? null,
+    createdAt: row.created_at.toISOString(),
+    items: items
+      .filter(item => item.shipmentId === row.id)
+      .map(item => ({ orderItemId: item.orderItemId, name: item.name, sku: item.sku, quantity: item.quantity })),
+  }));
+}
+
+/**
+ * An order's lines with their packed, sent and refunded quantities, and its shipments
+ */
+export async function getOrderFulfillment(
+  orderDbId: number,
+  executor: DbExecutor = db
+): Promise<{ lines: FulfillmentLine[]; shipments: ShipmentView[] }> {
+  return {
+    lines: await loadFulfillmentLines(executor, orderDbId),
+    shipments: await loadShipmentViews(executor, orderDbId),
+  };
+}
+
+/**
+ * One shipment of an order, or null when the order has no shipment with that id
+ */
+export async function getShipment(orderDbId: number, shipmentId: number, executor: DbExecutor = db): Promise<ShipmentView | null> {
+  const [view] = await loadShipmentViews(executor, orderDbId, shipmentId);
+  return view ?? null;
+}
+
+// What goes in the box: no prices, just who it's for and what's inside
+export interface PackingSlip {
+  orderId: string;
+  placedAt: string;
+  shipTo: ShippingAddress;
+  shippingMethod: ShippingMethod;
+  // Null for a slip covering the whole order
+  shipment: ShipmentView | null;
+  items: Array<{ name: string; sku: string | null; quantity: number }>;
+}
+
+/**
+ * A packing slip for one shipment, or without `shipmentId` for every unit of
+ * the order that wasn't refunded. Null when the order or shipment doesn't exist.
+ */
+export async function getPackingSlip(orderId: string, shipmentId?: number): Promise<PackingSlip | null> {
+  const [order] = await db
+    .select()
+    .from(orders)
+    .where(eq(orders.order_id, orderId));
+
+  if (!order) {
+    return null;
+  }
+
+  let shipment: ShipmentView | null = null;
+  let items: PackingSlip['items'];
+  if (shipmentId !== undefined) {
+    shipment = await getShipment(order.id, shipmentId);
+    if (!shipment) {
+      return null;
+    }
+    items = shipment.items.map(item => ({ name: item.name, sku: item.sku, quantity: item.quantity }));
+  } else {
+    items = (await loadFulfillmentLines(db, order.id))
+      .map(line => ({ name: line.name, sku: line.sku, quantity: line.quantity - line.refundedQuantity }))
+      .filter(item => item.quantity > 0);
+  }
+
+  return {
+    orderId: order.order_id,
+    placedAt: order.created_at.toISOString(),
+    shipTo: shippingAddressFromOrder(order),
+    shippingMethod: order.shipping_method,
+    shipment,
+    items,
+  };
+}
+
+export interface CreateShipmentInput {
+  // Omit to ship every unit not yet in a shipment
+  items?: ShipmentLineRequest[];
+  carrier: ShipmentCarrier;
+  trackingNumber?: string | null;
+  actor: string;
+  // Recorded in the audit log alongside the shipment
+  request?: AuditRequestMetadata;
+}
+
+export type CreateShipmentResult =
+  | { ok: true; shipment: ShipmentView; order: typeof orders.$inferSelect }
+  | { ok: false; reason: 'not_found' }
+  | { ok: false; reason: 'not_shippable'; status: OrderStatus }
+  | Exclude<ShipmentPlan, { ok: true }>;
+
+/**
+ * Packs some or all of an order's remaining units into a new shipment. The
+ * first shipment moves a paid order to fulfilling. The order row stays locked
+ * so two shipments can't take the same units.
+ */
+export async function createShipment(orderDbId: number, input: CreateShipmentInput): Promise<CreateShipmentResult> {
+  return db.transaction(async (tx) => {
+    const [order] = await tx
+      .select()
+      .from(orders)
+      .where(eq(orders.id, orderDbId))
+      .for('update');
+
+    if (!order) {
+      return { ok: false, reason: 'not_found' };
+    }
+
+    if (!SHIPPABLE_ORDER_STATUSES.includes(order.status)) {
+      return { ok: false, reason: 'not_shippable', status: order.status };
+    }
+
+    const plan = planShipment(await loadFulfillmentLines(tx, order.id), input.items);
+    if (!plan.ok) {
+      return plan;
+    }
+
+    const [shipment] = await tx.insert(shipments).values({
+      order_id: order.id,
+      carrier: input.carrier,
+      tracking_number: input.trackingNumber?.trim() || null,
+      actor: input.actor,
+    }).returning();
+
+    await tx.insert(shipmentItems).values(
+      plan.lines.map(line => ({
+        shipment_id: shipment.id,
+        order_item_id: line.orderItemId,
+        quantity: line.quantity,
+      }))
+    );
+
+    let updatedOrder = order;
+    if (order.status === 'paid') {
+      const transition = await transitionOrderStatus(
+        order.id,
+        'fulfilling',
+        { actor: input.actor, reason: 'Shipment created' },
+        tx
+      );
+      if (transition.ok) {
+        updatedOrder = transition.order;
+      }
+    }
+
+    await recordAuditEvent({
+      actor: input.actor,
+      action: 'order.shipment_created',
+      entityType: 'order',
+      entityId: order.order_id,
+      before: { status: order.status },
+      after: {
+        status: updatedOrder.status,
+        shipment_id: shipment.id,
+        carrier: shipment.carrier,
+        tracking_number: shipment.tracking_number,
+        items: plan.lines,
+      },
+      request: input.request,
+    }, tx);
+
+    const [view] = await loadShipmentViews(tx, order.id, shipment.id);
+    return { ok: true, shipment: view, order: updatedOrder };
+  });
+}
+
+export interface MarkShipmentShippedInput {
+  // Replaces the tracking number given when the shipment was created
+  trackingNumber?: string | null;
+  actor: string;
+  request?: AuditRequestMetadata;
+}
+
+export type MarkShipmentShippedResult =
+  | {
+      ok: true;
+      shipment: ShipmentView;
+      order: typeof orders.$inferSelect;
+      // The order moved to shipped because nothing is left to send
+      orderShipped: boolean;
+    }
+  | { ok: false; reason: 'not_found' }
+  | { ok: false; reason: 'already_shipped' }
+  | { ok: false; reason: 'not_shippable'; status: OrderStatus };
+
+/**
+ * Records that a shipment was handed to the carrier. Once every unit that
+ * wasn't refunded has been sent, the order moves to shipped.
+ */
+export async function markShipmentShipped(
+  orderDbId: number,
+  shipmentId: number,
+  input: MarkShipmentShippedInput
+): Promise<MarkShipmentShippedResult> {
+  return db.transaction(async (tx) => {
+    const [order] = await tx
+      .select()
+      .from(orders)
+      .where(eq(orders.id, orderDbId))
+      .for('update');
+
+    const [shipment] = order
+      ? await tx
+          .select()
+          .from(shipments)
+          .where(and(eq(shipments.id, shipmentId), eq(shipments.order_id, order.id)))
+      : [];
+
+    if (!order || !shipment) {
+      return { ok: false, reason: 'not_found' };
+    }
+
+    if (shipment.status === 'shipped') {
+      return { ok: false, reason: 'already_shipped' };
+    }
+
+    // Creating the shipment moved the order to fulfilling; it may have been cancelled or refunded since
+    if (order.status !== 'fulfilling') {
+      return { ok: false, reason: 'not_shippable', status: order.status };
+    }
+
+    const trackingNumber = input.trackingNumber === undefined
+      ? shipment.tracking_number
+      : input.trackingNumber?.trim() || null;
+
+    await tx
+      .update(shipments)
+      .set({ status: 'shipped', tracking_number: trackingNumber, shipped_at: new Date(), updated_at: new Date() })
+      .where(eq(shipments.id, shipment.id));
+
+    // Sent units count as shipped here; packed ones are still in the warehouse
+    const lines = await loadFulfillmentLines(tx, order.id);
+    const allSent = lines.every(line => shippableQuantity({ ...line, shippedQuantity: line.sentQuantity }) === 0);
+
+    let updatedOrder = order;
+    if (allSent) {
+      const transition = await transitionOrderStatus(
+        order.id,
+        'shipped',
+        { actor: input.actor, reason: 'All items shipped' },
+        tx
+      );
+      if (transition.ok) {
+        updatedOrder = transition.order;
+      }
+    }
+
+    await recordAuditEvent({
+      actor: input.actor,
+      action: 'order.shipment_shipped',
+      entityType: 'order',
+      entityId: order.order_id,
+      before: { status: order.status, shipment_status: shipment.status, tracking_number: shipment.tracking_number },
+      after: {
+        status: updatedOrder.status,
+        shipment_id: shipment.id,
+        shipment_status: 'shipped',
+        tracking_number: trackingNumber,
+      },
+      request: input.request,
+    }, tx);
+
+    const [view] = await loadShipmentViews(tx, order.id, shipment.id);
+    return { ok: true, shipment: view, order: updatedOrder, orderShipped: updatedOrder.status === 'shipped' };
+  });
+}
@@ -0,0 +1,154 @@
+// Shipping zones, the methods offered in each and what they cost. No database
+// imports, so the schema, the checkout page and the API routes share them.
+// Amounts are in cents; see docs/shipping.md for changing them.
+
+export const SHIPPING_METHODS = ['standard', 'express'] as const;
+export type ShippingMethod = typeof SHIPPING_METHODS[number];
+
+export const SHIPPING_METHOD_NAMES: Record<ShippingMethod, string> = {
+  standard: 'Standard',
+  express: 'Express',
+};
+
+export type ShippingPricing =
+  | { type: 'flat'; amountCents: number }
+  // The base price plus a charge for every started kilogram
+  | { type: 'weight'; baseCents: number; perKgCents: number };
+
+export interface ShippingMethodRate {
+  method: ShippingMethod;
+  // Shown to shoppers, e.g. "3-5 business days"
+  delivery: string;
+  pricing: ShippingPricing;
+  // Free once the subtotal after discounts reaches this
+  freeOverCents?: number;
+  // Whether free-shipping discount codes make this method free
+  freeWithCode?: boolean;
+}
+
+export interface ShippingZone {
+  id: string;
+  name: string;
+  countries: string[]; // ISO 3166-1 alpha-2
+  methods: ShippingMethodRate[];
+}
+
+export interface ShippingOption {
+  method: ShippingMethod;
+  name: string;
+  delivery: string;
+  costCents: number;
+  // Before a threshold or code made it free
+  regularCostCents: number;
+}
+
+// What an order's shipping is priced on
+export interface ShippingBasis {
+  weightGrams: number;
+  // Subtotal after discounts, for free-shipping thresholds
+  subtotalCents: number;
+  // A free-shipping discount code was applied
+  freeShippingCode: boolean;
+}
+
+// Every country in address-formats.ts belongs to exactly one zone
+export const SHIPPING_ZONES: ShippingZone[] = [
+  {
+    id: 'domestic',
+    name: 'United States',
+    countries: ['US'],
+    methods: [
+      {
+        method: 'standard', delivery: '3-5 business days',
+        pricing: { type: 'flat', amountCents: 599 }, freeOverCents: 2500, freeWithCode: true,
+      },
+      {
+        method: 'express', delivery: '1-2 business days',
+        pricing: { type: 'weight', baseCents: 1299, perKgCents: 400 },
+      },
+    ],
+  },
+  {
+    id: 'north_america',
+    name: 'Canada and Mexico',
+    countries: ['CA', 'MX'],
+    methods: [
+      {
+        method: 'standard', delivery: '5-8 business days',
+        pricing: { type: 'weight', baseCents: 999, perKgCents: 300 }, freeOverCents: 7500, freeWithCode: true,
+      },
+      {
+        method: 'express', delivery: '2-4 business days',
+        pricing: { type: 'weight', baseCents: 2499, perKgCents: 600 },
+      },
+    ],
+  },
+  {
+    id: 'international',
+    name: 'International',
+    countries: ['GB', 'IE', 'AU', 'NZ', 'DE', 'FR', 'ES', 'IT', 'NL', 'CH', 'BR', 'JP'],
+    methods: [
+      {
+        method: 'standard', delivery: '7-14 business days',
+        pricing: { type: 'weight', baseCents: 1499, perKgCents: 500 }, freeOverCents: 15000, freeWithCode: true,
+      },
+      {
+        method: 'express', delivery: '3-5 business days',
+        pricing: { type: 'weight', baseCents: 3999, perKgCents: 1000 },
+      },
+    ],
+  },
+];
+
+export function isShippingMethod(value: unknown): value is ShippingMethod {
+  return typeof value === 'string' && (SHIPPING_METHODS as readonly string[]).includes(value);
+}
+
+export function findShippingZone(country: string, zones: ShippingZone[] = SHIPPING_ZONES): ShippingZone | undefined {
+  const normalized = country.trim().toUpperCase();
+  return zones.find(zone => zone.countries.includes(normalized));
+}
+
+export function shippingCostCents(pricing: ShippingPricing, weightGrams: number): number {
+  if (pricing.type === 'flat') {
+    return pricing.amountCents;
+  }
+  return pricing.baseCents + pricing.perKgCents * Math.ceil(Math.max(weightGrams, 0) / 1000);
+}
+
+/**
+ * The methods offered for a country with what each costs for this order,
+ * cheapest first. Empty where we don't ship.
+ */
+export function quoteShippingOptions(
+  country: string,
+  basis: ShippingBasis,
+  zones: ShippingZone[] = SHIPPING_ZONES
+): ShippingOption[] {
+  const zone = findShippingZone(country, zones);
+  if (!zone) {
+    return [];
+  }
+
+  return zone.methods
+    .map(rate => {
+      const regularCostCents = shippingCostCents(rate.pricing, basis.weightGrams);
+      const free = (rate.freeOverCents !== undefined && basis.subtotalCents >= rate.freeOverCents)
+        || (rate.freeWithCode === true && basis.freeShippingCode);
+      return {
+        method: rate.method,
+        name: SHIPPING_METHOD_NAMES[rate.method],
+        delivery: rate.delivery,
+        costCents: free ? 0 : regularCostCents,
+        regularCostCents,
+      };
+    })
+    .sort((a, b) => a.costCents - b.costCents);
+}
+
+/**
+ * The subtotal from which standard shipping to a country is free, if there is one
+ */
+export function freeShippingThresholdCents(country: string): number | undefined {
+  return findShippingZone(country)?.methods.find(rate => rate.method === 'standard')?.freeOverCents;
+}
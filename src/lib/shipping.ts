@@ -0,0 +1,48 @@
+import { inArray } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { products } from '@/lib/db/schema';
+import { fromCents, type DbExecutor } from '@/lib/inventory';
+import { quoteShippingOptions, type ShippingOption } from '@/lib/shipping-rates';
+
+// A shipping method as the checkout page offers it
+export interface ShippingOptionSummary {
+  method: ShippingOption['method'];
+  name: string;
+  delivery: string;
+  cost: string;
+  regularCost: string;
+}
+
+export function summarizeShippingOption(option: ShippingOption): ShippingOptionSummary {
+  return {
+    method: option.method,
+    name: option.name,
+    delivery: option.delivery,
+    cost: fromCents(option.costCents),
+    regularCost: fromCents(option.regularCostCents),
+  };
+}
+
+/**
+ * Prices the shipping methods for an order going to `country`. Weight comes
+ * from the products; `subtotalCents` is after discounts.
+ */
+export async function quoteShipping(
+  country: string,
+  lines: Array<{ productId: number; quantity: number }>,
+  subtotalCents: number,
+  freeShippingCode: boolean,
+  executor: DbExecutor = db
+): Promise<ShippingOption[]> {
+  const productIds = lines.map(line => line.productId);
+  const rows = productIds.length === 0
+    ? []
+    : await executor
+        .select({ id: products.id, weightGrams: products.weight_grams })
+        .from(products)
+        .where(inArray(products.id, productIds));
+  const weights = new Map(rows.map(row => [row.id, row.weightGrams]));
+
+  const weightGrams = lines.reduce((sum, line) => sum + (weights.get(line.productId) ?? 0) * line.quantity, 0);
+  return quoteShippingOptions(country, { weightGrams, subtotalCents, freeShippingCode });
+}
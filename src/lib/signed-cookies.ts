@@ -0,0 +1,57 @@
+// HMAC-signed session cookies. Runs in the Edge middleware as well as on the
+// server, so only Web Crypto is used here and nothing touches the database.
+
+function base64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+async function sign(payload: string, secret: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return base64Url(new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(payload))));
+}
+
+/**
+ * Builds the cookie value `<token>.<expires unix seconds>.<hmac>`
+ */
+export async function signSessionCookie(token: string, expiresAt: Date, secret: string): Promise<string> {
+  const payload = `${token}.${Math.floor(expiresAt.getTime() / 1000)}`;
+  return `${payload}.${await sign(payload, secret)}`;
+}
+
+/**
+ * Returns the session token when the cookie is untampered and unexpired. The
+ * database still decides whether the session exists and was not revoked.
+ */
+export async function verifySessionCookie(
+  value: string | undefined,
+  secret: string | null,
+  now: number = Date.now()
+): Promise<string | null> {
+  if (!value || !secret) return null;
+
+  const parts = value.split('.');
+  if (parts.length !== 3) return null;
+
+  const [token, expires, signature] = parts;
+  if (!token || !/^\d+$/.test(expires) || Number(expires) * 1000 <= now) return null;
+
+  return constantTimeEqual(signature, await sign(`${token}.${expires}`, secret)) ? token : null;
+}
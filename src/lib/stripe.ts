@@ -9,6 +9,7 @@ export interface PaymentConfig {
   isDevelopment: boolean;
   stripePublishableKey: string;
   enableDevBypass: boolean;
+  provider: 'mock' | 'stripe';
 }
 
 // Get Stripe configuration based on environment
@@ -38,6 +39,8 @@ export function getPaymentConfig(): PaymentConfig {
     // Enable dev bypass in production for portfolio/demo purposes
     // Can be disabled by setting NEXT_PUBLIC_ENABLE_DEV_BYPASS=false
     enableDevBypass: process.env.NEXT_PUBLIC_ENABLE_DEV_BYPASS !== 'false',
+    // Server-side payment backend; the local mock is used unless Stripe is explicitly selected
+    provider: process.env.PAYMENT_PROVIDER === 'stripe' ? 'stripe' : 'mock',
   };
 }
 
@@ -0,0 +1,172 @@
+// Sales tax, VAT and GST rates for the places we ship to, and the rules for
+// working out the tax on an order from its shipping address. No database
+// imports, so the schema, the API routes and their tests share them.
+//
+// Prices are tax-exclusive everywhere: tax is added on top of the item
+// prices, after any discount. Rates are percentages and must be kept current
+// by hand; see docs/tax.md.
+
+import { findAddressRegion, getCountryAddressFormat } from './address-formats';
+
+// `food` is for products that count as groceries where groceries are taxed
+// at a lower rate; `exempt` products are never taxed
+export const TAX_CATEGORIES = ['standard', 'food', 'exempt'] as const;
+export type TaxCategory = typeof TAX_CATEGORIES[number];
+
+export const DEFAULT_TAX_CATEGORY: TaxCategory = 'standard';
+
+export interface TaxRate {
+  country: string; // ISO 3166-1 alpha-2
+  // Region code as stored on addresses; unset for a country-wide rate
+  region?: string;
+  // Postal codes starting with this (spaces ignored); for city or county rates
+  postalPrefix?: string;
+  // Shown to shoppers next to the amount
+  name: string;
+  // Percent per category; `food` defaults to the standard rate
+  rates: { standard: number; food?: number };
+}
+
+// Where the shipping address is, as far as tax is concerned
+export interface TaxAddress {
+  country: string;
+  region?: string;
+  postalCode?: string;
+}
+
+export interface TaxableLine {
+  productId: number;
+  variantId: number;
+  category: TaxCategory;
+  // What the shopper pays for the line before tax, i.e. after its discount
+  taxableCents: number;
+}
+
+export interface LineTax {
+  productId: number;
+  variantId: number;
+  ratePercent: number;
+  taxCents: number;
+}
+
+export interface TaxCalculation {
+  taxCents: number;
+  // Null where no tax applies to the address
+  name: string | null;
+  lines: LineTax[];
+}
+
+// State rates only; states without a sales tax (AK, DE, MT, NH, OR) have no entry
+const US_STATE_RATES: Array<[string, number, number]> = [
+  ['AL', 4, 3], ['AZ', 5.6, 0], ['AR', 6.5, 0.125], ['CA', 7.25, 0], ['CO', 2.9, 0],
+  ['CT', 6.35, 0], ['DC', 6, 0], ['FL', 6, 0], ['GA', 4, 0], ['HI', 4, 4], ['ID', 6, 6],
+  ['IL', 6.25, 1], ['IN', 7, 0], ['IA', 6, 0], ['KS', 6.5, 0], ['KY', 6, 0], ['LA', 5, 0],
+  ['ME', 5.5, 0], ['MD', 6, 0], ['MA', 6.25, 0], ['MI', 6, 0], ['MN', 6.875, 0], ['MS', 7, 5],
+  ['MO', 4.225, 1.225], ['NE', 5.5, 0], ['NV', 6.85, 0], ['NJ', 6.625, 0], ['NM', 4.875, 0],
+  ['NY', 4, 0], ['NC', 4.75, 0], ['ND', 5, 0], ['OH', 5.75, 0], ['OK', 4.5, 0], ['PA', 6, 0],
+  ['RI', 7, 0], ['SC', 6, 0], ['SD', 4.2, 4.2], ['TN', 7, 4], ['TX', 6.25, 0], ['UT', 6.1, 3],
+  ['VT', 6, 0], ['VA', 5.3, 1], ['WA', 6.5, 0], ['WV', 6, 0], ['WI', 5, 0], ['WY', 4, 0],
+  ['PR', 11.5, 0],
+];
+
+// Combined state and local rates where we ship most
+const US_LOCAL_RATES: Array<[string, string, string, number, number]> = [
+  ...['100', '101', '102', '103', '104', '111', '112', '113', '114', '116']
+    .map((prefix): [string, string, string, number, number] => ['NY', prefix, 'New York City', 8.875, 0]),
+  ['IL', '606', 'Chicago', 10.25, 2.25],
+  ['CA', '900', 'Los Angeles', 9.75, 0],
+  ['WA', '981', 'Seattle', 10.35, 0],
+  ['TX', '770', 'Houston', 8.25, 0],
+];
+
+const CA_PROVINCE_RATES: Array<[string, string, number]> = [
+  ['AB', 'GST', 5], ['BC', 'GST + PST', 12], ['MB', 'GST + PST', 12], ['NB', 'HST', 15],
+  ['NL', 'HST', 15], ['NS', 'HST', 14], ['NT', 'GST', 5], ['NU', 'GST', 5], ['ON', 'HST', 13],
+  ['PE', 'HST', 15], ['QC', 'GST + QST', 14.975], ['SK', 'GST + PST', 11], ['YT', 'GST', 5],
+];
+
+// Brazil is left out: its state taxes are collected differently and we don't charge them yet
+export const TAX_RATES: TaxRate[] = [
+  ...US_STATE_RATES.map(([region, standard, food]) => ({
+    country: 'US', region, name: `${region} sales tax`, rates: { standard, food },
+  })),
+  ...US_LOCAL_RATES.map(([region, postalPrefix, city, standard, food]) => ({
+    country: 'US', region, postalPrefix, name: `${city} sales tax`, rates: { standard, food },
+  })),
+  // Basic groceries are zero-rated across Canada
+  ...CA_PROVINCE_RATES.map(([region, name, standard]) => ({
+    country: 'CA', region, name, rates: { standard, food: 0 },
+  })),
+  { country: 'GB', name: 'VAT', rates: { standard: 20, food: 0 } },
+  { country: 'IE', name: 'VAT', rates: { standard: 23, food: 0 } },
+  { country: 'AU', name: 'GST', rates: { standard: 10, food: 0 } },
+  { country: 'NZ', name: 'GST', rates: { standard: 15 } },
+  { country: 'DE', name: 'VAT', rates: { standard: 19, food: 7 } },
+  { country: 'FR', name: 'VAT', rates: { standard: 20, food: 5.5 } },
+  { country: 'ES', name: 'VAT', rates: { standard: 21, food: 10 } },
+  { country: 'IT', name: 'VAT', rates: { standard: 22, food: 10 } },
+  { country: 'NL', name: 'VAT', rates: { standard: 21, food: 9 } },
+  { country: 'CH', name: 'VAT', rates: { standard: 8.1, food: 2.6 } },
+  { country: 'MX', name: 'IVA', rates: { standard: 16, food: 0 } },
+  { country: 'JP', name: 'Consumption tax', rates: { standard: 10, food: 8 } },
+];
+
+export function isTaxCategory(value: unknown): value is TaxCategory {
+  return typeof value === 'string' && (TAX_CATEGORIES as readonly string[]).includes(value);
+}
+
+/**
+ * The most specific rate for an address: a postal prefix match (the longest
+ * one) beats a region rate, which beats a country-wide rate. Null where we
+ * don't charge tax.
+ */
+export function findTaxRate(address: TaxAddress, rates: TaxRate[] = TAX_RATES): TaxRate | null {
+  const country = address.country.trim().toUpperCase();
+  const format = getCountryAddressFormat(country);
+  const regionInput = (address.region ?? '').trim();
+  // Regions typed by name still match the code they are stored under
+  const region = (format && regionInput ? findAddressRegion(format, regionInput)?.code ?? regionInput : regionInput).toUpperCase();
+  const postalCode = (address.postalCode ?? '').replace(/\s+/g, '').toUpperCase();
+
+  let best: TaxRate | null = null;
+  let bestScore = -1;
+  for (const rate of rates) {
+    if (rate.country !== country) continue;
+    if (rate.region && rate.region !== region) continue;
+    if (rate.postalPrefix && !postalCode.startsWith(rate.postalPrefix)) continue;
+
+    const score = (rate.postalPrefix ? 100 + rate.postalPrefix.length : 0) + (rate.region ? 10 : 0);
+    if (score > bestScore) {
+      best = rate;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+export function taxRatePercent(rate: TaxRate, category: TaxCategory): number {
+  if (category === 'exempt') return 0;
+  return category === 'food' ? rate.rates.food ?? rate.rates.standard : rate.rates.standard;
+}
+
+/**
+ * Works out the tax on each line, rounded to the cent per line. The order's
+ * tax is the sum of its lines, so what is stored per line always adds up.
+ */
+export function calculateTax(address: TaxAddress, lines: TaxableLine[], rates: TaxRate[] = TAX_RATES): TaxCalculation {
+  const rate = findTaxRate(address, rates);
+
+  const taxed = lines.map(line => {
+    const ratePercent = rate ? taxRatePercent(rate, line.category) : 0;
+    // Rates go to a thousandth of a percent, so work in whole thousandths
+    const taxCents = Math.round(Math.max(line.taxableCents, 0) * Math.round(ratePercent * 1000) / 100000);
+    return { productId: line.productId, variantId: line.variantId, ratePercent, taxCents };
+  });
+
+  return {
+    taxCents: taxed.reduce((sum, line) => sum + line.taxCents, 0),
+    name: rate?.name ?? null,
+    lines: taxed,
+  };
+}
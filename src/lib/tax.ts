@@ -0,0 +1,51 @@
+import { inArray } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { products } from '@/lib/db/schema';
+import { fromCents, type DbExecutor } from '@/lib/inventory';
+import type { LineDiscount } from '@/lib/promotion-rules';
+import {
+  calculateTax,
+  DEFAULT_TAX_CATEGORY,
+  type TaxAddress,
+  type TaxCalculation,
+  type TaxCategory,
+} from '@/lib/tax-rates';
+
+// What the cart and checkout pages show for the tax on an order
+export interface TaxSummary {
+  name: string | null;
+  amount: string;
+}
+
+export function summarizeTax(calculation: TaxCalculation): TaxSummary {
+  return { name: calculation.name, amount: fromCents(calculation.taxCents) };
+}
+
+/**
+ * Works out the tax on priced lines for a shipping address. Each line is
+ * taxed on its total less its share of any discount, at the rate for the
+ * product's tax category.
+ */
+export async function quoteTax(
+  address: TaxAddress,
+  lines: Array<{ productId: number; variantId: number; lineTotalCents: number }>,
+  discounts: LineDiscount[] = [],
+  executor: DbExecutor = db
+): Promise<TaxCalculation> {
+  const productIds = lines.map(line => line.productId);
+  const rows = productIds.length === 0
+    ? []
+    : await executor
+        .select({ id: products.id, taxCategory: products.tax_category })
+        .from(products)
+        .where(inArray(products.id, productIds));
+  const categories = new Map<number, TaxCategory>(rows.map(row => [row.id, row.taxCategory]));
+
+  return calculateTax(address, lines.map(line => ({
+    productId: line.productId,
+    variantId: line.variantId,
+    category: categories.get(line.productId) ?? DEFAULT_TAX_CATEGORY,
+    taxableCents: line.lineTotalCents
+      - (discounts.find(discount => discount.variantId === line.variantId)?.discountCents ?? 0),
+  })));
+}
@@ -1,3 +1,5 @@
+import type { VariantOptions } from './variant-options';
+
 export interface Product {
   id: number; // Changed from string to number for database compatibility
   name: string;
@@ -11,6 +13,31 @@ export interface Product {
   is_active?: boolean;
   created_at?: string;
   updated_at?: string;
+  // What is actually sold; price and stock_quantity above summarize them
+  variants?: ProductVariant[];
+}
+
+export interface ProductVariant {
+  id: number;
+  product_id: number;
+  sku: string;
+  options: VariantOptions;
+  price: string;
+  stock_quantity: number;
+  image_url?: string | null;
+  sort_order?: number;
+  is_active?: boolean;
+}
+
+// A variant running low, named with its options as the admin dashboard lists it
+export interface LowStockVariant {
+  id: number;
+  product_id: number;
+  sku: string;
+  name: string;
+  slug: string;
+  price: string;
+  stock_quantity: number;
 }
 
 export interface Review {
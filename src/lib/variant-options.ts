@@ -0,0 +1,194 @@
+// Product variants: the options a product comes in and how a shopper's choice
+// picks one of them. No database imports, so the schema, the product page and
+// the API routes share them.
+
+// In the order the product page shows them
+export const VARIANT_OPTIONS = ['flavor', 'size'] as const;
+export type VariantOption = typeof VARIANT_OPTIONS[number];
+
+// A product without options has a single variant with `{}`
+export type VariantOptions = Partial<Record<VariantOption, string>>;
+
+export const VARIANT_OPTION_NAMES: Record<VariantOption, string> = {
+  flavor: 'Flavor',
+  size: 'Size',
+};
+
+export const VARIANT_SKU_PATTERN = /^[A-Z0-9][A-Z0-9-]{1,63}$/;
+
+// Enough of a variant to pick one on the product page
+export interface SelectableVariant {
+  id: number;
+  options: VariantOptions;
+  is_active?: boolean;
+}
+
+export interface VariantInput {
+  sku: string;
+  options: VariantOptions;
+  price: string;
+  stockQuantity: number;
+  imageUrl: string | null;
+  sortOrder: number;
+  isActive: boolean;
+}
+
+export type VariantInputErrors = Partial<Record<keyof VariantInput, string>>;
+
+export function isVariantOption(value: unknown): value is VariantOption {
+  return typeof value === 'string' && (VARIANT_OPTIONS as readonly string[]).includes(value);
+}
+
+/**
+ * SKUs are matched case-insensitively and stored upper-cased
+ */
+export function normalizeSku(sku: string): string {
+  return sku.trim().toUpperCase();
+}
+
+/**
+ * The SKU a new product's default variant gets: its slug upper-cased, with
+ * -2, -3 and so on added when that is already taken
+ */
+export function defaultVariantSku(slug: string, taken: ReadonlySet<string>): string {
+  const base = normalizeSku(slug).slice(0, 64);
+  if (!taken.has(base)) {
+    return base;
+  }
+
+  for (let n = 2; ; n++) {
+    const suffix = `-${n}`;
+    const sku = `${base.slice(0, 64 - suffix.length)}${suffix}`;
+    if (!taken.has(sku)) {
+      return sku;
+    }
+  }
+}
+
+/**
+ * How a variant is named next to its product, e.g. "Vanilla / 2 lb". Empty
+ * for a product's only, option-less variant.
+ */
+export function variantLabel(options: VariantOptions): string {
+  return VARIANT_OPTIONS
+    .map(option => options[option])
+    .filter((value): value is string => Boolean(value))
+    .join(' / ');
+}
+
+// The product name with the variant's options, as carts, orders and emails show it
+export function variantDisplayName(productName: string, options: VariantOptions): string {
+  const label = variantLabel(options);
+  return label ? `${productName} (${label})` : productName;
+}
+
+// The options a product's variants differ in, in display order
+export function productOptions(variants: SelectableVariant[]): VariantOption[] {
+  return VARIANT_OPTIONS.filter(option => variants.some(variant => variant.options[option]));
+}
+
+// Distinct values of an option, in the order the variants list them
+export function optionValues(variants: SelectableVariant[], option: VariantOption): string[] {
+  const values: string[] = [];
+  for (const variant of variants) {
+    const value = variant.options[option];
+    if (value && !values.includes(value)) {
+      values.push(value);
+    }
+  }
+  return values;
+}
+
+/**
+ * The active variant matching every option in `selection`, or undefined when
+ * that combination isn't sold
+ */
+export function findVariant<T extends SelectableVariant>(variants: T[], selection: VariantOptions): T | undefined {
+  const options = productOptions(variants);
+  return variants.find(variant =>
+    variant.is_active !== false && options.every(option => variant.options[option] === selection[option])
+  );
+}
+
+function parseOptions(value: unknown): VariantOptions | undefined {
+  if (value === null || value === undefined) return {};
+  if (typeof value !== 'object' || Array.isArray(value)) return undefined;
+
+  const options: VariantOptions = {};
+  for (const [key, raw] of Object.entries(value)) {
+    if (!isVariantOption(key) || (raw !== null && typeof raw !== 'string')) return undefined;
+    const text = raw?.trim();
+    if (text) {
+      if (text.length > 50) return undefined;
+      options[key] = text;
+    }
+  }
+  return options;
+}
+
+/**
+ * Checks a variant submitted from the admin API. With `existing`, fields
+ * missing from `body` keep their current values.
+ */
+export function parseVariantInput(
+  body: Record<string, unknown>,
+  existing?: VariantInput
+): { ok: true; variant: VariantInput } | { ok: false; errors: VariantInputErrors } {
+  const errors: VariantInputErrors = {};
+  const has = (field: string) => !existing || field in body;
+
+  const sku = has('sku') ? normalizeSku(typeof body.sku === 'string' ? body.sku : '') : existing!.sku;
+  if (!VARIANT_SKU_PATTERN.test(sku)) {
+    errors.sku = 'SKUs are 2-64 letters, digits or dashes';
+  }
+
+  const options = has('options') ? parseOptions(body.options) : existing!.options;
+  if (options === undefined) {
+    errors.options = `Options must map ${VARIANT_OPTIONS.join(' or ')} to a value of at most 50 characters`;
+  }
+
+  let price = existing?.price ?? '0.00';
+  if (has('price')) {
+    const amount = Number(body.price);
+    if (body.price === null || body.price === '' || !Number.isFinite(amount) || amount <= 0) {
+      errors.price = 'Price must be more than 0';
+    } else {
+      price = amount.toFixed(2);
+    }
+  }
+
+  let stockQuantity = existing?.stockQuantity ?? 0;
+  if (has('stockQuantity') && body.stockQuantity !== undefined) {
+    const stock = Number(body.stockQuantity);
+    if (!Number.isInteger(stock) || stock < 0) {
+      errors.stockQuantity = 'Stock must be a whole number of 0 or more';
+    } else {
+      stockQuantity = stock;
+    }
+  }
+
+  const imageUrl = has('imageUrl')
+    ? (typeof body.imageUrl === 'string' && body.imageUrl.trim() ? body.imageUrl.trim() : null)
+    : existing!.imageUrl;
+
+  let sortOrder = existing?.sortOrder ?? 0;
+  if (has('sortOrder') && body.sortOrder !== undefined) {
+    const order = Number(body.sortOrder);
+    if (!Number.isInteger(order)) {
+      errors.sortOrder = 'Sort order must be a whole number';
+    } else {
+      sortOrder = order;
+    }
+  }
+
+  const isActive = has('isActive') ? body.isActive !== false : existing!.isActive;
+
+  if (Object.keys(errors).length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    variant: { sku, options: options!, price, stockQuantity, imageUrl, sortOrder, isActive },
+  };
+}
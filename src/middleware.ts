@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  ADMIN_LOGIN_PATH,
+  ADMIN_SESSION_COOKIE,
+  getAdminSessionSecret,
+  requiresAdminSession,
+  verifyAdminSessionCookie,
+} from '@/lib/admin-session';
+
+// Turns away requests without a valid admin session cookie before they reach
+// admin pages or routes. Routes re-check the session against the database.
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+
+  if (!requiresAdminSession(pathname, request.method)) {
+    return NextResponse.next();
+  }
+
+  const token = await verifyAdminSessionCookie(
+    request.cookies.get(ADMIN_SESSION_COOKIE)?.value,
+    getAdminSessionSecret()
+  );
+
+  if (token) {
+    return NextResponse.next();
+  }
+
+  if (pathname.startsWith('/api/')) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  const loginUrl = new URL(ADMIN_LOGIN_PATH, request.url);
+  loginUrl.searchParams.set('next', `${pathname}${search}`);
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  matcher: ['/admin/:path*', '/api/admin/:path*', '/api/orders/:path*', '/api/products/:path*'],
+};